@@ -0,0 +1,78 @@
+/**
+ * Role permission matrix
+ * Maps every protected action to the organization roles allowed to perform it.
+ * Admins manage the organization, members run day-to-day operations, guests are read-only.
+ */
+import { OrganizationRole } from '../models/Organization';
+
+const ALL_ROLES: OrganizationRole[] = ['admin', 'member', 'guest'];
+const STAFF_ROLES: OrganizationRole[] = ['admin', 'member'];
+const ADMIN_ONLY: OrganizationRole[] = ['admin'];
+
+export const PERMISSIONS = {
+  locations: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    delete: ADMIN_ONLY
+  },
+  spaces: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    delete: ADMIN_ONLY
+  },
+  productTypes: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    delete: ADMIN_ONLY,
+    generateSpaces: ADMIN_ONLY
+  },
+  bookings: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    cancel: STAFF_ROLES
+  },
+  waitlist: {
+    read: ALL_ROLES,
+    manage: STAFF_ROLES // Add contacts and answer offers on their behalf
+  },
+  contacts: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    delete: ADMIN_ONLY,
+    merge: ADMIN_ONLY // Deletes the merged duplicate
+  },
+  whatsapp: {
+    read: ALL_ROLES,
+    send: STAFF_ROLES,
+    configure: ADMIN_ONLY
+  },
+  invoices: {
+    read: STAFF_ROLES,
+    create: STAFF_ROLES,
+    recordPayment: STAFF_ROLES,
+    refund: ADMIN_ONLY, // Moves money back out
+    void: ADMIN_ONLY
+  },
+  membershipPlans: {
+    read: ALL_ROLES,
+    create: STAFF_ROLES,
+    update: STAFF_ROLES,
+    delete: ADMIN_ONLY
+  },
+  subscriptions: {
+    read: ALL_ROLES,
+    manage: STAFF_ROLES // Subscribe, switch plan or cancel; may issue invoices
+  },
+  analytics: {
+    read: ALL_ROLES
+  },
+  organization: {
+    read: ALL_ROLES,
+    manage: ADMIN_ONLY
+  }
+};
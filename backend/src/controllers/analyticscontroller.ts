@@ -14,8 +14,8 @@ export const getAnalytics = async (req: AuthRequest, res: Response) => {
     // Allow both authenticated and fallback access (like WhatsApp)
     let organizationId: mongoose.Types.ObjectId;
 
-    if (req.user?._id) {
-      organizationId = req.user._id;
+    if (req.organizationId) {
+      organizationId = req.organizationId;
       console.log("🔐 Using authenticated organization:", organizationId);
     } else {
       const defaultOrgId =
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
-import { User } from '../models/User';
-import { generateToken, generateRefreshToken } from '../utils/jwt';
+import { User, IUser } from '../models/User';
+import { OrganizationService } from '../services/organizationService';
+import mailService from '../services/mailService';
+import { hashToken } from '../utils/secureToken';
+import { SessionService, SessionContext } from '../services/sessionService';
 import { AuthRequest } from '../middleware/auth';
 import Joi from 'joi';
 
@@ -16,6 +19,52 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().hex().required(),
+  newPassword: Joi.string().min(6).required(),
+  confirmPassword: Joi.string().valid(Joi.ref('newPassword')).required()
+    .messages({ 'any.only': 'Passwords do not match' })
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().hex().required()
+});
+
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+// Device details stored with a session so users can recognise where they are signed in
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+// Send a fresh verification link; failures are logged so they never block registration
+const sendVerificationEmail = async (user: IUser): Promise<boolean> => {
+  try {
+    const token = user.createEmailVerificationToken();
+    await user.save();
+    await mailService.sendEmailVerificationEmail(user.email, user.firstName, token, user.emailVerificationExpires!);
+    return true;
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+    return false;
+  }
+};
+
+// Look up the user holding an unexpired password reset token
+const findUserByResetToken = (token: string) => {
+  return User.findOne({
+    resetPasswordToken: hashToken(token),
+    resetPasswordExpires: { $gt: new Date() }
+  });
+};
+
 export const register = async (req: Request, res: Response) => {
   try {
     const { error, value } = registerSchema.validate(req.body);
@@ -46,15 +95,21 @@ export const register = async (req: Request, res: Response) => {
 
     await user.save();
 
-    const token = generateToken(user);
-    const refreshToken = generateRefreshToken(user);
+    // Every new account starts out as the admin of its own organization
+    const organization = await OrganizationService.createOrganizationForUser(user);
+    const membership = organization.getMembership(user._id);
+
+    await sendVerificationEmail(user);
+
+    const { token, refreshToken } = await SessionService.createSession(user, getSessionContext(req));
 
     const userResponse = {
       id: user._id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role,
+      role: membership?.role || user.role,
+      organizationId: user.organizationId,
       isEmailVerified: user.isEmailVerified,
       onboardingCompleted: user.onboardingCompleted,
       onboardingSkipped: user.onboardingSkipped,
@@ -110,15 +165,17 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
-    const token = generateToken(user);
-    const refreshToken = generateRefreshToken(user);
+    const resolved = await OrganizationService.resolveMembership(user);
+
+    const { token, refreshToken } = await SessionService.createSession(user, getSessionContext(req));
 
     const userResponse = {
       id: user._id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role,
+      role: resolved?.membership.role || user.role,
+      organizationId: user.organizationId,
       isEmailVerified: user.isEmailVerified,
       onboardingCompleted: user.onboardingCompleted,
       onboardingSkipped: user.onboardingSkipped,
@@ -160,7 +217,8 @@ export const getProfile = async (req: AuthRequest, res: Response) => {
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role,
+      role: req.membership?.role || user.role,
+      organizationId: user.organizationId,
       isEmailVerified: user.isEmailVerified,
       onboardingCompleted: user.onboardingCompleted,
       onboardingSkipped: user.onboardingSkipped,
@@ -184,8 +242,49 @@ export const getProfile = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const logout = async (_req: AuthRequest, res: Response) => {
+export const refresh = async (req: Request, res: Response) => {
   try {
+    const { error, value } = refreshTokenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const rotated = await SessionService.rotateSession(value.refreshToken, getSessionContext(req));
+    if (!rotated) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired refresh token',
+        code: 'INVALID_REFRESH_TOKEN'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: {
+        token: rotated.token,
+        refreshToken: rotated.refreshToken
+      }
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const logout = async (req: AuthRequest, res: Response) => {
+  try {
+    if (req.sessionId) {
+      await SessionService.revokeSession(req.sessionId, 'logout');
+    }
+
     res.json({
       success: true,
       message: 'Logout successful'
@@ -197,4 +296,239 @@ export const logout = async (_req: AuthRequest, res: Response) => {
       message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+export const logoutAll = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const sessionsRevoked = await SessionService.revokeAllSessions(user._id, 'logout_all');
+
+    res.json({
+      success: true,
+      message: 'Signed out of all devices',
+      data: { sessionsRevoked }
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = forgotPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const message = 'If an account exists for this email, a password reset link has been sent';
+
+    const user = await User.findOne({ email: value.email.toLowerCase() });
+    if (user) {
+      const token = user.createPasswordResetToken();
+      await user.save();
+
+      try {
+        await mailService.sendPasswordResetEmail(user.email, user.firstName, token, user.resetPasswordExpires!);
+      } catch (mailError) {
+        console.error('Failed to send password reset email:', mailError);
+        user.resetPasswordToken = undefined;
+        user.resetPasswordExpires = undefined;
+        await user.save();
+
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to send password reset email'
+        });
+      }
+    }
+
+    // Same response whether or not the account exists, so emails can't be enumerated
+    res.json({
+      success: true,
+      message,
+      data: {
+        message,
+        resetTokenSent: true
+      }
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const validateResetToken = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+
+    const user = /^[a-f0-9]+$/i.test(token) ? await findUserByResetToken(token) : null;
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This password reset link is invalid or has expired',
+        data: { valid: false }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        valid: true,
+        email: user.email,
+        expiresAt: user.resetPasswordExpires
+      }
+    });
+  } catch (error) {
+    console.error('Validate reset token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = await findUserByResetToken(value.token);
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This password reset link is invalid or has expired'
+      });
+    }
+
+    // Single use: clear the token together with the password change
+    user.password = value.newPassword;
+    user.resetPasswordToken = undefined;
+    user.resetPasswordExpires = undefined;
+    await user.save();
+
+    // Anyone holding the old password may still be signed in elsewhere
+    await SessionService.revokeAllSessions(user._id, 'password_reset');
+
+    const message = 'Password has been reset successfully';
+
+    res.json({
+      success: true,
+      message,
+      data: {
+        message,
+        passwordReset: true
+      }
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = verifyEmailSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(value.token),
+      emailVerificationExpires: { $gt: new Date() }
+    });
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    user.isEmailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        email: user.email,
+        isEmailVerified: true
+      }
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const resendVerificationEmail = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    if (req.user.isEmailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified'
+      });
+    }
+
+    const sent = await sendVerificationEmail(req.user);
+    if (!sent) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to send verification email'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import app from '../app';
+import { User } from '../models/User';
+import { Organization } from '../models/Organization';
+import { Space, ISpace } from '../models/Space';
+import { Booking } from '../models/Booking';
+import { SpaceBookingLock } from '../models/SpaceBookingLock';
+import { Contact } from '../models/Contact';
+import { WaitlistEntry } from '../models/WaitlistEntry';
+import { SessionService } from '../services/sessionService';
+import { PricingService } from '../services/pricingService';
+import { WaitlistService } from '../services/waitlistService';
+import { zonedDateTimeToUtc, formatDateInTimezone } from '../utils/timeValidation';
+import { addDaysToDateString } from '../utils/recurrence';
+
+const WEEK = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+describe('POST /api/bookings', () => {
+  let mongo: MongoMemoryServer;
+  let token: string;
+  let space: ISpace;
+  let userId: mongoose.Types.ObjectId;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+    // The lock relies on its unique index to turn a second holder away
+    await SpaceBookingLock.init();
+
+    const user = new User({ email: 'owner@example.com', password: 'Password123!', firstName: 'Olivia', lastName: 'Owner' });
+    user.markOnboardingCompleted(false);
+    await user.save();
+
+    const organization = new Organization({ name: 'Test Coworking', ownerId: user._id });
+    organization.addMember(user._id, 'admin');
+    await organization.save();
+
+    user.organizationId = organization._id;
+    await user.save();
+    userId = user._id;
+
+    space = await Space.create({
+      organizationId: organization._id,
+      name: 'Board Room',
+      type: 'Meeting Room',
+      capacity: 10,
+      rates: { hourly: 500, currency: 'INR' },
+      workingHours: WEEK.map(day => ({ day, isOpen: true, openTime: '08:00', closeTime: '20:00' })),
+      useProductTypeHours: false,
+      createdBy: user._id,
+      updatedBy: user._id
+    });
+
+    ({ token } = await SessionService.createSession(user));
+  }, 120000);
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('books a slot once when the same request arrives several times at once', async () => {
+    const date = addDaysToDateString(formatDateInTimezone(new Date(), 'Asia/Kolkata'), 1);
+    const body = {
+      spaceId: space._id.toString(),
+      startTime: zonedDateTimeToUtc(date, '10:00', 'Asia/Kolkata').toISOString(),
+      endTime: zonedDateTimeToUtc(date, '11:00', 'Asia/Kolkata').toISOString(),
+      attendeeCount: 4,
+      customerName: 'Walk-in Customer'
+    };
+
+    const responses = await Promise.all(Array.from({ length: 8 }, () =>
+      request(app).post('/api/bookings').set('Authorization', `Bearer ${token}`).send(body)));
+
+    const statuses = responses.map(response => response.status).sort();
+    expect(statuses.filter(status => status === 201)).toHaveLength(1);
+    expect(statuses.filter(status => status === 409)).toHaveLength(7);
+    expect(await Booking.countDocuments({ spaceId: space._id })).toBe(1);
+  }, 60000);
+
+  it('leaves a freed slot to the booking that took it after the waitlist hold lost its lock', async () => {
+    const date = addDaysToDateString(formatDateInTimezone(new Date(), 'Asia/Kolkata'), 2);
+    const startTime = zonedDateTimeToUtc(date, '14:00', 'Asia/Kolkata');
+    const endTime = zonedDateTimeToUtc(date, '15:00', 'Asia/Kolkata');
+
+    const contact = await Contact.create({
+      organizationId: space.organizationId,
+      type: 'Lead',
+      firstName: 'Wendy',
+      lastName: 'Waiting',
+      email: 'wendy@example.com',
+      createdBy: userId,
+      updatedBy: userId
+    });
+    const entry = await WaitlistService.join({
+      organizationId: space.organizationId,
+      contact,
+      space,
+      startTime,
+      endTime,
+      attendeeCount: 2,
+      anySpaceOfType: false,
+      userId
+    });
+    const freed = await Booking.create({
+      organizationId: space.organizationId,
+      spaceId: space._id,
+      startTime,
+      endTime,
+      status: 'Cancelled',
+      customerName: 'Cancelled Customer',
+      attendeeCount: 2,
+      totalAmount: 500,
+      paymentStatus: 'Pending',
+      bookingReference: 'BKFREED001',
+      createdBy: userId,
+      updatedBy: userId
+    });
+
+    // While the hold is pricing, its lease lapses and a staff booking takes the slot
+    let competing: request.Response | undefined;
+    const quote = PricingService.quote.bind(PricingService);
+    jest.spyOn(PricingService, 'quote').mockImplementationOnce(async (input) => {
+      await SpaceBookingLock.updateOne({ spaceId: space._id }, { expiresAt: new Date(0) });
+      competing = await request(app).post('/api/bookings').set('Authorization', `Bearer ${token}`).send({
+        spaceId: space._id.toString(),
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        attendeeCount: 3,
+        customerName: 'Walk-in Customer'
+      });
+      return quote(input);
+    });
+
+    expect(await WaitlistService.offerFreedSlot(freed)).toBeNull();
+
+    expect(competing?.status).toBe(201);
+    expect(await Booking.countDocuments({ spaceId: space._id, startTime, status: { $ne: 'Cancelled' } })).toBe(1);
+    expect((await WaitlistEntry.findById(entry._id))!.status).toBe('Waiting');
+  }, 60000);
+});
@@ -1,21 +1,56 @@
-import { Response } from 'express';
-import { Booking } from '../models/Booking';
+import { Request, Response } from 'express';
+import { Booking, IBooking, IBookingCreditUsage } from '../models/Booking';
 import { Space } from '../models/Space';
-import { Contact } from '../models/Contact';
+import { Organization } from '../models/Organization';
+import { Contact, IContact } from '../models/Contact';
 import { AuthRequest } from '../middleware/auth';
+import { BookingService, SpaceLockHandle, SPACE_BUSY_MESSAGE } from '../services/bookingService';
+import { BookingSeriesService, SERIES_SCOPES } from '../services/bookingSeriesService';
+import { PricingService, BookingQuote } from '../services/pricingService';
+import { CancellationPolicyService } from '../services/cancellationPolicyService';
+import { MembershipService } from '../services/membershipService';
+import { WaitlistService } from '../services/waitlistService';
+import { BookingHoldService } from '../services/bookingHoldService';
+import { CheckInService } from '../services/checkInService';
+import { BookingLifecycleService } from '../services/bookingLifecycleService';
+import { SpaceScheduleService } from '../services/spaceScheduleService';
+import {
+  RecurrenceRule,
+  RECURRENCE_WEEKDAYS,
+  expandRecurrence,
+  parseRRule,
+  validateRecurrenceRule,
+  addDaysToDateString
+} from '../utils/recurrence';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 import { 
   validateBookingTime, 
   generateAvailableTimeSlots, 
-  getCurrentTimeInTimezone,
-  formatTimeValidationErrors,
+  zonedDateTimeToUtc,
+  formatDateInTimezone,
   canModifyBooking,
-  canCancelBooking,
   DEFAULT_TIME_CONFIG 
 } from '../utils/timeValidation';
 
 // Validation schemas
+const recurrenceSchema = Joi.alternatives().try(
+  // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=TU;COUNT=10"
+  Joi.string().trim().max(500),
+  Joi.object({
+    frequency: Joi.string().valid('daily', 'weekly', 'monthly').required(),
+    interval: Joi.number().integer().min(1).max(12).default(1),
+    byWeekday: Joi.array().items(Joi.string().valid(...RECURRENCE_WEEKDAYS)).unique().optional(),
+    count: Joi.number().integer().min(1).optional(),
+    until: Joi.date().optional()
+  }).xor('count', 'until')
+);
+
+const addOnsSchema = Joi.array().items(Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  quantity: Joi.number().integer().min(1).max(100).default(1)
+})).max(20).default([]);
+
 const createBookingSchema = Joi.object({
   spaceId: Joi.string().required(),
   contactId: Joi.string().allow('').optional(),
@@ -32,12 +67,26 @@ const createBookingSchema = Joi.object({
   attendeeCount: Joi.number().integer().min(1).max(100).required(),
   specialRequests: Joi.string().trim().max(1000).allow('').optional(),
   
-  // Pricing
-  totalAmount: Joi.number().min(0).required(),
-  currency: Joi.string().length(3).uppercase().default('INR'),
+  // Pricing: computed on the server; a client total is only checked against the quote
+  totalAmount: Joi.number().min(0).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  addOns: addOnsSchema,
   
   // Notes
-  notes: Joi.string().trim().max(1000).allow('').optional()
+  notes: Joi.string().trim().max(1000).allow('').optional(),
+
+  // Recurring bookings
+  recurrence: recurrenceSchema.optional()
+});
+
+const quoteBookingSchema = Joi.object({
+  spaceId: Joi.string().required(),
+  contactId: Joi.string().allow('').optional(),
+  startTime: Joi.date().required(),
+  endTime: Joi.date().greater(Joi.ref('startTime')).required(),
+  addOns: addOnsSchema,
+  attendeeCount: Joi.number().integer().min(1).max(100).default(1), // Seats priced, for seat-booked spaces
+  recurring: Joi.boolean().default(false) // Recurring bookings don't use membership credits
 });
 
 const updateBookingSchema = Joi.object({
@@ -68,19 +117,50 @@ const updateBookingSchema = Joi.object({
   // Check-in/Check-out
   checkedIn: Joi.boolean().optional(),
   checkInTime: Joi.date().optional(),
-  checkOutTime: Joi.date().optional()
+  checkOutTime: Joi.date().optional(),
+
+  // Recurring bookings: which occurrences the update applies to
+  scope: Joi.string().valid(...SERIES_SCOPES).default('this')
+});
+
+// A device scanning codes at a space can name it, so codes of other spaces are refused
+const checkInSchema = Joi.object({
+  spaceId: Joi.string().hex().length(24).optional()
+});
+
+const cancelBookingSchema = Joi.object({
+  cancelReason: Joi.string().trim().max(500).allow('').optional(),
+  scope: Joi.string().valid(...SERIES_SCOPES).default('this')
+});
+
+const cancellationQuerySchema = Joi.object({
+  scope: Joi.string().valid(...SERIES_SCOPES).default('this')
 });
 
+// Fields that can be changed on several occurrences of a series at once
+const SERIES_UPDATE_FIELDS = [
+  'startTime',
+  'endTime',
+  'customerName',
+  'customerEmail',
+  'customerPhone',
+  'purpose',
+  'attendeeCount',
+  'specialRequests',
+  'notes'
+];
+
 const availabilityQuerySchema = Joi.object({
   date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
     'string.pattern.base': 'Date must be in YYYY-MM-DD format'
   }),
-  duration: Joi.number().integer().min(15).max(1440).default(60) // in minutes
+  duration: Joi.number().integer().min(15).max(1440).default(60), // in minutes
+  attendeeCount: Joi.number().integer().min(1).max(100).default(1) // Seats needed, for seat-booked spaces
 });
 
 // Helper function to ensure user is authenticated
 const ensureAuthenticated = (req: AuthRequest, res: Response) => {
-  if (!req.user) {
+  if (!req.user || !req.organizationId) {
     res.status(401).json({
       success: false,
       message: 'Authentication required'
@@ -90,12 +170,35 @@ const ensureAuthenticated = (req: AuthRequest, res: Response) => {
   return true;
 };
 
+// Response body for a client total or currency that disagrees with the server quote
+const priceMismatch = (value: { totalAmount?: number; currency?: string }, quote: BookingQuote) => {
+  if (value.currency && value.currency !== quote.currency) {
+    return {
+      success: false,
+      message: `Bookings for this space are priced in ${quote.currency}`,
+      errors: [{ field: 'currency', message: `Currency must be ${quote.currency}` }],
+      quote
+    };
+  }
+
+  if (value.totalAmount !== undefined && !PricingService.matchesQuote(value.totalAmount, quote)) {
+    return {
+      success: false,
+      message: 'Total amount does not match the quoted price',
+      errors: [{ field: 'totalAmount', message: `Expected ${quote.totalAmount} ${quote.currency}` }],
+      quote
+    };
+  }
+
+  return null;
+};
+
 // Get all bookings for the organization with filtering, pagination, and search
 export const getBookings = async (req: AuthRequest, res: Response) => {
   try {
     if (!ensureAuthenticated(req, res)) return;
     
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const {
       page = '1',
       limit = '10',
@@ -219,6 +322,7 @@ export const getBookings = async (req: AuthRequest, res: Response) => {
       Booking.find(filter)
         .populate('spaceId', 'name type capacity location')
         .populate('contactId', 'firstName lastName email company')
+        .populate('seriesId', 'recurrence rrule status')
         .populate('createdBy', 'firstName lastName')
         .populate('updatedBy', 'firstName lastName')
         .sort(sortObj)
@@ -232,9 +336,16 @@ export const getBookings = async (req: AuthRequest, res: Response) => {
 
     console.log(`Found ${bookings.length} bookings out of ${total} total`);
 
+    // Setup and teardown around each booking, for calendars to show the space's turnaround
+    const bookedSpaceIds = [...new Set(bookings.map((booking: any) => String(booking.spaceId?._id || booking.spaceId)))];
+    const bookedSpaces = await Space.find({ _id: { $in: bookedSpaceIds } }).select('productTypeId bookingBuffers');
+    const buffersBySpace = new Map(await Promise.all(bookedSpaces.map(async space =>
+      [space._id.toString(), await space.getEffectiveBuffers()] as const)));
+
     // Normalize response fields to ensure both startTime/endTime and start/end are available
     const normalizedBookings = bookings.map((booking: any) => ({
       ...booking,
+      buffers: buffersBySpace.get(String(booking.spaceId?._id || booking.spaceId)),
       // Ensure both field naming conventions are available
       startTime: booking.startTime || booking.start,
       endTime: booking.endTime || booking.end,
@@ -272,7 +383,7 @@ export const getBooking = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== GET BOOKING REQUEST ===');
     console.log('Booking ID:', id);
@@ -287,6 +398,7 @@ export const getBooking = async (req: AuthRequest, res: Response) => {
     const booking = await Booking.findOne({ _id: id, organizationId })
       .populate('spaceId', 'name type capacity location address rates amenities')
       .populate('contactId', 'firstName lastName email phone company contextState')
+      .populate('seriesId', 'recurrence rrule status')
       .populate('createdBy', 'firstName lastName')
       .populate('updatedBy', 'firstName lastName');
 
@@ -314,10 +426,99 @@ export const getBooking = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Price a prospective booking without creating it
+export const quoteBooking = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+
+    const { error, value } = quoteBookingSchema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const space = await BookingService.loadBookableSpace(organizationId, value.spaceId);
+    if (!space) {
+      return res.status(404).json({
+        success: false,
+        message: 'Space not found or does not belong to your organization'
+      });
+    }
+
+    let contact = null;
+    if (value.contactId && value.contactId.trim() !== '') {
+      contact = await Contact.findOne({ _id: value.contactId, organizationId });
+      if (!contact) {
+        return res.status(404).json({
+          success: false,
+          message: 'Contact not found or does not belong to your organization'
+        });
+      }
+      // A quote changes nothing, so a renewal that is due is projected rather than made
+      contact = await MembershipService.projectRenewal(contact);
+    }
+
+    let quote: BookingQuote;
+    try {
+      quote = await PricingService.quote({
+        space,
+        startTime: value.startTime,
+        endTime: value.endTime,
+        contact,
+        addOns: value.addOns,
+        attendeeCount: value.attendeeCount,
+        useCredits: !value.recurring
+      });
+    } catch (pricingError: any) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unable to price booking',
+        errors: [{ field: 'addOns', message: pricingError.message }]
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Quote calculated successfully',
+      data: { quote }
+    });
+
+  } catch (error: any) {
+    console.error('Error in quoteBooking:', error);
+
+    if (error.name === 'CastError') {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid ${error.path}: ${error.value}`
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to calculate quote',
+      error: error.message
+    });
+  }
+};
+
 // Create a new booking
 export const createBooking = async (req: AuthRequest, res: Response) => {
   console.log('=== BOOKING CONTROLLER ENTRY ===');
-  
+
+  // Held from the conflict check until the booking is saved
+  let spaceLock: SpaceLockHandle | null = null;
+
   try {
     console.log('Request method:', req.method);
     console.log('Request URL:', req.url);
@@ -378,14 +579,11 @@ export const createBooking = async (req: AuthRequest, res: Response) => {
     }
 
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const userId = req.user!._id;
 
     // Validate space exists and belongs to organization
-    const space = await Space.findOne({
-      _id: value.spaceId,
-      organizationId
-    }).populate('locationId', 'operatingHours timezone allowSameDayBooking name');
+    const space = await BookingService.loadBookableSpace(organizationId, value.spaceId);
 
     if (!space) {
       return res.status(404).json({
@@ -394,55 +592,11 @@ export const createBooking = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const location = space.locationId as any; // Type assertion for populated location
-
-    // Enhanced Time Validation
-    console.log('=== ENHANCED TIME VALIDATION ===');
-    const timeValidation = validateBookingTime(
-      value.startTime,
-      value.endTime,
-      location,
-      {
-        minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
-        maximumAdvanceDays: space.advanceBookingLimit || DEFAULT_TIME_CONFIG.maximumAdvanceDays,
-        allowPastBookings: false,
-        respectOperatingHours: true
-      }
-    );
-
-    console.log('Time validation result:', timeValidation);
-
-    if (!timeValidation.isValid) {
-      const formattedError = formatTimeValidationErrors(timeValidation);
-      console.error('Time validation failed:', formattedError);
-      
-      return res.status(400).json({
-        success: false,
-        message: formattedError.message,
-        timeValidation: {
-          errors: formattedError.details,
-          warnings: formattedError.warnings,
-          timeUntilBooking: timeValidation.timeUntilBooking,
-          timezone: location?.timezone || 'Asia/Kolkata',
-          businessRules: {
-            minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
-            maximumAdvanceDays: space.advanceBookingLimit || DEFAULT_TIME_CONFIG.maximumAdvanceDays,
-            allowSameDayBooking: location?.allowSameDayBooking ?? space.allowSameDayBooking,
-            respectOperatingHours: true
-          }
-        }
-      });
-    }
-
-    // Log successful time validation with warnings
-    if (timeValidation.warnings.length > 0) {
-      console.warn('Time validation warnings:', timeValidation.warnings);
-    }
-
     // Validate contact if provided
+    let contact = null;
     if (hasContact) {
       console.log('Validating contact:', value.contactId);
-      const contact = await Contact.findOne({
+      contact = await Contact.findOne({
         _id: value.contactId.toString(),
         organizationId
       });
@@ -455,87 +609,141 @@ export const createBooking = async (req: AuthRequest, res: Response) => {
         });
       }
       console.log('Contact validated:', contact.firstName, contact.lastName);
+      contact = await MembershipService.renewIfDue(contact, userId);
     }
 
-    // Check booking duration constraints
-    const bookingDuration = Math.round((value.endTime.getTime() - value.startTime.getTime()) / (1000 * 60)); // in minutes
-
-    if (bookingDuration < space.minimumBookingDuration) {
+    const { recurrence, addOns, totalAmount, currency, ...details } = value;
+
+    // The stored amount always comes from the server quote
+    let quote: BookingQuote;
+    try {
+      quote = await PricingService.quote({
+        space,
+        startTime: details.startTime,
+        endTime: details.endTime,
+        contact,
+        addOns,
+        attendeeCount: details.attendeeCount,
+        useCredits: !recurrence
+      });
+    } catch (pricingError: any) {
       return res.status(400).json({
         success: false,
-        message: `Minimum booking duration is ${space.minimumBookingDuration} minutes`
+        message: 'Unable to price booking',
+        errors: [{ field: 'addOns', message: pricingError.message }]
       });
     }
 
-    if (bookingDuration > space.maximumBookingDuration) {
-      return res.status(400).json({
-        success: false,
-        message: `Maximum booking duration is ${space.maximumBookingDuration} minutes`
-      });
+    const mismatch = priceMismatch({ totalAmount, currency }, quote);
+    if (mismatch) {
+      return res.status(400).json(mismatch);
     }
 
-    // Check attendee count against space capacity (only if capacity is set and not null for unlimited)
-    if (space.capacity !== null && value.attendeeCount > space.capacity) {
-      return res.status(400).json({
-        success: false,
-        message: `Space capacity is ${space.capacity} people, but ${value.attendeeCount} attendees requested`
+    // Occurrences of a series share the first occurrence's duration, so they share its price
+    const bookingData = {
+      ...details,
+      totalAmount: quote.totalAmount,
+      currency: quote.currency,
+      priceBreakdown: PricingService.toPriceBreakdown(quote)
+    };
+
+    // Recurring booking: book every occurrence that passes the rules, report the rest
+    if (recurrence) {
+      const location = space.locationId as any;
+      const timezone = location?.timezone || 'Asia/Kolkata';
+
+      let rule: RecurrenceRule;
+      let occurrenceStarts: Date[];
+      try {
+        rule = typeof recurrence === 'string' ? parseRRule(recurrence) : validateRecurrenceRule(recurrence);
+        occurrenceStarts = expandRecurrence(bookingData.startTime, rule, timezone);
+      } catch (recurrenceError: any) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid recurrence',
+          errors: [{ field: 'recurrence', message: recurrenceError.message }]
+        });
+      }
+
+      if (occurrenceStarts.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid recurrence',
+          errors: [{ field: 'recurrence', message: 'The recurrence ends before the first booking' }]
+        });
+      }
+
+      const result = await BookingSeriesService.createSeries({
+        organizationId,
+        userId,
+        space,
+        rule,
+        occurrenceStarts,
+        bookingData
       });
-    }
 
-    // Check for conflicting bookings
-    const conflictingBookings = await Booking.find({
-      spaceId: value.spaceId,
-      status: { $in: ['Pending', 'Confirmed'] },
-      $or: [
-        {
-          // New booking starts during existing booking
-          startTime: { $lt: value.endTime },
-          endTime: { $gt: value.startTime }
-        }
-      ]
-    });
+      if (!result.series) {
+        return res.status(409).json({
+          success: false,
+          message: 'None of the occurrences could be booked',
+          failedOccurrences: result.failedOccurrences
+        });
+      }
 
-    if (conflictingBookings.length > 0) {
-      return res.status(409).json({
-        success: false,
-        message: 'Space is not available for the requested time slot',
-        conflictingBookings: conflictingBookings.map(booking => ({
-          id: booking._id,
-          startTime: booking.startTime,
-          endTime: booking.endTime,
-          reference: booking.bookingReference
-        }))
+      const seriesBookings = await Booking.find({ seriesId: result.series._id })
+        .sort({ startTime: 1 })
+        .populate('spaceId', 'name type capacity location')
+        .populate('contactId', 'firstName lastName email')
+        .populate('createdBy', 'firstName lastName')
+        .populate('updatedBy', 'firstName lastName');
+
+      return res.status(201).json({
+        success: true,
+        message: result.failedOccurrences.length > 0
+          ? `Booked ${result.bookings.length} of ${occurrenceStarts.length} occurrences`
+          : `Booked all ${result.bookings.length} occurrences`,
+        data: {
+          booking: seriesBookings[0],
+          series: result.series,
+          bookings: seriesBookings,
+          failedOccurrences: result.failedOccurrences
+        }
       });
     }
 
-    // Check advance booking rules
-    const now = new Date();
-    const hoursUntilBooking = (value.startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    const daysUntilBooking = hoursUntilBooking / 24;
-
-    if (daysUntilBooking > space.advanceBookingLimit) {
-      return res.status(400).json({
+    spaceLock = await BookingService.acquireSpaceLock(space._id);
+    if (!spaceLock) {
+      return res.status(409).json({
         success: false,
-        message: `Bookings can only be made up to ${space.advanceBookingLimit} days in advance`
+        message: SPACE_BUSY_MESSAGE
       });
     }
 
-    // Check same-day booking rules
-    const isToday = value.startTime.toDateString() === now.toDateString();
-    if (isToday && !space.allowSameDayBooking) {
-      return res.status(400).json({
+    // Time window, duration, capacity, conflict and advance booking rules
+    console.log('=== BOOKING RULE VALIDATION ===');
+    const violation = await BookingService.checkBookingRules({
+      space,
+      startTime: value.startTime,
+      endTime: value.endTime,
+      attendeeCount: value.attendeeCount
+    });
+
+    if (violation) {
+      return res.status(violation.statusCode).json({
         success: false,
-        message: 'Same-day bookings are not allowed for this space'
+        message: violation.message,
+        ...violation.details
       });
     }
 
     // Generate unique booking reference
-    const bookingReference = 'BK' + Math.random().toString(36).substring(2, 10).toUpperCase();
+    const bookingReference = BookingService.generateBookingReference();
 
     const finalData = {
-      ...value,
+      ...bookingData,
       bookingReference,
       organizationId,
+      holdExpiresAt: BookingHoldService.getHoldExpiry(space, details.startTime),
       paymentStatus: 'Pending',
       checkedIn: false,
       createdBy: userId,
@@ -545,7 +753,42 @@ export const createBooking = async (req: AuthRequest, res: Response) => {
     console.log('Creating booking with data:', JSON.stringify(finalData, null, 2));
 
     const booking = new Booking(finalData);
-    await booking.save();
+
+    if (!(await BookingService.renewSpaceLock(spaceLock))) {
+      return res.status(409).json({
+        success: false,
+        message: SPACE_BUSY_MESSAGE
+      });
+    }
+
+    // Credits are taken before the booking is stored and given back if storing fails
+    const creditUsage = booking.priceBreakdown?.credits;
+    if (contact && creditUsage) {
+      const consumed = await MembershipService.consumeCredits(contact, creditUsage, booking._id);
+      if (!consumed) {
+        return res.status(409).json({
+          success: false,
+          message: 'The membership credit balance has changed; please review the updated price',
+          quote: await PricingService.quote({
+            space,
+            startTime: details.startTime,
+            endTime: details.endTime,
+            contact: await Contact.findById(contact._id),
+            addOns,
+            attendeeCount: details.attendeeCount
+          })
+        });
+      }
+    }
+
+    try {
+      await booking.save();
+    } catch (saveError) {
+      if (contact && creditUsage) {
+        await MembershipService.releaseCredits(contact._id, creditUsage, creditUsage.amount, booking._id, 'Booking not created');
+      }
+      throw saveError;
+    }
 
     console.log('✅ BOOKING_CREATED:', JSON.stringify({
       action: 'booking_created',
@@ -627,15 +870,22 @@ export const createBooking = async (req: AuthRequest, res: Response) => {
       error: error.message || 'Unknown error',
       errorName: error.name || 'UnknownError'
     });
+  } finally {
+    if (spaceLock) {
+      await BookingService.releaseSpaceLock(spaceLock);
+    }
   }
 };
 
 // Update an existing booking
 export const updateBooking = async (req: AuthRequest, res: Response) => {
+  // Held from the availability check until the booking is updated
+  let spaceLock: SpaceLockHandle | null = null;
+
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const userId = req.user!._id;
 
     console.log('=== UPDATE BOOKING REQUEST ===');
@@ -666,6 +916,8 @@ export const updateBooking = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const { scope, ...changes } = value;
+
     // Check if booking exists
     const existingBooking = await Booking.findOne({ _id: id, organizationId });
     if (!existingBooking) {
@@ -675,14 +927,28 @@ export const updateBooking = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if booking can be modified using enhanced time validation
-    if (value.startTime || value.endTime) {
-      const space = await Space.findById(existingBooking.spaceId).populate('locationId', 'timezone');
-      const location = space?.locationId as any;
+    // Several occurrences of a recurring booking
+    if (scope !== 'this' && existingBooking.seriesId) {
+      const unsupportedFields = Object.keys(changes).filter(field => !SERIES_UPDATE_FIELDS.includes(field));
+      if (unsupportedFields.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${unsupportedFields.join(', ')} can only be changed one occurrence at a time`
+        });
+      }
+
+      const space = await BookingService.loadBookableSpace(organizationId, existingBooking.spaceId);
+      if (!space) {
+        return res.status(404).json({
+          success: false,
+          message: 'Space not found or does not belong to your organization'
+        });
+      }
+
+      const location = space.locationId as any;
       const timezone = location?.timezone || 'Asia/Kolkata';
-      
       const modificationCheck = canModifyBooking(existingBooking.startTime, timezone, 4);
-      
+
       if (!modificationCheck.canModify) {
         return res.status(400).json({
           success: false,
@@ -696,41 +962,206 @@ export const updateBooking = async (req: AuthRequest, res: Response) => {
         });
       }
 
-      // If changing times, check for conflicts
-      const newStartTime = value.startTime || existingBooking.startTime;
-      const newEndTime = value.endTime || existingBooking.endTime;
-
-      const conflictingBookings = await Booking.find({
-        _id: { $ne: id },
-        spaceId: existingBooking.spaceId,
-        status: { $in: ['Pending', 'Confirmed'] },
-        $or: [
-          {
-            startTime: { $lt: newEndTime },
-            endTime: { $gt: newStartTime }
-          }
-        ]
+      const result = await BookingSeriesService.updateOccurrences({
+        booking: existingBooking,
+        scope,
+        changes,
+        space,
+        userId
       });
 
-      if (conflictingBookings.length > 0) {
+      if (result.failedOccurrences.length > 0) {
         return res.status(409).json({
           success: false,
-          message: 'Space is not available for the updated time slot',
-          conflictingBookings: conflictingBookings.map(booking => ({
-            id: booking._id,
-            startTime: booking.startTime,
-            endTime: booking.endTime,
-            reference: booking.bookingReference
-          }))
+          message: `${result.failedOccurrences.length} occurrence(s) cannot be changed, so none were updated`,
+          failedOccurrences: result.failedOccurrences
         });
       }
+
+      const updatedSeriesBooking = await Booking.findById(existingBooking._id)
+        .populate('spaceId', 'name type capacity location')
+        .populate('contactId', 'firstName lastName email')
+        .populate('createdBy', 'firstName lastName')
+        .populate('updatedBy', 'firstName lastName');
+
+      console.log(`Updated ${result.bookingIds.length} occurrences of series ${existingBooking.seriesId}`);
+
+      return res.json({
+        success: true,
+        message: `Updated ${result.bookingIds.length} booking(s)`,
+        data: {
+          booking: updatedSeriesBooking,
+          updatedCount: result.bookingIds.length
+        }
+      });
     }
 
-    const updateData = {
-      ...value,
+    // Moving, reopening or adding attendees needs the slot (or enough seats) to be free
+    const movesTime = !!(value.startTime || value.endTime);
+    const addsAttendees = changes.attendeeCount !== undefined && changes.attendeeCount > existingBooking.attendeeCount;
+    const staysOpen = ['Pending', 'Confirmed'].includes(changes.status || existingBooking.status);
+    const reopens = staysOpen && !['Pending', 'Confirmed'].includes(existingBooking.status);
+
+    if (movesTime || addsAttendees || reopens) {
+      const space = await Space.findById(existingBooking.spaceId).populate('locationId', 'timezone');
+
+      // Check if booking can be modified using enhanced time validation
+      if (movesTime) {
+        const location = space?.locationId as any;
+        const timezone = location?.timezone || 'Asia/Kolkata';
+
+        const modificationCheck = canModifyBooking(existingBooking.startTime, timezone, 4);
+
+        if (!modificationCheck.canModify) {
+          return res.status(400).json({
+            success: false,
+            message: modificationCheck.reason,
+            timeValidation: {
+              canModify: false,
+              hoursRemaining: modificationCheck.hoursRemaining,
+              timezone: timezone,
+              minimumHoursRequired: 4
+            }
+          });
+        }
+      }
+
+      const attendeeCount = changes.attendeeCount ?? existingBooking.attendeeCount;
+      if (space && attendeeCount > space.capacity) {
+        return res.status(400).json({
+          success: false,
+          message: `Space capacity is ${space.capacity} people, but ${attendeeCount} attendees requested`
+        });
+      }
+
+      if (space && staysOpen) {
+        spaceLock = await BookingService.acquireSpaceLock(space._id);
+        if (!spaceLock) {
+          return res.status(409).json({
+            success: false,
+            message: SPACE_BUSY_MESSAGE
+          });
+        }
+
+        const violation = await BookingService.checkAvailability({
+          space,
+          startTime: new Date(value.startTime || existingBooking.startTime),
+          endTime: new Date(value.endTime || existingBooking.endTime),
+          attendeeCount,
+          excludeBookingIds: [existingBooking._id]
+        });
+
+        if (violation) {
+          return res.status(violation.statusCode).json({
+            success: false,
+            message: violation.message,
+            ...violation.details
+          });
+        }
+      }
+    }
+
+    const updateData: Record<string, any> = {
+      ...changes,
       updatedBy: userId
     };
 
+    // A booking set back to Pending gets a fresh hold; confirming or paying ends it
+    if (changes.status === 'Pending' && existingBooking.status !== 'Pending') {
+      const space = await BookingService.loadBookableSpace(organizationId, existingBooking.spaceId);
+      const holdExpiresAt = space && BookingHoldService.getHoldExpiry(space, new Date(value.startTime || existingBooking.startTime));
+      if (holdExpiresAt) updateData.holdExpiresAt = holdExpiresAt;
+    } else if ((changes.status && changes.status !== 'Pending') || changes.paymentStatus === 'Paid') {
+      updateData.$unset = { holdExpiresAt: 1 };
+    }
+
+    // Checking out records the time used, as for customers checking out by QR code
+    if (changes.checkOutTime && !existingBooking.checkOutTime && (existingBooking.checkedIn || changes.checkedIn)) {
+      updateData.usage = await CheckInService.measureUsage(existingBooking, new Date(changes.checkOutTime),
+        changes.checkInTime ? new Date(changes.checkInTime) : existingBooking.checkInTime);
+    }
+
+    // Cancelling through a status change follows the same policy as deleteBooking
+    if (changes.status === 'Cancelled' && existingBooking.status !== 'Cancelled') {
+      const space = await Space.findById(existingBooking.spaceId);
+      const policy = await CancellationPolicyService.getPolicy(space);
+      const cancellation = CancellationPolicyService.quoteCancellation(existingBooking, policy);
+
+      if (!cancellation.canCancel) {
+        return res.status(400).json({
+          success: false,
+          message: cancellation.reason,
+          cancellation
+        });
+      }
+      updateData.cancellationRefund = CancellationPolicyService.toRefundRecord(cancellation);
+    }
+
+    // New times or attendees mean a new price; keep the add-ons of the existing quote. Credits
+    // the booking holds count towards the new price and only the difference is charged.
+    const previousCredits = existingBooking.priceBreakdown?.credits;
+    let repricedCredits: { contact: IContact | null; credits?: IBookingCreditUsage } | null = null;
+    const changesAttendees = changes.attendeeCount !== undefined && changes.attendeeCount !== existingBooking.attendeeCount;
+    if (value.startTime || value.endTime || changesAttendees) {
+      const space = await Space.findById(existingBooking.spaceId);
+      const contact = existingBooking.contactId
+        ? await Contact.findById(existingBooking.contactId)
+        : null;
+
+      if (space) {
+        try {
+          const quote = await PricingService.quote({
+            space,
+            startTime: new Date(value.startTime || existingBooking.startTime),
+            endTime: new Date(value.endTime || existingBooking.endTime),
+            contact,
+            addOns: PricingService.addOnsFromBreakdown(existingBooking.priceBreakdown),
+            attendeeCount: changes.attendeeCount ?? existingBooking.attendeeCount,
+            useCredits: !existingBooking.seriesId,
+            releasedCredits: previousCredits &&
+              contact?.subscription?.currentPeriodEnd.getTime() === previousCredits.periodEnd.getTime()
+              ? previousCredits.amount
+              : 0
+          });
+          updateData.totalAmount = quote.totalAmount;
+          updateData.currency = quote.currency;
+          updateData.priceBreakdown = PricingService.toPriceBreakdown(quote);
+          repricedCredits = { contact, credits: updateData.priceBreakdown.credits };
+        } catch (pricingError: any) {
+          return res.status(400).json({
+            success: false,
+            message: 'Unable to price booking',
+            error: pricingError.message
+          });
+        }
+      }
+    }
+
+    if (spaceLock && !(await BookingService.renewSpaceLock(spaceLock))) {
+      return res.status(409).json({
+        success: false,
+        message: SPACE_BUSY_MESSAGE
+      });
+    }
+
+    // Swap the credits held by the old price for those of the new one
+    if (repricedCredits?.contact && (previousCredits || repricedCredits.credits)) {
+      if (previousCredits) {
+        await MembershipService.releaseCredits(existingBooking.contactId!, previousCredits, previousCredits.amount,
+          existingBooking._id, 'Booking re-priced');
+      }
+      if (repricedCredits.credits &&
+        !(await MembershipService.consumeCredits(repricedCredits.contact, repricedCredits.credits, existingBooking._id))) {
+        if (previousCredits) {
+          await MembershipService.consumeCredits(repricedCredits.contact, previousCredits, existingBooking._id);
+        }
+        return res.status(409).json({
+          success: false,
+          message: 'The membership credit balance has changed; please try again'
+        });
+      }
+    }
+
     console.log('Updating booking with data:', JSON.stringify(updateData, null, 2));
 
     const updatedBooking = await Booking.findOneAndUpdate(
@@ -746,6 +1177,23 @@ export const updateBooking = async (req: AuthRequest, res: Response) => {
     .populate('createdBy', 'firstName lastName')
     .populate('updatedBy', 'firstName lastName');
 
+    if (updateData.cancellationRefund?.credits && previousCredits) {
+      await MembershipService.releaseCredits(existingBooking.contactId!, previousCredits,
+        updateData.cancellationRefund.credits, existingBooking._id, 'Booking cancelled');
+    }
+
+    if (updateData.cancellationRefund) {
+      await WaitlistService.offerFreedSlots([existingBooking._id]);
+    }
+
+    if (changes.status === 'Confirmed' && existingBooking.status !== 'Confirmed') {
+      await CheckInService.sendCheckInCode(existingBooking._id);
+    }
+
+    if (updateData.usage) {
+      await BookingLifecycleService.markSpaceForCleaning(existingBooking, new Date(changes.checkOutTime));
+    }
+
     console.log('Booking updated successfully');
 
     res.json({
@@ -762,6 +1210,80 @@ export const updateBooking = async (req: AuthRequest, res: Response) => {
       message: 'Failed to update booking',
       error: error.message
     });
+  } finally {
+    if (spaceLock) {
+      await BookingService.releaseSpaceLock(spaceLock);
+    }
+  }
+};
+
+// Preview the refund for cancelling a booking (or several occurrences of a series)
+export const getCancellationQuote = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid booking ID format'
+      });
+    }
+
+    const { error, value } = cancellationQuerySchema.validate(req.query, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const booking = await Booking.findOne({ _id: id, organizationId });
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+    }
+
+    const space = await Space.findById(booking.spaceId);
+    const policy = await CancellationPolicyService.getPolicy(space);
+    const cancellation = CancellationPolicyService.quoteCancellation(booking, policy);
+
+    // Totals across the occurrences the cancellation would apply to
+    const occurrences = value.scope !== 'this' && booking.seriesId
+      ? await BookingSeriesService.findOccurrences(booking, value.scope)
+      : [booking];
+    const occurrenceQuotes = occurrences
+      .map(occurrence => CancellationPolicyService.quoteCancellation(occurrence, policy))
+      .filter(quote => quote.canCancel);
+
+    res.json({
+      success: true,
+      message: 'Cancellation quote calculated successfully',
+      data: {
+        cancellation,
+        occurrenceCount: occurrenceQuotes.length,
+        totalRefundAmount: Math.round(occurrenceQuotes.reduce((sum, quote) => sum + quote.refundAmount, 0) * 100) / 100
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getCancellationQuote:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to calculate cancellation refund',
+      error: error.message
+    });
   }
 };
 
@@ -770,7 +1292,7 @@ export const deleteBooking = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const userId = req.user!._id;
 
     console.log('=== DELETE BOOKING REQUEST ===');
@@ -783,6 +1305,24 @@ export const deleteBooking = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const { error, value } = cancelBookingSchema.validate(req.body || {}, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const cancelReason = value.cancelReason || 'Cancelled by user';
+
     // Check if booking exists
     const existingBooking = await Booking.findOne({ _id: id, organizationId });
     if (!existingBooking) {
@@ -792,43 +1332,85 @@ export const deleteBooking = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if booking can be cancelled using enhanced time validation
-    const space = await Space.findById(existingBooking.spaceId).populate('locationId', 'timezone');
-    const location = space?.locationId as any;
-    const timezone = location?.timezone || 'Asia/Kolkata';
-    
-    const cancellationCheck = canCancelBooking(existingBooking.startTime, timezone, 2);
-    
-    if (!cancellationCheck.canCancel) {
+    // The space's cancellation policy decides whether the booking is refunded
+    const space = await Space.findById(existingBooking.spaceId);
+    const policy = await CancellationPolicyService.getPolicy(space);
+    const cancellation = CancellationPolicyService.quoteCancellation(existingBooking, policy);
+
+    if (!cancellation.canCancel) {
       return res.status(400).json({
         success: false,
-        message: cancellationCheck.reason,
-        timeValidation: {
-          canCancel: false,
-          hoursRemaining: cancellationCheck.hoursRemaining,
-          timezone: timezone,
-          minimumHoursRequired: 2
+        message: cancellation.reason,
+        cancellation
+      });
+    }
+
+    // Several occurrences of a recurring booking
+    if (value.scope !== 'this' && existingBooking.seriesId) {
+      const result = await BookingSeriesService.cancelOccurrences({
+        booking: existingBooking,
+        scope: value.scope,
+        cancelReason,
+        policy,
+        userId
+      });
+
+      const cancelledSeriesBooking = await Booking.findById(existingBooking._id);
+
+      console.log(`Cancelled ${result.bookingIds.length} occurrences of series ${existingBooking.seriesId}`);
+
+      await WaitlistService.offerFreedSlots(result.bookingIds);
+
+      return res.json({
+        success: true,
+        message: result.failedOccurrences.length > 0
+          ? `Cancelled ${result.bookingIds.length} booking(s); ${result.failedOccurrences.length} could not be cancelled`
+          : `Cancelled ${result.bookingIds.length} booking(s)`,
+        data: {
+          booking: cancelledSeriesBooking,
+          cancelledCount: result.bookingIds.length,
+          refundAmount: result.refundAmount,
+          failedOccurrences: result.failedOccurrences
         }
       });
     }
 
-    // Update status to Cancelled instead of deleting
+    // Update status to Cancelled instead of deleting. Only an open booking moves, so two
+    // concurrent cancellations can't both refund it
     const cancelledBooking = await Booking.findOneAndUpdate(
-      { _id: id, organizationId },
+      { _id: id, organizationId, status: { $nin: ['Cancelled', 'Completed', 'No Show'] } },
       { 
         status: 'Cancelled',
         updatedBy: userId,
-        cancelReason: req.body.cancelReason || 'Cancelled by user'
+        cancelReason,
+        cancellationRefund: CancellationPolicyService.toRefundRecord(cancellation)
       },
       { new: true }
     );
 
+    if (!cancelledBooking) {
+      return res.status(409).json({
+        success: false,
+        message: 'Booking has already been cancelled or closed'
+      });
+    }
+
+    const creditUsage = existingBooking.priceBreakdown?.credits;
+    if (creditUsage && existingBooking.contactId && cancellation.creditRefund > 0) {
+      await MembershipService.releaseCredits(existingBooking.contactId, creditUsage, cancellation.creditRefund,
+        existingBooking._id, 'Booking cancelled');
+    }
+
     console.log('Booking cancelled successfully');
 
+    await WaitlistService.offerFreedSlots([existingBooking._id]);
+
     res.json({
       success: true,
-      message: 'Booking cancelled successfully',
-      data: { booking: cancelledBooking }
+      message: cancellation.refundAmount > 0
+        ? `Booking cancelled; ${cancellation.currency} ${cancellation.refundAmount} will be refunded`
+        : 'Booking cancelled successfully',
+      data: { booking: cancelledBooking, cancellation }
     });
 
   } catch (error: any) {
@@ -846,7 +1428,7 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
   try {
     const { spaceId } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== CHECK SPACE AVAILABILITY REQUEST ===');
     console.log('Space ID:', spaceId);
@@ -874,9 +1456,9 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Convert and validate date
-    const targetDate = new Date(value.date);
-    if (isNaN(targetDate.getTime())) {
+    // Validate the date is a real calendar date
+    const targetDate = new Date(`${value.date}T00:00:00Z`);
+    if (isNaN(targetDate.getTime()) || !targetDate.toISOString().startsWith(value.date)) {
       return res.status(400).json({
         success: false,
         message: 'Invalid date format'
@@ -887,7 +1469,7 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
     const space = await Space.findOne({
       _id: spaceId,
       organizationId
-    }).populate('locationId', 'operatingHours timezone allowSameDayBooking name');
+    }).populate('locationId', 'operatingHours dateExceptions timezone allowSameDayBooking name');
 
     if (!space) {
       return res.status(404).json({
@@ -899,19 +1481,18 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
     const location = space.locationId as any; // Type assertion for populated location
     const timezone = location?.timezone || 'Asia/Kolkata';
     
-    // Get current time in location's timezone
-    const now = getCurrentTimeInTimezone(timezone);
-    const today = new Date(now);
-    today.setHours(0, 0, 0, 0);
+    // The requested date is a day on the location's calendar
+    const now = new Date();
+    const today = formatDateInTimezone(now, timezone);
     
     // Enhanced time validation: Check if date is in the past
-    if (targetDate < today) {
+    if (value.date < today) {
       return res.status(400).json({
         success: false,
         message: 'Cannot check availability for past dates',
         timeValidation: {
-          requestedDate: targetDate.toISOString().split('T')[0],
-          currentDate: now.toISOString().split('T')[0],
+          requestedDate: value.date,
+          currentDate: today,
           timezone: timezone,
           reason: 'Past date not allowed'
         }
@@ -919,13 +1500,13 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
     }
 
     // Same-day booking validation
-    const isToday = targetDate.toDateString() === today.toDateString();
+    const isToday = value.date === today;
     if (isToday && location && !location.allowSameDayBooking) {
       return res.status(400).json({
         success: false,
         message: 'Same-day bookings are not allowed for this location',
         timeValidation: {
-          requestedDate: targetDate.toISOString().split('T')[0],
+          requestedDate: value.date,
           isToday: true,
           allowSameDayBooking: false,
           reason: 'Same-day booking policy restriction'
@@ -933,31 +1514,39 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    const startOfDay = new Date(targetDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(targetDate);
-    endOfDay.setHours(23, 59, 59, 999);
+    // Slots keep the space's setup and teardown time free around existing bookings
+    const buffers = await space.getEffectiveBuffers();
 
-    // Get all existing bookings for this space on the target date
+    // From the start of the date to the end of the next, as opening hours may run past midnight
+    const dateRange = BookingService.getTurnaroundWindow({
+      startTime: zonedDateTimeToUtc(value.date, '00:00', timezone),
+      endTime: zonedDateTimeToUtc(addDaysToDateString(value.date, 2), '00:00', timezone)
+    }, buffers);
+
+    // Get all existing bookings for this space overlapping the target date
     const existingBookings = await Booking.find({
       spaceId,
       status: { $in: ['Pending', 'Confirmed'] },
-      startTime: { $gte: startOfDay, $lte: endOfDay }
+      startTime: { $lt: dateRange.endTime },
+      endTime: { $gt: dateRange.startTime }
     }).sort({ startTime: 1 });
 
+    // Seat-booked spaces stay available while seats are left, so overlaps are counted per slot below
+    const seatBooking = await space.usesSeatBooking();
+
     // Convert existing bookings format for time slot generation
-    const existingBookingSlots = existingBookings.map(booking => ({
-      startTime: booking.startTime,
-      endTime: booking.endTime
-    }));
+    const existingBookingSlots = seatBooking ? [] : existingBookings.map(booking => BookingService.getTurnaroundWindow(booking, buffers));
+
+    // Slots follow the space's own, product type or location hours
+    const schedule = await SpaceScheduleService.getEffectiveSchedule(space);
 
     // Generate available time slots using enhanced time validation
     const availableSlots = generateAvailableTimeSlots(
-      targetDate,
+      value.date,
       value.duration,
-      location,
-      existingBookingSlots
+      schedule,
+      existingBookingSlots,
+      now
     );
 
     // Filter slots that pass business rule validation
@@ -968,15 +1557,24 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
         location,
         { 
           minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
-          respectOperatingHours: true 
-        }
+          respectOperatingHours: true,
+          schedule
+        },
+        now
       );
 
+      const turnaround = BookingService.getTurnaroundWindow(slot, buffers);
+      const seatsRemaining = seatBooking
+        ? BookingService.getSeatsRemaining(space, existingBookings, turnaround.startTime, turnaround.endTime)
+        : undefined;
+      const hasSeats = seatsRemaining === undefined || seatsRemaining >= value.attendeeCount;
+
       return {
         startTime: slot.startTime.toISOString(),
         endTime: slot.endTime.toISOString(),
         duration: value.duration,
-        isAvailable: slot.isAvailable && validation.isValid,
+        isAvailable: slot.isAvailable && validation.isValid && hasSeats,
+        ...(seatBooking ? { seatsRemaining } : {}),
         validationErrors: validation.errors,
         validationWarnings: validation.warnings,
         timeUntilBooking: validation.timeUntilBooking
@@ -987,14 +1585,14 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
     const availableValidSlots = validatedSlots.filter(slot => slot.isAvailable);
     const unavailableSlots = validatedSlots.filter(slot => !slot.isAvailable);
 
-    console.log(`Found ${availableValidSlots.length} available slots for ${targetDate.toDateString()}`);
+    console.log(`Found ${availableValidSlots.length} available slots for ${value.date}`);
 
     // Enhanced response with time validation details
     res.json({
       success: true,
       data: {
         spaceId: space._id,
-        date: targetDate.toISOString().split('T')[0],
+        date: value.date,
         duration: value.duration,
         isAvailable: availableValidSlots.length > 0,
         
@@ -1010,6 +1608,7 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
           startTime: booking.startTime.toISOString(),
           endTime: booking.endTime.toISOString(),
           status: booking.status,
+          attendeeCount: booking.attendeeCount,
           customerName: booking.customerName
         })),
         
@@ -1028,6 +1627,9 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
           id: space._id,
           name: space.name,
           capacity: space.capacity,
+          seatBooking,
+          hoursSource: schedule.source,
+          buffers,
           minimumBookingDuration: space.minimumBookingDuration,
           maximumBookingDuration: space.maximumBookingDuration
         },
@@ -1059,32 +1661,65 @@ export const checkSpaceAvailability = async (req: AuthRequest, res: Response) =>
   }
 };
 
+/**
+ * Bookings starting today and this week (from Sunday), with the day boundaries of each
+ * space's location timezone rather than the server's
+ */
+const countBookingsThisDayAndWeek = async (organizationId: mongoose.Types.ObjectId, now: Date) => {
+  const spaces = await Space.find({ organizationId }).select('_id locationId').populate('locationId', 'timezone');
+
+  const spaceIdsByTimezone = new Map<string, mongoose.Types.ObjectId[]>();
+  for (const space of spaces) {
+    const timezone = (space.locationId as any)?.timezone || 'Asia/Kolkata';
+    spaceIdsByTimezone.set(timezone, [...(spaceIdsByTimezone.get(timezone) || []), space._id]);
+  }
+
+  const counts = await Promise.all([...spaceIdsByTimezone].map(async ([timezone, spaceIds]) => {
+    const today = formatDateInTimezone(now, timezone);
+    const weekStart = addDaysToDateString(today, -new Date(`${today}T00:00:00Z`).getUTCDay());
+
+    const [todayBookings, thisWeekBookings] = await Promise.all([
+      Booking.countDocuments({
+        organizationId,
+        spaceId: { $in: spaceIds },
+        startTime: {
+          $gte: zonedDateTimeToUtc(today, '00:00', timezone),
+          $lt: zonedDateTimeToUtc(addDaysToDateString(today, 1), '00:00', timezone)
+        }
+      }),
+      Booking.countDocuments({
+        organizationId,
+        spaceId: { $in: spaceIds },
+        startTime: {
+          $gte: zonedDateTimeToUtc(weekStart, '00:00', timezone),
+          $lt: zonedDateTimeToUtc(addDaysToDateString(weekStart, 7), '00:00', timezone)
+        }
+      })
+    ]);
+    return { todayBookings, thisWeekBookings };
+  }));
+
+  return counts.reduce(
+    (total, count) => ({
+      todayBookings: total.todayBookings + count.todayBookings,
+      thisWeekBookings: total.thisWeekBookings + count.thisWeekBookings
+    }),
+    { todayBookings: 0, thisWeekBookings: 0 }
+  );
+};
+
 // Get booking statistics
 export const getBookingStats = async (req: AuthRequest, res: Response) => {
   try {
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== GET BOOKING STATS REQUEST ===');
     console.log('Organization ID:', organizationId);
 
-    const now = new Date();
-    const today = new Date(now);
-    today.setHours(0, 0, 0, 0);
-    
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    const thisWeekStart = new Date(today);
-    thisWeekStart.setDate(today.getDate() - today.getDay());
-    
-    const nextWeekStart = new Date(thisWeekStart);
-    nextWeekStart.setDate(thisWeekStart.getDate() + 7);
-
     const [
       totalBookings,
-      todayBookings,
-      thisWeekBookings,
+      { todayBookings, thisWeekBookings },
       bookingsByStatus,
       bookingsBySpace,
       recentBookings
@@ -1092,17 +1727,8 @@ export const getBookingStats = async (req: AuthRequest, res: Response) => {
       // Total bookings
       Booking.countDocuments({ organizationId }),
       
-      // Today's bookings
-      Booking.countDocuments({ 
-        organizationId,
-        startTime: { $gte: today, $lt: tomorrow }
-      }),
-      
-      // This week's bookings
-      Booking.countDocuments({ 
-        organizationId,
-        startTime: { $gte: thisWeekStart, $lt: nextWeekStart }
-      }),
+      // Today's and this week's bookings, in each location's timezone
+      countBookingsThisDayAndWeek(organizationId, new Date()),
       
       // Bookings by status
       Booking.aggregate([
@@ -1158,4 +1784,188 @@ export const getBookingStats = async (req: AuthRequest, res: Response) => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+
+// Check-in link and QR code of a booking, to show with its confirmation
+export const getCheckInCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid booking ID format'
+      });
+    }
+
+    const booking = await Booking.findOne({ _id: id, organizationId });
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { checkInCode: await CheckInService.getCheckInCode(booking) }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getCheckInCode:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve check-in code',
+      error: error.message
+    });
+  }
+};
+
+const findCheckInBooking = async (req: Request, res: Response) => {
+  const booking = await CheckInService.findByToken(req.params.token);
+  if (!booking) {
+    res.status(404).json({
+      success: false,
+      message: 'This check-in code is invalid or has expired'
+    });
+    return null;
+  }
+  return booking;
+};
+
+// What the customer sees after scanning a booking's QR code
+const toCheckInDetails = async (booking: IBooking) => {
+  const [space, organization] = await Promise.all([
+    Space.findById(booking.spaceId).populate('locationId', 'name timezone'),
+    Organization.findById(booking.organizationId)
+  ]);
+  const location = space?.locationId as any;
+
+  return {
+    bookingReference: booking.bookingReference,
+    status: booking.status,
+    organizationName: organization?.name,
+    spaceName: space?.name,
+    locationName: location?.name,
+    timezone: location?.timezone || 'Asia/Kolkata',
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+    attendeeCount: booking.attendeeCount,
+    checkedIn: booking.checkedIn,
+    checkInTime: booking.checkInTime,
+    checkOutTime: booking.checkOutTime,
+    usage: booking.usage
+  };
+};
+
+// Get the booking of a scanned check-in code
+export const getCheckInByToken = async (req: Request, res: Response) => {
+  try {
+    const booking = await findCheckInBooking(req, res);
+    if (!booking) return;
+
+    res.json({
+      success: true,
+      data: { checkIn: await toCheckInDetails(booking) }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getCheckInByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve booking'
+    });
+  }
+};
+
+// QR code image of a check-in code, attached to WhatsApp confirmations
+export const getCheckInQrByToken = async (req: Request, res: Response) => {
+  try {
+    const booking = await findCheckInBooking(req, res);
+    if (!booking) return;
+
+    res.set('Cache-Control', 'private, max-age=86400');
+    res.type('png').send(await CheckInService.getQrPng(booking));
+
+  } catch (error: any) {
+    console.error('Error in getCheckInQrByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to render QR code'
+    });
+  }
+};
+
+// The customer checks in with the booking's code
+export const checkInByToken = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = checkInSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const booking = await findCheckInBooking(req, res);
+    if (!booking) return;
+
+    const result = await CheckInService.checkIn(booking, value.spaceId);
+    if (result.violation) {
+      return res.status(result.violation.statusCode).json({
+        success: false,
+        message: result.violation.message,
+        ...result.violation.details
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'You are checked in',
+      data: { checkIn: await toCheckInDetails(result.booking) }
+    });
+
+  } catch (error: any) {
+    console.error('Error in checkInByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check in'
+    });
+  }
+};
+
+// The customer checks out with the booking's code
+export const checkOutByToken = async (req: Request, res: Response) => {
+  try {
+    const booking = await findCheckInBooking(req, res);
+    if (!booking) return;
+
+    const result = await CheckInService.checkOut(booking);
+    if (result.violation) {
+      return res.status(result.violation.statusCode).json({
+        success: false,
+        message: result.violation.message,
+        ...result.violation.details
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'You are checked out',
+      data: { checkIn: await toCheckInDetails(result.booking) }
+    });
+
+  } catch (error: any) {
+    console.error('Error in checkOutByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check out'
+    });
+  }
+};
@@ -2,6 +2,8 @@ import { Response } from 'express';
 import { Contact, ContactType, ContextState } from '../models/Contact';
 import { AuthRequest } from '../middleware/auth';
 import AIContextService from '../services/aiContextService';
+import ContactMergeService from '../services/contactMergeService';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 
@@ -55,6 +57,10 @@ const addInteractionSchema = Joi.object({
   }).optional()
 });
 
+const mergeContactSchema = Joi.object({
+  sourceContactId: Joi.string().required()
+});
+
 const updateContextStateSchema = Joi.object({
   contextState: Joi.string().valid('New', 'Touring', 'Negotiating', 'Active', 'Inactive', 'Churned').required(),
   reason: Joi.string().max(500).optional()
@@ -74,16 +80,21 @@ export const createContact = async (req: AuthRequest, res: Response) => {
     }
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
       });
     }
 
+    // Store phone numbers in E.164 so WhatsApp messages can be matched to the contact
+    if (value.phone) {
+      value.phone = normalizePhoneNumber(value.phone) || value.phone;
+    }
+
     // Check if contact already exists for this organization
     const existingContact = await Contact.findOne({
-      organizationId: user._id,
+      organizationId: req.organizationId,
       email: value.email
     });
 
@@ -107,7 +118,7 @@ export const createContact = async (req: AuthRequest, res: Response) => {
 
     const contact = new Contact({
       ...value,
-      organizationId: user._id,
+      organizationId: req.organizationId,
       createdBy: user._id,
       updatedBy: user._id,
       aiContext: {
@@ -144,7 +155,7 @@ export const createContact = async (req: AuthRequest, res: Response) => {
 export const getContacts = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -161,7 +172,7 @@ export const getContacts = async (req: AuthRequest, res: Response) => {
     const tags = req.query.tags as string;
 
     // Build filter query
-    const filter: any = { organizationId: user._id };
+    const filter: any = { organizationId: req.organizationId };
 
     if (search) {
       filter.$or = [
@@ -222,7 +233,7 @@ export const getContacts = async (req: AuthRequest, res: Response) => {
 export const getContact = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -240,7 +251,7 @@ export const getContact = async (req: AuthRequest, res: Response) => {
 
     const contact = await Contact.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     })
       .populate('assignedTo', 'firstName lastName email')
       .populate('createdBy', 'firstName lastName email')
@@ -287,7 +298,7 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
     console.log('Validated data:', JSON.stringify(value, null, 2));
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -332,7 +343,7 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
       console.log('Checking email conflict for:', value.email);
       try {
         const existingContact = await Contact.findOne({
-          organizationId: user._id,
+          organizationId: req.organizationId,
           email: value.email,
           _id: { $ne: id }
         });
@@ -354,6 +365,10 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
       }
     }
 
+    if (value.phone) {
+      value.phone = normalizePhoneNumber(value.phone) || value.phone;
+    }
+
     console.log('Building update data...');
     
     // Separate nested objects from other fields to avoid MongoDB conflicts
@@ -397,12 +412,12 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
     console.log('Final update data:', JSON.stringify(updateData, null, 2));
 
     console.log('Executing findOneAndUpdate...');
-    console.log('Query filter:', { _id: id, organizationId: user._id });
+    console.log('Query filter:', { _id: id, organizationId: req.organizationId });
     
     let contact;
     try {
       contact = await Contact.findOneAndUpdate(
-        { _id: id, organizationId: user._id },
+        { _id: id, organizationId: req.organizationId },
         updateData,
         { new: true, runValidators: true }
       );
@@ -425,7 +440,7 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
     }
 
     if (!contact) {
-      console.error('Contact not found with ID:', id, 'and organizationId:', user._id);
+      console.error('Contact not found with ID:', id, 'and organizationId:', req.organizationId);
       return res.status(404).json({
         success: false,
         message: 'Contact not found'
@@ -502,7 +517,7 @@ export const updateContact = async (req: AuthRequest, res: Response) => {
 export const deleteContact = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -520,7 +535,7 @@ export const deleteContact = async (req: AuthRequest, res: Response) => {
 
     const contact = await Contact.findOneAndDelete({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!contact) {
@@ -555,7 +570,7 @@ export const addInteraction = async (req: AuthRequest, res: Response) => {
     }
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -573,7 +588,7 @@ export const addInteraction = async (req: AuthRequest, res: Response) => {
 
     const contact = await Contact.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!contact) {
@@ -623,7 +638,7 @@ export const updateContextState = async (req: AuthRequest, res: Response) => {
     }
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -641,7 +656,7 @@ export const updateContextState = async (req: AuthRequest, res: Response) => {
 
     const contact = await Contact.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!contact) {
@@ -678,7 +693,7 @@ export const updateContextState = async (req: AuthRequest, res: Response) => {
 export const getContactStats = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -686,7 +701,7 @@ export const getContactStats = async (req: AuthRequest, res: Response) => {
     }
 
     const stats = await Contact.aggregate([
-      { $match: { organizationId: user._id } },
+      { $match: { organizationId: req.organizationId } },
       {
         $facet: {
           totalContacts: [{ $count: "count" }],
@@ -733,7 +748,7 @@ export const getContactStats = async (req: AuthRequest, res: Response) => {
 export const getContactAIContext = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -751,7 +766,7 @@ export const getContactAIContext = async (req: AuthRequest, res: Response) => {
 
     const contact = await Contact.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!contact) {
@@ -779,7 +794,7 @@ export const getContactAIContext = async (req: AuthRequest, res: Response) => {
 export const getConversationPrompts = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -805,7 +820,7 @@ export const getConversationPrompts = async (req: AuthRequest, res: Response) =>
 
     const contact = await Contact.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!contact) {
@@ -828,4 +843,119 @@ export const getConversationPrompts = async (req: AuthRequest, res: Response) =>
       message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+export const getContactDuplicates = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user || !req.organizationId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid contact ID'
+      });
+    }
+
+    const contact = await Contact.findOne({
+      _id: id,
+      organizationId: req.organizationId
+    });
+
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found'
+      });
+    }
+
+    const duplicates = await ContactMergeService.findDuplicates(contact);
+
+    res.json({
+      success: true,
+      data: { duplicates }
+    });
+  } catch (error) {
+    console.error('Get contact duplicates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const mergeContact = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = mergeContactSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = req.user;
+    if (!user || !req.organizationId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(value.sourceContactId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid contact ID'
+      });
+    }
+
+    if (id === value.sourceContactId) {
+      return res.status(400).json({
+        success: false,
+        message: 'A contact cannot be merged into itself'
+      });
+    }
+
+    const [target, source] = await Promise.all([
+      Contact.findOne({ _id: id, organizationId: req.organizationId }),
+      Contact.findOne({ _id: value.sourceContactId, organizationId: req.organizationId })
+    ]);
+
+    if (!target || !source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found'
+      });
+    }
+
+    await ContactMergeService.mergeContacts(target, source, user._id);
+
+    const populatedContact = await Contact.findById(target._id)
+      .populate('assignedTo', 'firstName lastName email')
+      .populate('createdBy', 'firstName lastName email')
+      .populate('updatedBy', 'firstName lastName email')
+      .populate('interactions.createdBy', 'firstName lastName email');
+
+    res.json({
+      success: true,
+      message: 'Contacts merged successfully',
+      data: { contact: populatedContact }
+    });
+  } catch (error) {
+    console.error('Merge contacts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
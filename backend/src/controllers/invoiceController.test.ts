@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import app from '../app';
+import { User, IUser } from '../models/User';
+import { Organization, IOrganization } from '../models/Organization';
+import { Invoice, IInvoice } from '../models/Invoice';
+import { Payment } from '../models/Payment';
+import { SessionService } from '../services/sessionService';
+
+describe('invoice payments and refunds', () => {
+  let mongo: MongoMemoryServer;
+  let token: string;
+  let user: IUser;
+  let organization: IOrganization;
+  let sequence = 0;
+
+  // A 1000 INR invoice with nothing paid on it
+  const createInvoice = (): Promise<IInvoice> => {
+    sequence += 1;
+    return Invoice.create({
+      organizationId: organization._id,
+      invoiceNumber: `INV-TEST-${sequence}`,
+      sequence,
+      sourceType: 'membership',
+      customer: { name: 'Walk-in Customer' },
+      lineItems: [{ description: 'Monthly membership', quantity: 1, unitPrice: 1000, amount: 1000 }],
+      subtotal: 1000,
+      taxTotal: 0,
+      total: 1000,
+      currency: 'INR',
+      status: 'Issued',
+      issuedAt: new Date(),
+      createdBy: user._id,
+      updatedBy: user._id
+    });
+  };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+
+    user = new User({ email: 'owner@example.com', password: 'Password123!', firstName: 'Olivia', lastName: 'Owner' });
+    user.markOnboardingCompleted(false);
+    await user.save();
+
+    organization = new Organization({ name: 'Test Coworking', ownerId: user._id });
+    organization.addMember(user._id, 'admin');
+    await organization.save();
+
+    user.organizationId = organization._id;
+    await user.save();
+
+    ({ token } = await SessionService.createSession(user));
+  }, 120000);
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('takes the balance due once when the same payment arrives several times at once', async () => {
+    const invoice = await createInvoice();
+
+    const responses = await Promise.all(Array.from({ length: 6 }, () =>
+      request(app)
+        .post(`/api/invoices/${invoice._id}/payments`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ amount: 600, method: 'cash' })));
+
+    const statuses = responses.map(response => response.status);
+    expect(statuses.filter(status => status === 201)).toHaveLength(1);
+    expect(statuses.filter(status => status === 201 || status === 400 || status === 409)).toHaveLength(6);
+
+    const saved = await Invoice.findById(invoice._id);
+    expect(saved!.amountPaid).toBe(600);
+    expect(saved!.status).toBe('Partially Paid');
+    expect(await Payment.countDocuments({ invoiceId: invoice._id, type: 'payment' })).toBe(1);
+  }, 60000);
+
+  it('gives back the reservation of a declined payment', async () => {
+    const invoice = await createInvoice();
+
+    const declined = await request(app)
+      .post(`/api/invoices/${invoice._id}/payments`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ method: 'card', token: 'tok_decline' });
+
+    expect(declined.status).toBe(402);
+    const saved = await Invoice.findById(invoice._id);
+    expect(saved!.amountPaid).toBe(0);
+    expect(saved!.status).toBe('Issued');
+  }, 60000);
+
+  it('refunds what was paid once when the same refund arrives several times at once', async () => {
+    const invoice = await createInvoice();
+    const paid = await request(app)
+      .post(`/api/invoices/${invoice._id}/payments`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ method: 'cash' });
+    expect(paid.status).toBe(201);
+
+    const responses = await Promise.all(Array.from({ length: 6 }, () =>
+      request(app)
+        .post(`/api/invoices/${invoice._id}/refunds`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ amount: 700 })));
+
+    expect(responses.filter(response => response.status === 201)).toHaveLength(1);
+
+    const saved = await Invoice.findById(invoice._id);
+    expect(saved!.amountRefunded).toBe(700);
+    expect(saved!.status).toBe('Partially Refunded');
+    expect(await Payment.countDocuments({ invoiceId: invoice._id, type: 'refund', status: 'Succeeded' })).toBe(1);
+  }, 60000);
+});
@@ -0,0 +1,551 @@
+import { Response } from 'express';
+import { Invoice } from '../models/Invoice';
+import { Booking } from '../models/Booking';
+import { Contact } from '../models/Contact';
+import { Location } from '../models/Location';
+import { Organization } from '../models/Organization';
+import { AuthRequest } from '../middleware/auth';
+import { InvoiceService } from '../services/invoiceService';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import Joi from 'joi';
+import mongoose from 'mongoose';
+
+// Validation schemas
+const createInvoiceSchema = Joi.object({
+  sourceType: Joi.string().valid('booking', 'membership').required(),
+  bookingId: Joi.string().when('sourceType', { is: 'booking', then: Joi.required(), otherwise: Joi.forbidden() }),
+
+  // Membership invoices
+  contactId: Joi.string().when('sourceType', { is: 'membership', then: Joi.required(), otherwise: Joi.forbidden() }),
+  periodStart: Joi.date().when('sourceType', { is: 'membership', then: Joi.required(), otherwise: Joi.forbidden() }),
+  periodEnd: Joi.date().greater(Joi.ref('periodStart')).when('sourceType', { is: 'membership', then: Joi.required(), otherwise: Joi.forbidden() }),
+  amount: Joi.number().positive().when('sourceType', { is: 'membership', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  currency: Joi.string().length(3).uppercase().default('INR'),
+  locationId: Joi.string().optional(),
+
+  dueDate: Joi.date().optional(),
+  notes: Joi.string().trim().max(1000).allow('').optional()
+});
+
+const recordPaymentSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional(), // Defaults to the balance due
+  method: Joi.string().valid('card', 'upi', 'bank_transfer', 'cash', 'other').required(),
+  token: Joi.string().trim().max(200).optional(),
+  reference: Joi.string().trim().max(100).allow('').optional(),
+  notes: Joi.string().trim().max(500).allow('').optional()
+});
+
+const refundSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional(), // Defaults to the booking's cancellation refund, else everything paid
+  reason: Joi.string().trim().max(500).allow('').optional()
+});
+
+const voidInvoiceSchema = Joi.object({
+  reason: Joi.string().trim().max(500).allow('').optional()
+});
+
+// Helper function to ensure user is authenticated
+const ensureAuthenticated = (req: AuthRequest, res: Response) => {
+  if (!req.user || !req.organizationId) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return false;
+  }
+  return true;
+};
+
+const validationFailed = (res: Response, error: Joi.ValidationError) => {
+  return res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+};
+
+const findInvoice = async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid invoice ID format'
+    });
+    return null;
+  }
+
+  const invoice = await Invoice.findOne({ _id: id, organizationId: req.organizationId });
+  if (!invoice) {
+    res.status(404).json({
+      success: false,
+      message: 'Invoice not found'
+    });
+    return null;
+  }
+  return invoice;
+};
+
+// Get invoices with filtering and pagination
+export const getInvoices = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const organizationId = req.organizationId!;
+    const {
+      page = '1',
+      limit = '10',
+      search = '',
+      status,
+      sourceType,
+      bookingId,
+      contactId
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.max(1, Math.min(100, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const filter: any = { organizationId };
+
+    for (const [field, value] of [['bookingId', bookingId], ['contactId', contactId]] as const) {
+      if (!value) continue;
+      if (!mongoose.Types.ObjectId.isValid(value as string)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid ${field} format`
+        });
+      }
+      filter[field] = value;
+    }
+
+    if (status) filter.status = status;
+    if (sourceType) filter.sourceType = sourceType;
+
+    if (search) {
+      const pattern = new RegExp((search as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [
+        { invoiceNumber: pattern },
+        { 'customer.name': pattern },
+        { 'customer.email': pattern }
+      ];
+    }
+
+    const [invoices, total] = await Promise.all([
+      Invoice.find(filter)
+        .sort({ issuedAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Invoice.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      data: {
+        invoices,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems: total,
+          itemsPerPage: limitNum,
+          hasNextPage: pageNum < totalPages,
+          hasPrevPage: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getInvoices:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve invoices',
+      error: error.message
+    });
+  }
+};
+
+// Get a single invoice with its payments and refunds
+export const getInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const invoice = await findInvoice(req, res);
+    if (!invoice) return;
+
+    const payments = await InvoiceService.getLedger(invoice);
+
+    res.json({
+      success: true,
+      data: { invoice, payments }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getInvoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve invoice',
+      error: error.message
+    });
+  }
+};
+
+// Issue an invoice for a booking or a membership period
+export const createInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+    const userId = req.user!._id;
+
+    const { error, value } = createInvoiceSchema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) return validationFailed(res, error);
+
+    const referencedIds = [value.bookingId, value.contactId, value.locationId].filter(Boolean);
+    if (referencedIds.some((referenceId: string) => !mongoose.Types.ObjectId.isValid(referenceId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid ID format'
+      });
+    }
+
+    if (value.sourceType === 'booking') {
+      const booking = await Booking.findOne({ _id: value.bookingId, organizationId });
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      const existingInvoice = await InvoiceService.findBookingInvoice(booking);
+      if (existingInvoice) {
+        return res.status(409).json({
+          success: false,
+          message: `Booking is already invoiced on ${existingInvoice.invoiceNumber}`,
+          data: { invoice: existingInvoice }
+        });
+      }
+
+      if (booking.getBillableAmount() <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Booking has no amount to invoice'
+        });
+      }
+
+      const invoice = await InvoiceService.createForBooking(booking, userId, {
+        dueDate: value.dueDate,
+        notes: value.notes || undefined
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: `Invoice ${invoice.invoiceNumber} created`,
+        data: { invoice }
+      });
+    }
+
+    const contact = await Contact.findOne({ _id: value.contactId, organizationId });
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found or does not belong to your organization'
+      });
+    }
+
+    const amount = value.amount ?? contact.membership?.monthlyRate;
+    if (!amount || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount is required when the contact has no membership rate',
+        errors: [{ field: 'amount', message: 'Enter the amount to invoice' }]
+      });
+    }
+
+    if (value.locationId && !(await Location.exists({ _id: value.locationId, organizationId }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Location not found or does not belong to your organization'
+      });
+    }
+
+    const invoice = await InvoiceService.createForMembership({
+      organizationId,
+      userId,
+      contact,
+      amount,
+      currency: value.currency,
+      periodStart: value.periodStart,
+      periodEnd: value.periodEnd,
+      locationId: value.locationId,
+      dueDate: value.dueDate,
+      notes: value.notes || undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Invoice ${invoice.invoiceNumber} created`,
+      data: { invoice }
+    });
+
+  } catch (error: any) {
+    console.error('Error in createInvoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create invoice',
+      error: error.message
+    });
+  }
+};
+
+// Take a full or partial payment
+export const recordPayment = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const userId = req.user!._id;
+
+    const { error, value } = recordPaymentSchema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) return validationFailed(res, error);
+
+    const invoice = await findInvoice(req, res);
+    if (!invoice) return;
+
+    const balanceDue = invoice.getBalanceDue();
+    const amount = value.amount ?? balanceDue;
+
+    if (invoice.status === 'Void' || balanceDue <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: invoice.status === 'Void' ? 'Invoice is void' : 'Invoice is already paid'
+      });
+    }
+
+    if (amount > balanceDue) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment exceeds the balance due of ${invoice.currency} ${balanceDue}`,
+        errors: [{ field: 'amount', message: `Enter at most ${balanceDue}` }]
+      });
+    }
+
+    const result = await InvoiceService.recordPayment({
+      invoice,
+      userId,
+      amount,
+      method: value.method,
+      token: value.token,
+      reference: value.reference || undefined,
+      notes: value.notes || undefined
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message: 'Another payment was recorded on this invoice at the same time; check the balance due and try again'
+      });
+    }
+
+    if (result.failureReason) {
+      return res.status(402).json({
+        success: false,
+        message: `Payment declined: ${result.failureReason}`,
+        data: { invoice: result.invoice, payment: result.payments[0] }
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Recorded payment of ${invoice.currency} ${amount}`,
+      data: { invoice: result.invoice, payment: result.payments[0] }
+    });
+
+  } catch (error: any) {
+    console.error('Error in recordPayment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record payment',
+      error: error.message
+    });
+  }
+};
+
+// Refund part or all of what was paid
+export const refundInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const userId = req.user!._id;
+
+    const { error, value } = refundSchema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) return validationFailed(res, error);
+
+    const invoice = await findInvoice(req, res);
+    if (!invoice) return;
+
+    const refundable = invoice.getRefundableAmount();
+    if (refundable <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing has been paid on this invoice'
+      });
+    }
+
+    // A cancelled booking's refund was set by its cancellation policy
+    let amount = value.amount;
+    if (amount === undefined && invoice.bookingId) {
+      const booking = await Booking.findById(invoice.bookingId);
+      if (booking?.status === 'Cancelled' && booking.cancellationRefund) {
+        amount = Math.min(booking.cancellationRefund.amount, refundable);
+      }
+    }
+    amount = amount ?? refundable;
+
+    if (amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'The cancellation policy allows no refund for this booking'
+      });
+    }
+
+    if (amount > refundable) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund exceeds the refundable amount of ${invoice.currency} ${refundable}`,
+        errors: [{ field: 'amount', message: `Enter at most ${refundable}` }]
+      });
+    }
+
+    const result = await InvoiceService.refund({
+      invoice,
+      userId,
+      amount,
+      reason: value.reason || undefined
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message: 'Another refund was made on this invoice at the same time; check the refundable amount and try again'
+      });
+    }
+
+    if (result.failureReason) {
+      return res.status(502).json({
+        success: false,
+        message: `Refund failed: ${result.failureReason}`,
+        data: { invoice: result.invoice, refunds: result.payments }
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Refunded ${invoice.currency} ${amount}`,
+      data: { invoice: result.invoice, refunds: result.payments }
+    });
+
+  } catch (error: any) {
+    console.error('Error in refundInvoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refund invoice',
+      error: error.message
+    });
+  }
+};
+
+// Void an invoice issued in error
+export const voidInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const userId = req.user!._id;
+
+    const { error, value } = voidInvoiceSchema.validate(req.body || {}, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) return validationFailed(res, error);
+
+    const invoice = await findInvoice(req, res);
+    if (!invoice) return;
+
+    if (invoice.status === 'Void') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invoice is already void'
+      });
+    }
+
+    if (invoice.getRefundableAmount() > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Refund the payments on this invoice before voiding it'
+      });
+    }
+
+    const voided = await InvoiceService.voidInvoice(invoice, userId, value.reason || undefined);
+
+    res.json({
+      success: true,
+      message: `Invoice ${voided.invoiceNumber} voided`,
+      data: { invoice: voided }
+    });
+
+  } catch (error: any) {
+    console.error('Error in voidInvoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to void invoice',
+      error: error.message
+    });
+  }
+};
+
+// Download an invoice as PDF
+export const downloadInvoicePdf = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const invoice = await findInvoice(req, res);
+    if (!invoice) return;
+
+    const [organization, location] = await Promise.all([
+      Organization.findById(invoice.organizationId),
+      invoice.locationId ? Location.findById(invoice.locationId) : null
+    ]);
+
+    const pdf = renderInvoicePdf(invoice, {
+      name: organization?.name || 'Invoice',
+      locationName: location?.name,
+      address: location?.getDisplayAddress(),
+      taxId: invoice.sellerTaxId
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+    res.send(pdf);
+
+  } catch (error: any) {
+    console.error('Error in downloadInvoicePdf:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to render invoice',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import { JobRun } from '../models/JobRun';
+import { AuthRequest } from '../middleware/auth';
+import { SchedulerService } from '../services/schedulerService';
+import Joi from 'joi';
+
+// Validation schemas
+const jobRunsQuerySchema = Joi.object({
+  status: Joi.string().valid('Running', 'Succeeded', 'Failed').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+// Helper function to ensure user is authenticated
+const ensureAuthenticated = (req: AuthRequest, res: Response) => {
+  if (!req.user || !req.organizationId) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return false;
+  }
+  return true;
+};
+
+const findJob = (req: AuthRequest, res: Response) => {
+  const job = SchedulerService.getJob(req.params.name);
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      message: 'Job not found'
+    });
+    return null;
+  }
+  return job;
+};
+
+// List the background jobs with their state and latest runs
+export const getJobs = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const jobs = await SchedulerService.getStatus();
+
+    res.json({
+      success: true,
+      data: { jobs }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getJobs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve jobs',
+      error: error.message
+    });
+  }
+};
+
+// Run history of a background job, newest first
+export const getJobRuns = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const job = findJob(req, res);
+    if (!job) return;
+
+    const { error, value } = jobRunsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const filter: any = { jobName: job.name };
+    if (value.status) filter.status = value.status;
+
+    const [runs, total] = await Promise.all([
+      JobRun.find(filter)
+        .sort({ startedAt: -1 })
+        .skip((value.page - 1) * value.limit)
+        .limit(value.limit)
+        .populate('triggeredBy', 'firstName lastName'),
+      JobRun.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        runs,
+        pagination: {
+          currentPage: value.page,
+          totalPages: Math.ceil(total / value.limit),
+          totalItems: total,
+          itemsPerPage: value.limit,
+          hasNextPage: value.page * value.limit < total,
+          hasPrevPage: value.page > 1
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getJobRuns:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve job runs',
+      error: error.message
+    });
+  }
+};
+
+// Start a background job now, outside its schedule
+export const runJob = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const job = findJob(req, res);
+    if (!job) return;
+
+    const run = await SchedulerService.runNow(job.name, req.user!._id);
+    if (!run) {
+      return res.status(409).json({
+        success: false,
+        message: 'This job is already running'
+      });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Job started',
+      data: { run }
+    });
+
+  } catch (error: any) {
+    console.error('Error in runJob:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start job',
+      error: error.message
+    });
+  }
+};
@@ -1,6 +1,8 @@
 import { Response } from 'express';
-import { Location, DayOfWeek } from '../models/Location';
+import { Location } from '../models/Location';
 import { AuthRequest } from '../middleware/auth';
+import { LocationCalendarService, MAX_DATE_EXCEPTIONS } from '../services/locationCalendarService';
+import { formatDateInTimezone, getDayOfWeekInTimezone } from '../utils/timeValidation';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 
@@ -36,6 +38,11 @@ const locationAddressSchema = Joi.object({
   unitNumber: Joi.string().trim().max(50).allow('').optional()
 });
 
+const locationTaxRateSchema = Joi.object({
+  name: Joi.string().trim().max(50).required(),
+  rate: Joi.number().min(0).max(100).required()
+});
+
 const createLocationSchema = Joi.object({
   name: Joi.string().trim().min(1).max(100).required(),
   description: Joi.string().trim().max(500).allow('').optional(),
@@ -59,8 +66,11 @@ const createLocationSchema = Joi.object({
     minimumBookingDuration: Joi.number().integer().min(15).default(60),
     maximumBookingDuration: Joi.number().integer().min(15).default(480),
     advanceBookingLimit: Joi.number().integer().min(1).default(30),
+    pendingHoldMinutes: Joi.number().integer().min(0).max(10080).default(30),
     cancellationPolicy: Joi.string().trim().max(500).allow('').optional()
   }).optional(),
+  taxId: Joi.string().trim().uppercase().max(50).allow('').optional(),
+  taxRates: Joi.array().items(locationTaxRateSchema).max(5).optional(),
   images: Joi.array().items(Joi.string().trim().max(500)).optional(),
   virtualTourUrl: Joi.string().trim().max(500).allow('').optional(),
   managerId: Joi.string().allow('').optional(),
@@ -72,9 +82,37 @@ const updateLocationSchema = createLocationSchema.fork(
   (schema) => schema.optional()
 );
 
+const calendarDateSchema = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).custom((value, helpers) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || !date.toISOString().startsWith(value)) {
+    return helpers.error('any.invalid');
+  }
+  return value;
+});
+
+const dateExceptionSchema = Joi.object({
+  date: calendarDateSchema.required(),
+  type: Joi.string().valid('closed', 'modified_hours', 'special_event').required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  openTime: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .when('type', { is: 'modified_hours', then: Joi.required() }),
+  closeTime: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .when('type', { is: 'modified_hours', then: Joi.required() }),
+  notes: Joi.string().max(200).trim().allow('').optional()
+}).and('openTime', 'closeTime');
+
+const dateExceptionQuerySchema = Joi.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional()
+});
+
+const calendarImportSchema = Joi.object({
+  calendar: Joi.string().max(2000000).required()
+});
+
 // Helper function to ensure user is authenticated
 const ensureAuthenticated = (req: AuthRequest, res: Response) => {
-  if (!req.user) {
+  if (!req.user || !req.organizationId) {
     res.status(401).json({
       success: false,
       message: 'Authentication required'
@@ -89,7 +127,7 @@ export const getLocations = async (req: AuthRequest, res: Response) => {
   try {
     if (!ensureAuthenticated(req, res)) return;
     
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const {
       page = '1',
       limit = '10',
@@ -193,7 +231,7 @@ export const getLocation = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== GET LOCATION REQUEST ===');
     console.log('Location ID:', id);
@@ -246,7 +284,7 @@ export const createLocation = async (req: AuthRequest, res: Response) => {
     }
 
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const userId = req.user!._id;
 
     console.log('Organization ID:', organizationId);
@@ -300,7 +338,7 @@ export const updateLocation = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
     const userId = req.user!._id;
 
     console.log('=== UPDATE LOCATION REQUEST ===');
@@ -382,7 +420,7 @@ export const deleteLocation = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== DELETE LOCATION REQUEST ===');
     console.log('Location ID:', id);
@@ -420,7 +458,7 @@ export const deleteLocation = async (req: AuthRequest, res: Response) => {
 export const getLocationStats = async (req: AuthRequest, res: Response) => {
   try {
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== GET LOCATION STATS REQUEST ===');
     console.log('Organization ID:', organizationId);
@@ -479,7 +517,7 @@ export const checkLocationHours = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     console.log('=== CHECK LOCATION HOURS REQUEST ===');
     console.log('Location ID:', id);
@@ -501,23 +539,21 @@ export const checkLocationHours = async (req: AuthRequest, res: Response) => {
     }
 
     const now = new Date();
-    const currentDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][now.getDay()] as DayOfWeek;
-    const currentTime = now.toTimeString().slice(0, 5); // HH:MM format
-    
-    const todayHours = location.operatingHours.find(h => h.day === currentDay);
-    const isOpen = todayHours?.isOpen && !todayHours.isHoliday && 
-                   todayHours.openTime && todayHours.closeTime &&
-                   currentTime >= todayHours.openTime && currentTime <= todayHours.closeTime;
+    const todayHours = location.getHoursForDate(formatDateInTimezone(now, location.timezone));
+    const weeklyHours = location.getOperatingHoursForDay(getDayOfWeekInTimezone(now, location.timezone));
+
+    // Holidays marked on the weekly hours apply unless the date has its own exception
+    const isOpen = location.isOpenNow() && (!!todayHours.exception || !weeklyHours?.isHoliday);
 
     const response = {
-      isOpen: !!isOpen,
+      isOpen,
       currentTime: now.toLocaleTimeString('en-US', { 
         timeZone: location.timezone,
         hour12: false,
         hour: '2-digit',
         minute: '2-digit'
       }),
-      todayHours: todayHours || null,
+      todayHours,
       allHours: location.operatingHours
     };
 
@@ -531,4 +567,263 @@ export const checkLocationHours = async (req: AuthRequest, res: Response) => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+// Load the location named in the route for the date exception handlers, responding when it can't be used
+const findLocationForExceptions = async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid location ID'
+    });
+    return null;
+  }
+
+  const location = await Location.findOne({ _id: id, organizationId: req.organizationId });
+  if (!location) {
+    res.status(404).json({
+      success: false,
+      message: 'Location not found'
+    });
+    return null;
+  }
+  return location;
+};
+
+// Get the holidays and special dates of a location
+export const getLocationDateExceptions = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = dateExceptionQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const location = await findLocationForExceptions(req, res);
+    if (!location) return;
+
+    const today = formatDateInTimezone(new Date(), location.timezone);
+    res.json({
+      success: true,
+      data: {
+        dateExceptions: LocationCalendarService.getExceptions(location, value.from, value.to),
+        todayHours: location.getHoursForDate(today)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in getLocationDateExceptions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch location date exceptions',
+      error: error.message
+    });
+  }
+};
+
+// Add a holiday or special date to a location
+export const addLocationDateException = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = dateExceptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const location = await findLocationForExceptions(req, res);
+    if (!location) return;
+
+    const existing = location.getDateException(value.date);
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: `${value.date} already has an exception: ${existing.name}`
+      });
+    }
+    if (location.dateExceptions.length >= MAX_DATE_EXCEPTIONS) {
+      return res.status(400).json({
+        success: false,
+        message: `A location can have at most ${MAX_DATE_EXCEPTIONS} date exceptions`
+      });
+    }
+
+    location.dateExceptions.push({ ...value, source: 'manual' });
+    location.dateExceptions.sort((a, b) => a.date.localeCompare(b.date));
+    location.updatedBy = req.user!._id;
+    await location.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Date exception added successfully',
+      data: { dateException: location.getDateException(value.date) }
+    });
+  } catch (error: any) {
+    console.error('Error in addLocationDateException:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add location date exception',
+      error: error.message
+    });
+  }
+};
+
+// Update a holiday or special date of a location
+export const updateLocationDateException = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const location = await findLocationForExceptions(req, res);
+    if (!location) return;
+
+    const exception = LocationCalendarService.findException(location, req.params.exceptionId);
+    if (!exception) {
+      return res.status(404).json({
+        success: false,
+        message: 'Date exception not found'
+      });
+    }
+
+    // Changes are checked together with the fields they leave as they are
+    const { error, value } = dateExceptionSchema.validate({
+      date: exception.date,
+      type: exception.type,
+      name: exception.name,
+      ...(exception.openTime && { openTime: exception.openTime }),
+      ...(exception.closeTime && { closeTime: exception.closeTime }),
+      ...(exception.notes && { notes: exception.notes }),
+      ...req.body
+    });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existing = location.getDateException(value.date);
+    if (existing && !existing._id.equals(exception._id)) {
+      return res.status(409).json({
+        success: false,
+        message: `${value.date} already has an exception: ${existing.name}`
+      });
+    }
+
+    exception.date = value.date;
+    exception.type = value.type;
+    exception.name = value.name;
+    exception.openTime = value.openTime;
+    exception.closeTime = value.closeTime;
+    exception.notes = value.notes;
+    location.dateExceptions.sort((a, b) => a.date.localeCompare(b.date));
+    location.updatedBy = req.user!._id;
+    await location.save();
+
+    res.json({
+      success: true,
+      message: 'Date exception updated successfully',
+      data: { dateException: exception }
+    });
+  } catch (error: any) {
+    console.error('Error in updateLocationDateException:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update location date exception',
+      error: error.message
+    });
+  }
+};
+
+// Remove a holiday or special date from a location
+export const deleteLocationDateException = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const location = await findLocationForExceptions(req, res);
+    if (!location) return;
+
+    const exception = LocationCalendarService.findException(location, req.params.exceptionId);
+    if (!exception) {
+      return res.status(404).json({
+        success: false,
+        message: 'Date exception not found'
+      });
+    }
+
+    location.dateExceptions = location.dateExceptions.filter(item => !item._id.equals(exception._id));
+    location.updatedBy = req.user!._id;
+    await location.save();
+
+    res.json({ success: true, message: 'Date exception deleted successfully' });
+  } catch (error: any) {
+    console.error('Error in deleteLocationDateException:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete location date exception',
+      error: error.message
+    });
+  }
+};
+
+// Import holidays and special dates from an iCalendar (.ics) file
+export const importLocationCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = calendarImportSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const location = await findLocationForExceptions(req, res);
+    if (!location) return;
+
+    let result;
+    try {
+      result = LocationCalendarService.importICalendar(location, value.calendar);
+    } catch (parseError: any) {
+      return res.status(400).json({
+        success: false,
+        message: parseError.message
+      });
+    }
+
+    if (location.dateExceptions.length > MAX_DATE_EXCEPTIONS) {
+      return res.status(400).json({
+        success: false,
+        message: `The calendar would give the location more than ${MAX_DATE_EXCEPTIONS} date exceptions`
+      });
+    }
+
+    location.updatedBy = req.user!._id;
+    await location.save();
+
+    console.log('Location calendar imported:', location._id, result.imported, 'dates');
+    res.json({
+      success: true,
+      message: `Imported ${result.imported} date${result.imported === 1 ? '' : 's'}`,
+      data: { ...result, dateExceptions: location.dateExceptions }
+    });
+  } catch (error: any) {
+    console.error('Error in importLocationCalendar:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import location calendar',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,423 @@
+import { Response } from 'express';
+import { MembershipPlan } from '../models/MembershipPlan';
+import { Contact } from '../models/Contact';
+import { Location } from '../models/Location';
+import { AuthRequest } from '../middleware/auth';
+import { MembershipService } from '../services/membershipService';
+import Joi from 'joi';
+import mongoose from 'mongoose';
+
+// Validation schemas
+const allowanceSchema = Joi.object({
+  unit: Joi.string().valid('hours', 'credits').required(),
+  amount: Joi.number().min(0).precision(2).required(),
+  creditValue: Joi.number().positive().precision(2).when('unit', { is: 'credits', then: Joi.required(), otherwise: Joi.forbidden() }),
+  spaceTypes: Joi.array().items(Joi.string().valid('Hot Desk', 'Meeting Room', 'Private Office')).min(1).unique().optional()
+});
+
+const createPlanSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow('').optional(),
+  monthlyPrice: Joi.number().min(0).precision(2).required(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  allowance: allowanceSchema.required(),
+  hotDeskAccess: Joi.boolean().optional(),
+  allowedLocationIds: Joi.array().items(Joi.string().hex().length(24)).unique().optional(),
+  isActive: Joi.boolean().optional()
+});
+
+const updatePlanSchema = createPlanSchema.fork(
+  ['name', 'monthlyPrice', 'allowance'],
+  (schema) => schema.optional()
+);
+
+const subscribeSchema = Joi.object({
+  planId: Joi.string().hex().length(24).required(),
+  startDate: Joi.date().optional(), // Defaults to now
+  autoRenew: Joi.boolean().default(true),
+  createInvoice: Joi.boolean().default(true)
+});
+
+const cancelSubscriptionSchema = Joi.object({
+  immediately: Joi.boolean().default(false)
+});
+
+// Helper function to ensure user is authenticated
+const ensureAuthenticated = (req: AuthRequest, res: Response) => {
+  if (!req.user || !req.organizationId) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return false;
+  }
+  return true;
+};
+
+const validationFailed = (res: Response, error: Joi.ValidationError) => {
+  return res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+};
+
+const findContact = async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid contact ID format'
+    });
+    return null;
+  }
+
+  const contact = await Contact.findOne({ _id: id, organizationId: req.organizationId });
+  if (!contact) {
+    res.status(404).json({
+      success: false,
+      message: 'Contact not found'
+    });
+    return null;
+  }
+  return contact;
+};
+
+const hasUnknownLocations = async (organizationId: mongoose.Types.ObjectId | string, locationIds: string[] | undefined) => {
+  if (!locationIds?.length) return false;
+  const found = await Location.countDocuments({ _id: { $in: locationIds }, organizationId });
+  return found !== locationIds.length;
+};
+
+// Get membership plans with their subscriber counts
+export const getMembershipPlans = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const organizationId = req.organizationId!;
+    const { includeInactive = 'false' } = req.query;
+
+    const filter: any = { organizationId };
+    if (includeInactive !== 'true') {
+      filter.isActive = true;
+    }
+
+    const [plans, subscriberCounts] = await Promise.all([
+      MembershipPlan.find(filter).sort({ monthlyPrice: 1, name: 1 }).lean(),
+      Contact.aggregate([
+        {
+          $match: {
+            organizationId: new mongoose.Types.ObjectId(organizationId),
+            'subscription.status': { $in: ['active', 'cancelled'] }
+          }
+        },
+        { $group: { _id: '$subscription.planId', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const countByPlan = new Map(subscriberCounts.map(entry => [entry._id.toString(), entry.count]));
+
+    res.json({
+      success: true,
+      data: {
+        plans: plans.map(plan => ({
+          ...plan,
+          subscriberCount: countByPlan.get(plan._id.toString()) || 0
+        }))
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getMembershipPlans:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve membership plans',
+      error: error.message
+    });
+  }
+};
+
+// Create a membership plan
+export const createMembershipPlan = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = createPlanSchema.validate(req.body);
+    if (error) return validationFailed(res, error);
+
+    const organizationId = req.organizationId!;
+    const userId = req.user!._id;
+
+    if (await hasUnknownLocations(organizationId, value.allowedLocationIds)) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more locations not found'
+      });
+    }
+
+    const plan = new MembershipPlan({
+      ...value,
+      organizationId,
+      createdBy: userId,
+      updatedBy: userId
+    });
+    await plan.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Membership plan created successfully',
+      data: { plan }
+    });
+
+  } catch (error: any) {
+    console.error('Error in createMembershipPlan:', error);
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'A membership plan with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create membership plan',
+      error: error.message
+    });
+  }
+};
+
+// Update a membership plan. Subscribers get the new allowance and price from their next renewal.
+export const updateMembershipPlan = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid membership plan ID format'
+      });
+    }
+
+    const { error, value } = updatePlanSchema.validate(req.body);
+    if (error) return validationFailed(res, error);
+
+    const organizationId = req.organizationId!;
+
+    if (await hasUnknownLocations(organizationId, value.allowedLocationIds)) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more locations not found'
+      });
+    }
+
+    const plan = await MembershipPlan.findOneAndUpdate(
+      { _id: id, organizationId },
+      { ...value, updatedBy: req.user!._id },
+      { new: true, runValidators: true }
+    );
+
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        message: 'Membership plan not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Membership plan updated successfully',
+      data: { plan }
+    });
+
+  } catch (error: any) {
+    console.error('Error in updateMembershipPlan:', error);
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'A membership plan with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update membership plan',
+      error: error.message
+    });
+  }
+};
+
+// Delete a membership plan that nobody is subscribed to
+export const deleteMembershipPlan = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid membership plan ID format'
+      });
+    }
+
+    const organizationId = req.organizationId!;
+
+    const plan = await MembershipPlan.findOne({ _id: id, organizationId });
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        message: 'Membership plan not found'
+      });
+    }
+
+    const subscribers = await Contact.countDocuments({
+      organizationId,
+      'subscription.planId': plan._id,
+      'subscription.status': { $in: ['active', 'cancelled'] }
+    });
+
+    if (subscribers > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Cannot delete membership plan. It has ${subscribers} subscribers. Deactivate it instead to stop new subscriptions and renewals.`
+      });
+    }
+
+    await plan.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Membership plan deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error in deleteMembershipPlan:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete membership plan',
+      error: error.message
+    });
+  }
+};
+
+// Get a contact's subscription, credit balance and credit history
+export const getContactCredits = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const found = await findContact(req, res);
+    if (!found) return;
+
+    // Viewing credits changes nothing; due renewals are projected and made by the scheduler
+    const contact = await MembershipService.projectRenewal(found);
+
+    const [plan, transactions] = await Promise.all([
+      contact.subscription ? MembershipPlan.findById(contact.subscription.planId) : null,
+      MembershipService.getLedger(contact)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        subscription: contact.subscription || null,
+        plan,
+        transactions
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getContactCredits:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve contact credits',
+      error: error.message
+    });
+  }
+};
+
+// Subscribe a contact to a plan, replacing any current subscription
+export const subscribeContact = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = subscribeSchema.validate(req.body);
+    if (error) return validationFailed(res, error);
+
+    const contact = await findContact(req, res);
+    if (!contact) return;
+
+    const plan = await MembershipPlan.findOne({ _id: value.planId, organizationId: req.organizationId, isActive: true });
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        message: 'Membership plan not found or inactive'
+      });
+    }
+
+    const { contact: updated, invoice } = await MembershipService.subscribe({
+      contact,
+      plan,
+      startDate: value.startDate || new Date(),
+      autoRenew: value.autoRenew,
+      userId: req.user!._id,
+      invoice: value.createInvoice
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Contact subscribed to ${plan.name}`,
+      data: {
+        subscription: updated.subscription,
+        plan,
+        invoice
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in subscribeContact:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to subscribe contact',
+      error: error.message
+    });
+  }
+};
+
+// Cancel a contact's subscription at the renewal date, or immediately
+export const cancelSubscription = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = cancelSubscriptionSchema.validate(req.body || {});
+    if (error) return validationFailed(res, error);
+
+    const contact = await findContact(req, res);
+    if (!contact) return;
+
+    if (!contact.subscription || contact.subscription.status === 'expired') {
+      return res.status(400).json({
+        success: false,
+        message: 'Contact has no active subscription'
+      });
+    }
+
+    const updated = await MembershipService.cancel(contact, req.user!._id, value.immediately);
+
+    res.json({
+      success: true,
+      message: value.immediately
+        ? 'Subscription cancelled'
+        : 'Subscription will end at the renewal date',
+      data: { subscription: updated.subscription }
+    });
+
+  } catch (error: any) {
+    console.error('Error in cancelSubscription:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to cancel subscription',
+      error: error.message
+    });
+  }
+};
@@ -94,12 +94,19 @@ export const updateOnboardingData = async (req: AuthRequest, res: Response) => {
 
     await user.save();
 
+    // Keep the organization name in sync with the company name captured during onboarding
+    if (onboardingData.companyName && req.organization && req.membership?.role === 'admin') {
+      req.organization.name = onboardingData.companyName;
+      await req.organization.save();
+    }
+
     const userResponse = {
       id: user._id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role,
+      role: req.membership?.role || user.role,
+      organizationId: user.organizationId,
       isEmailVerified: user.isEmailVerified,
       onboardingCompleted: user.onboardingCompleted,
       onboardingSkipped: user.onboardingSkipped,
@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import app from '../app';
+import { User, IUser } from '../models/User';
+import { Organization, IOrganization } from '../models/Organization';
+import { Session } from '../models/Session';
+import { SessionService } from '../services/sessionService';
+
+const createUser = async (email: string, firstName: string): Promise<IUser> => {
+  const user = new User({ email, password: 'Password123!', firstName, lastName: 'Tester' });
+  user.markOnboardingCompleted(false);
+  return user.save();
+};
+
+const createOrganization = async (name: string, owner: IUser): Promise<IOrganization> => {
+  const organization = new Organization({ name, ownerId: owner._id });
+  organization.addMember(owner._id, 'admin');
+  await organization.save();
+
+  owner.organizationId = organization._id;
+  await owner.save();
+  return organization;
+};
+
+describe('organization membership across organizations', () => {
+  let mongo: MongoMemoryServer;
+  let adminToken: string;
+  let organization: IOrganization;
+  let otherOrganization: IOrganization;
+  let existingUser: IUser;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+
+    const admin = await createUser('admin@example.com', 'Alice');
+    organization = await createOrganization('Test Coworking', admin);
+    ({ token: adminToken } = await SessionService.createSession(admin));
+
+    existingUser = await createUser('member@example.com', 'Mark');
+    otherOrganization = await createOrganization('Other Coworking', existingUser);
+  }, 120000);
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('adds a user from another organization without moving them, then lets them switch', async () => {
+    const added = await request(app)
+      .post('/api/organization/members')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email: 'member@example.com', role: 'member' });
+
+    expect(added.status).toBe(201);
+    expect(await Organization.exists({ _id: organization._id, 'members.userId': existingUser._id })).toBeTruthy();
+    expect((await User.findById(existingUser._id))!.organizationId!.equals(otherOrganization._id)).toBe(true);
+
+    const { token, session } = await SessionService.createSession(existingUser);
+
+    const memberships = await request(app)
+      .get('/api/organization/memberships')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(memberships.status).toBe(200);
+    expect(memberships.body.data.organizations).toEqual([
+      expect.objectContaining({ name: 'Other Coworking', role: 'admin', isCurrent: true }),
+      expect.objectContaining({ name: 'Test Coworking', role: 'member', isCurrent: false })
+    ]);
+
+    const switched = await request(app)
+      .post('/api/organization/switch')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ organizationId: organization._id.toString() });
+
+    expect(switched.status).toBe(200);
+    expect(switched.body.data.membership.role).toBe('member');
+    expect((await Session.findById(session._id))!.revokedReason).toBe('organization_switch');
+
+    // The old session is gone; the reissued one works in the new organization
+    const oldSession = await request(app).get('/api/organization').set('Authorization', `Bearer ${token}`);
+    expect(oldSession.status).toBe(401);
+
+    const current = await request(app)
+      .get('/api/organization')
+      .set('Authorization', `Bearer ${switched.body.data.token}`);
+
+    expect(current.status).toBe(200);
+    expect(current.body.data.organization._id).toBe(organization._id.toString());
+    expect(current.body.data.membership.role).toBe('member');
+  }, 60000);
+
+  it('refuses to switch to an organization the user does not belong to', async () => {
+    const outsider = await createUser('outsider@example.com', 'Owen');
+    await createOrganization('Outsider Coworking', outsider);
+    const { token } = await SessionService.createSession(outsider);
+
+    const response = await request(app)
+      .post('/api/organization/switch')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ organizationId: organization._id.toString() });
+
+    expect(response.status).toBe(403);
+  }, 60000);
+});
@@ -0,0 +1,406 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { User } from '../models/User';
+import { Organization } from '../models/Organization';
+import { SessionService } from '../services/sessionService';
+import { OrganizationService } from '../services/organizationService';
+import Joi from 'joi';
+import mongoose from 'mongoose';
+
+const updateOrganizationSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required()
+});
+
+const addMemberSchema = Joi.object({
+  email: Joi.string().email().required(),
+  firstName: Joi.string().trim().min(1).max(50).optional(),
+  lastName: Joi.string().trim().min(1).max(50).optional(),
+  password: Joi.string().min(6).optional(),
+  role: Joi.string().valid('admin', 'member', 'guest').default('member')
+});
+
+const updateMemberSchema = Joi.object({
+  role: Joi.string().valid('admin', 'member', 'guest').required()
+});
+
+const switchOrganizationSchema = Joi.object({
+  organizationId: Joi.string().hex().length(24).required()
+});
+
+// Helper function to ensure user is authenticated within an organization
+const ensureAuthenticated = (req: AuthRequest, res: Response) => {
+  if (!req.user || !req.organization) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return false;
+  }
+  return true;
+};
+
+// Load the active organization with member details populated
+const loadOrganizationWithMembers = (organizationId: mongoose.Types.ObjectId) => {
+  return Organization.findById(organizationId)
+    .populate('ownerId', 'firstName lastName email')
+    .populate('members.userId', 'firstName lastName email')
+    .populate('members.invitedBy', 'firstName lastName email');
+};
+
+/**
+ * Get the current user's organization and its members
+ */
+export const getOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const organization = await loadOrganizationWithMembers(req.organizationId);
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        organization,
+        membership: req.membership
+      }
+    });
+  } catch (error: any) {
+    console.error('Get organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch organization',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * List the organizations the current user belongs to
+ */
+export const getMemberships = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const organizations = await OrganizationService.listMemberships(req.user!);
+
+    res.json({
+      success: true,
+      data: { organizations }
+    });
+  } catch (error: any) {
+    console.error('Get organization memberships error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch organizations',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Make another organization the user belongs to their active one.
+ * The current session is replaced so the client starts over in the new organization.
+ */
+export const switchOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = switchOrganizationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = req.user!;
+    const resolved = await OrganizationService.switchOrganization(user, value.organizationId);
+    if (!resolved) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a member of this organization'
+      });
+    }
+
+    if (req.sessionId) {
+      await SessionService.revokeSession(req.sessionId, 'organization_switch');
+    }
+    const { token, refreshToken } = await SessionService.createSession(user, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
+
+    res.json({
+      success: true,
+      message: `Switched to ${resolved.organization.name}`,
+      data: {
+        organization: resolved.organization,
+        membership: resolved.membership,
+        token,
+        refreshToken
+      }
+    });
+  } catch (error: any) {
+    console.error('Switch organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to switch organization',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update organization details
+ */
+export const updateOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = updateOrganizationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = req.organization!;
+    organization.name = value.name;
+    await organization.save();
+
+    res.json({
+      success: true,
+      message: 'Organization updated successfully',
+      data: { organization }
+    });
+  } catch (error: any) {
+    console.error('Update organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update organization',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Add a user to the organization, creating the account if it does not exist yet
+ */
+export const addMember = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { error, value } = addMemberSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = req.organization!;
+    const { email, firstName, lastName, password, role } = value;
+
+    let user = await User.findOne({ email: email.toLowerCase() });
+
+    if (user) {
+      if (organization.hasMember(user._id)) {
+        return res.status(409).json({
+          success: false,
+          message: 'User is already a member of this organization'
+        });
+      }
+
+      // Existing accounts join as they are; one already working in another organization
+      // keeps that one active and can switch through POST /api/organization/switch
+      const currentOrganization = user.organizationId && !user.organizationId.equals(organization._id)
+        ? await Organization.exists({ _id: user.organizationId, isActive: true, 'members.userId': user._id })
+        : null;
+      if (!currentOrganization) {
+        user.organizationId = organization._id;
+      }
+    } else {
+      if (!firstName || !lastName || !password) {
+        return res.status(400).json({
+          success: false,
+          message: 'First name, last name and password are required to create a new member account'
+        });
+      }
+
+      user = new User({
+        email,
+        password,
+        firstName,
+        lastName,
+        organizationId: organization._id
+      });
+    }
+
+    // The organization has already been set up, so members joining it skip onboarding
+    if (user.requiresOnboarding()) {
+      user.markOnboardingCompleted(false);
+    }
+
+    await user.save();
+
+    organization.addMember(user._id, role, req.user!._id);
+    await organization.save();
+
+    const populatedOrganization = await loadOrganizationWithMembers(organization._id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: { organization: populatedOrganization }
+    });
+  } catch (error: any) {
+    console.error('Add organization member error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: Object.values(error.errors).map((err: any) => err.message)
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add member',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Change a member's role within the organization
+ */
+export const updateMember = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { userId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid user ID'
+      });
+    }
+
+    const { error, value } = updateMemberSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = req.organization!;
+    const membership = organization.getMembership(userId);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    if (organization.ownerId.equals(userId) && value.role !== 'admin') {
+      return res.status(400).json({
+        success: false,
+        message: 'The organization owner must remain an admin'
+      });
+    }
+
+    membership.role = value.role;
+    organization.markModified('members');
+    await organization.save();
+
+    const populatedOrganization = await loadOrganizationWithMembers(organization._id);
+
+    res.json({
+      success: true,
+      message: 'Member updated successfully',
+      data: { organization: populatedOrganization }
+    });
+  } catch (error: any) {
+    console.error('Update organization member error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update member',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Remove a member from the organization
+ */
+export const removeMember = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const { userId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid user ID'
+      });
+    }
+
+    const organization = req.organization!;
+
+    if (organization.ownerId.equals(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'The organization owner cannot be removed'
+      });
+    }
+
+    if (!organization.removeMember(userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    await organization.save();
+
+    // Move the user over to another organization they belong to, if any, and sign them out
+    // everywhere so no open session keeps working in this one
+    const otherOrganization = await Organization.findOne({ isActive: true, 'members.userId': userId }).select('_id');
+    await User.updateOne(
+      { _id: userId, organizationId: organization._id },
+      otherOrganization
+        ? { $set: { organizationId: otherOrganization._id } }
+        : { $unset: { organizationId: 1 } }
+    );
+    await SessionService.revokeAllSessions(userId, 'membership_removed');
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error: any) {
+    console.error('Remove organization member error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove member',
+      error: error.message
+    });
+  }
+};
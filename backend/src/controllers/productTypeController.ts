@@ -1,8 +1,9 @@
 import { Response } from 'express';
-import { ProductType, IProductType, ProductTypeCategory } from '../models/ProductType';
+import { ProductType, IProductType, ProductTypeCategory, MAX_BUFFER_MINUTES } from '../models/ProductType';
 import { Location } from '../models/Location';
-import { Space } from '../models/Space';
+import { Space, IWorkingHours } from '../models/Space';
 import { AuthRequest } from '../middleware/auth';
+import { SpaceScheduleService } from '../services/spaceScheduleService';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 
@@ -39,6 +40,7 @@ const pricingRuleSchema = Joi.object({
   }).optional(),
   memberDiscounts: Joi.array().items(Joi.object({
     membershipType: Joi.string().trim().required(),
+    membershipPlanId: Joi.string().hex().length(24).optional(),
     discountPercentage: Joi.number().min(0).max(100).required(),
     description: Joi.string().trim().max(200).allow('').optional()
   })).optional()
@@ -113,6 +115,11 @@ const createProductTypeSchema = Joi.object({
       isAvailable: Joi.boolean().required()
     })).optional()
   }).optional(),
+  bookingBuffers: Joi.object({
+    setupMinutes: Joi.number().integer().min(0).max(MAX_BUFFER_MINUTES).default(0),
+    teardownMinutes: Joi.number().integer().min(0).max(MAX_BUFFER_MINUTES).default(0),
+    cleanAfterCheckout: Joi.boolean().default(false)
+  }).optional(),
   autoGeneration: autoGenerationConfigSchema.required(),
   images: Joi.array().items(Joi.string().trim().max(500)).optional(),
   displayOrder: Joi.number().integer().min(0).max(1000).default(0),
@@ -136,7 +143,7 @@ const updateProductTypeSchema = createProductTypeSchema.fork(
 
 // Helper function to ensure user is authenticated (standalone function like locationController)
 const ensureAuthenticated = (req: AuthRequest, res: Response) => {
-  if (!req.user) {
+  if (!req.user || !req.organizationId) {
     res.status(401).json({
       success: false,
       message: 'Authentication required'
@@ -151,7 +158,7 @@ class ProductTypeController {
   async getProductTypes(req: AuthRequest, res: Response) {
     try {
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
       const {
         locationId,
         page = '1',
@@ -266,7 +273,7 @@ class ProductTypeController {
     try {
       const { id } = req.params;
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
 
       console.log('=== GET PRODUCT TYPE REQUEST ===');
       console.log('Product Type ID:', id);
@@ -341,7 +348,7 @@ class ProductTypeController {
       }
 
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
       const userId = req.user!._id;
 
       // Validate locationId exists and belongs to organization
@@ -465,6 +472,14 @@ class ProductTypeController {
       startSequence = lastSpace.generationSource.sequence + 1;
     }
 
+    // Generated spaces follow the product type's hours, stored as their own for when they stop doing so
+    const schedule = await SpaceScheduleService.getEffectiveSchedule({
+      workingHours: this.getDefaultWorkingHours(),
+      useProductTypeHours: true,
+      productTypeId: productType,
+      locationId: productType.locationId
+    });
+
     for (let i = 0; i < count; i++) {
       const sequence = startSequence + i;
       const spaceName = productType.generateSpaceName(sequence);
@@ -488,7 +503,7 @@ class ProductTypeController {
         inheritProductTypeAmenities: true,
         useProductTypeHours: true,
         useProductTypeBookingRules: true,
-        workingHours: this.getDefaultWorkingHours(),
+        workingHours: schedule.weeklyHours,
         minimumBookingDuration: productType.pricing.minimumDuration || 60,
         maximumBookingDuration: productType.pricing.maximumDuration || 480,
         autoGenerated: true,
@@ -531,8 +546,8 @@ class ProductTypeController {
   }
 
   // Helper method to get default working hours
-  private getDefaultWorkingHours() {
-    const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  private getDefaultWorkingHours(): IWorkingHours[] {
+    const days: IWorkingHours['day'][] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
     return days.map(day => ({
       day,
       isOpen: ['saturday', 'sunday'].includes(day) ? false : true,
@@ -546,7 +561,7 @@ class ProductTypeController {
     try {
       const { id } = req.params;
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
       const userId = req.user!._id;
 
       console.log('=== UPDATE PRODUCT TYPE REQUEST ===');
@@ -701,7 +716,7 @@ class ProductTypeController {
     try {
       const { id } = req.params;
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
 
       console.log('=== DELETE PRODUCT TYPE REQUEST ===');
       console.log('Product Type ID:', id);
@@ -760,7 +775,7 @@ class ProductTypeController {
       const { id } = req.params;
       const { count } = req.body;
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
       const userId = req.user!._id;
 
       console.log('=== GENERATE SPACES REQUEST ===');
@@ -843,7 +858,7 @@ class ProductTypeController {
   async getProductTypeStats(req: AuthRequest, res: Response) {
     try {
       if (!ensureAuthenticated(req, res)) return;
-      const organizationId = req.user!._id;
+      const organizationId = req.organizationId!;
       const { locationId } = req.query;
 
       console.log('=== GET PRODUCT TYPE STATS REQUEST ===');
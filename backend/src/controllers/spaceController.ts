@@ -1,6 +1,10 @@
 import { Response } from 'express';
 import { Space, SpaceType, SpaceStatus } from '../models/Space';
+import { MAX_BUFFER_MINUTES } from '../models/ProductType';
 import { AuthRequest } from '../middleware/auth';
+import { SpaceScheduleService } from '../services/spaceScheduleService';
+import { SpaceSearchService } from '../services/spaceSearchService';
+import { addDaysToDateString } from '../utils/recurrence';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 
@@ -31,7 +35,7 @@ const createSpaceSchema = Joi.object({
   name: Joi.string().trim().min(1).max(100).required(),
   description: Joi.string().trim().max(1000).allow('').optional(),
   type: Joi.string().valid('Hot Desk', 'Meeting Room', 'Private Office').required(),
-  status: Joi.string().valid('Available', 'Occupied', 'Maintenance', 'Out of Service').default('Available'),
+  status: Joi.string().valid('Available', 'Occupied', 'Maintenance', 'Out of Service', 'Cleaning').default('Available'),
   capacity: Joi.number().integer().min(1).max(100).required(),
   area: Joi.number().min(0).optional(),
   floor: Joi.string().trim().max(10).allow('').optional(),
@@ -40,6 +44,13 @@ const createSpaceSchema = Joi.object({
   amenities: Joi.array().items(Joi.string().trim().max(50)).default([]),
   equipment: Joi.array().items(Joi.string().trim().max(50)).default([]),
   workingHours: Joi.array().items(workingHoursSchema).min(1).required(),
+  useProductTypeHours: Joi.boolean().optional(),
+  // Fields left null inherit the product type's buffers
+  bookingBuffers: Joi.object({
+    setupMinutes: Joi.number().integer().min(0).max(MAX_BUFFER_MINUTES).allow(null).optional(),
+    teardownMinutes: Joi.number().integer().min(0).max(MAX_BUFFER_MINUTES).allow(null).optional(),
+    cleanAfterCheckout: Joi.boolean().allow(null).optional()
+  }).optional(),
   isActive: Joi.boolean().default(true),
   minimumBookingDuration: Joi.number().integer().min(15).max(1440).default(60),
   maximumBookingDuration: Joi.number().integer().min(15).max(1440).default(480),
@@ -53,6 +64,31 @@ const updateSpaceSchema = createSpaceSchema.fork(
   (schema) => schema.optional()
 );
 
+const effectiveSchedulePreviewSchema = Joi.object({
+  spaceId: Joi.string().hex().length(24).optional(),
+  workingHours: Joi.array().items(workingHoursSchema).default([]),
+  useProductTypeHours: Joi.boolean().optional()
+});
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+  'string.pattern.base': '{{#label}} must be in HH:MM format'
+});
+
+const spaceSearchSchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+    'string.pattern.base': 'Date must be in YYYY-MM-DD format'
+  }),
+  startTime: timeOfDay.optional(),
+  endTime: timeOfDay.optional(),
+  duration: Joi.number().integer().min(15).max(24 * 60).optional(),
+  attendees: Joi.number().integer().min(1).default(1),
+  amenities: Joi.string().allow('').default(''),
+  locationId: Joi.string().hex().length(24).optional(),
+  locationCode: Joi.string().trim().max(10).optional(),
+  type: Joi.string().valid('Hot Desk', 'Meeting Room', 'Private Office').optional(),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+}).and('startTime', 'endTime').oxor('locationId', 'locationCode');
+
 export const createSpace = async (req: AuthRequest, res: Response) => {
   try {
     console.log('Creating space with data:', JSON.stringify(req.body, null, 2));
@@ -68,7 +104,7 @@ export const createSpace = async (req: AuthRequest, res: Response) => {
     }
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -77,7 +113,7 @@ export const createSpace = async (req: AuthRequest, res: Response) => {
 
     // Check if space with same name exists for this organization
     const existingSpace = await Space.findOne({
-      organizationId: user._id,
+      organizationId: req.organizationId,
       name: value.name
     });
 
@@ -108,7 +144,7 @@ export const createSpace = async (req: AuthRequest, res: Response) => {
 
     const space = new Space({
       ...value,
-      organizationId: user._id,
+      organizationId: req.organizationId,
       createdBy: user._id,
       updatedBy: user._id
     });
@@ -136,7 +172,7 @@ export const createSpace = async (req: AuthRequest, res: Response) => {
 export const getSpaces = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -154,7 +190,7 @@ export const getSpaces = async (req: AuthRequest, res: Response) => {
     const amenities = req.query.amenities as string;
 
     // Build filter query
-    const filter: any = { organizationId: user._id };
+    const filter: any = { organizationId: req.organizationId };
 
     if (search) {
       filter.$or = [
@@ -216,7 +252,7 @@ export const getSpaces = async (req: AuthRequest, res: Response) => {
 export const getSpace = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -234,7 +270,7 @@ export const getSpace = async (req: AuthRequest, res: Response) => {
 
     const space = await Space.findOne({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     })
       .populate('createdBy', 'firstName lastName email')
       .populate('updatedBy', 'firstName lastName email');
@@ -271,7 +307,7 @@ export const updateSpace = async (req: AuthRequest, res: Response) => {
     }
 
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -290,7 +326,7 @@ export const updateSpace = async (req: AuthRequest, res: Response) => {
     // Check if updating name and it conflicts with existing space
     if (value.name) {
       const existingSpace = await Space.findOne({
-        organizationId: user._id,
+        organizationId: req.organizationId,
         name: value.name,
         _id: { $ne: id }
       });
@@ -326,8 +362,13 @@ export const updateSpace = async (req: AuthRequest, res: Response) => {
     }
 
     const space = await Space.findOneAndUpdate(
-      { _id: id, organizationId: user._id },
-      { ...value, updatedBy: user._id },
+      { _id: id, organizationId: req.organizationId },
+      {
+        ...value,
+        updatedBy: user._id,
+        // A timed cleaning ends when staff set another status
+        ...(value.status && value.status !== 'Cleaning' && { $unset: { cleaningUntil: 1 } })
+      },
       { new: true, runValidators: true }
     );
 
@@ -359,7 +400,7 @@ export const updateSpace = async (req: AuthRequest, res: Response) => {
 export const deleteSpace = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -380,7 +421,7 @@ export const deleteSpace = async (req: AuthRequest, res: Response) => {
 
     const space = await Space.findOneAndDelete({
       _id: id,
-      organizationId: user._id
+      organizationId: req.organizationId
     });
 
     if (!space) {
@@ -406,7 +447,7 @@ export const deleteSpace = async (req: AuthRequest, res: Response) => {
 export const getSpaceAvailability = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -444,7 +485,7 @@ export const getSpaceAvailability = async (req: AuthRequest, res: Response) => {
 
     // Build query
     const query: any = { 
-      organizationId: user._id,
+      organizationId: req.organizationId,
       isActive: true
     };
 
@@ -462,28 +503,30 @@ export const getSpaceAvailability = async (req: AuthRequest, res: Response) => {
       .populate('createdBy', 'firstName lastName email')
       .populate('updatedBy', 'firstName lastName email');
 
-    // For each space, calculate availability for the date range
-    const availability = spaces.map(space => {
-      const schedule = [];
-      const current = new Date(start);
-      
-      while (current <= end) {
-        const dayName = current.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-        const workingHours = space.getWorkingHoursForDay(dayName);
+    // For each space, calculate availability for the date range from its effective hours
+    const firstDate = start.toISOString().split('T')[0];
+    const lastDate = end.toISOString().split('T')[0];
+
+    const availability = await Promise.all(spaces.map(async space => {
+      const schedule = await SpaceScheduleService.getEffectiveSchedule(space);
+      const schedulable = space.isActive && space.status === 'Available';
+      const dates = [];
+
+      for (let date = firstDate; date <= lastDate; date = addDaysToDateString(date, 1)) {
+        const hours = schedule.getHoursForDate(date);
         
-        schedule.push({
-          date: current.toISOString().split('T')[0],
-          dayOfWeek: dayName,
-          isAvailable: space.isAvailableAt(current),
-          workingHours: workingHours ? {
-            isOpen: workingHours.isOpen,
-            openTime: workingHours.openTime,
-            closeTime: workingHours.closeTime
-          } : null,
+        dates.push({
+          date,
+          dayOfWeek: new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }).toLowerCase(),
+          isAvailable: schedulable && hours.isOpen,
+          workingHours: {
+            isOpen: hours.isOpen,
+            openTime: hours.openTime,
+            closeTime: hours.closeTime,
+            ...(hours.exception && { exception: hours.exception.name })
+          },
           status: space.status
         });
-        
-        current.setDate(current.getDate() + 1);
       }
 
       return {
@@ -493,11 +536,12 @@ export const getSpaceAvailability = async (req: AuthRequest, res: Response) => {
           type: space.type,
           capacity: space.capacity,
           status: space.status,
-          rates: space.rates
+          rates: space.rates,
+          hoursSource: schedule.source
         },
-        availability: schedule
+        availability: dates
       };
-    });
+    }));
 
     res.json({
       success: true,
@@ -518,10 +562,122 @@ export const getSpaceAvailability = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Find spaces with free time on a date that fit the group, amenities and location, ranked best first
+export const searchSpaces = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user || !req.organizationId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { error, value } = spaceSearchSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const criteria = {
+      date: value.date,
+      startTime: value.startTime,
+      endTime: value.endTime,
+      duration: value.duration ?? 60,
+      attendees: value.attendees,
+      amenities: value.amenities.split(',').map((amenity: string) => amenity.trim()).filter(Boolean),
+      locationId: value.locationId,
+      locationCode: value.locationCode,
+      type: value.type as SpaceType | undefined,
+      limit: value.limit
+    };
+
+    const results = await SpaceSearchService.search(req.organizationId, criteria);
+    if (!results) {
+      return res.status(404).json({
+        success: false,
+        message: 'Location not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        criteria,
+        results
+      }
+    });
+  } catch (error) {
+    console.error('Search spaces error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Preview the hours a space would be bookable in with the given settings, before saving them
+export const previewEffectiveSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user || !req.organizationId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { error, value } = effectiveSchedulePreviewSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const space = value.spaceId
+      ? await Space.findOne({ _id: value.spaceId, organizationId: req.organizationId }).select('productTypeId locationId useProductTypeHours')
+      : null;
+
+    if (value.spaceId && !space) {
+      return res.status(404).json({
+        success: false,
+        message: 'Space not found'
+      });
+    }
+
+    const schedule = await SpaceScheduleService.getEffectiveSchedule({
+      workingHours: value.workingHours,
+      useProductTypeHours: value.useProductTypeHours ?? space?.useProductTypeHours,
+      productTypeId: space?.productTypeId,
+      locationId: space?.locationId
+    });
+
+    res.json({
+      success: true,
+      data: {
+        source: schedule.source,
+        timezone: schedule.timezone,
+        weeklyHours: schedule.weeklyHours
+      }
+    });
+  } catch (error) {
+    console.error('Preview effective schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const getSpaceStats = async (req: AuthRequest, res: Response) => {
   try {
     const user = req.user;
-    if (!user) {
+    if (!user || !req.organizationId) {
       return res.status(401).json({
         success: false,
         message: 'User not authenticated'
@@ -529,7 +685,7 @@ export const getSpaceStats = async (req: AuthRequest, res: Response) => {
     }
 
     const stats = await Space.aggregate([
-      { $match: { organizationId: user._id } },
+      { $match: { organizationId: req.organizationId } },
       {
         $facet: {
           totalSpaces: [{ $count: "count" }],
@@ -0,0 +1,453 @@
+import { Request, Response } from 'express';
+import { WaitlistEntry, IWaitlistEntry, OPEN_WAITLIST_STATUSES } from '../models/WaitlistEntry';
+import { Contact } from '../models/Contact';
+import { Space } from '../models/Space';
+import { Organization } from '../models/Organization';
+import { AuthRequest } from '../middleware/auth';
+import { BookingService } from '../services/bookingService';
+import { WaitlistService } from '../services/waitlistService';
+import Joi from 'joi';
+import mongoose from 'mongoose';
+
+// Validation schemas
+const joinWaitlistSchema = Joi.object({
+  contactId: Joi.string().hex().length(24).required(),
+  spaceId: Joi.string().hex().length(24).required(),
+  startTime: Joi.date().required(),
+  endTime: Joi.date().greater(Joi.ref('startTime')).required(),
+  attendeeCount: Joi.number().integer().min(1).max(100).default(1),
+  anySpaceOfType: Joi.boolean().default(false),
+  purpose: Joi.string().trim().max(200).allow('').optional()
+});
+
+const waitlistQuerySchema = Joi.object({
+  status: Joi.string().valid('Waiting', 'Offered', 'Booked', 'Declined', 'Expired', 'Cancelled', 'open').default('open'),
+  spaceId: Joi.string().hex().length(24).optional(),
+  locationId: Joi.string().hex().length(24).optional(),
+  contactId: Joi.string().hex().length(24).optional()
+});
+
+// Helper function to ensure user is authenticated
+const ensureAuthenticated = (req: AuthRequest, res: Response) => {
+  if (!req.user || !req.organizationId) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return false;
+  }
+  return true;
+};
+
+const validationFailed = (res: Response, error: Joi.ValidationError) => {
+  return res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+};
+
+const findEntry = async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid waitlist entry ID format'
+    });
+    return null;
+  }
+
+  const entry = await WaitlistEntry.findOne({ _id: id, organizationId: req.organizationId });
+  if (!entry) {
+    res.status(404).json({
+      success: false,
+      message: 'Waitlist entry not found'
+    });
+    return null;
+  }
+  return entry;
+};
+
+// Offers past their hold are released before anyone can act on them
+const findLiveOffer = async (entry: IWaitlistEntry | null, res: Response) => {
+  if (entry?.status === 'Offered' && entry.offer!.expiresAt <= new Date()) {
+    await WaitlistService.expireOffers(entry.organizationId);
+    entry = await WaitlistEntry.findById(entry._id);
+  }
+
+  if (!entry || entry.status !== 'Offered') {
+    res.status(409).json({
+      success: false,
+      message: entry?.status === 'Booked'
+        ? 'This offer has already been accepted'
+        : 'This offer is no longer available'
+    });
+    return null;
+  }
+  return entry;
+};
+
+const ENTRY_REFERENCES = [
+  { path: 'contactId', select: 'firstName lastName email phone' },
+  { path: 'spaceId', select: 'name type capacity' },
+  { path: 'offer.spaceId', select: 'name type' },
+  { path: 'offer.bookingId', select: 'bookingReference status totalAmount currency' }
+];
+
+const populateEntry = (entryId: mongoose.Types.ObjectId) =>
+  WaitlistEntry.findById(entryId).populate(ENTRY_REFERENCES);
+
+// Get waitlist entries, open ones by default, in the order they are offered slots
+export const getWaitlist = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+
+    const { error, value } = waitlistQuerySchema.validate(req.query);
+    if (error) return validationFailed(res, error);
+
+    await WaitlistService.expireOffers(organizationId);
+
+    const filter: any = {
+      organizationId,
+      status: value.status === 'open' ? { $in: OPEN_WAITLIST_STATUSES } : value.status
+    };
+    if (value.spaceId) {
+      filter.spaceId = value.spaceId;
+    } else if (value.locationId) {
+      filter.spaceId = { $in: await Space.find({ organizationId, locationId: value.locationId }).distinct('_id') };
+    }
+    if (value.contactId) filter.contactId = value.contactId;
+
+    const entries = await WaitlistEntry.find(filter)
+      .sort({ startTime: 1, createdAt: 1 })
+      .limit(200)
+      .populate(ENTRY_REFERENCES);
+
+    res.json({
+      success: true,
+      data: { entries }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getWaitlist:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve waitlist',
+      error: error.message
+    });
+  }
+};
+
+// Put a contact in line for a slot that is fully booked
+export const joinWaitlist = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+    const userId = req.user!._id;
+
+    const { error, value } = joinWaitlistSchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+    if (error) return validationFailed(res, error);
+
+    const [space, contact] = await Promise.all([
+      BookingService.loadBookableSpace(organizationId, value.spaceId),
+      Contact.findOne({ _id: value.contactId, organizationId })
+    ]);
+
+    if (!space) {
+      return res.status(404).json({
+        success: false,
+        message: 'Space not found or does not belong to your organization'
+      });
+    }
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found or does not belong to your organization'
+      });
+    }
+
+    if (value.startTime <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot join the waitlist for a slot that has already started'
+      });
+    }
+
+    if (space.capacity !== null && value.attendeeCount > space.capacity) {
+      return res.status(400).json({
+        success: false,
+        message: `Space capacity is ${space.capacity} people, but ${value.attendeeCount} attendees requested`
+      });
+    }
+
+    if (value.anySpaceOfType && !space.productTypeId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: [{ field: 'anySpaceOfType', message: 'Only spaces with a product type can be waited on by type' }]
+      });
+    }
+
+    // Only slots that are actually taken can be waited for
+    const availability = await BookingService.checkAvailability({
+      space,
+      startTime: value.startTime,
+      endTime: value.endTime,
+      attendeeCount: value.attendeeCount
+    });
+    if (!availability) {
+      return res.status(409).json({
+        success: false,
+        message: 'The space is available for this slot, so it can be booked directly'
+      });
+    }
+
+    const existing = await WaitlistEntry.findOne({
+      organizationId,
+      contactId: contact._id,
+      spaceId: space._id,
+      startTime: value.startTime,
+      endTime: value.endTime,
+      status: { $in: OPEN_WAITLIST_STATUSES }
+    });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'This contact is already on the waitlist for this slot'
+      });
+    }
+
+    const entry = await WaitlistService.join({
+      organizationId,
+      contact,
+      space,
+      startTime: value.startTime,
+      endTime: value.endTime,
+      attendeeCount: value.attendeeCount,
+      anySpaceOfType: value.anySpaceOfType,
+      purpose: value.purpose || undefined,
+      userId
+    });
+
+    const position = await WaitlistEntry.countDocuments({
+      organizationId,
+      spaceId: space._id,
+      status: 'Waiting',
+      startTime: { $lt: entry.endTime },
+      endTime: { $gt: entry.startTime },
+      createdAt: { $lte: entry.createdAt }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Added to the waitlist at position ${position}`,
+      data: { entry: await populateEntry(entry._id), position }
+    });
+
+  } catch (error: any) {
+    console.error('Error in joinWaitlist:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to join waitlist',
+      error: error.message
+    });
+  }
+};
+
+// Confirm a held slot on the contact's behalf
+export const acceptWaitlistOffer = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const entry = await findLiveOffer(await findEntry(req, res), res);
+    if (!entry) return;
+
+    const booking = await WaitlistService.accept(entry, req.user!._id);
+
+    res.json({
+      success: true,
+      message: `Booked ${booking.bookingReference} from the waitlist`,
+      data: { entry: await populateEntry(entry._id), booking }
+    });
+
+  } catch (error: any) {
+    console.error('Error in acceptWaitlistOffer:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to accept waitlist offer',
+      error: error.message
+    });
+  }
+};
+
+// Decline a held slot on the contact's behalf, passing it to the next in line
+export const declineWaitlistOffer = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const entry = await findLiveOffer(await findEntry(req, res), res);
+    if (!entry) return;
+
+    await WaitlistService.release(entry, 'Declined', req.user!._id);
+
+    res.json({
+      success: true,
+      message: 'Waitlist offer declined',
+      data: { entry: await populateEntry(entry._id) }
+    });
+
+  } catch (error: any) {
+    console.error('Error in declineWaitlistOffer:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to decline waitlist offer',
+      error: error.message
+    });
+  }
+};
+
+// Take a contact off the waitlist, releasing any slot held for them
+export const removeFromWaitlist = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const entry = await findEntry(req, res);
+    if (!entry) return;
+
+    if (!OPEN_WAITLIST_STATUSES.includes(entry.status)) {
+      return res.status(409).json({
+        success: false,
+        message: `Waitlist entry is already ${entry.status.toLowerCase()}`
+      });
+    }
+
+    await WaitlistService.release(entry, 'Cancelled', req.user!._id);
+
+    res.json({
+      success: true,
+      message: 'Removed from the waitlist'
+    });
+
+  } catch (error: any) {
+    console.error('Error in removeFromWaitlist:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove from waitlist',
+      error: error.message
+    });
+  }
+};
+
+// Offer links in emails are public; the token identifies the entry
+const findOfferByToken = async (req: Request, res: Response) => {
+  const entry = await WaitlistService.findByOfferToken(req.params.token);
+  if (!entry) {
+    res.status(404).json({
+      success: false,
+      message: 'This offer link is invalid'
+    });
+    return null;
+  }
+  return entry;
+};
+
+// Owner the customer's own responses are attributed to, as for WhatsApp bookings
+const getOrganizationOwner = async (entry: IWaitlistEntry) => {
+  const organization = await Organization.findById(entry.organizationId);
+  if (!organization) {
+    throw new Error(`Organization ${entry.organizationId} not found`);
+  }
+  return organization.ownerId;
+};
+
+// Get the details of an emailed offer
+export const getWaitlistOfferByToken = async (req: Request, res: Response) => {
+  try {
+    const entry = await findOfferByToken(req, res);
+    if (!entry) return;
+
+    if (entry.status === 'Offered' && entry.offer!.expiresAt <= new Date()) {
+      await WaitlistService.expireOffers(entry.organizationId);
+    }
+
+    const [current, space, organization] = await Promise.all([
+      WaitlistEntry.findById(entry._id),
+      Space.findById(entry.offer!.spaceId).populate('locationId', 'name timezone'),
+      Organization.findById(entry.organizationId)
+    ]);
+    const location = space?.locationId as any;
+
+    res.json({
+      success: true,
+      data: {
+        offer: {
+          status: current?.status || entry.status,
+          organizationName: organization?.name,
+          spaceName: space?.name,
+          locationName: location?.name,
+          timezone: location?.timezone || 'Asia/Kolkata',
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          attendeeCount: entry.attendeeCount,
+          expiresAt: entry.offer!.expiresAt
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error in getWaitlistOfferByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve waitlist offer'
+    });
+  }
+};
+
+// The customer accepts an emailed offer
+export const acceptWaitlistOfferByToken = async (req: Request, res: Response) => {
+  try {
+    const entry = await findLiveOffer(await findOfferByToken(req, res), res);
+    if (!entry) return;
+
+    const booking = await WaitlistService.accept(entry, await getOrganizationOwner(entry));
+
+    res.json({
+      success: true,
+      message: 'Your booking is confirmed',
+      data: { bookingReference: booking.bookingReference }
+    });
+
+  } catch (error: any) {
+    console.error('Error in acceptWaitlistOfferByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to accept waitlist offer'
+    });
+  }
+};
+
+// The customer declines an emailed offer
+export const declineWaitlistOfferByToken = async (req: Request, res: Response) => {
+  try {
+    const entry = await findLiveOffer(await findOfferByToken(req, res), res);
+    if (!entry) return;
+
+    await WaitlistService.release(entry, 'Declined', await getOrganizationOwner(entry));
+
+    res.json({
+      success: true,
+      message: 'Offer declined; the slot has been passed on'
+    });
+
+  } catch (error: any) {
+    console.error('Error in declineWaitlistOfferByToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to decline waitlist offer'
+    });
+  }
+};
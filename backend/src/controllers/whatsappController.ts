@@ -3,9 +3,16 @@ import { AuthRequest } from "../middleware/auth";
 import twilioWhatsAppService, {
   SendMessageRequest,
 } from "../services/twilioWhatsappService";
+import whatsappBookingFlowService from "../services/whatsappBookingFlowService";
+import autoReplyService, { AUTO_REPLY_PLACEHOLDERS } from "../services/autoReplyService";
 import { WhatsAppMessage } from "../models/WhatsAppMessage";
+import { WhatsAppChannel } from "../models/WhatsAppChannel";
+import {
+  WhatsAppReplyTemplate,
+  AutoReplyIntent,
+  AUTO_REPLY_INTENTS,
+} from "../models/WhatsAppReplyTemplate";
 import * as Joi from "joi";
-import mongoose from "mongoose";
 import twilio from "twilio";
 
 // Simple rate limiting for webhooks (Railway protection)
@@ -14,7 +21,8 @@ const webhookRateLimit = new Map<
   { count: number; resetTime: number }
 >();
 
-// Cleanup expired entries every 5 minutes to prevent memory leaks
+// Cleanup expired entries every 5 minutes to prevent memory leaks; unref'd so the timer
+// alone doesn't keep the process (or a test run importing the app) alive
 setInterval(() => {
   const now = Date.now();
   for (const [ip, record] of webhookRateLimit.entries()) {
@@ -22,7 +30,7 @@ setInterval(() => {
       webhookRateLimit.delete(ip);
     }
   }
-}, 5 * 60 * 1000); // 5 minutes
+}, 5 * 60 * 1000).unref(); // 5 minutes
 
 const checkRateLimit = (ip: string): boolean => {
   const now = Date.now();
@@ -66,11 +74,48 @@ const webhookSchema = Joi.object({
   NumSegments: Joi.string().optional(),
   MediaUrl0: Joi.string().optional(),
   MediaContentType0: Joi.string().optional(),
+  ProfileName: Joi.string().allow("").optional(),
 }).unknown(true); // Allow all other fields without validation
 
+const statusCallbackSchema = Joi.object({
+  MessageSid: Joi.string().required(),
+  MessageStatus: Joi.string().required(),
+  AccountSid: Joi.string().required(),
+  ErrorCode: Joi.string().allow("").optional(),
+  ErrorMessage: Joi.string().allow("").optional(),
+}).unknown(true); // Twilio sends many other fields
+
+const channelSchema = Joi.object({
+  phoneNumber: Joi.string()
+    .pattern(/^\+[1-9]\d{1,14}$/)
+    .required()
+    .messages({
+      "string.pattern.base":
+        "Phone number must be in international format (e.g., +1234567890)",
+    }),
+  accountSid: Joi.string()
+    .pattern(/^AC[0-9a-fA-F]{32}$/)
+    .required()
+    .messages({ "string.pattern.base": "Invalid Twilio Account SID" }),
+  // Optional when updating so the stored token can be kept without re-entering it
+  authToken: Joi.string().trim().min(1).optional(),
+  messagingServiceSid: Joi.string()
+    .pattern(/^MG[0-9a-fA-F]{32}$/)
+    .allow("", null)
+    .optional()
+    .messages({ "string.pattern.base": "Invalid Twilio Messaging Service SID" }),
+  displayName: Joi.string().trim().max(100).allow("").optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+const autoReplySchema = Joi.object({
+  body: Joi.string().trim().min(1).max(1600).required(),
+  isActive: Joi.boolean().optional(),
+});
+
 // Helper function to ensure user is authenticated
 const ensureAuthenticated = (req: AuthRequest, res: Response) => {
-  if (!req.user) {
+  if (!req.user || !req.organizationId) {
     res.status(401).json({
       success: false,
       message: "Authentication required",
@@ -80,34 +125,19 @@ const ensureAuthenticated = (req: AuthRequest, res: Response) => {
   return true;
 };
 
+// Verify a request really comes from Twilio, signed with the channel's auth token
+const hasValidTwilioSignature = (req: Request, authToken: string): boolean => {
+  const twilioSignature = req.headers["x-twilio-signature"] as string;
+  const url = `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+
+  return twilio.validateRequest(authToken, twilioSignature, url, req.body);
+};
+
 // Check if WhatsApp feature is enabled
 const isWhatsAppEnabled = () => {
   return process.env.ENABLE_WHATSAPP === "true";
 };
 
-// Validate required environment variables for Railway deployment
-const validateEnvironment = () => {
-  const requiredVars = [];
-
-  if (process.env.ENABLE_WHATSAPP === "true") {
-    if (!process.env.TWILIO_ACCOUNT_SID)
-      requiredVars.push("TWILIO_ACCOUNT_SID");
-    if (!process.env.TWILIO_AUTH_TOKEN) requiredVars.push("TWILIO_AUTH_TOKEN");
-    if (!process.env.TWILIO_WHATSAPP_NUMBER)
-      requiredVars.push("TWILIO_WHATSAPP_NUMBER");
-  }
-
-  if (requiredVars.length > 0) {
-    console.warn(
-      "⚠️ Missing environment variables for WhatsApp:",
-      requiredVars.join(", ")
-    );
-    return false;
-  }
-
-  return true;
-};
-
 /**
  * Send a WhatsApp message
  */
@@ -121,7 +151,7 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
     }
 
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id.toString();
+    const organizationId = req.organizationId!.toString();
 
     console.log("=== SEND WHATSAPP MESSAGE REQUEST ===");
     console.log("Organization ID:", organizationId);
@@ -194,13 +224,6 @@ export const handleWebhook = async (req: Request, res: Response) => {
       return res.end(twiml.toString());
     }
 
-    if (!validateEnvironment()) {
-      console.error("❌ WhatsApp environment validation failed");
-      // Return empty TwiML response when environment is invalid
-      res.writeHead(200, { "Content-Type": "text/xml" });
-      return res.end(twiml.toString());
-    }
-
     // Rate limiting protection for Railway
     const clientIP = req.ip || req.socket.remoteAddress || "unknown";
     if (!checkRateLimit(clientIP)) {
@@ -211,34 +234,9 @@ export const handleWebhook = async (req: Request, res: Response) => {
 
     console.log("=== INCOMING WHATSAPP WEBHOOK ===");
     console.log("Webhook body:", JSON.stringify(req.body, null, 2));
-    console.log("Headers:", JSON.stringify(req.headers, null, 2));
     console.log("Content-Type:", req.get("Content-Type"));
-    console.log("Method:", req.method);
-    console.log("URL:", req.url);
-    console.log("Body type:", typeof req.body);
     console.log("Body keys:", Object.keys(req.body || {}));
 
-    // Verify Twilio webhook signature for security
-    const twilioSignature = req.headers['x-twilio-signature'] as string;
-    const url = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
-    const params = req.body;
-
-    if (process.env.NODE_ENV === 'production' && process.env.TWILIO_AUTH_TOKEN) {
-      const isValidSignature = twilio.validateRequest(
-        process.env.TWILIO_AUTH_TOKEN,
-        twilioSignature,
-        url,
-        params
-      );
-
-      if (!isValidSignature) {
-        console.error("❌ Invalid Twilio signature - potential security threat");
-        res.writeHead(403, { "Content-Type": "text/xml" });
-        return res.end(twiml.toString());
-      }
-      console.log("✅ Twilio signature verified");
-    }
-
     const { error, value } = webhookSchema.validate(req.body);
     if (error) {
       console.error("Webhook validation error:", error.details);
@@ -247,21 +245,31 @@ export const handleWebhook = async (req: Request, res: Response) => {
       return res.end(twiml.toString());
     }
 
-    // Get organization ID from environment or create a default one
-    // In a multi-tenant setup, you'd determine this from the webhook data or route
-    let organizationId: string;
+    // Route the message to the organization that owns the receiving number
+    const channel = await twilioWhatsAppService.findChannelByNumber(value.To);
+    if (!channel) {
+      console.warn("⚠️ Rejecting webhook for unknown WhatsApp number:", value.To);
+      res.writeHead(404, { "Content-Type": "text/xml" });
+      return res.end(twiml.toString());
+    }
+
+    if (channel.accountSid !== value.AccountSid) {
+      console.error("❌ Webhook AccountSid does not match the channel for", channel.phoneNumber);
+      res.writeHead(403, { "Content-Type": "text/xml" });
+      return res.end(twiml.toString());
+    }
 
-    if (process.env.DEFAULT_ORGANIZATION_ID) {
-      organizationId = process.env.DEFAULT_ORGANIZATION_ID;
-    } else {
-      // Create a default ObjectId if none is configured
-      // This should be replaced with proper organization mapping in production
-      organizationId = "507f1f77bcf86cd799439011"; // Default MongoDB ObjectId
-      console.log(
-        "⚠️ Using default organizationId. Set DEFAULT_ORGANIZATION_ID in environment."
-      );
+    // Verify Twilio webhook signature with the channel's own auth token
+    if (process.env.NODE_ENV === 'production') {
+      if (!hasValidTwilioSignature(req, channel.authToken)) {
+        console.error("❌ Invalid Twilio signature - potential security threat");
+        res.writeHead(403, { "Content-Type": "text/xml" });
+        return res.end(twiml.toString());
+      }
+      console.log("✅ Twilio signature verified");
     }
 
+    const organizationId = channel.organizationId.toString();
     console.log("📋 Processing webhook for organizationId:", organizationId);
 
     try {
@@ -273,8 +281,32 @@ export const handleWebhook = async (req: Request, res: Response) => {
       console.log("✅ Incoming message processed successfully");
       console.log("💾 Message saved with ID:", message._id);
 
+      // Let the booking conversation handle the message first
+      let handledByBookingFlow = false;
+      try {
+        const bookingReply = await whatsappBookingFlowService.handleMessage({
+          organizationId,
+          conversationId: message.conversationId,
+          fromNumber: message.fromNumber,
+          body: message.messageBody,
+          contactId: message.contactId?.toString(),
+        });
+
+        if (bookingReply) {
+          handledByBookingFlow = true;
+          await twilioWhatsAppService.sendReply(
+            organizationId,
+            message.fromNumber,
+            bookingReply,
+            message.contactId?.toString()
+          );
+        }
+      } catch (bookingFlowError) {
+        console.error("❌ Error in WhatsApp booking flow:", bookingFlowError);
+      }
+
       // Send auto-response if enabled
-      if (process.env.ENABLE_AUTO_RESPONSES === "true") {
+      if (!handledByBookingFlow && process.env.ENABLE_AUTO_RESPONSES === "true") {
         try {
           const fromNumber = value.From?.replace("whatsapp:", "") || "";
           const messageBody = value.Body || "";
@@ -319,6 +351,64 @@ export const handleWebhook = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Handle Twilio delivery status callbacks for outbound messages
+ */
+export const handleStatusCallback = async (req: Request, res: Response) => {
+  try {
+    if (!isWhatsAppEnabled()) {
+      return res.sendStatus(204);
+    }
+
+    const clientIP = req.ip || req.socket.remoteAddress || "unknown";
+    if (!checkRateLimit(clientIP)) {
+      console.warn("⚠️ Rate limit exceeded for IP:", clientIP);
+      return res.sendStatus(429);
+    }
+
+    const { error, value } = statusCallbackSchema.validate(req.body);
+    if (error) {
+      console.error("Status callback validation error:", error.details);
+      return res.sendStatus(400);
+    }
+
+    const message = await WhatsAppMessage.findOne({ messageId: value.MessageSid });
+    if (!message) {
+      // Not one of ours, or sent before it was stored; nothing to update
+      console.warn("⚠️ Status callback for unknown message:", value.MessageSid);
+      return res.sendStatus(204);
+    }
+
+    // The channel may have been deactivated since sending; its credentials still sign the callback
+    const channel = await WhatsAppChannel.findOne({ organizationId: message.organizationId }).select("+authToken");
+    if (!channel || channel.accountSid !== value.AccountSid) {
+      console.error("❌ Status callback AccountSid does not match the channel for message", value.MessageSid);
+      return res.sendStatus(403);
+    }
+
+    if (process.env.NODE_ENV === "production" && !hasValidTwilioSignature(req, channel.authToken)) {
+      console.error("❌ Invalid Twilio signature on status callback");
+      return res.sendStatus(403);
+    }
+
+    const updated = await twilioWhatsAppService.updateMessageStatus({
+      messageSid: value.MessageSid,
+      status: value.MessageStatus,
+      errorCode: value.ErrorCode || undefined,
+      errorMessage: value.ErrorMessage || undefined,
+    });
+
+    if (updated) {
+      console.log(`📬 Message ${value.MessageSid} is now ${updated.status}`);
+    }
+
+    res.sendStatus(204);
+  } catch (error: any) {
+    console.error("❌ Status callback handler error:", error);
+    res.sendStatus(500);
+  }
+};
+
 /**
  * Get conversation history
  */
@@ -332,7 +422,7 @@ export const getConversation = async (req: AuthRequest, res: Response) => {
     }
 
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id.toString();
+    const organizationId = req.organizationId!.toString();
 
     const { phoneNumber } = req.params;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -390,7 +480,7 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
     }
 
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
@@ -398,30 +488,9 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
 
     console.log("=== GET CONVERSATIONS REQUEST ===");
     console.log("Organization ID:", organizationId);
-    console.log("Organization ID type:", typeof organizationId);
-
-    // Try to match both the auth organizationId and default organizationId for debugging
-    const debugOrgIds = [
-      organizationId,
-      new mongoose.Types.ObjectId(process.env.DEFAULT_ORGANIZATION_ID || "507f1f77bcf86cd799439011")
-    ];
-    
-    console.log("🔍 Debug: Checking all possible organization IDs:", debugOrgIds);
-    
-    // Check what messages exist in the database
-    const allMessages = await WhatsAppMessage.find({}).limit(10);
-    console.log("🔍 Debug: Sample messages in database:", allMessages.map(m => ({
-      _id: m._id,
-      organizationId: m.organizationId,
-      conversationId: m.conversationId,
-      direction: m.direction,
-      fromNumber: m.fromNumber,
-      toNumber: m.toNumber
-    })));
-
     // Aggregate conversations by conversationId with latest message
     const conversations = await WhatsAppMessage.aggregate([
-      { $match: { organizationId: { $in: debugOrgIds } } }, // Match multiple org IDs for now
+      { $match: { organizationId } },
       { $sort: { sentAt: -1 } },
       {
         $group: {
@@ -438,7 +507,7 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
 
     // Get total count
     const totalConversations = await WhatsAppMessage.aggregate([
-      { $match: { organizationId: { $in: debugOrgIds } } }, // Match multiple org IDs for now
+      { $match: { organizationId } },
       { $group: { _id: "$conversationId" } },
       { $count: "total" },
     ]);
@@ -478,7 +547,7 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
 export const getStatus = async (req: AuthRequest, res: Response) => {
   try {
     if (!ensureAuthenticated(req, res)) return;
-    const organizationId = req.user!._id;
+    const organizationId = req.organizationId!;
 
     const enabled = isWhatsAppEnabled();
 
@@ -492,8 +561,9 @@ export const getStatus = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Get basic stats
-    const [totalMessages, totalConversations] = await Promise.all([
+    // Get channel configuration and basic stats
+    const [channel, totalMessages, totalConversations] = await Promise.all([
+      WhatsAppChannel.findOne({ organizationId }),
       WhatsAppMessage.countDocuments({ organizationId }),
       WhatsAppMessage.aggregate([
         { $match: { organizationId } },
@@ -506,7 +576,9 @@ export const getStatus = async (req: AuthRequest, res: Response) => {
       success: true,
       data: {
         enabled: true,
-        twilioNumber: process.env.TWILIO_WHATSAPP_NUMBER,
+        configured: !!channel?.isActive,
+        twilioNumber: channel?.phoneNumber,
+        channel: channel ? channel.toSafeJSON() : null,
         stats: {
           totalMessages,
           totalConversations: totalConversations[0]?.total || 0,
@@ -522,3 +594,283 @@ export const getStatus = async (req: AuthRequest, res: Response) => {
     });
   }
 };
+
+/**
+ * Get the organization's WhatsApp channel configuration (credentials are never returned)
+ */
+export const getChannel = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const channel = await WhatsAppChannel.findOne({ organizationId: req.organizationId });
+
+    res.json({
+      success: true,
+      data: { channel: channel ? channel.toSafeJSON() : null },
+    });
+  } catch (error: any) {
+    console.error("❌ Error getting WhatsApp channel:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to get WhatsApp channel",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Create or update the organization's WhatsApp channel
+ */
+export const upsertChannel = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+
+    const { error, value } = channelSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: error.details.map((detail) => ({
+          field: detail.path.join("."),
+          message: detail.message,
+        })),
+      });
+    }
+
+    // The receiving number decides which organization inbound messages belong to
+    const numberInUse = await WhatsAppChannel.exists({
+      phoneNumber: value.phoneNumber,
+      organizationId: { $ne: organizationId },
+    });
+    if (numberInUse) {
+      return res.status(409).json({
+        success: false,
+        message: "This WhatsApp number is already connected to another organization",
+      });
+    }
+
+    let channel = await WhatsAppChannel.findOne({ organizationId }).select("+authToken");
+    const isNew = !channel;
+
+    if (!channel) {
+      if (!value.authToken) {
+        return res.status(400).json({
+          success: false,
+          message: "Auth token is required when connecting a WhatsApp number",
+        });
+      }
+      channel = new WhatsAppChannel({ organizationId, createdBy: req.user!._id });
+    }
+
+    channel.phoneNumber = value.phoneNumber;
+    channel.accountSid = value.accountSid;
+    if (value.authToken) {
+      channel.authToken = value.authToken;
+    }
+    channel.messagingServiceSid = value.messagingServiceSid || undefined;
+    channel.displayName = value.displayName || undefined;
+    if (value.isActive !== undefined) {
+      channel.isActive = value.isActive;
+    }
+    channel.updatedBy = req.user!._id;
+
+    await channel.save();
+    twilioWhatsAppService.invalidateChannel(channel._id.toString());
+
+    console.log(`✅ WhatsApp channel ${isNew ? "created" : "updated"} for organization:`, organizationId);
+
+    res.status(isNew ? 201 : 200).json({
+      success: true,
+      message: `WhatsApp channel ${isNew ? "connected" : "updated"} successfully`,
+      data: { channel: channel.toSafeJSON() },
+    });
+  } catch (error: any) {
+    console.error("❌ Error saving WhatsApp channel:", error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: "This WhatsApp number is already connected to another organization",
+      });
+    }
+
+    if (error.name === "ValidationError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: Object.values(error.errors).map((err: any) => err.message),
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Failed to save WhatsApp channel",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Disconnect the organization's WhatsApp channel
+ */
+export const deleteChannel = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const channel = await WhatsAppChannel.findOneAndDelete({ organizationId: req.organizationId });
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        message: "WhatsApp channel not found",
+      });
+    }
+
+    twilioWhatsAppService.invalidateChannel(channel._id.toString());
+
+    res.json({
+      success: true,
+      message: "WhatsApp channel disconnected successfully",
+    });
+  } catch (error: any) {
+    console.error("❌ Error deleting WhatsApp channel:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete WhatsApp channel",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Get the organization's auto-reply templates with a preview of each
+ */
+export const getAutoReplies = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+
+    const templates = await autoReplyService.getTemplates(req.organizationId!);
+
+    res.json({
+      success: true,
+      message: "Auto-reply templates retrieved successfully",
+      data: {
+        templates,
+        placeholders: Object.entries(AUTO_REPLY_PLACEHOLDERS).map(([key, description]) => ({
+          key,
+          description,
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error("❌ Error getting auto-reply templates:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to get auto-reply templates",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Customize the auto-reply template for one intent
+ */
+export const updateAutoReply = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+    const intent = req.params.intent as AutoReplyIntent;
+
+    if (!AUTO_REPLY_INTENTS.includes(intent)) {
+      return res.status(404).json({
+        success: false,
+        message: `Unknown auto-reply intent: ${intent}`,
+      });
+    }
+
+    const { error, value } = autoReplySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: error.details.map((detail) => ({
+          field: detail.path.join("."),
+          message: detail.message,
+        })),
+      });
+    }
+
+    const unknownPlaceholders = autoReplyService.findUnknownPlaceholders(value.body);
+    if (unknownPlaceholders.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown placeholders: ${unknownPlaceholders.map((key) => `{{${key}}}`).join(", ")}`,
+      });
+    }
+
+    await WhatsAppReplyTemplate.findOneAndUpdate(
+      { organizationId, intent },
+      {
+        $set: {
+          body: value.body,
+          ...(value.isActive !== undefined && { isActive: value.isActive }),
+          updatedBy: req.user!._id,
+        },
+        $setOnInsert: { createdBy: req.user!._id },
+      },
+      { upsert: true, runValidators: true }
+    );
+
+    console.log(`✅ Auto-reply "${intent}" updated for organization:`, organizationId);
+
+    const templates = await autoReplyService.getTemplates(organizationId);
+
+    res.json({
+      success: true,
+      message: "Auto-reply template saved successfully",
+      data: { template: templates.find((template) => template.intent === intent) },
+    });
+  } catch (error: any) {
+    console.error("❌ Error saving auto-reply template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save auto-reply template",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Restore the default auto-reply template for one intent
+ */
+export const resetAutoReply = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!ensureAuthenticated(req, res)) return;
+    const organizationId = req.organizationId!;
+    const intent = req.params.intent as AutoReplyIntent;
+
+    if (!AUTO_REPLY_INTENTS.includes(intent)) {
+      return res.status(404).json({
+        success: false,
+        message: `Unknown auto-reply intent: ${intent}`,
+      });
+    }
+
+    await WhatsAppReplyTemplate.deleteOne({ organizationId, intent });
+
+    const templates = await autoReplyService.getTemplates(organizationId);
+
+    res.json({
+      success: true,
+      message: "Auto-reply template reset to default",
+      data: { template: templates.find((template) => template.intent === intent) },
+    });
+  } catch (error: any) {
+    console.error("❌ Error resetting auto-reply template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to reset auto-reply template",
+      error: error.message,
+    });
+  }
+};
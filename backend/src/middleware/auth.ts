@@ -1,15 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JWTPayload } from '../utils/jwt';
+import { Types } from 'mongoose';
 import { User, IUser } from '../models/User';
+import { IOrganization, IOrganizationMember } from '../models/Organization';
+import { OrganizationService } from '../services/organizationService';
+import { SessionService } from '../services/sessionService';
 
 export interface AuthRequest extends Request {
   user?: IUser;
   userId?: string;
+  organization?: IOrganization;
+  organizationId?: Types.ObjectId; // Tenant scope for every organization-owned query
+  membership?: IOrganizationMember;
+  sessionId?: string; // Session the access token was issued for
 }
 
 export interface AuthenticatedRequest extends Request {
   user: IUser;  // For routes that require authentication
   userId?: string;
+  organization?: IOrganization;
+  organizationId?: Types.ObjectId;
+  membership?: IOrganizationMember;
+  sessionId?: string;
 }
 
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -34,8 +46,31 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
 
+    // Logout revokes the session, which invalidates access tokens issued for it
+    const sessionActive = await SessionService.isSessionActive(decoded.sessionId, user._id);
+    if (!sessionActive) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session has expired or been revoked',
+        code: 'SESSION_REVOKED'
+      });
+    }
+
+    const resolved = await OrganizationService.resolveMembership(user);
+    if (!resolved) {
+      return res.status(403).json({
+        success: false,
+        message: 'User is not a member of any organization',
+        code: 'ORGANIZATION_REQUIRED'
+      });
+    }
+
     req.user = user;
     req.userId = user._id.toString();
+    req.organization = resolved.organization;
+    req.organizationId = resolved.organization._id;
+    req.membership = resolved.membership;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     return res.status(401).json({
@@ -54,10 +89,13 @@ export const authorize = (roles: string[]) => {
       });
     }
 
-    if (!roles.includes(req.user.role)) {
+    // Roles are granted per organization; fall back to the account role outside of one
+    const role = req.membership?.role || req.user.role;
+    if (!roles.includes(role)) {
       return res.status(403).json({
         success: false,
-        message: 'Insufficient permissions'
+        message: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS'
       });
     }
 
@@ -65,6 +103,36 @@ export const authorize = (roles: string[]) => {
   };
 };
 
+// Operators of the whole deployment, as opposed to admins of one organization
+const getPlatformAdminEmails = (): string[] =>
+  (process.env.PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Allow only platform admins, listed by email in PLATFORM_ADMIN_EMAILS. Used for
+ * operations that span every organization, such as the scheduled jobs.
+ */
+export const requirePlatformAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+  }
+
+  if (!getPlatformAdminEmails().includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      message: 'Insufficient permissions',
+      code: 'INSUFFICIENT_PERMISSIONS'
+    });
+  }
+
+  next();
+};
+
 export const optionalAuth = async (req: AuthRequest, _res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
@@ -77,9 +145,17 @@ export const optionalAuth = async (req: AuthRequest, _res: Response, next: NextF
     const decoded: JWTPayload = verifyToken(token);
     
     const user = await User.findById(decoded.userId).select('-password');
-    if (user) {
+    if (user && await SessionService.isSessionActive(decoded.sessionId, user._id)) {
       req.user = user;
+      req.sessionId = decoded.sessionId;
       req.userId = user._id.toString();
+
+      const resolved = await OrganizationService.resolveMembership(user);
+      if (resolved) {
+        req.organization = resolved.organization;
+        req.organizationId = resolved.organization._id;
+        req.membership = resolved.membership;
+      }
     }
     
     next();
@@ -0,0 +1,87 @@
+/**
+ * Migration: convert per-user tenants into organizations
+ *
+ * Before organizations existed every document was scoped by organizationId = user._id.
+ * This creates one organization per existing user (the user becomes its admin) and
+ * rewrites organizationId on all tenant-owned collections to point at the new organization.
+ *
+ * Safe to run more than once: users that already have an organization are reused, and only
+ * documents still scoped by the user's id are rewritten.
+ *
+ * Usage: npm run migrate:organizations
+ */
+import dotenv from 'dotenv';
+import mongoose, { Model } from 'mongoose';
+import { User } from '../models/User';
+import { Organization, IOrganization } from '../models/Organization';
+import { Location } from '../models/Location';
+import { Space } from '../models/Space';
+import { ProductType } from '../models/ProductType';
+import { Booking } from '../models/Booking';
+import { Contact } from '../models/Contact';
+import { WhatsAppMessage } from '../models/WhatsAppMessage';
+import { OrganizationService } from '../services/organizationService';
+
+dotenv.config();
+
+const TENANT_MODELS: Model<any>[] = [Location, Space, ProductType, Booking, Contact, WhatsAppMessage];
+
+export interface OrganizationMigrationResult {
+  usersProcessed: number;
+  organizationsCreated: number;
+  documentsUpdated: Record<string, number>;
+}
+
+export async function migrateToOrganizations(): Promise<OrganizationMigrationResult> {
+  const result: OrganizationMigrationResult = {
+    usersProcessed: 0,
+    organizationsCreated: 0,
+    documentsUpdated: {}
+  };
+
+  TENANT_MODELS.forEach(model => {
+    result.documentsUpdated[model.modelName] = 0;
+  });
+
+  const users = await User.find({});
+
+  for (const user of users) {
+    result.usersProcessed++;
+
+    let organization: IOrganization | null = user.organizationId
+      ? await Organization.findOne({ _id: user.organizationId, 'members.userId': user._id })
+      : null;
+
+    if (!organization) {
+      organization = await OrganizationService.createOrganizationForUser(user);
+      result.organizationsCreated++;
+      console.log(`🏢 Created organization "${organization.name}" for ${user.email}`);
+    }
+
+    for (const model of TENANT_MODELS) {
+      const { modifiedCount } = await model.updateMany(
+        { organizationId: user._id },
+        { $set: { organizationId: organization._id } }
+      );
+      result.documentsUpdated[model.modelName] += modifiedCount;
+    }
+  }
+
+  return result;
+}
+
+if (require.main === module) {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cosynq';
+
+  mongoose.connect(mongoURI)
+    .then(async () => {
+      console.log('✅ MongoDB connected, migrating to organizations...');
+      const result = await migrateToOrganizations();
+      console.log('✅ Organization migration complete:', JSON.stringify(result, null, 2));
+    })
+    .catch(error => {
+      console.error('❌ Organization migration failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
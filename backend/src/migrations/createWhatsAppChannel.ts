@@ -0,0 +1,72 @@
+/**
+ * Migration: move the env-configured Twilio sender into a per-organization WhatsApp channel
+ *
+ * Before channels existed the webhook used TWILIO_WHATSAPP_NUMBER / TWILIO_ACCOUNT_SID /
+ * TWILIO_AUTH_TOKEN for every request and attributed inbound messages to DEFAULT_ORGANIZATION_ID.
+ * This stores those values as the channel of that organization so existing deployments keep
+ * receiving messages once the webhook routes by the To number.
+ *
+ * Does nothing if the number is already connected to an organization.
+ *
+ * Usage: npm run migrate:whatsapp-channel
+ */
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { Organization } from '../models/Organization';
+import { WhatsAppChannel, IWhatsAppChannel } from '../models/WhatsAppChannel';
+
+dotenv.config();
+
+export async function migrateWhatsAppChannel(): Promise<IWhatsAppChannel | null> {
+  const {
+    TWILIO_WHATSAPP_NUMBER,
+    TWILIO_ACCOUNT_SID,
+    TWILIO_AUTH_TOKEN,
+    DEFAULT_ORGANIZATION_ID
+  } = process.env;
+
+  if (!TWILIO_WHATSAPP_NUMBER || !TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !DEFAULT_ORGANIZATION_ID) {
+    throw new Error(
+      'Required: TWILIO_WHATSAPP_NUMBER, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and DEFAULT_ORGANIZATION_ID'
+    );
+  }
+
+  const phoneNumber = TWILIO_WHATSAPP_NUMBER.replace(/^whatsapp:/, '');
+
+  const existing = await WhatsAppChannel.findOne({ phoneNumber });
+  if (existing) {
+    console.log(`ℹ️ ${phoneNumber} is already connected to organization ${existing.organizationId}`);
+    return null;
+  }
+
+  const organization = await Organization.findById(DEFAULT_ORGANIZATION_ID);
+  if (!organization) {
+    throw new Error(`Organization ${DEFAULT_ORGANIZATION_ID} not found`);
+  }
+
+  return WhatsAppChannel.create({
+    organizationId: organization._id,
+    phoneNumber,
+    accountSid: TWILIO_ACCOUNT_SID,
+    authToken: TWILIO_AUTH_TOKEN,
+    createdBy: organization.ownerId
+  });
+}
+
+if (require.main === module) {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cosynq';
+
+  mongoose.connect(mongoURI)
+    .then(async () => {
+      console.log('✅ MongoDB connected, migrating WhatsApp channel...');
+      const channel = await migrateWhatsAppChannel();
+      if (channel) {
+        console.log(`✅ Connected ${channel.phoneNumber} to organization ${channel.organizationId}`);
+      }
+    })
+    .catch(error => {
+      console.error('❌ WhatsApp channel migration failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
@@ -0,0 +1,51 @@
+/**
+ * Migration: normalize contact phone numbers to E.164 and relax the email index
+ *
+ * Inbound WhatsApp messages are matched to contacts by their E.164 number, so numbers typed
+ * in local formats ("098765 43210") are rewritten. Numbers that cannot be normalized are left as-is.
+ *
+ * Contacts created from WhatsApp may have no email, so the unique (organizationId, email) index
+ * is replaced by one that only applies to contacts with an email.
+ *
+ * Usage: npm run migrate:contact-phones
+ */
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { Contact } from '../models/Contact';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+
+dotenv.config();
+
+export async function migrateContactPhones(): Promise<number> {
+  const contacts = await Contact.find({ phone: { $exists: true, $ne: '' } }).select('phone');
+  let updated = 0;
+
+  for (const contact of contacts) {
+    const normalized = normalizePhoneNumber(contact.phone!);
+    if (normalized && normalized !== contact.phone) {
+      await Contact.updateOne({ _id: contact._id }, { $set: { phone: normalized } });
+      updated++;
+    }
+  }
+
+  // Drops the old non-partial email index and creates the indexes declared on the schema
+  await Contact.syncIndexes();
+
+  return updated;
+}
+
+if (require.main === module) {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cosynq';
+
+  mongoose.connect(mongoURI)
+    .then(async () => {
+      console.log('✅ MongoDB connected, normalizing contact phone numbers...');
+      const updated = await migrateContactPhones();
+      console.log(`✅ Normalized ${updated} phone number(s)`);
+    })
+    .catch(error => {
+      console.error('❌ Contact phone migration failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
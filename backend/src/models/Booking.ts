@@ -1,17 +1,65 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CreditUnit } from './MembershipPlan';
 
 export type BookingStatus = 'Pending' | 'Confirmed' | 'Cancelled' | 'Completed' | 'No Show';
 
+export interface IPriceLineItem {
+  type: 'base' | 'tier' | 'member_discount' | 'included' | 'credits' | 'add_on';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Membership credits spent on a booking
+export interface IBookingCreditUsage {
+  planId: Types.ObjectId;
+  unit: CreditUnit;
+  amount: number;
+  periodEnd: Date; // Period the credits were drawn from
+}
+
+export interface IPriceBreakdown {
+  pricingType: string;
+  membershipType?: string;
+  credits?: IBookingCreditUsage;
+  lineItems: IPriceLineItem[];
+  subtotal: number;
+  discountAmount: number;
+  quotedAt: Date;
+}
+
+export interface ICancellationRefund {
+  amount: number;
+  percentage: number;
+  currency: string;
+  policyHoursBeforeStart: number;
+  policyRefundPercentage: number;
+  credits?: number; // Membership credits returned, in the booking's credit unit
+  calculatedAt: Date;
+}
+
+// Time actually used, recorded at check-out; overtime past the booked end is billed
+export interface IBookingUsage {
+  actualMinutes: number;
+  overtimeMinutes: number; // Beyond the booked end and the grace period
+  overtimeAmount: number;
+  currency: string;
+  recordedAt: Date;
+}
+
 export interface IBooking extends Document {
   _id: Types.ObjectId;
   organizationId: Types.ObjectId;
   spaceId: Types.ObjectId;
   contactId?: Types.ObjectId; // Optional - can be booked by non-contacts
+  seriesId?: Types.ObjectId; // Set when the booking is an occurrence of a recurring series
   
   // Booking Details
   startTime: Date;
   endTime: Date;
   status: BookingStatus;
+  holdExpiresAt?: Date; // Pending bookings are cancelled once this passes (see BookingHoldService)
   
   // Customer Information (for non-contact bookings)
   customerName?: string;
@@ -27,16 +75,19 @@ export interface IBooking extends Document {
   totalAmount: number;
   currency: string;
   paymentStatus: 'Pending' | 'Paid' | 'Refunded' | 'Failed';
+  priceBreakdown?: IPriceBreakdown; // Server-computed quote the total was taken from
   
   // Check-in/Check-out
   checkedIn: boolean;
   checkInTime?: Date;
   checkOutTime?: Date;
+  usage?: IBookingUsage;
   
   // Metadata
   bookingReference: string; // Unique booking reference
   notes?: string;
   cancelReason?: string;
+  cancellationRefund?: ICancellationRefund; // Refund due under the cancellation policy
   
   createdBy: Types.ObjectId;
   updatedBy: Types.ObjectId;
@@ -48,12 +99,59 @@ export interface IBooking extends Document {
   isActive(): boolean;
   canBeCancelled(): boolean;
   canBeModified(): boolean;
+  getBillableAmount(): number; // Quoted total plus any overtime
 }
 
+const priceLineItemSchema = new Schema<IPriceLineItem>({
+  type: {
+    type: String,
+    enum: ['base', 'tier', 'member_discount', 'included', 'credits', 'add_on'],
+    required: true
+  },
+  description: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  unitPrice: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const bookingCreditUsageSchema = new Schema<IBookingCreditUsage>({
+  planId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MembershipPlan',
+    required: true
+  },
+  unit: {
+    type: String,
+    enum: ['hours', 'credits'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
 const bookingSchema = new Schema<IBooking>({
   organizationId: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Organization',
     required: true,
     index: true
   },
@@ -68,6 +166,10 @@ const bookingSchema = new Schema<IBooking>({
     ref: 'Contact',
     index: true
   },
+  seriesId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BookingSeries'
+  },
   startTime: {
     type: Date,
     required: true,
@@ -84,6 +186,9 @@ const bookingSchema = new Schema<IBooking>({
     default: 'Pending',
     index: true
   },
+  holdExpiresAt: {
+    type: Date
+  },
   customerName: {
     type: String,
     trim: true,
@@ -134,6 +239,27 @@ const bookingSchema = new Schema<IBooking>({
     default: 'Pending',
     index: true
   },
+  priceBreakdown: {
+    pricingType: {
+      type: String
+    },
+    membershipType: {
+      type: String
+    },
+    credits: bookingCreditUsageSchema,
+    lineItems: [priceLineItemSchema],
+    subtotal: {
+      type: Number,
+      min: 0
+    },
+    discountAmount: {
+      type: Number,
+      min: 0
+    },
+    quotedAt: {
+      type: Date
+    }
+  },
   checkedIn: {
     type: Boolean,
     default: false,
@@ -145,6 +271,27 @@ const bookingSchema = new Schema<IBooking>({
   checkOutTime: {
     type: Date
   },
+  usage: {
+    actualMinutes: {
+      type: Number,
+      min: 0
+    },
+    overtimeMinutes: {
+      type: Number,
+      min: 0
+    },
+    overtimeAmount: {
+      type: Number,
+      min: 0
+    },
+    currency: {
+      type: String,
+      uppercase: true
+    },
+    recordedAt: {
+      type: Date
+    }
+  },
   bookingReference: {
     type: String,
     required: true,
@@ -162,6 +309,34 @@ const bookingSchema = new Schema<IBooking>({
     trim: true,
     maxlength: 500
   },
+  cancellationRefund: {
+    amount: {
+      type: Number,
+      min: 0
+    },
+    percentage: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    currency: {
+      type: String,
+      uppercase: true
+    },
+    policyHoursBeforeStart: {
+      type: Number
+    },
+    policyRefundPercentage: {
+      type: Number
+    },
+    credits: {
+      type: Number,
+      min: 0
+    },
+    calculatedAt: {
+      type: Date
+    }
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -192,8 +367,8 @@ bookingSchema.methods.canBeCancelled = function(): boolean {
   const now = new Date();
   const hoursUntilStart = (this.startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
   
-  return this.status === 'Pending' || 
-         (this.status === 'Confirmed' && hoursUntilStart >= 2); // 2 hours cancellation policy
+  // Late cancellations are allowed but forfeit the refund (see CancellationPolicyService)
+  return (this.status === 'Pending' || this.status === 'Confirmed') && hoursUntilStart > 0;
 };
 
 bookingSchema.methods.canBeModified = function(): boolean {
@@ -204,6 +379,10 @@ bookingSchema.methods.canBeModified = function(): boolean {
          hoursUntilStart >= 4; // 4 hours modification policy
 };
 
+bookingSchema.methods.getBillableAmount = function(): number {
+  return Math.round((this.totalAmount + (this.usage?.overtimeAmount || 0)) * 100) / 100;
+};
+
 // Pre-save middleware to generate booking reference
 bookingSchema.pre('save', function(next) {
   if (!this.bookingReference) {
@@ -218,6 +397,14 @@ bookingSchema.pre('save', function(next) {
   next();
 });
 
+// Only a pending booking holds its slot for a limited time
+bookingSchema.pre('save', function(next) {
+  if (this.status !== 'Pending' && this.holdExpiresAt) {
+    this.holdExpiresAt = undefined;
+  }
+  next();
+});
+
 // Validation: End time must be after start time
 bookingSchema.pre('save', function(next) {
   if (this.endTime <= this.startTime) {
@@ -236,6 +423,8 @@ bookingSchema.index({ spaceId: 1, startTime: 1, endTime: 1 });
 bookingSchema.index({ contactId: 1, startTime: -1 });
 bookingSchema.index({ createdAt: -1 });
 bookingSchema.index({ bookingReference: 1 });
+bookingSchema.index({ seriesId: 1, startTime: 1 }, { sparse: true });
+bookingSchema.index({ status: 1, holdExpiresAt: 1 });
 
 // Compound index for conflict checking
 bookingSchema.index({ 
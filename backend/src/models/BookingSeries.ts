@@ -0,0 +1,114 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { RecurrenceFrequency, RecurrenceWeekday, RECURRENCE_WEEKDAYS } from '../utils/recurrence';
+
+export type BookingSeriesStatus = 'Active' | 'Cancelled';
+
+export interface IBookingSeries extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  spaceId: Types.ObjectId;
+  contactId?: Types.ObjectId;
+
+  // Recurrence
+  recurrence: {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    byWeekday: RecurrenceWeekday[];
+    count?: number;
+    until?: Date;
+  };
+  rrule: string; // RFC 5545 RRULE value of the recurrence, e.g. "FREQ=WEEKLY;INTERVAL=1;BYDAY=TU;COUNT=10"
+  timezone: string; // Occurrences keep their wall-clock time in this timezone
+  firstStartTime: Date; // DTSTART
+  durationMinutes: number;
+
+  status: BookingSeriesStatus;
+
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bookingSeriesSchema = new Schema<IBookingSeries>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  spaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Space',
+    required: true
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact'
+  },
+  recurrence: {
+    frequency: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly'],
+      required: true
+    },
+    interval: {
+      type: Number,
+      required: true,
+      min: 1,
+      default: 1
+    },
+    byWeekday: [{
+      type: String,
+      enum: RECURRENCE_WEEKDAYS
+    }],
+    count: {
+      type: Number,
+      min: 1
+    },
+    until: {
+      type: Date
+    }
+  },
+  rrule: {
+    type: String,
+    required: true
+  },
+  timezone: {
+    type: String,
+    required: true,
+    default: 'Asia/Kolkata'
+  },
+  firstStartTime: {
+    type: Date,
+    required: true
+  },
+  durationMinutes: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  status: {
+    type: String,
+    enum: ['Active', 'Cancelled'],
+    default: 'Active'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+bookingSeriesSchema.index({ organizationId: 1, status: 1 });
+bookingSeriesSchema.index({ spaceId: 1, status: 1 });
+
+export const BookingSeries = mongoose.model<IBookingSeries>('BookingSeries', bookingSeriesSchema);
@@ -1,7 +1,21 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CreditUnit } from './MembershipPlan';
 
 export type ContactType = 'Lead' | 'Member' | 'Prospect';
 export type ContextState = 'New' | 'Touring' | 'Negotiating' | 'Active' | 'Inactive' | 'Churned';
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired';
+
+export interface IContactSubscription {
+  planId: Types.ObjectId;
+  status: SubscriptionStatus; // Cancelled subscriptions run to the end of the paid period
+  startDate: Date;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date; // Renewal date
+  autoRenew: boolean;
+  cancelledAt?: Date;
+  creditBalance: number; // Left in the current period, in `creditUnit`
+  creditUnit: CreditUnit;
+}
 
 export interface IContactInteraction {
   _id: Types.ObjectId;
@@ -27,8 +41,8 @@ export interface IContact extends Document {
   
   firstName: string;
   lastName: string;
-  email: string;
-  phone?: string;
+  email?: string; // Optional for contacts known only by phone, e.g. WhatsApp leads
+  phone?: string; // E.164 when set through the API or WhatsApp
   company?: string;
   jobTitle?: string;
   
@@ -60,12 +74,14 @@ export interface IContact extends Document {
   leadSource?: string;
   assignedTo?: Types.ObjectId;
   
+  // Summary of the subscription below; kept for member discounts and invoices
   membership?: {
     planType?: string;
     startDate?: Date;
     endDate?: Date;
     monthlyRate?: number;
   };
+  subscription?: IContactSubscription;
 
   // Space and booking preferences
   spacePreferences?: {
@@ -91,6 +107,50 @@ export interface IContact extends Document {
   updateContextState(newState: ContextState, reason?: string): void;
 }
 
+const contactSubscriptionSchema = new Schema<IContactSubscription>({
+  planId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MembershipPlan',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'cancelled', 'expired'],
+    required: true,
+    default: 'active'
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  currentPeriodStart: {
+    type: Date,
+    required: true
+  },
+  currentPeriodEnd: {
+    type: Date,
+    required: true
+  },
+  autoRenew: {
+    type: Boolean,
+    default: true
+  },
+  cancelledAt: {
+    type: Date
+  },
+  creditBalance: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  creditUnit: {
+    type: String,
+    enum: ['hours', 'credits'],
+    required: true
+  }
+}, { _id: false });
+
 const contactInteractionSchema = new Schema<IContactInteraction>({
   type: {
     type: String,
@@ -125,7 +185,7 @@ const contactInteractionSchema = new Schema<IContactInteraction>({
 const contactSchema = new Schema<IContact>({
   organizationId: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Organization',
     required: true,
     index: true
   },
@@ -155,7 +215,7 @@ const contactSchema = new Schema<IContact>({
   },
   email: {
     type: String,
-    required: true,
+    required: [function(this: IContact) { return !this.phone; }, 'Email is required when no phone number is given'],
     lowercase: true,
     trim: true,
     match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
@@ -217,6 +277,7 @@ const contactSchema = new Schema<IContact>({
     endDate: Date,
     monthlyRate: Number
   },
+  subscription: contactSubscriptionSchema,
   spacePreferences: {
     preferredSpaceTypes: [String],
     preferredAmenities: [String],
@@ -280,8 +341,14 @@ contactSchema.methods.updateContextState = function(newState: ContextState, reas
   this.aiContext.lastContextUpdate = new Date();
 };
 
-contactSchema.index({ organizationId: 1, email: 1 }, { unique: true });
+// Only contacts that have an email must have a unique one
+contactSchema.index(
+  { organizationId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { email: { $type: 'string' } } }
+);
+contactSchema.index({ organizationId: 1, phone: 1 });
 contactSchema.index({ organizationId: 1, type: 1 });
+contactSchema.index({ 'subscription.status': 1, 'subscription.currentPeriodEnd': 1 });
 contactSchema.index({ organizationId: 1, contextState: 1 });
 contactSchema.index({ organizationId: 1, assignedTo: 1 });
 contactSchema.index({ organizationId: 1, priority: 1 });
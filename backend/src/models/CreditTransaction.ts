@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CreditUnit } from './MembershipPlan';
+
+// grant: period allowance, usage: spent on a booking, release: returned by a cancellation or
+// re-price, expiry: unused balance at the end of a period
+export type CreditTransactionType = 'grant' | 'usage' | 'release' | 'expiry';
+
+export interface ICreditTransaction extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  contactId: Types.ObjectId;
+  planId: Types.ObjectId;
+  bookingId?: Types.ObjectId;
+  type: CreditTransactionType;
+  amount: number; // Signed: positive adds to the balance
+  unit: CreditUnit;
+  balanceAfter: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const creditTransactionSchema = new Schema<ICreditTransaction>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true
+  },
+  planId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MembershipPlan',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  type: {
+    type: String,
+    enum: ['grant', 'usage', 'release', 'expiry'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  unit: {
+    type: String,
+    enum: ['hours', 'credits'],
+    required: true
+  },
+  balanceAfter: {
+    type: Number,
+    required: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+creditTransactionSchema.index({ contactId: 1, createdAt: -1 });
+
+export const CreditTransaction = mongoose.model<ICreditTransaction>('CreditTransaction', creditTransactionSchema);
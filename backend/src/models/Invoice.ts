@@ -0,0 +1,284 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type InvoiceStatus = 'Issued' | 'Partially Paid' | 'Paid' | 'Partially Refunded' | 'Refunded' | 'Void';
+export type InvoiceSourceType = 'booking' | 'membership';
+
+export interface IInvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+}
+
+export interface IInvoiceTax {
+  name: string;
+  rate: number; // Percentage
+  amount: number;
+}
+
+export interface IInvoice extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  invoiceNumber: string; // Sequential per organization, e.g. "INV-000042"
+  sequence: number;
+
+  // What was invoiced
+  sourceType: InvoiceSourceType;
+  bookingId?: Types.ObjectId;
+  contactId?: Types.ObjectId;
+  locationId?: Types.ObjectId; // Decides the tax rates
+  membership?: {
+    planType: string;
+    periodStart: Date;
+    periodEnd: Date;
+  };
+
+  // Billed to
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    company?: string;
+  };
+  sellerTaxId?: string; // Location tax registration number at the time of issue
+
+  // Amounts (taxes are added on top of the line items)
+  lineItems: IInvoiceLineItem[];
+  subtotal: number;
+  taxes: IInvoiceTax[];
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  amountRefunded: number;
+  currency: string;
+
+  status: InvoiceStatus;
+  issuedAt: Date;
+  dueDate?: Date;
+  notes?: string;
+  voidReason?: string;
+
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  getBalanceDue(): number;
+  getRefundableAmount(): number;
+}
+
+const invoiceLineItemSchema = new Schema<IInvoiceLineItem>({
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unitPrice: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const invoiceTaxSchema = new Schema<IInvoiceTax>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const invoiceSchema = new Schema<IInvoice>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  invoiceNumber: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  sourceType: {
+    type: String,
+    enum: ['booking', 'membership'],
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    index: true
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact',
+    index: true
+  },
+  locationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Location'
+  },
+  membership: {
+    planType: {
+      type: String,
+      trim: true
+    },
+    periodStart: {
+      type: Date
+    },
+    periodEnd: {
+      type: Date
+    }
+  },
+  customer: {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true
+    },
+    phone: {
+      type: String,
+      trim: true
+    },
+    company: {
+      type: String,
+      trim: true
+    }
+  },
+  sellerTaxId: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  lineItems: {
+    type: [invoiceLineItemSchema],
+    validate: {
+      validator: (items: IInvoiceLineItem[]) => items.length > 0,
+      message: 'An invoice needs at least one line item'
+    }
+  },
+  subtotal: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxes: {
+    type: [invoiceTaxSchema],
+    default: []
+  },
+  taxTotal: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  amountPaid: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  amountRefunded: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    length: 3
+  },
+  status: {
+    type: String,
+    enum: ['Issued', 'Partially Paid', 'Paid', 'Partially Refunded', 'Refunded', 'Void'],
+    default: 'Issued',
+    index: true
+  },
+  issuedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  dueDate: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  voidReason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Instance methods
+invoiceSchema.methods.getBalanceDue = function(): number {
+  if (this.status === 'Void') return 0;
+  return Math.max(0, Math.round((this.total - this.amountPaid) * 100) / 100);
+};
+
+invoiceSchema.methods.getRefundableAmount = function(): number {
+  return Math.max(0, Math.round((this.amountPaid - this.amountRefunded) * 100) / 100);
+};
+
+// Indexes for performance
+invoiceSchema.index({ organizationId: 1, invoiceNumber: 1 }, { unique: true });
+invoiceSchema.index({ organizationId: 1, issuedAt: -1 });
+invoiceSchema.index({ organizationId: 1, status: 1 });
+
+export const Invoice = mongoose.model<IInvoice>('Invoice', invoiceSchema);
@@ -0,0 +1,23 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Last invoice sequence number issued by an organization
+export interface IInvoiceCounter extends Document {
+  organizationId: Types.ObjectId;
+  sequence: number;
+}
+
+const invoiceCounterSchema = new Schema<IInvoiceCounter>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    unique: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    default: 0
+  }
+});
+
+export const InvoiceCounter = mongoose.model<IInvoiceCounter>('InvoiceCounter', invoiceCounterSchema);
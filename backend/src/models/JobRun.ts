@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { JobRunStatus } from './ScheduledJob';
+
+// One execution of a scheduled job, kept as its history
+export interface IJobRun extends Document {
+  _id: Types.ObjectId;
+  jobName: string;
+  trigger: 'schedule' | 'manual';
+  triggeredBy?: Types.ObjectId; // User who started a manual run
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: Record<string, unknown>; // Summary returned by the job, e.g. counts of records changed
+  error?: string;
+}
+
+// How long run history is kept
+const JOB_RUN_RETENTION_DAYS = 90;
+
+const jobRunSchema = new Schema<IJobRun>({
+  jobName: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  triggeredBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  status: {
+    type: String,
+    enum: ['Running', 'Succeeded', 'Failed'],
+    default: 'Running'
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date
+  },
+  durationMs: {
+    type: Number,
+    min: 0
+  },
+  result: {
+    type: Schema.Types.Mixed
+  },
+  error: {
+    type: String,
+    maxlength: 2000
+  }
+});
+
+jobRunSchema.index({ jobName: 1, startedAt: -1 });
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 });
+
+export const JobRun = mongoose.model<IJobRun>('JobRun', jobRunSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { checkBusinessHours } from '../utils/timeValidation';
 
 export type AmenityType = 
   | 'WiFi' 
@@ -37,6 +38,30 @@ export interface IOperatingHours {
   notes?: string; // e.g., "Limited services", "Half day"
 }
 
+export type DateExceptionType = 'closed' | 'modified_hours' | 'special_event';
+
+// Hours of one calendar date that differ from the weekly pattern, e.g. a public holiday
+export interface ILocationDateException {
+  _id: Types.ObjectId;
+  date: string; // Format: "2025-10-20", in the location's timezone
+  type: DateExceptionType; // Special events keep the location open, with their own hours if set
+  name: string; // e.g., "Diwali", "Christmas Day"
+  openTime?: string;
+  closeTime?: string;
+  notes?: string;
+  source: 'manual' | 'ical';
+  uid?: string; // iCalendar event UID, so re-imports replace earlier imports
+}
+
+// Hours that apply on a particular date, after any exception
+export interface IDayHours {
+  isOpen: boolean;
+  openTime?: string;
+  closeTime?: string;
+  notes?: string;
+  exception?: ILocationDateException;
+}
+
 export interface ILocationContact {
   type: 'phone' | 'email' | 'whatsapp' | 'emergency';
   value: string;
@@ -59,6 +84,11 @@ export interface ILocationAddress {
   unitNumber?: string; // e.g., "Unit 201", "Suite A"
 }
 
+export interface ILocationTaxRate {
+  name: string; // e.g., "CGST", "SGST", "VAT"
+  rate: number; // Percentage of the taxable amount
+}
+
 export interface ILocation extends Document {
   _id: Types.ObjectId;
   organizationId: Types.ObjectId;
@@ -73,6 +103,7 @@ export interface ILocation extends Document {
   
   // Operating Information
   operatingHours: IOperatingHours[];
+  dateExceptions: ILocationDateException[]; // Holidays and special dates
   timezone: string; // e.g., "Asia/Kolkata", "America/New_York"
   
   // Amenities and Features
@@ -87,9 +118,14 @@ export interface ILocation extends Document {
     minimumBookingDuration: number; // in minutes
     maximumBookingDuration: number; // in minutes
     advanceBookingLimit: number; // in days
+    pendingHoldMinutes: number; // How long a pending booking holds its slot; 0 holds it until staff act
     cancellationPolicy?: string;
   };
   
+  // Invoicing
+  taxId?: string; // Tax registration number printed on invoices, e.g. a GSTIN
+  taxRates: ILocationTaxRate[]; // Applied to every invoice for this location
+  
   // Metadata
   images?: string[]; // URLs to location images
   virtualTourUrl?: string;
@@ -115,6 +151,8 @@ export interface ILocation extends Document {
   // Instance methods
   isOpenNow(): boolean;
   getOperatingHoursForDay(day: DayOfWeek): IOperatingHours | null;
+  getDateException(date: string): ILocationDateException | null;
+  getHoursForDate(date: string): IDayHours;
   hasAmenity(amenity: AmenityType): boolean;
   getDisplayAddress(): string;
   getPrimaryContact(type?: 'phone' | 'email'): ILocationContact | null;
@@ -165,6 +203,78 @@ const operatingHoursSchema = new Schema<IOperatingHours>({
   }
 });
 
+// Date Exception Schema
+const dateExceptionSchema = new Schema<ILocationDateException>({
+  date: {
+    type: String,
+    required: true,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format']
+  },
+  type: {
+    type: String,
+    enum: ['closed', 'modified_hours', 'special_event'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  openTime: {
+    type: String,
+    match: [/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Open time must be in HH:MM format'],
+    validate: {
+      validator: function(this: ILocationDateException, value: string) {
+        // Modified hours need both times
+        return this.type !== 'modified_hours' || !!value;
+      },
+      message: 'Open time is required for modified hours'
+    }
+  },
+  closeTime: {
+    type: String,
+    match: [/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Close time must be in HH:MM format'],
+    validate: {
+      validator: function(this: ILocationDateException, value: string) {
+        return this.type !== 'modified_hours' || !!value;
+      },
+      message: 'Close time is required for modified hours'
+    }
+  },
+  notes: {
+    type: String,
+    maxlength: 200,
+    trim: true
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'ical'],
+    default: 'manual'
+  },
+  uid: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+});
+
+// Tax Rate Schema
+const locationTaxRateSchema = new Schema<ILocationTaxRate>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  }
+}, { _id: false });
+
 // Contact Schema
 const locationContactSchema = new Schema<ILocationContact>({
   type: {
@@ -255,7 +365,7 @@ const locationAddressSchema = new Schema<ILocationAddress>({
 const locationSchema = new Schema<ILocation>({
   organizationId: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Organization',
     required: true,
     index: true
   },
@@ -295,6 +405,17 @@ const locationSchema = new Schema<ILocation>({
       message: 'Operating hours must be specified for all 7 days of the week'
     }
   },
+  dateExceptions: {
+    type: [dateExceptionSchema],
+    default: [],
+    validate: {
+      validator: function(exceptions: ILocationDateException[]) {
+        // One exception per date
+        return new Set(exceptions.map(exception => exception.date)).size === exceptions.length;
+      },
+      message: 'Only one exception can be set per date'
+    }
+  },
   timezone: {
     type: String,
     required: true,
@@ -346,12 +467,28 @@ const locationSchema = new Schema<ILocation>({
       default: 30, // 30 days
       min: 1
     },
+    pendingHoldMinutes: {
+      type: Number,
+      default: 30,
+      min: 0,
+      max: 10080 // 1 week
+    },
     cancellationPolicy: {
       type: String,
       trim: true,
       maxlength: 500
     }
   },
+  taxId: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  taxRates: {
+    type: [locationTaxRateSchema],
+    default: []
+  },
   images: [{
     type: String,
     trim: true,
@@ -404,23 +541,48 @@ const locationSchema = new Schema<ILocation>({
 });
 
 // Instance Methods
+const DAYS_OF_WEEK: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
 locationSchema.methods.isOpenNow = function(): boolean {
   const now = new Date();
-  const currentDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][now.getDay()] as DayOfWeek;
-  const todayHours = this.getOperatingHoursForDay(currentDay);
-  
-  if (!todayHours || !todayHours.isOpen) {
-    return false;
-  }
-  
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-  return currentTime >= todayHours.openTime && currentTime <= todayHours.closeTime;
+  return checkBusinessHours(now, now, this as ILocation).isWithinHours;
 };
 
 locationSchema.methods.getOperatingHoursForDay = function(day: DayOfWeek): IOperatingHours | null {
   return this.operatingHours.find((hours: IOperatingHours) => hours.day === day) || null;
 };
 
+locationSchema.methods.getDateException = function(date: string): ILocationDateException | null {
+  return (this.dateExceptions || []).find((exception: ILocationDateException) => exception.date === date) || null;
+};
+
+locationSchema.methods.getHoursForDate = function(date: string): IDayHours {
+  const exception: ILocationDateException | null = this.getDateException(date);
+
+  if (exception?.type === 'closed') {
+    return { isOpen: false, notes: exception.notes || exception.name, exception };
+  }
+  if (exception && exception.openTime && exception.closeTime) {
+    return {
+      isOpen: true,
+      openTime: exception.openTime,
+      closeTime: exception.closeTime,
+      notes: exception.notes || exception.name,
+      exception
+    };
+  }
+
+  const day = DAYS_OF_WEEK[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const hours: IOperatingHours | null = this.getOperatingHoursForDay(day);
+  return {
+    isOpen: !!hours?.isOpen,
+    openTime: hours?.openTime,
+    closeTime: hours?.closeTime,
+    notes: exception ? exception.notes || exception.name : hours?.notes,
+    ...(exception && { exception })
+  };
+};
+
 locationSchema.methods.hasAmenity = function(amenity: AmenityType): boolean {
   return this.amenities.includes(amenity);
 };
@@ -0,0 +1,128 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { SpaceType } from './Space';
+
+export type CreditUnit = 'hours' | 'credits';
+
+export interface IMembershipAllowance {
+  unit: CreditUnit; // Hours of booking time, or credits worth `creditValue` each
+  amount: number; // Granted at the start of every billing period; unused balance expires
+  creditValue?: number; // Money one credit pays for, in the plan currency (credits only)
+  spaceTypes: SpaceType[]; // Space types the allowance can be spent on
+}
+
+export interface IMembershipPlan extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  currency: string;
+  allowance: IMembershipAllowance;
+  hotDeskAccess: boolean; // Hot desk bookings are included in the plan
+  allowedLocationIds: Types.ObjectId[]; // Empty means every location
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  coversLocation(locationId: Types.ObjectId | string | undefined): boolean;
+}
+
+const membershipAllowanceSchema = new Schema<IMembershipAllowance>({
+  unit: {
+    type: String,
+    enum: ['hours', 'credits'],
+    required: true,
+    default: 'hours'
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  creditValue: {
+    type: Number,
+    min: 0
+  },
+  spaceTypes: {
+    type: [{
+      type: String,
+      enum: ['Hot Desk', 'Meeting Room', 'Private Office']
+    }],
+    default: ['Meeting Room']
+  }
+}, { _id: false });
+
+const membershipPlanSchema = new Schema<IMembershipPlan>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  monthlyPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    default: 'INR'
+  },
+  allowance: {
+    type: membershipAllowanceSchema,
+    required: true,
+    default: () => ({})
+  },
+  hotDeskAccess: {
+    type: Boolean,
+    default: false
+  },
+  allowedLocationIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Location'
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+membershipPlanSchema.methods.coversLocation = function(locationId: Types.ObjectId | string | undefined): boolean {
+  if (this.allowedLocationIds.length === 0) return true;
+  if (!locationId) return false;
+  return this.allowedLocationIds.some((allowed: Types.ObjectId) => allowed.toString() === locationId.toString());
+};
+
+// Indexes for performance
+membershipPlanSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+
+export const MembershipPlan = mongoose.model<IMembershipPlan>('MembershipPlan', membershipPlanSchema);
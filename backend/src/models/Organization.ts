@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type OrganizationRole = 'admin' | 'member' | 'guest';
+
+export interface IOrganizationMember {
+  userId: Types.ObjectId;
+  role: OrganizationRole;
+  joinedAt: Date;
+  invitedBy?: Types.ObjectId; // User who added this member
+}
+
+export interface IOrganization extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  ownerId: Types.ObjectId; // User who created the organization
+  members: IOrganizationMember[];
+  isActive: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  getMembership(userId: Types.ObjectId | string): IOrganizationMember | null;
+  hasMember(userId: Types.ObjectId | string): boolean;
+  addMember(userId: Types.ObjectId, role?: OrganizationRole, invitedBy?: Types.ObjectId): IOrganizationMember;
+  removeMember(userId: Types.ObjectId | string): boolean;
+}
+
+// Membership Schema
+const organizationMemberSchema = new Schema<IOrganizationMember>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'member', 'guest'],
+    default: 'member'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
+// Main Organization Schema
+const organizationSchema = new Schema<IOrganization>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  members: {
+    type: [organizationMemberSchema],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Instance methods
+organizationSchema.methods.getMembership = function(userId: Types.ObjectId | string): IOrganizationMember | null {
+  const id = userId.toString();
+  return this.members.find((member: IOrganizationMember) => member.userId.toString() === id) || null;
+};
+
+organizationSchema.methods.hasMember = function(userId: Types.ObjectId | string): boolean {
+  return this.getMembership(userId) !== null;
+};
+
+organizationSchema.methods.addMember = function(
+  userId: Types.ObjectId,
+  role: OrganizationRole = 'member',
+  invitedBy?: Types.ObjectId
+): IOrganizationMember {
+  const existing = this.getMembership(userId);
+  if (existing) {
+    existing.role = role;
+    return existing;
+  }
+
+  const membership: IOrganizationMember = { userId, role, joinedAt: new Date(), invitedBy };
+  this.members.push(membership);
+  return membership;
+};
+
+organizationSchema.methods.removeMember = function(userId: Types.ObjectId | string): boolean {
+  const id = userId.toString();
+  const before = this.members.length;
+  this.members = this.members.filter((member: IOrganizationMember) => member.userId.toString() !== id);
+  return this.members.length < before;
+};
+
+// Indexes
+organizationSchema.index({ 'members.userId': 1 });
+
+export const Organization = mongoose.model<IOrganization>('Organization', organizationSchema);
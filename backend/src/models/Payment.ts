@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type PaymentType = 'payment' | 'refund';
+export type PaymentMethod = 'card' | 'upi' | 'bank_transfer' | 'cash' | 'other';
+export type PaymentTransactionStatus = 'Succeeded' | 'Failed';
+
+export interface IPayment extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  invoiceId: Types.ObjectId;
+  bookingId?: Types.ObjectId;
+  contactId?: Types.ObjectId;
+
+  type: PaymentType;
+  amount: number; // Always positive; `type` tells the direction
+  currency: string;
+  method: PaymentMethod;
+  status: PaymentTransactionStatus;
+
+  // Provider that moved the money (see services/paymentProviders)
+  provider: string;
+  providerReference?: string;
+  refundedPaymentId?: Types.ObjectId; // For refunds: the payment being refunded
+  failureReason?: string;
+
+  processedAt: Date;
+  notes?: string;
+
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentSchema = new Schema<IPayment>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  invoiceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Invoice',
+    required: true,
+    index: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact'
+  },
+  type: {
+    type: String,
+    enum: ['payment', 'refund'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    length: 3
+  },
+  method: {
+    type: String,
+    enum: ['card', 'upi', 'bank_transfer', 'cash', 'other'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['Succeeded', 'Failed'],
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  providerReference: {
+    type: String,
+    trim: true
+  },
+  refundedPaymentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Payment'
+  },
+  failureReason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  processedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+paymentSchema.index({ organizationId: 1, processedAt: -1 });
+paymentSchema.index({ invoiceId: 1, processedAt: 1 });
+
+export const Payment = mongoose.model<IPayment>('Payment', paymentSchema);
@@ -16,6 +16,9 @@ export type ProductTypeCategory =
   | 'Lounge_Area'
   | 'Virtual_Office';
 
+// Shared areas booked per seat: bookings may overlap until their attendees fill the capacity
+export const SEAT_BOOKED_CATEGORIES: ProductTypeCategory[] = ['Hot_Desk', 'Lounge_Area', 'Event_Space'];
+
 export type PricingType = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'tiered' | 'membership';
 
 export type AccessLevel = 'public' | 'members_only' | 'premium_members' | 'private' | 'by_invitation';
@@ -43,7 +46,8 @@ export interface IPricingRule {
     description?: string;
   };
   memberDiscounts?: {
-    membershipType: string;
+    membershipType: string; // Plan name, or a free-text membership type
+    membershipPlanId?: Types.ObjectId;
     discountPercentage: number;
     description?: string;
   }[];
@@ -82,6 +86,15 @@ export interface IAutoGenerationConfig {
   };
 }
 
+// Setup and teardown allowed per booking, each side
+export const MAX_BUFFER_MINUTES = 240;
+
+export interface IBookingBuffers {
+  setupMinutes: number; // Kept free before each booking to prepare the space
+  teardownMinutes: number; // Kept free after each booking to clear and clean it
+  cleanAfterCheckout: boolean; // Mark the space Cleaning for the teardown once a booking checks out
+}
+
 export interface IProductType extends Document {
   _id: Types.ObjectId;
   organizationId: Types.ObjectId;
@@ -122,6 +135,7 @@ export interface IProductType extends Document {
       isAvailable: boolean;
     }>;
   };
+  bookingBuffers?: IBookingBuffers;
 
   // Auto-generation settings for individual spaces
   autoGeneration: IAutoGenerationConfig;
@@ -256,6 +270,10 @@ const pricingRuleSchema = new Schema<IPricingRule>({
       required: true,
       trim: true
     },
+    membershipPlanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MembershipPlan'
+    },
     discountPercentage: {
       type: Number,
       required: true,
@@ -352,7 +370,7 @@ const autoGenerationConfigSchema = new Schema<IAutoGenerationConfig>({
 const productTypeSchema = new Schema<IProductType>({
   organizationId: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Organization',
     required: true,
     index: true
   },
@@ -507,6 +525,24 @@ const productTypeSchema = new Schema<IProductType>({
       isAvailable: Boolean
     }]
   },
+  bookingBuffers: {
+    setupMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: MAX_BUFFER_MINUTES
+    },
+    teardownMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: MAX_BUFFER_MINUTES
+    },
+    cleanAfterCheckout: {
+      type: Boolean,
+      default: false
+    }
+  },
   autoGeneration: {
     type: autoGenerationConfigSchema,
     required: true
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobRunStatus = 'Running' | 'Succeeded' | 'Failed';
+
+// Persisted state of a background job, shared by every server instance so a job
+// runs once per schedule and survives restarts (see SchedulerService)
+export interface IScheduledJob extends Document {
+  name: string;
+  nextRunAt: Date;
+  lockToken?: string; // Identifies the instance running the job
+  lockedUntil?: Date; // Lease of the running instance; a crashed run lapses and can be retried
+  lastStartedAt?: Date;
+  lastFinishedAt?: Date;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledJobSchema = new Schema<IScheduledJob>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  lockToken: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastStartedAt: {
+    type: Date
+  },
+  lastFinishedAt: {
+    type: Date
+  },
+  lastStatus: {
+    type: String,
+    enum: ['Running', 'Succeeded', 'Failed']
+  },
+  lastError: {
+    type: String,
+    maxlength: 2000
+  }
+}, {
+  timestamps: true
+});
+
+export const ScheduledJob = mongoose.model<IScheduledJob>('ScheduledJob', scheduledJobSchema);
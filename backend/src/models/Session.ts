@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type SessionRevokedReason = 'logout' | 'logout_all' | 'password_reset' | 'token_reuse' | 'membership_removed' | 'organization_switch';
+
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 hash of the current refresh token id
+  previousRefreshTokenHash?: string; // Token id replaced by the last rotation
+  rotatedAt?: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(): boolean;
+}
+
+const sessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true
+  },
+  previousRefreshTokenHash: {
+    type: String
+  },
+  rotatedAt: {
+    type: Date
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'password_reset', 'token_reuse', 'membership_removed', 'organization_switch']
+  }
+}, {
+  timestamps: true
+});
+
+sessionSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+// Indexes
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Let MongoDB purge expired sessions
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
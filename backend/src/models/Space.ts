@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { SEAT_BOOKED_CATEGORIES, MAX_BUFFER_MINUTES, IBookingBuffers } from './ProductType';
 
 export type SpaceType = 'Hot Desk' | 'Meeting Room' | 'Private Office';
 export type SpaceStatus = 'Available' | 'Occupied' | 'Maintenance' | 'Out of Service' | 'Reserved' | 'Cleaning';
@@ -69,6 +70,8 @@ export interface ISpace extends Document {
   advanceBookingLimit: number; // in days
   allowSameDayBooking: boolean;
   useProductTypeBookingRules?: boolean; // If true, inherit from ProductType
+  bookingBuffers?: Partial<IBookingBuffers>; // Unset fields inherit from ProductType
+  cleaningUntil?: Date; // When a space marked Cleaning after a check-out becomes Available again
   
   // Images and Media
   images?: string[];
@@ -105,6 +108,8 @@ export interface ISpace extends Document {
   getEffectiveAmenities(): Promise<string[]>;
   getEffectivePricing(): Promise<any>;
   syncWithProductType(): Promise<void>;
+  usesSeatBooking(): Promise<boolean>;
+  getEffectiveBuffers(): Promise<IBookingBuffers>;
 }
 
 const workingHoursSchema = new Schema<IWorkingHours>({
@@ -159,7 +164,7 @@ const spaceRatesSchema = new Schema<ISpaceRates>({
 const spaceSchema = new Schema<ISpace>({
   organizationId: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Organization',
     required: true,
     index: true
   },
@@ -314,6 +319,20 @@ const spaceSchema = new Schema<ISpace>({
     type: Boolean,
     default: true
   },
+  bookingBuffers: {
+    setupMinutes: {
+      type: Number,
+      min: 0,
+      max: MAX_BUFFER_MINUTES
+    },
+    teardownMinutes: {
+      type: Number,
+      min: 0,
+      max: MAX_BUFFER_MINUTES
+    },
+    cleanAfterCheckout: Boolean
+  },
+  cleaningUntil: Date,
   images: [{
     type: String,
     trim: true
@@ -480,6 +499,34 @@ spaceSchema.methods.getEffectivePricing = async function(): Promise<any> {
   };
 };
 
+// Hot desks and shared product type categories are booked per seat instead of exclusively
+spaceSchema.methods.usesSeatBooking = async function(): Promise<boolean> {
+  if (this.type === 'Hot Desk') return true;
+  if (!this.productTypeId) return false;
+
+  const ProductType = mongoose.model('ProductType');
+  const productType = await ProductType.findById(this.productTypeId).select('category');
+  return !!productType && SEAT_BOOKED_CATEGORIES.includes(productType.category);
+};
+
+spaceSchema.methods.getEffectiveBuffers = async function(): Promise<IBookingBuffers> {
+  const own: Partial<IBookingBuffers> = this.bookingBuffers || {};
+  let inherited: Partial<IBookingBuffers> = {};
+
+  const inheritsSome = own.setupMinutes == null || own.teardownMinutes == null || own.cleanAfterCheckout == null;
+  if (inheritsSome && this.productTypeId) {
+    const ProductType = mongoose.model('ProductType');
+    const productType = await ProductType.findById(this.productTypeId).select('bookingBuffers');
+    inherited = productType?.bookingBuffers || {};
+  }
+
+  return {
+    setupMinutes: own.setupMinutes ?? inherited.setupMinutes ?? 0,
+    teardownMinutes: own.teardownMinutes ?? inherited.teardownMinutes ?? 0,
+    cleanAfterCheckout: own.cleanAfterCheckout ?? inherited.cleanAfterCheckout ?? false
+  };
+};
+
 spaceSchema.methods.syncWithProductType = async function(): Promise<void> {
   if (!this.productTypeId) return;
   
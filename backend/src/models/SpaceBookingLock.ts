@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Lease on a space held while a booking is checked for conflicts and written, so that
+// concurrent requests for the same space run one at a time
+export interface ISpaceBookingLock extends Document {
+  spaceId: Types.ObjectId;
+  token: string; // Identifies the holder, so only it can release the lock
+  expiresAt: Date; // Leases of crashed holders lapse and can be taken over
+}
+
+const spaceBookingLockSchema = new Schema<ISpaceBookingLock>({
+  spaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Space',
+    required: true,
+    unique: true
+  },
+  token: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Clean up lapsed leases
+spaceBookingLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SpaceBookingLock = mongoose.model<ISpaceBookingLock>('SpaceBookingLock', spaceBookingLockSchema);
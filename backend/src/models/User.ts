@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { generateSecureToken } from '../utils/secureToken';
+
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 export interface IUser extends Document {
   _id: Types.ObjectId;
@@ -8,9 +12,11 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   role: 'admin' | 'member' | 'guest';
+  organizationId?: Types.ObjectId; // Organization the user currently works in
   isEmailVerified: boolean;
-  emailVerificationToken?: string;
-  resetPasswordToken?: string;
+  emailVerificationToken?: string; // SHA-256 hash of the emailed token
+  emailVerificationExpires?: Date;
+  resetPasswordToken?: string; // SHA-256 hash of the emailed token
   resetPasswordExpires?: Date;
   
   // Onboarding fields
@@ -35,6 +41,8 @@ export interface IUser extends Document {
   getFullName(): string;
   requiresOnboarding(): boolean;
   markOnboardingCompleted(skipOnboarding?: boolean): void;
+  createPasswordResetToken(): string;
+  createEmailVerificationToken(): string;
 }
 
 const userSchema = new Schema<IUser>({
@@ -67,11 +75,17 @@ const userSchema = new Schema<IUser>({
     enum: ['admin', 'member', 'guest'],
     default: 'member'
   },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
   isEmailVerified: {
     type: Boolean,
     default: false
   },
   emailVerificationToken: String,
+  emailVerificationExpires: Date,
   resetPasswordToken: String,
   resetPasswordExpires: Date,
   
@@ -172,6 +186,21 @@ userSchema.methods.markOnboardingCompleted = function(skipOnboarding: boolean =
   }
 };
 
+// Store only the hash of the token; the raw value is returned so it can be emailed
+userSchema.methods.createPasswordResetToken = function(): string {
+  const { token, hashedToken } = generateSecureToken();
+  this.resetPasswordToken = hashedToken;
+  this.resetPasswordExpires = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+  return token;
+};
+
+userSchema.methods.createEmailVerificationToken = function(): string {
+  const { token, hashedToken } = generateSecureToken();
+  this.emailVerificationToken = hashedToken;
+  this.emailVerificationExpires = new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MS);
+  return token;
+};
+
 userSchema.index({ email: 1 });
 userSchema.index({ resetPasswordToken: 1 });
 userSchema.index({ emailVerificationToken: 1 });
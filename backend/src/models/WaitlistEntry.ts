@@ -0,0 +1,142 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Waiting: in line for the slot, Offered: a freed slot is held for the contact,
+// Booked: the contact took the offer, Declined/Expired: the offer passed to the next in line
+export type WaitlistStatus = 'Waiting' | 'Offered' | 'Booked' | 'Declined' | 'Expired' | 'Cancelled';
+
+export const OPEN_WAITLIST_STATUSES: WaitlistStatus[] = ['Waiting', 'Offered'];
+
+// Slot held for the contact while they decide
+export interface IWaitlistOffer {
+  bookingId: Types.ObjectId; // Pending booking holding the slot
+  spaceId: Types.ObjectId; // The requested space, or another of its product type
+  tokenHash: string; // SHA-256 hash of the token in the emailed link
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+export interface IWaitlistEntry extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  contactId: Types.ObjectId;
+  spaceId: Types.ObjectId; // Space the contact asked for
+  productTypeId?: Types.ObjectId;
+  anySpaceOfType: boolean; // Any space of the same product type will do
+
+  startTime: Date;
+  endTime: Date;
+  attendeeCount: number;
+  purpose?: string;
+
+  status: WaitlistStatus;
+  offer?: IWaitlistOffer;
+  offerCount: number;
+
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date; // Position in line
+  updatedAt: Date;
+}
+
+const waitlistOfferSchema = new Schema<IWaitlistOffer>({
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  spaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Space',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  offeredAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+const waitlistEntrySchema = new Schema<IWaitlistEntry>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+    index: true
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true,
+    index: true
+  },
+  spaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Space',
+    required: true
+  },
+  productTypeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ProductType'
+  },
+  anySpaceOfType: {
+    type: Boolean,
+    default: false
+  },
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date,
+    required: true
+  },
+  attendeeCount: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 100
+  },
+  purpose: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  status: {
+    type: String,
+    enum: ['Waiting', 'Offered', 'Booked', 'Declined', 'Expired', 'Cancelled'],
+    default: 'Waiting'
+  },
+  offer: waitlistOfferSchema,
+  offerCount: {
+    type: Number,
+    default: 0
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+waitlistEntrySchema.index({ organizationId: 1, status: 1, startTime: 1 });
+waitlistEntrySchema.index({ spaceId: 1, status: 1, createdAt: 1 });
+waitlistEntrySchema.index({ productTypeId: 1, status: 1, createdAt: 1 });
+waitlistEntrySchema.index({ status: 1, 'offer.expiresAt': 1 });
+waitlistEntrySchema.index({ 'offer.tokenHash': 1 }, { sparse: true });
+
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>('WaitlistEntry', waitlistEntrySchema);
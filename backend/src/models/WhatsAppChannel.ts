@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface IWhatsAppChannel extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+
+  // Twilio sender configuration
+  phoneNumber: string; // WhatsApp sender number in E.164 format, e.g. +14155238886
+  accountSid: string;
+  authToken: string; // Never returned by the API; used to call Twilio and verify webhook signatures
+  messagingServiceSid?: string; // When set, messages are sent through the messaging service
+
+  displayName?: string;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  toSafeJSON(): Record<string, unknown>;
+}
+
+const whatsAppChannelSchema = new Schema<IWhatsAppChannel>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      unique: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+      trim: true,
+      unique: true, // A receiving number can only route to one organization
+      match: [/^\+[1-9]\d{1,14}$/, "Phone number must be in international format (e.g., +1234567890)"],
+    },
+    accountSid: {
+      type: String,
+      required: true,
+      trim: true,
+      match: [/^AC[0-9a-fA-F]{32}$/, "Invalid Twilio Account SID"],
+    },
+    authToken: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    messagingServiceSid: {
+      type: String,
+      trim: true,
+      match: [/^MG[0-9a-fA-F]{32}$/, "Invalid Twilio Messaging Service SID"],
+    },
+    displayName: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Strip credentials before sending the channel to clients
+whatsAppChannelSchema.methods.toSafeJSON = function (): Record<string, unknown> {
+  const channel = this.toObject();
+  delete channel.authToken;
+  return channel;
+};
+
+whatsAppChannelSchema.index({ phoneNumber: 1, isActive: 1 });
+
+export const WhatsAppChannel = mongoose.model<IWhatsAppChannel>(
+  "WhatsAppChannel",
+  whatsAppChannelSchema
+);
@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { SpaceType } from "./Space";
+
+export type BookingConversationStep =
+  | "idle"
+  | "awaiting_space_type"
+  | "awaiting_date"
+  | "awaiting_time"
+  | "awaiting_duration"
+  | "awaiting_name"
+  | "awaiting_email"
+  | "awaiting_confirmation"
+  | "awaiting_waitlist_reply";
+
+export interface IBookingConversationData {
+  spaceType?: SpaceType;
+  date?: string; // YYYY-MM-DD in the location's timezone
+  time?: string; // HH:MM (24-hour) in the location's timezone
+  durationMinutes?: number;
+  customerName?: string;
+
+  // Filled in once a space has been found and quoted
+  spaceId?: Types.ObjectId;
+  startTime?: Date;
+  endTime?: Date;
+  quotedAmount?: number;
+  currency?: string;
+
+  waitlistEntryId?: Types.ObjectId; // Waitlist offer awaiting a YES/NO
+}
+
+export interface IWhatsAppConversationState extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  conversationId: string; // Same id WhatsAppMessage uses for the conversation
+  phoneNumber: string; // Customer's WhatsApp number
+  contactId?: Types.ObjectId;
+
+  step: BookingConversationStep;
+  data: IBookingConversationData;
+  lastBookingId?: Types.ObjectId;
+
+  expiresAt: Date; // Abandoned conversations are reset after a period of inactivity
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const whatsAppConversationStateSchema = new Schema<IWhatsAppConversationState>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+    },
+    conversationId: {
+      type: String,
+      required: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+    contactId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contact",
+    },
+    step: {
+      type: String,
+      enum: [
+        "idle",
+        "awaiting_space_type",
+        "awaiting_date",
+        "awaiting_time",
+        "awaiting_duration",
+        "awaiting_name",
+        "awaiting_email",
+        "awaiting_confirmation",
+        "awaiting_waitlist_reply",
+      ],
+      default: "idle",
+    },
+    data: {
+      spaceType: {
+        type: String,
+        enum: ["Hot Desk", "Meeting Room", "Private Office"],
+      },
+      date: String,
+      time: String,
+      durationMinutes: Number,
+      customerName: String,
+      spaceId: {
+        type: Schema.Types.ObjectId,
+        ref: "Space",
+      },
+      startTime: Date,
+      endTime: Date,
+      quotedAmount: Number,
+      currency: String,
+      waitlistEntryId: {
+        type: Schema.Types.ObjectId,
+        ref: "WaitlistEntry",
+      },
+    },
+    lastBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+whatsAppConversationStateSchema.index({ organizationId: 1, conversationId: 1 }, { unique: true });
+whatsAppConversationStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WhatsAppConversationState = mongoose.model<IWhatsAppConversationState>(
+  "WhatsAppConversationState",
+  whatsAppConversationStateSchema
+);
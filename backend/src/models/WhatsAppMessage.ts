@@ -36,10 +36,15 @@ export interface IWhatsAppMessage extends Document {
   conversationId: string; // Group messages by phone number
   isAutoReply?: boolean;
 
+  // Delivery failure reported by Twilio's status callback
+  errorCode?: string;
+  errorMessage?: string;
+
   // Timestamps
   sentAt: Date;
   deliveredAt?: Date;
   readAt?: Date;
+  failedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,7 +53,7 @@ const whatsAppMessageSchema = new Schema<IWhatsAppMessage>(
   {
     organizationId: {
       type: Schema.Types.ObjectId,
-      ref: "User",
+      ref: "Organization",
       required: true,
       index: true,
     },
@@ -120,8 +125,14 @@ const whatsAppMessageSchema = new Schema<IWhatsAppMessage>(
       required: true,
       index: true,
     },
+    errorCode: String,
+    errorMessage: {
+      type: String,
+      maxlength: 500,
+    },
     deliveredAt: Date,
     readAt: Date,
+    failedAt: Date,
   },
   {
     timestamps: true,
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type AutoReplyIntent =
+  | "greeting"
+  | "availability"
+  | "pricing"
+  | "tour"
+  | "amenities"
+  | "hours"
+  | "help"
+  | "fallback";
+
+export const AUTO_REPLY_INTENTS: AutoReplyIntent[] = [
+  "greeting",
+  "availability",
+  "pricing",
+  "tour",
+  "amenities",
+  "hours",
+  "help",
+  "fallback",
+];
+
+export interface IWhatsAppReplyTemplate extends Document {
+  _id: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  intent: AutoReplyIntent;
+  body: string; // May contain {{placeholders}} filled from the organization's data
+  isActive: boolean; // Inactive intents send no auto-reply
+
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const whatsAppReplyTemplateSchema = new Schema<IWhatsAppReplyTemplate>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+    },
+    intent: {
+      type: String,
+      enum: AUTO_REPLY_INTENTS,
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+      maxlength: 1600, // WhatsApp message body limit
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+whatsAppReplyTemplateSchema.index({ organizationId: 1, intent: 1 }, { unique: true });
+
+export const WhatsAppReplyTemplate = mongoose.model<IWhatsAppReplyTemplate>(
+  "WhatsAppReplyTemplate",
+  whatsAppReplyTemplateSchema
+);
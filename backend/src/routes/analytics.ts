@@ -1,13 +1,14 @@
 import express from "express";
 import { getAnalytics } from "../controllers/analyticscontroller";
+import { authenticate, authorize } from "../middleware/auth";
+import { PERMISSIONS } from "../config/permissions";
 
 const router = express.Router();
 
 console.log("📊 Registering analytics routes...");
 
-// Main analytics endpoint - allow both auth and fallback like WhatsApp
-router.get("/", async (req, res, next) => {
-  // Don't require authentication, let controller handle fallback
+// Main analytics endpoint - scoped to the authenticated organization
+router.get("/", authenticate, authorize(PERMISSIONS.analytics.read), async (req, res, next) => {
   return getAnalytics(req as any, res);
 });
 
@@ -1,5 +1,17 @@
 import express from 'express';
-import { register, login, getProfile, logout } from '../controllers/authController';
+import {
+  register,
+  login,
+  getProfile,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  validateResetToken,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail
+} from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -15,9 +27,30 @@ console.log('✅ POST /login route registered');
 router.get('/profile', authenticate, getProfile);
 console.log('✅ GET /profile route registered (protected)');
 
+router.post('/refresh', refresh);
+console.log('✅ POST /refresh route registered');
+
 router.post('/logout', authenticate, logout);
 console.log('✅ POST /logout route registered (protected)');
 
+router.post('/logout-all', authenticate, logoutAll);
+console.log('✅ POST /logout-all route registered (protected)');
+
+router.post('/forgot-password', forgotPassword);
+console.log('✅ POST /forgot-password route registered');
+
+router.get('/validate-reset-token/:token', validateResetToken);
+console.log('✅ GET /validate-reset-token/:token route registered');
+
+router.post('/reset-password', resetPassword);
+console.log('✅ POST /reset-password route registered');
+
+router.post('/verify-email', verifyEmail);
+console.log('✅ POST /verify-email route registered');
+
+router.post('/resend-verification', authenticate, resendVerificationEmail);
+console.log('✅ POST /resend-verification route registered (protected)');
+
 console.log('🚀 All auth routes registered successfully');
 
 export default router;
\ No newline at end of file
@@ -1,29 +1,46 @@
 import express from 'express';
 import {
   createBooking,
+  quoteBooking,
   getBookings,
   getBooking,
   updateBooking,
   deleteBooking,
-  getBookingStats
+  getCancellationQuote,
+  getBookingStats,
+  getCheckInCode,
+  getCheckInByToken,
+  getCheckInQrByToken,
+  checkInByToken,
+  checkOutByToken
 } from '../controllers/bookingController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 
-// Apply authentication middleware to all booking routes
+// Check-in codes given to customers are authorized by their token
+router.get('/check-in/:token', getCheckInByToken);
+router.get('/check-in/:token/qr.png', getCheckInQrByToken);
+router.post('/check-in/:token/check-in', checkInByToken);
+router.post('/check-in/:token/check-out', checkOutByToken);
+
+// Apply authentication middleware to all other booking routes
 router.use(authenticate);
 
-// Apply onboarding check to all booking routes
+// Apply onboarding check to all other booking routes
 router.use(requireOnboarding);
 
 // Booking CRUD operations
-router.post('/', createBooking);
-router.get('/', getBookings);
-router.get('/stats', getBookingStats);
-router.get('/:id', getBooking);
-router.put('/:id', updateBooking);
-router.delete('/:id', deleteBooking);
+router.post('/', authorize(PERMISSIONS.bookings.create), createBooking);
+router.post('/quote', authorize(PERMISSIONS.bookings.create), quoteBooking);
+router.get('/', authorize(PERMISSIONS.bookings.read), getBookings);
+router.get('/stats', authorize(PERMISSIONS.bookings.read), getBookingStats);
+router.get('/:id', authorize(PERMISSIONS.bookings.read), getBooking);
+router.get('/:id/cancellation', authorize(PERMISSIONS.bookings.cancel), getCancellationQuote);
+router.get('/:id/check-in-code', authorize(PERMISSIONS.bookings.read), getCheckInCode);
+router.put('/:id', authorize(PERMISSIONS.bookings.update), updateBooking);
+router.delete('/:id', authorize(PERMISSIONS.bookings.cancel), deleteBooking);
 
 export default router;
\ No newline at end of file
@@ -9,10 +9,18 @@ import {
   updateContextState,
   getContactStats,
   getContactAIContext,
-  getConversationPrompts
+  getConversationPrompts,
+  getContactDuplicates,
+  mergeContact
 } from '../controllers/contactController';
-import { authenticate } from '../middleware/auth';
+import {
+  getContactCredits,
+  subscribeContact,
+  cancelSubscription
+} from '../controllers/membershipController';
+import { authenticate, authorize } from '../middleware/auth';
 import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 
@@ -23,21 +31,30 @@ router.use(authenticate);
 router.use(requireOnboarding);
 
 // Contact CRUD operations
-router.post('/', createContact);
-router.get('/', getContacts);
-router.get('/stats', getContactStats);
-router.get('/:id', getContact);
-router.put('/:id', updateContact);
-router.delete('/:id', deleteContact);
+router.post('/', authorize(PERMISSIONS.contacts.create), createContact);
+router.get('/', authorize(PERMISSIONS.contacts.read), getContacts);
+router.get('/stats', authorize(PERMISSIONS.contacts.read), getContactStats);
+router.get('/:id', authorize(PERMISSIONS.contacts.read), getContact);
+router.put('/:id', authorize(PERMISSIONS.contacts.update), updateContact);
+router.delete('/:id', authorize(PERMISSIONS.contacts.delete), deleteContact);
+
+// Duplicate detection and merging
+router.get('/:id/duplicates', authorize(PERMISSIONS.contacts.read), getContactDuplicates);
+router.post('/:id/merge', authorize(PERMISSIONS.contacts.merge), mergeContact);
+
+// Membership subscription and credits
+router.get('/:id/credits', authorize(PERMISSIONS.subscriptions.read), getContactCredits);
+router.post('/:id/subscription', authorize(PERMISSIONS.subscriptions.manage), subscribeContact);
+router.delete('/:id/subscription', authorize(PERMISSIONS.subscriptions.manage), cancelSubscription);
 
 // Contact interactions
-router.post('/:id/interactions', addInteraction);
+router.post('/:id/interactions', authorize(PERMISSIONS.contacts.update), addInteraction);
 
 // Context state management
-router.patch('/:id/context-state', updateContextState);
+router.patch('/:id/context-state', authorize(PERMISSIONS.contacts.update), updateContextState);
 
 // AI Context features
-router.get('/:id/ai-context', getContactAIContext);
-router.get('/:id/conversation-prompts', getConversationPrompts);
+router.get('/:id/ai-context', authorize(PERMISSIONS.contacts.read), getContactAIContext);
+router.get('/:id/conversation-prompts', authorize(PERMISSIONS.contacts.read), getConversationPrompts);
 
 export default router;
\ No newline at end of file
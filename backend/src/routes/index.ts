@@ -5,7 +5,12 @@ import spaceRoutes from "./spaces";
 import locationRoutes from "./locations";
 import productTypeRoutes from "./productTypes";
 import bookingRoutes from "./bookings";
+import waitlistRoutes from "./waitlist";
+import invoiceRoutes from "./invoices";
+import membershipPlanRoutes from "./membershipPlans";
 import onboardingRoutes from "./onboarding";
+import organizationRoutes from "./organization";
+import jobRoutes from "./jobs";
 
 const router = express.Router();
 
@@ -53,9 +58,24 @@ console.log("✅ Product Type routes registered at /api/product-types");
 router.use("/bookings", bookingRoutes);
 console.log("✅ Booking routes registered at /api/bookings");
 
+router.use("/waitlist", waitlistRoutes);
+console.log("✅ Waitlist routes registered at /api/waitlist");
+
+router.use("/invoices", invoiceRoutes);
+console.log("✅ Invoice routes registered at /api/invoices");
+
+router.use("/membership-plans", membershipPlanRoutes);
+console.log("✅ Membership plan routes registered at /api/membership-plans");
+
 router.use("/onboarding", onboardingRoutes);
 console.log("✅ Onboarding routes registered at /api/onboarding");
 
+router.use("/organization", organizationRoutes);
+console.log("✅ Organization routes registered at /api/organization");
+
+router.use("/jobs", jobRoutes);
+console.log("✅ Job routes registered at /api/jobs");
+
 router.get("/health", (_req, res) => {
   res.json({
     success: true,
@@ -69,7 +89,14 @@ router.get("/health", (_req, res) => {
       "POST /api/auth/register",
       "POST /api/auth/login",
       "GET /api/auth/profile",
+      "POST /api/auth/refresh",
       "POST /api/auth/logout",
+      "POST /api/auth/logout-all",
+      "POST /api/auth/forgot-password",
+      "GET /api/auth/validate-reset-token/:token",
+      "POST /api/auth/reset-password",
+      "POST /api/auth/verify-email",
+      "POST /api/auth/resend-verification",
       "GET /api/contacts",
       "POST /api/contacts",
       "GET /api/contacts/stats",
@@ -80,10 +107,15 @@ router.get("/health", (_req, res) => {
       "PATCH /api/contacts/:id/context-state",
       "GET /api/contacts/:id/ai-context",
       "GET /api/contacts/:id/conversation-prompts",
+      "GET /api/contacts/:id/credits",
+      "POST /api/contacts/:id/subscription",
+      "DELETE /api/contacts/:id/subscription",
       "GET /api/spaces",
       "POST /api/spaces",
       "GET /api/spaces/stats",
       "GET /api/spaces/availability",
+      "GET /api/spaces/search",
+      "POST /api/spaces/effective-schedule",
       "GET /api/spaces/:id",
       "PUT /api/spaces/:id",
       "DELETE /api/spaces/:id",
@@ -95,6 +127,11 @@ router.get("/health", (_req, res) => {
       "PUT /api/locations/:id",
       "DELETE /api/locations/:id",
       "GET /api/locations/:id/hours",
+      "GET /api/locations/:id/date-exceptions",
+      "POST /api/locations/:id/date-exceptions",
+      "POST /api/locations/:id/date-exceptions/import",
+      "PUT /api/locations/:id/date-exceptions/:exceptionId",
+      "DELETE /api/locations/:id/date-exceptions/:exceptionId",
       "GET /api/product-types",
       "POST /api/product-types",
       "GET /api/product-types/stats",
@@ -108,10 +145,44 @@ router.get("/health", (_req, res) => {
       "GET /api/bookings/:id",
       "PUT /api/bookings/:id",
       "DELETE /api/bookings/:id",
+      "GET /api/bookings/:id/check-in-code",
+      "GET /api/bookings/check-in/:token",
+      "GET /api/bookings/check-in/:token/qr.png",
+      "POST /api/bookings/check-in/:token/check-in",
+      "POST /api/bookings/check-in/:token/check-out",
+      "GET /api/waitlist",
+      "POST /api/waitlist",
+      "POST /api/waitlist/:id/accept",
+      "POST /api/waitlist/:id/decline",
+      "DELETE /api/waitlist/:id",
+      "GET /api/waitlist/offers/:token",
+      "POST /api/waitlist/offers/:token/accept",
+      "POST /api/waitlist/offers/:token/decline",
+      "GET /api/invoices",
+      "POST /api/invoices",
+      "GET /api/invoices/:id",
+      "GET /api/invoices/:id/pdf",
+      "POST /api/invoices/:id/payments",
+      "POST /api/invoices/:id/refunds",
+      "POST /api/invoices/:id/void",
+      "GET /api/membership-plans",
+      "POST /api/membership-plans",
+      "PUT /api/membership-plans/:id",
+      "DELETE /api/membership-plans/:id",
       "GET /api/onboarding/status",
       "PUT /api/onboarding/data",
       "POST /api/onboarding/complete",
       "POST /api/onboarding/reset",
+      "GET /api/organization",
+      "PUT /api/organization",
+      "GET /api/organization/memberships",
+      "POST /api/organization/switch",
+      "POST /api/organization/members",
+      "PUT /api/organization/members/:userId",
+      "DELETE /api/organization/members/:userId",
+      "GET /api/jobs",
+      "GET /api/jobs/:name/runs",
+      "POST /api/jobs/:name/run",
     ],
   });
 });
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+  getInvoices,
+  getInvoice,
+  createInvoice,
+  recordPayment,
+  refundInvoice,
+  voidInvoice,
+  downloadInvoicePdf
+} from '../controllers/invoiceController';
+import { authenticate, authorize } from '../middleware/auth';
+import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+// Apply authentication middleware to all invoice routes
+router.use(authenticate);
+
+// Apply onboarding check to all invoice routes
+router.use(requireOnboarding);
+
+router.get('/', authorize(PERMISSIONS.invoices.read), getInvoices);
+router.post('/', authorize(PERMISSIONS.invoices.create), createInvoice);
+router.get('/:id', authorize(PERMISSIONS.invoices.read), getInvoice);
+router.get('/:id/pdf', authorize(PERMISSIONS.invoices.read), downloadInvoicePdf);
+router.post('/:id/payments', authorize(PERMISSIONS.invoices.recordPayment), recordPayment);
+router.post('/:id/refunds', authorize(PERMISSIONS.invoices.refund), refundInvoice);
+router.post('/:id/void', authorize(PERMISSIONS.invoices.void), voidInvoice);
+
+export default router;
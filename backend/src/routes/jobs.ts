@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+  getJobs,
+  getJobRuns,
+  runJob
+} from '../controllers/jobController';
+import { authenticate, requirePlatformAdmin } from '../middleware/auth';
+import { requireOnboarding } from '../middleware/onboarding';
+
+const router = express.Router();
+
+// Apply authentication middleware to all job routes
+router.use(authenticate);
+
+// Apply onboarding check to all job routes
+router.use(requireOnboarding);
+
+// Platform admins only; organization roles don't apply
+router.get('/', requirePlatformAdmin, getJobs);
+router.get('/:name/runs', requirePlatformAdmin, getJobRuns);
+router.post('/:name/run', requirePlatformAdmin, runJob);
+
+export default router;
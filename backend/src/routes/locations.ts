@@ -6,10 +6,16 @@ import {
   getLocation, 
   updateLocation, 
   deleteLocation, 
-  checkLocationHours 
+  checkLocationHours,
+  getLocationDateExceptions,
+  addLocationDateException,
+  updateLocationDateException,
+  deleteLocationDateException,
+  importLocationCalendar
 } from '../controllers/locationController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 
@@ -20,14 +26,21 @@ router.use(authenticate);
 router.use(requireOnboarding);
 
 // Location CRUD operations
-router.post('/', createLocation);
-router.get('/', getLocations);
-router.get('/stats', getLocationStats);
-router.get('/:id', getLocation);
-router.put('/:id', updateLocation);
-router.delete('/:id', deleteLocation);
+router.post('/', authorize(PERMISSIONS.locations.create), createLocation);
+router.get('/', authorize(PERMISSIONS.locations.read), getLocations);
+router.get('/stats', authorize(PERMISSIONS.locations.read), getLocationStats);
+router.get('/:id', authorize(PERMISSIONS.locations.read), getLocation);
+router.put('/:id', authorize(PERMISSIONS.locations.update), updateLocation);
+router.delete('/:id', authorize(PERMISSIONS.locations.delete), deleteLocation);
 
 // Location specific operations
-router.get('/:id/hours', checkLocationHours);
+router.get('/:id/hours', authorize(PERMISSIONS.locations.read), checkLocationHours);
+
+// Holidays and special dates
+router.get('/:id/date-exceptions', authorize(PERMISSIONS.locations.read), getLocationDateExceptions);
+router.post('/:id/date-exceptions', authorize(PERMISSIONS.locations.update), addLocationDateException);
+router.post('/:id/date-exceptions/import', authorize(PERMISSIONS.locations.update), importLocationCalendar);
+router.put('/:id/date-exceptions/:exceptionId', authorize(PERMISSIONS.locations.update), updateLocationDateException);
+router.delete('/:id/date-exceptions/:exceptionId', authorize(PERMISSIONS.locations.update), deleteLocationDateException);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+  getMembershipPlans,
+  createMembershipPlan,
+  updateMembershipPlan,
+  deleteMembershipPlan
+} from '../controllers/membershipController';
+import { authenticate, authorize } from '../middleware/auth';
+import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+// Apply authentication middleware to all membership plan routes
+router.use(authenticate);
+
+// Apply onboarding check to all membership plan routes
+router.use(requireOnboarding);
+
+router.get('/', authorize(PERMISSIONS.membershipPlans.read), getMembershipPlans);
+router.post('/', authorize(PERMISSIONS.membershipPlans.create), createMembershipPlan);
+router.put('/:id', authorize(PERMISSIONS.membershipPlans.update), updateMembershipPlan);
+router.delete('/:id', authorize(PERMISSIONS.membershipPlans.delete), deleteMembershipPlan);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { PERMISSIONS } from '../config/permissions';
+import {
+  getOrganization,
+  getMemberships,
+  switchOrganization,
+  updateOrganization,
+  addMember,
+  updateMember,
+  removeMember
+} from '../controllers/organizationController';
+
+const router = Router();
+
+// All organization routes require authentication
+router.use(authenticate);
+
+// Current organization
+router.get('/', authorize(PERMISSIONS.organization.read), getOrganization);
+router.put('/', authorize(PERMISSIONS.organization.manage), updateOrganization);
+
+// Organizations the user belongs to, and switching between them
+router.get('/memberships', authorize(PERMISSIONS.organization.read), getMemberships);
+router.post('/switch', authorize(PERMISSIONS.organization.read), switchOrganization);
+
+// Membership management
+router.post('/members', authorize(PERMISSIONS.organization.manage), addMember);
+router.put('/members/:userId', authorize(PERMISSIONS.organization.manage), updateMember);
+router.delete('/members/:userId', authorize(PERMISSIONS.organization.manage), removeMember);
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import productTypeController from '../controllers/productTypeController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 
@@ -8,14 +9,14 @@ const router = express.Router();
 router.use(authenticate);
 
 // Product Type CRUD operations
-router.post('/', productTypeController.createProductType.bind(productTypeController));
-router.get('/', productTypeController.getProductTypes.bind(productTypeController));
-router.get('/stats', productTypeController.getProductTypeStats.bind(productTypeController));
-router.get('/:id', productTypeController.getProductType.bind(productTypeController));
-router.put('/:id', productTypeController.updateProductType.bind(productTypeController));
-router.delete('/:id', productTypeController.deleteProductType.bind(productTypeController));
+router.post('/', authorize(PERMISSIONS.productTypes.create), productTypeController.createProductType.bind(productTypeController));
+router.get('/', authorize(PERMISSIONS.productTypes.read), productTypeController.getProductTypes.bind(productTypeController));
+router.get('/stats', authorize(PERMISSIONS.productTypes.read), productTypeController.getProductTypeStats.bind(productTypeController));
+router.get('/:id', authorize(PERMISSIONS.productTypes.read), productTypeController.getProductType.bind(productTypeController));
+router.put('/:id', authorize(PERMISSIONS.productTypes.update), productTypeController.updateProductType.bind(productTypeController));
+router.delete('/:id', authorize(PERMISSIONS.productTypes.delete), productTypeController.deleteProductType.bind(productTypeController));
 
 // Product Type specific operations
-router.post('/:id/generate-spaces', productTypeController.generateSpaces.bind(productTypeController));
+router.post('/:id/generate-spaces', authorize(PERMISSIONS.productTypes.generateSpaces), productTypeController.generateSpaces.bind(productTypeController));
 
 export default router;
\ No newline at end of file
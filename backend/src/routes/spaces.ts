@@ -6,11 +6,14 @@ import {
   updateSpace,
   deleteSpace,
   getSpaceAvailability,
-  getSpaceStats
+  getSpaceStats,
+  previewEffectiveSchedule,
+  searchSpaces
 } from '../controllers/spaceController';
 import { checkSpaceAvailability } from '../controllers/bookingController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 
@@ -21,15 +24,17 @@ router.use(authenticate);
 router.use(requireOnboarding);
 
 // Space CRUD operations
-router.post('/', createSpace);
-router.get('/', getSpaces);
-router.get('/stats', getSpaceStats);
-router.get('/availability', getSpaceAvailability);
-router.get('/:id', getSpace);
-router.put('/:id', updateSpace);
-router.delete('/:id', deleteSpace);
+router.post('/', authorize(PERMISSIONS.spaces.create), createSpace);
+router.get('/', authorize(PERMISSIONS.spaces.read), getSpaces);
+router.get('/stats', authorize(PERMISSIONS.spaces.read), getSpaceStats);
+router.get('/availability', authorize(PERMISSIONS.spaces.read), getSpaceAvailability);
+router.get('/search', authorize(PERMISSIONS.spaces.read), searchSpaces);
+router.post('/effective-schedule', authorize(PERMISSIONS.spaces.read), previewEffectiveSchedule);
+router.get('/:id', authorize(PERMISSIONS.spaces.read), getSpace);
+router.put('/:id', authorize(PERMISSIONS.spaces.update), updateSpace);
+router.delete('/:id', authorize(PERMISSIONS.spaces.delete), deleteSpace);
 
 // Space specific operations
-router.get('/:spaceId/availability', checkSpaceAvailability);
+router.get('/:spaceId/availability', authorize(PERMISSIONS.bookings.read), checkSpaceAvailability);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import express from 'express';
+import {
+  getWaitlist,
+  joinWaitlist,
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+  removeFromWaitlist,
+  getWaitlistOfferByToken,
+  acceptWaitlistOfferByToken,
+  declineWaitlistOfferByToken
+} from '../controllers/waitlistController';
+import { authenticate, authorize } from '../middleware/auth';
+import { requireOnboarding } from '../middleware/onboarding';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+// Offer links emailed to customers are authorized by their token
+router.get('/offers/:token', getWaitlistOfferByToken);
+router.post('/offers/:token/accept', acceptWaitlistOfferByToken);
+router.post('/offers/:token/decline', declineWaitlistOfferByToken);
+
+// Apply authentication middleware to all other waitlist routes
+router.use(authenticate);
+
+// Apply onboarding check to all other waitlist routes
+router.use(requireOnboarding);
+
+router.get('/', authorize(PERMISSIONS.waitlist.read), getWaitlist);
+router.post('/', authorize(PERMISSIONS.waitlist.manage), joinWaitlist);
+router.post('/:id/accept', authorize(PERMISSIONS.waitlist.manage), acceptWaitlistOffer);
+router.post('/:id/decline', authorize(PERMISSIONS.waitlist.manage), declineWaitlistOffer);
+router.delete('/:id', authorize(PERMISSIONS.waitlist.manage), removeFromWaitlist);
+
+export default router;
@@ -2,11 +2,19 @@ import express from "express";
 import {
   sendMessage,
   handleWebhook,
+  handleStatusCallback,
   getConversation,
   getConversations,
   getStatus,
+  getChannel,
+  upsertChannel,
+  deleteChannel,
+  getAutoReplies,
+  updateAutoReply,
+  resetAutoReply,
 } from "../controllers/whatsappController";
-import { authenticate } from "../middleware/auth";
+import { authenticate, authorize } from "../middleware/auth";
+import { PERMISSIONS } from "../config/permissions";
 
 const router = express.Router();
 
@@ -20,8 +28,6 @@ router.get("/test", (req, res) => {
     timestamp: new Date().toISOString(),
     environment: {
       whatsapp_enabled: process.env.ENABLE_WHATSAPP,
-      has_twilio_sid: !!process.env.TWILIO_ACCOUNT_SID,
-      has_twilio_token: !!process.env.TWILIO_AUTH_TOKEN,
     },
   });
 });
@@ -35,11 +41,6 @@ router.post("/test-webhook", (req, res) => {
   console.log("Body type:", typeof req.body);
   console.log("Body keys:", Object.keys(req.body || {}));
   
-  // Test organization ID validation
-  const testOrgId = process.env.DEFAULT_ORGANIZATION_ID || "507f1f77bcf86cd799439011";
-  console.log("Test organization ID:", testOrgId);
-  console.log("Is valid ObjectId:", require('mongoose').Types.ObjectId.isValid(testOrgId));
-  
   // Return proper TwiML for testing
   const twilio = require('twilio');
   const twiml = new twilio.twiml.MessagingResponse();
@@ -58,21 +59,43 @@ router.post("/test-webhook", (req, res) => {
 router.post("/webhook", handleWebhook);
 console.log("✅ POST /webhook route registered (public)");
 
+// Public delivery status callback (signature-verified in the handler)
+router.post("/status-callback", handleStatusCallback);
+console.log("✅ POST /status-callback route registered (public)");
+
 // Protected routes (require authentication)
 router.use(authenticate); // Apply authentication to all routes below
 
-router.post("/send", sendMessage);
+router.post("/send", authorize(PERMISSIONS.whatsapp.send), sendMessage);
 console.log("✅ POST /send route registered (protected)");
 
-router.get("/status", getStatus);
+router.get("/status", authorize(PERMISSIONS.whatsapp.read), getStatus);
 console.log("✅ GET /status route registered (protected)");
 
-router.get("/conversations", getConversations);
+router.get("/conversations", authorize(PERMISSIONS.whatsapp.read), getConversations);
 console.log("✅ GET /conversations route registered (protected)");
 
-router.get("/conversation/:phoneNumber", getConversation);
+router.get("/conversation/:phoneNumber", authorize(PERMISSIONS.whatsapp.read), getConversation);
 console.log("✅ GET /conversation/:phoneNumber route registered (protected)");
 
+router.get("/channel", authorize(PERMISSIONS.whatsapp.read), getChannel);
+console.log("✅ GET /channel route registered (protected)");
+
+router.put("/channel", authorize(PERMISSIONS.whatsapp.configure), upsertChannel);
+console.log("✅ PUT /channel route registered (protected)");
+
+router.delete("/channel", authorize(PERMISSIONS.whatsapp.configure), deleteChannel);
+console.log("✅ DELETE /channel route registered (protected)");
+
+router.get("/auto-replies", authorize(PERMISSIONS.whatsapp.read), getAutoReplies);
+console.log("✅ GET /auto-replies route registered (protected)");
+
+router.put("/auto-replies/:intent", authorize(PERMISSIONS.whatsapp.configure), updateAutoReply);
+console.log("✅ PUT /auto-replies/:intent route registered (protected)");
+
+router.delete("/auto-replies/:intent", authorize(PERMISSIONS.whatsapp.configure), resetAutoReply);
+console.log("✅ DELETE /auto-replies/:intent route registered (protected)");
+
 console.log("🚀 All WhatsApp routes registered successfully");
 
 export default router;
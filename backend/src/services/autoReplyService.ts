@@ -0,0 +1,284 @@
+import mongoose, { Types } from "mongoose";
+import { Organization } from "../models/Organization";
+import { Location, ILocation, IOperatingHours, DayOfWeek } from "../models/Location";
+import { ProductType, IPricingRule } from "../models/ProductType";
+import { Contact } from "../models/Contact";
+import {
+  WhatsAppReplyTemplate,
+  AutoReplyIntent,
+  AUTO_REPLY_INTENTS,
+} from "../models/WhatsAppReplyTemplate";
+
+export type AutoReplyPlaceholder =
+  | "name"
+  | "organization"
+  | "pricing"
+  | "amenities"
+  | "hours"
+  | "locations";
+
+export const AUTO_REPLY_PLACEHOLDERS: Record<AutoReplyPlaceholder, string> = {
+  name: "Customer's first name, or \"there\" when unknown",
+  organization: "Your organization's name",
+  pricing: "Prices of your active product types",
+  amenities: "Amenities offered across your locations",
+  hours: "Operating hours of your locations",
+  locations: "Names and addresses of your locations",
+};
+
+export interface AutoReplyTemplateView {
+  intent: AutoReplyIntent;
+  body: string;
+  defaultBody: string;
+  isActive: boolean;
+  isCustomized: boolean;
+  preview: string;
+}
+
+// Checked in order: the first intent with a matching word wins, "fallback" catches the rest
+const INTENT_KEYWORDS: Array<{ intent: AutoReplyIntent; keywords: string[] }> = [
+  { intent: "availability", keywords: ["availability", "available", "vacancy"] },
+  { intent: "pricing", keywords: ["price", "prices", "pricing", "cost", "costs", "rate", "rates", "fee", "fees"] },
+  { intent: "tour", keywords: ["tour", "visit", "see"] },
+  { intent: "amenities", keywords: ["amenities", "amenity", "facilities", "facility", "wifi", "parking"] },
+  { intent: "hours", keywords: ["hours", "open", "opening", "timing", "timings", "close", "closing"] },
+  { intent: "help", keywords: ["help", "support"] },
+  { intent: "greeting", keywords: ["hello", "hi", "hey", "namaste"] },
+];
+
+const DEFAULT_TEMPLATES: Record<AutoReplyIntent, string> = {
+  greeting:
+    "Hello {{name}}! Welcome to {{organization}}. How can I help you today? You can ask about:\n\n• Space availability\n• Pricing\n• Booking a tour\n• Amenities\n\nJust type your question!",
+  availability:
+    "I'd be happy to help you check space availability! Reply BOOK and I'll walk you through it:\n\n• What type of space? (hot desk, private office, meeting room)\n• When do you need it?\n• For how long?\n\nI'll check what's free and quote the price right here.",
+  pricing:
+    "Here's our current pricing:\n\n{{pricing}}\n\nReply BOOK to check availability and get an exact quote.",
+  tour:
+    "We'd love to show you around {{organization}}! Our team can arrange a tour at your convenience.\n\n{{locations}}\n\nWe're open:\n{{hours}}\n\nPlease let us know your preferred date and time, or reply BOOK to reserve a space right here.",
+  amenities:
+    "{{organization}} includes:\n\n{{amenities}}\n\nWould you like more details about any specific amenity?",
+  hours:
+    "Our opening hours:\n\n{{hours}}\n\nReply BOOK to reserve a space.",
+  help:
+    "I'm here to help! You can ask me about:\n\n• Space availability and booking\n• Pricing and plans\n• Amenities and facilities\n• Tours and visits\n• Opening hours\n\nWhat would you like to know?",
+  fallback:
+    "Thank you for your message! Our team will get back to you shortly. For immediate assistance, you can:\n\n• Call us during business hours\n• Reply BOOK to reserve a space\n\nIs there anything specific I can help you with right now?",
+};
+
+const PRICING_UNITS: Record<string, string> = {
+  hourly: "/hour",
+  daily: "/day",
+  weekly: "/week",
+  monthly: "/month",
+  membership: "/month",
+};
+
+const DAY_ORDER: DayOfWeek[] = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+function formatCurrency(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch (error) {
+    return `${currency} ${amount}`;
+  }
+}
+
+function formatPrice(pricing: IPricingRule): string | null {
+  if (pricing.type === "tiered" && pricing.tiers && pricing.tiers.length > 0) {
+    const cheapest = pricing.tiers.reduce((min, tier) => (tier.price < min.price ? tier : min));
+    return `from ${formatCurrency(cheapest.price, cheapest.currency || pricing.currency)}`;
+  }
+
+  if (pricing.basePrice === undefined || pricing.basePrice === null) {
+    return null;
+  }
+
+  return `${formatCurrency(pricing.basePrice, pricing.currency)}${PRICING_UNITS[pricing.type] || ""}`;
+}
+
+/**
+ * Collapse a week of operating hours into lines like "Mon–Fri: 09:00–18:00"
+ */
+function formatOperatingHours(operatingHours: IOperatingHours[]): string[] {
+  const label = (day: DayOfWeek) => day.charAt(0).toUpperCase() + day.slice(1, 3);
+  const describe = (hours: IOperatingHours) =>
+    hours.isOpen && hours.openTime && hours.closeTime ? `${hours.openTime}–${hours.closeTime}` : "Closed";
+
+  const days = DAY_ORDER
+    .map((day) => operatingHours.find((hours) => hours.day === day))
+    .filter((hours): hours is IOperatingHours => !!hours);
+
+  const lines: string[] = [];
+  let groupStart = 0;
+
+  for (let i = 1; i <= days.length; i++) {
+    const groupEnded =
+      i === days.length ||
+      describe(days[i]) !== describe(days[groupStart]) ||
+      DAY_ORDER.indexOf(days[i].day) !== DAY_ORDER.indexOf(days[i - 1].day) + 1;
+
+    if (groupEnded) {
+      const first = label(days[groupStart].day);
+      const last = label(days[i - 1].day);
+      lines.push(`${first}${first !== last ? `–${last}` : ""}: ${describe(days[groupStart])}`);
+      groupStart = i;
+    }
+  }
+
+  return lines;
+}
+
+export class AutoReplyService {
+  /**
+   * Work out what an inbound message is asking about
+   */
+  detectIntent(incomingMessage: string): AutoReplyIntent {
+    const words = incomingMessage.toLowerCase().split(/[^a-z]+/);
+
+    const match = INTENT_KEYWORDS.find(({ keywords }) =>
+      keywords.some((keyword) => words.includes(keyword))
+    );
+
+    return match ? match.intent : "fallback";
+  }
+
+  /**
+   * Placeholders used in a template that the service does not know how to fill
+   */
+  findUnknownPlaceholders(body: string): string[] {
+    const unknown = new Set<string>();
+    for (const [, key] of body.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!(key in AUTO_REPLY_PLACEHOLDERS)) {
+        unknown.add(key);
+      }
+    }
+    return Array.from(unknown);
+  }
+
+  /**
+   * Fill placeholder values from the organization's locations, product types and contact
+   */
+  async buildContext(
+    organizationId: Types.ObjectId | string,
+    contactId?: string
+  ): Promise<Record<AutoReplyPlaceholder, string>> {
+    const orgObjectId = new mongoose.Types.ObjectId(organizationId);
+
+    const [organization, locations, productTypes, contact] = await Promise.all([
+      Organization.findById(orgObjectId),
+      Location.find({ organizationId: orgObjectId, isActive: true }).sort({ name: 1 }),
+      ProductType.find({ organizationId: orgObjectId, isActive: true }).sort({ displayOrder: 1, name: 1 }),
+      contactId ? Contact.findOne({ _id: contactId, organizationId: orgObjectId }) : Promise.resolve(null),
+    ]);
+
+    const locationNames = new Map(
+      locations.map((location) => [location._id.toString(), location.name])
+    );
+    const multipleLocations = locations.length > 1;
+
+    const pricingLines = productTypes
+      .map((productType) => {
+        const price = formatPrice(productType.pricing);
+        if (!price) return null;
+
+        const locationName = locationNames.get(productType.locationId.toString());
+        const suffix = multipleLocations && locationName ? ` (${locationName})` : "";
+        return `• ${productType.name}${suffix}: ${price}`;
+      })
+      .filter((line): line is string => !!line);
+
+    const amenities = Array.from(
+      new Set(locations.flatMap((location) => location.amenities))
+    ).map((amenity) => `• ${amenity.replace(/_/g, " ")}`);
+
+    const hoursLines = locations.flatMap((location: ILocation) => {
+      const lines = formatOperatingHours(location.operatingHours);
+      if (lines.length === 0) return [];
+      return multipleLocations ? [`${location.name}:`, ...lines, ""] : lines;
+    });
+
+    const locationLines = locations.map(
+      (location) => `📍 ${location.name}, ${location.getDisplayAddress()}`
+    );
+
+    return {
+      name: contact?.firstName || "there",
+      organization: organization?.name || "our coworking space",
+      pricing: pricingLines.length > 0
+        ? pricingLines.join("\n")
+        : "Our team will share current pricing with you shortly.",
+      amenities: amenities.length > 0
+        ? amenities.join("\n")
+        : "Our team will share the full list of amenities with you shortly.",
+      hours: hoursLines.length > 0
+        ? hoursLines.join("\n").trim()
+        : "Please contact our team for opening hours.",
+      locations: locationLines.join("\n"),
+    };
+  }
+
+  render(body: string, context: Record<AutoReplyPlaceholder, string>): string {
+    return body
+      .replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+        key in context ? context[key as AutoReplyPlaceholder] : match
+      )
+      .replace(/\n{3,}/g, "\n\n") // Empty placeholders shouldn't leave gaps
+      .trim();
+  }
+
+  /**
+   * Every intent's template for the organization, with defaults for those not customized
+   */
+  async getTemplates(organizationId: Types.ObjectId | string): Promise<AutoReplyTemplateView[]> {
+    const [overrides, context] = await Promise.all([
+      WhatsAppReplyTemplate.find({ organizationId: new mongoose.Types.ObjectId(organizationId) }),
+      this.buildContext(organizationId),
+    ]);
+
+    return AUTO_REPLY_INTENTS.map((intent) => {
+      const override = overrides.find((template) => template.intent === intent);
+      const body = override?.body || DEFAULT_TEMPLATES[intent];
+
+      return {
+        intent,
+        body,
+        defaultBody: DEFAULT_TEMPLATES[intent],
+        isActive: override ? override.isActive : true,
+        isCustomized: !!override,
+        preview: this.render(body, context),
+      };
+    });
+  }
+
+  /**
+   * Build the auto-reply for an inbound message, or null when that intent's reply is switched off
+   */
+  async generateReply(
+    organizationId: Types.ObjectId | string,
+    incomingMessage: string,
+    contactId?: string
+  ): Promise<string | null> {
+    const intent = this.detectIntent(incomingMessage);
+
+    const override = await WhatsAppReplyTemplate.findOne({
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      intent,
+    });
+
+    if (override && !override.isActive) {
+      console.log(`🤖 Auto-reply for "${intent}" is disabled`);
+      return null;
+    }
+
+    const context = await this.buildContext(organizationId, contactId);
+    return this.render(override?.body || DEFAULT_TEMPLATES[intent], context);
+  }
+}
+
+export default new AutoReplyService();
@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import { Booking } from '../models/Booking';
+import { ISpace } from '../models/Space';
+import { MembershipService } from './membershipService';
+import { WaitlistService } from './waitlistService';
+
+// Used for locations saved before the hold window was configurable
+const DEFAULT_PENDING_HOLD_MINUTES = 30;
+
+export const PENDING_HOLD_EXPIRED_REASON = 'Not confirmed or paid within the hold window';
+
+export class BookingHoldService {
+  /**
+   * When a pending booking made now stops holding its slot, or undefined when the
+   * location holds pending bookings until staff act on them
+   */
+  static getHoldExpiry(space: ISpace, startTime: Date, from: Date = new Date()): Date | undefined {
+    const location = space.locationId as any; // Must be populated with defaultBookingRules
+    const minutes = location?.defaultBookingRules?.pendingHoldMinutes ?? DEFAULT_PENDING_HOLD_MINUTES;
+    if (minutes <= 0) return undefined;
+
+    // No point holding the slot past its start
+    const expiresAt = new Date(from.getTime() + minutes * 60 * 1000);
+    return expiresAt < startTime ? expiresAt : startTime;
+  }
+
+  /**
+   * Cancel pending bookings whose hold has run out, returning any credits and
+   * offering the freed slots to the waitlist
+   */
+  static async expireHolds(): Promise<number> {
+    const expired = await Booking.find({
+      status: 'Pending',
+      paymentStatus: { $ne: 'Paid' },
+      holdExpiresAt: { $lte: new Date() }
+    }).select('_id');
+
+    const cancelledIds: Types.ObjectId[] = [];
+    for (const { _id } of expired) {
+      // Skipped when staff confirmed or cancelled it in the meantime
+      const booking = await Booking.findOneAndUpdate(
+        { _id, status: 'Pending', paymentStatus: { $ne: 'Paid' } },
+        {
+          status: 'Cancelled',
+          cancelReason: PENDING_HOLD_EXPIRED_REASON,
+          $unset: { holdExpiresAt: 1 }
+        },
+        { new: true }
+      );
+      if (!booking) continue;
+
+      const creditUsage = booking.priceBreakdown?.credits;
+      if (creditUsage && booking.contactId) {
+        await MembershipService.releaseCredits(booking.contactId, creditUsage, creditUsage.amount, booking._id, 'Pending hold expired');
+      }
+
+      console.log(`Pending hold expired for booking ${booking.bookingReference}`);
+      cancelledIds.push(booking._id);
+    }
+
+    await WaitlistService.offerFreedSlots(cancelledIds);
+    return cancelledIds.length;
+  }
+}
+
+export default BookingHoldService;
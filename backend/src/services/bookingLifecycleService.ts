@@ -0,0 +1,70 @@
+import { Booking, IBooking } from '../models/Booking';
+import { Space } from '../models/Space';
+
+export interface LifecycleResult {
+  completed: number;
+  noShows: number;
+}
+
+export class BookingLifecycleService {
+  /**
+   * Close out bookings that have ended: checked-in bookings are Completed and confirmed
+   * bookings nobody checked in to are No Shows. Pending bookings that were never checked
+   * in are left for staff, since they were never confirmed.
+   */
+  static async closeEndedBookings(now: Date = new Date()): Promise<LifecycleResult> {
+    const completed = await Booking.updateMany(
+      { status: { $in: ['Pending', 'Confirmed'] }, checkedIn: true, endTime: { $lte: now } },
+      { $set: { status: 'Completed' }, $unset: { holdExpiresAt: 1 } }
+    );
+
+    const noShows = await Booking.updateMany(
+      { status: 'Confirmed', checkedIn: { $ne: true }, endTime: { $lte: now } },
+      { $set: { status: 'No Show' } }
+    );
+
+    if (completed.modifiedCount > 0 || noShows.modifiedCount > 0) {
+      console.log(`Closed ended bookings: ${completed.modifiedCount} completed, ${noShows.modifiedCount} no-shows`);
+    }
+
+    return { completed: completed.modifiedCount, noShows: noShows.modifiedCount };
+  }
+
+  /**
+   * Mark a booking's space Cleaning once it checks out, when the space's buffers ask for it.
+   * The space is Available again after its teardown time (see finishSpaceCleaning), or
+   * when staff mark it so if it has no teardown time. Spaces under maintenance are left alone.
+   */
+  static async markSpaceForCleaning(booking: IBooking, now: Date = new Date()): Promise<boolean> {
+    const space = await Space.findById(booking.spaceId).select('productTypeId bookingBuffers status');
+    if (!space) return false;
+
+    const buffers = await space.getEffectiveBuffers();
+    if (!buffers.cleanAfterCheckout) return false;
+
+    const update = buffers.teardownMinutes > 0
+      ? { $set: { status: 'Cleaning', cleaningUntil: new Date(now.getTime() + buffers.teardownMinutes * 60 * 1000) } }
+      : { $set: { status: 'Cleaning' }, $unset: { cleaningUntil: 1 } };
+
+    const result = await Space.updateOne({ _id: space._id, status: { $in: ['Available', 'Occupied'] } }, update);
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Make spaces Available again once the cleaning after a check-out has had its teardown time
+   */
+  static async finishSpaceCleaning(now: Date = new Date()): Promise<number> {
+    const result = await Space.updateMany(
+      { status: 'Cleaning', cleaningUntil: { $lte: now } },
+      { $set: { status: 'Available' }, $unset: { cleaningUntil: 1 } }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.log(`Finished cleaning ${result.modifiedCount} spaces`);
+    }
+
+    return result.modifiedCount;
+  }
+}
+
+export default BookingLifecycleService;
@@ -0,0 +1,545 @@
+import { Types } from 'mongoose';
+import { Booking, IBooking } from '../models/Booking';
+import { BookingSeries, IBookingSeries } from '../models/BookingSeries';
+import { ISpace } from '../models/Space';
+import { Contact } from '../models/Contact';
+import { BookingService, SpaceLockHandle, SPACE_BUSY_MESSAGE } from './bookingService';
+import { PricingService } from './pricingService';
+import { BookingHoldService } from './bookingHoldService';
+import { CancellationPolicyService, CancellationPolicy, CancellationQuote } from './cancellationPolicyService';
+import {
+  RecurrenceRule,
+  expandRecurrence,
+  toRRule,
+  addDaysToDateString,
+  daysBetweenDateStrings,
+  getWeekdayOfDateString,
+  shiftWeekdays
+} from '../utils/recurrence';
+import {
+  zonedDateTimeToUtc,
+  formatDateInTimezone,
+  formatTimeInTimezone
+} from '../utils/timeValidation';
+
+// Which occurrences of a series an edit or cancellation applies to
+export type SeriesScope = 'this' | 'following' | 'series';
+
+export const SERIES_SCOPES: SeriesScope[] = ['this', 'following', 'series'];
+
+export interface OccurrenceFailure {
+  bookingId?: Types.ObjectId;
+  startTime: Date;
+  endTime: Date;
+  statusCode: number;
+  message: string;
+}
+
+export interface CreateSeriesInput {
+  organizationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  space: ISpace; // Must have locationId populated (see BookingService.loadBookableSpace)
+  rule: RecurrenceRule;
+  occurrenceStarts: Date[]; // expandRecurrence() of the first occurrence
+  bookingData: Record<string, any>; // Validated booking fields shared by every occurrence
+}
+
+export interface CreateSeriesResult {
+  series: IBookingSeries | null; // Null when no occurrence could be booked
+  bookings: IBooking[];
+  failedOccurrences: OccurrenceFailure[];
+}
+
+export interface UpdateOccurrencesInput {
+  booking: IBooking;
+  scope: SeriesScope;
+  changes: Record<string, any>; // Validated updateBooking fields
+  space: ISpace; // Must have locationId populated
+  userId: Types.ObjectId;
+}
+
+export interface CancelOccurrencesInput {
+  booking: IBooking;
+  scope: SeriesScope;
+  cancelReason: string;
+  policy: CancellationPolicy;
+  userId: Types.ObjectId;
+}
+
+export interface SeriesChangeResult {
+  bookingIds: Types.ObjectId[]; // Occurrences that were changed
+  failedOccurrences: OccurrenceFailure[];
+}
+
+export interface SeriesCancelResult extends SeriesChangeResult {
+  refundAmount: number; // Total refund due for the cancelled occurrences
+}
+
+// How an edited occurrence moved, applied to the other occurrences in wall-clock terms
+interface OccurrenceShift {
+  dayOffset: number;
+  time: string; // New start time ("HH:MM")
+  durationMs: number;
+}
+
+const OPEN_STATUSES = ['Pending', 'Confirmed'];
+
+const getSpaceTimezone = (space: ISpace): string => (space.locationId as any)?.timezone || 'Asia/Kolkata';
+
+const computeShift = (booking: IBooking, startTime: Date, endTime: Date, timezone: string): OccurrenceShift => ({
+  dayOffset: daysBetweenDateStrings(
+    formatDateInTimezone(booking.startTime, timezone),
+    formatDateInTimezone(startTime, timezone)
+  ),
+  time: formatTimeInTimezone(startTime, timezone),
+  durationMs: endTime.getTime() - startTime.getTime()
+});
+
+const applyShift = (startTime: Date, shift: OccurrenceShift, timezone: string): { startTime: Date; endTime: Date } => {
+  const date = addDaysToDateString(formatDateInTimezone(startTime, timezone), shift.dayOffset);
+  const shiftedStart = zonedDateTimeToUtc(date, shift.time, timezone);
+  return { startTime: shiftedStart, endTime: new Date(shiftedStart.getTime() + shift.durationMs) };
+};
+
+const getSeriesRule = (series: IBookingSeries): RecurrenceRule => ({
+  frequency: series.recurrence.frequency,
+  interval: series.recurrence.interval,
+  byWeekday: series.recurrence.byWeekday,
+  count: series.recurrence.count,
+  until: series.recurrence.until
+});
+
+export class BookingSeriesService {
+  /**
+   * Book every occurrence of a recurring booking that passes the booking rules.
+   * Occurrences that fail (conflicts, closed days, ...) are skipped and reported;
+   * the series is only saved when at least one occurrence was booked.
+   */
+  static async createSeries({
+    organizationId,
+    userId,
+    space,
+    rule,
+    occurrenceStarts,
+    bookingData
+  }: CreateSeriesInput): Promise<CreateSeriesResult> {
+    const timezone = getSpaceTimezone(space);
+    const firstStart = new Date(bookingData.startTime);
+    const durationMs = new Date(bookingData.endTime).getTime() - firstStart.getTime();
+    const contactId = bookingData.contactId || undefined;
+
+    const recurrence = {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      byWeekday: rule.frequency === 'weekly'
+        ? (rule.byWeekday && rule.byWeekday.length > 0
+          ? rule.byWeekday
+          : [getWeekdayOfDateString(formatDateInTimezone(firstStart, timezone))])
+        : [],
+      count: rule.count,
+      until: rule.until
+    };
+
+    const series = new BookingSeries({
+      organizationId,
+      spaceId: space._id,
+      contactId,
+      recurrence,
+      rrule: toRRule(recurrence),
+      timezone,
+      firstStartTime: occurrenceStarts[0] || firstStart,
+      durationMinutes: Math.round(durationMs / (1000 * 60)),
+      createdBy: userId,
+      updatedBy: userId
+    });
+
+    const bookings: IBooking[] = [];
+    const failedOccurrences: OccurrenceFailure[] = [];
+
+    // One at a time, so each occurrence is checked against the ones already booked
+    for (const startTime of occurrenceStarts) {
+      const endTime = new Date(startTime.getTime() + durationMs);
+
+      const lock = await BookingService.acquireSpaceLock(space._id);
+      if (!lock) {
+        failedOccurrences.push({ startTime, endTime, statusCode: 409, message: SPACE_BUSY_MESSAGE });
+        continue;
+      }
+
+      try {
+        const violation = await BookingService.checkBookingRules({
+          space,
+          startTime,
+          endTime,
+          attendeeCount: bookingData.attendeeCount
+        });
+
+        if (violation) {
+          failedOccurrences.push({ startTime, endTime, statusCode: violation.statusCode, message: violation.message });
+          continue;
+        }
+
+        if (!(await BookingService.renewSpaceLock(lock))) {
+          failedOccurrences.push({ startTime, endTime, statusCode: 409, message: SPACE_BUSY_MESSAGE });
+          continue;
+        }
+
+        const booking = new Booking({
+          ...bookingData,
+          contactId,
+          startTime,
+          endTime,
+          seriesId: series._id,
+          holdExpiresAt: BookingHoldService.getHoldExpiry(space, startTime),
+          bookingReference: BookingService.generateBookingReference(),
+          organizationId,
+          paymentStatus: 'Pending',
+          checkedIn: false,
+          createdBy: userId,
+          updatedBy: userId
+        });
+        await booking.save();
+        bookings.push(booking);
+      } finally {
+        await BookingService.releaseSpaceLock(lock);
+      }
+    }
+
+    if (bookings.length === 0) {
+      return { series: null, bookings, failedOccurrences };
+    }
+
+    await series.save();
+
+    console.log(`🔁 Created booking series ${series._id}: ${bookings.length} of ${occurrenceStarts.length} occurrences booked`);
+    return { series, bookings, failedOccurrences };
+  }
+
+  /**
+   * Open occurrences an action applies to, in start time order. "series" covers the
+   * upcoming occurrences only; past ones are history and are left alone.
+   */
+  static async findOccurrences(booking: IBooking, scope: SeriesScope): Promise<IBooking[]> {
+    if (scope === 'this' || !booking.seriesId) {
+      return [booking];
+    }
+
+    return Booking.find({
+      organizationId: booking.organizationId,
+      seriesId: booking.seriesId,
+      status: { $in: OPEN_STATUSES },
+      startTime: { $gte: scope === 'following' ? booking.startTime : new Date() }
+    }).sort({ startTime: 1 });
+  }
+
+  /**
+   * Apply an edit of `booking` to the occurrences in `scope`. A time change moves every
+   * occurrence by the same number of days to the same wall-clock time. Nothing is changed
+   * unless every moved occurrence passes the booking rules.
+   */
+  static async updateOccurrences(input: UpdateOccurrencesInput): Promise<SeriesChangeResult> {
+    // Holds the space from the rule checks until every occurrence is written
+    const lock = await BookingService.acquireSpaceLock(input.space._id);
+    if (!lock) {
+      return {
+        bookingIds: [],
+        failedOccurrences: [{
+          bookingId: input.booking._id,
+          startTime: input.booking.startTime,
+          endTime: input.booking.endTime,
+          statusCode: 409,
+          message: SPACE_BUSY_MESSAGE
+        }]
+      };
+    }
+
+    try {
+      return await this.applyOccurrenceChanges(input, lock);
+    } finally {
+      await BookingService.releaseSpaceLock(lock);
+    }
+  }
+
+  private static async applyOccurrenceChanges(
+    { booking, scope, changes, space, userId }: UpdateOccurrencesInput,
+    lock: SpaceLockHandle
+  ): Promise<SeriesChangeResult> {
+    const timezone = getSpaceTimezone(space);
+    const occurrences = await this.findOccurrences(booking, scope);
+    const excludeBookingIds = occurrences.map(occurrence => occurrence._id);
+
+    const movesTime = !!(changes.startTime || changes.endTime);
+    const shift = movesTime
+      ? computeShift(
+        booking,
+        new Date(changes.startTime || booking.startTime),
+        new Date(changes.endTime || booking.endTime),
+        timezone
+      )
+      : null;
+
+    const planned = occurrences.map(occurrence => ({
+      occurrence,
+      ...(shift
+        ? applyShift(occurrence.startTime, shift, timezone)
+        : { startTime: occurrence.startTime, endTime: occurrence.endTime })
+    }));
+
+    // Moved occurrences, or those with other attendees, are re-priced keeping their add-ons
+    const prices = new Map<string, Record<string, unknown>>();
+
+    if (movesTime || changes.attendeeCount !== undefined) {
+      const failedOccurrences: OccurrenceFailure[] = [];
+      const contact = booking.contactId
+        ? await Contact.findById(booking.contactId)
+        : null;
+
+      for (const { occurrence, startTime, endTime } of planned) {
+        const attendeeCount = changes.attendeeCount ?? occurrence.attendeeCount;
+        const violation = await BookingService.checkBookingRules({
+          space,
+          startTime,
+          endTime,
+          attendeeCount,
+          excludeBookingIds
+        });
+
+        if (violation) {
+          failedOccurrences.push({
+            bookingId: occurrence._id,
+            startTime,
+            endTime,
+            statusCode: violation.statusCode,
+            message: violation.message
+          });
+          continue;
+        }
+
+        if (movesTime || attendeeCount !== occurrence.attendeeCount) {
+          try {
+            const quote = await PricingService.quote({
+              space,
+              startTime,
+              endTime,
+              contact,
+              addOns: PricingService.addOnsFromBreakdown(occurrence.priceBreakdown),
+              attendeeCount,
+              useCredits: false
+            });
+            prices.set(occurrence._id.toString(), {
+              totalAmount: quote.totalAmount,
+              currency: quote.currency,
+              priceBreakdown: PricingService.toPriceBreakdown(quote)
+            });
+          } catch (pricingError: any) {
+            failedOccurrences.push({
+              bookingId: occurrence._id,
+              startTime,
+              endTime,
+              statusCode: 400,
+              message: pricingError.message
+            });
+          }
+        }
+      }
+
+      if (failedOccurrences.length > 0) {
+        return { bookingIds: [], failedOccurrences };
+      }
+    }
+
+    if (!(await BookingService.renewSpaceLock(lock))) {
+      return {
+        bookingIds: [],
+        failedOccurrences: [{
+          bookingId: booking._id,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          statusCode: 409,
+          message: SPACE_BUSY_MESSAGE
+        }]
+      };
+    }
+
+    // A moved series gets a new pattern; "this and following" splits it in two
+    const seriesId = shift && booking.seriesId && scope !== 'this'
+      ? await this.reshapeSeries(booking, scope, shift, timezone, userId)
+      : booking.seriesId;
+
+    const { startTime: _startTime, endTime: _endTime, ...fieldChanges } = changes;
+
+    await Booking.bulkWrite(planned.map(({ occurrence, startTime, endTime }) => ({
+      updateOne: {
+        filter: { _id: occurrence._id },
+        update: {
+          $set: {
+            ...fieldChanges,
+            ...prices.get(occurrence._id.toString()),
+            startTime,
+            endTime,
+            ...(scope !== 'this' && seriesId ? { seriesId } : {}),
+            updatedBy: userId
+          }
+        }
+      }
+    })));
+
+    return { bookingIds: excludeBookingIds, failedOccurrences: [] };
+  }
+
+  /**
+   * Cancel the occurrences in `scope`, recording each one's refund under `policy`.
+   * Occurrences that can no longer be cancelled are skipped and reported. Cancelling
+   * the rest of a series also ends its recurrence.
+   */
+  static async cancelOccurrences({ booking, scope, cancelReason, policy, userId }: CancelOccurrencesInput): Promise<SeriesCancelResult> {
+    const occurrences = await this.findOccurrences(booking, scope);
+    const failedOccurrences: OccurrenceFailure[] = [];
+    const cancellations: Array<{ occurrence: IBooking; quote: CancellationQuote }> = [];
+
+    for (const occurrence of occurrences) {
+      const quote = CancellationPolicyService.quoteCancellation(occurrence, policy);
+
+      if (quote.canCancel) {
+        cancellations.push({ occurrence, quote });
+      } else {
+        failedOccurrences.push({
+          bookingId: occurrence._id,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          statusCode: 400,
+          message: quote.reason || 'Booking cannot be cancelled'
+        });
+      }
+    }
+
+    // Each occurrence records its own refund, as some may fall inside the policy window
+    if (cancellations.length > 0) {
+      await Booking.bulkWrite(cancellations.map(({ occurrence, quote }) => ({
+        updateOne: {
+          filter: { _id: occurrence._id },
+          update: {
+            $set: {
+              status: 'Cancelled',
+              updatedBy: userId,
+              cancelReason,
+              cancellationRefund: CancellationPolicyService.toRefundRecord(quote)
+            }
+          }
+        }
+      })));
+    }
+
+    if (booking.seriesId && scope !== 'this') {
+      const series = await BookingSeries.findById(booking.seriesId);
+      if (series) {
+        const hasEarlier = scope === 'following' && await this.hasEarlierOccurrences(booking);
+
+        if (hasEarlier) {
+          this.endRecurrenceBefore(series, booking.startTime);
+        } else {
+          series.status = 'Cancelled';
+        }
+        series.updatedBy = userId;
+        await series.save();
+      }
+    }
+
+    return {
+      bookingIds: cancellations.map(({ occurrence }) => occurrence._id),
+      failedOccurrences,
+      refundAmount: Math.round(cancellations.reduce((sum, { quote }) => sum + quote.refundAmount, 0) * 100) / 100
+    };
+  }
+
+  private static async hasEarlierOccurrences(booking: IBooking): Promise<boolean> {
+    const earlier = await Booking.exists({
+      seriesId: booking.seriesId,
+      startTime: { $lt: booking.startTime }
+    });
+    return !!earlier;
+  }
+
+  /**
+   * End a series' recurrence just before `startTime`, keeping a count-based rule count-based
+   */
+  private static endRecurrenceBefore(series: IBookingSeries, startTime: Date): void {
+    if (series.recurrence.count) {
+      const earlierStarts = expandRecurrence(series.firstStartTime, getSeriesRule(series), series.timezone)
+        .filter(start => start < startTime);
+      series.recurrence.count = Math.max(earlierStarts.length, 1);
+    } else {
+      series.recurrence.until = new Date(startTime.getTime() - 1000);
+    }
+    series.rrule = toRRule(getSeriesRule(series));
+  }
+
+  /**
+   * Move a series' pattern along with its occurrences. Returns the series the moved
+   * occurrences belong to: the same one, or a new one split off for "this and following".
+   */
+  private static async reshapeSeries(
+    booking: IBooking,
+    scope: SeriesScope,
+    shift: OccurrenceShift,
+    timezone: string,
+    userId: Types.ObjectId
+  ): Promise<Types.ObjectId | undefined> {
+    const series = await BookingSeries.findById(booking.seriesId);
+    if (!series) {
+      return booking.seriesId;
+    }
+
+    const rule = getSeriesRule(series);
+    const shiftedRule: RecurrenceRule = {
+      ...rule,
+      byWeekday: shiftWeekdays(rule.byWeekday || [], shift.dayOffset),
+      until: rule.until
+        ? new Date(rule.until.getTime() + shift.dayOffset * 24 * 60 * 60 * 1000)
+        : undefined
+    };
+    const durationMinutes = Math.round(shift.durationMs / (1000 * 60));
+
+    if (scope === 'following' && await this.hasEarlierOccurrences(booking)) {
+      // Occurrences of the original rule from this one on move to the new series
+      const remainingCount = rule.count
+        ? expandRecurrence(series.firstStartTime, rule, series.timezone)
+          .filter(start => start >= booking.startTime).length
+        : undefined;
+
+      const newRule: RecurrenceRule = { ...shiftedRule, count: remainingCount || shiftedRule.count };
+      const newSeries = new BookingSeries({
+        organizationId: series.organizationId,
+        spaceId: series.spaceId,
+        contactId: series.contactId,
+        recurrence: newRule,
+        rrule: toRRule(newRule),
+        timezone: series.timezone,
+        firstStartTime: applyShift(booking.startTime, shift, timezone).startTime,
+        durationMinutes,
+        createdBy: userId,
+        updatedBy: userId
+      });
+      await newSeries.save();
+
+      this.endRecurrenceBefore(series, booking.startTime);
+      series.updatedBy = userId;
+      await series.save();
+
+      console.log(`🔁 Split booking series ${series._id} into ${newSeries._id}`);
+      return newSeries._id;
+    }
+
+    series.recurrence.byWeekday = shiftedRule.byWeekday || [];
+    series.recurrence.until = shiftedRule.until;
+    series.rrule = toRRule(shiftedRule);
+    series.firstStartTime = applyShift(series.firstStartTime, shift, timezone).startTime;
+    series.durationMinutes = durationMinutes;
+    series.updatedBy = userId;
+    await series.save();
+
+    return series._id;
+  }
+}
+
+export default BookingSeriesService;
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Booking } from '../models/Booking';
+import { Space, ISpace } from '../models/Space';
+import { IBookingBuffers } from '../models/ProductType';
+import { SpaceBookingLock } from '../models/SpaceBookingLock';
+import { SpaceScheduleService } from './spaceScheduleService';
+import {
+  validateBookingTime,
+  formatTimeValidationErrors,
+  formatDateInTimezone,
+  DEFAULT_TIME_CONFIG
+} from '../utils/timeValidation';
+
+export interface BookingRuleCheck {
+  space: ISpace; // Must have locationId populated (see loadBookableSpace)
+  startTime: Date;
+  endTime: Date;
+  attendeeCount: number;
+  excludeBookingIds?: Types.ObjectId[]; // Bookings being moved, which can't conflict with themselves
+}
+
+export interface SeatInterval {
+  startTime: Date;
+  endTime: Date;
+  attendeeCount: number;
+}
+
+export interface TimeWindow {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface BookingRuleViolation {
+  statusCode: number;
+  message: string;
+  details?: Record<string, unknown>; // Extra fields merged into the API error response
+}
+
+export interface SpaceLockHandle {
+  spaceId: Types.ObjectId;
+  token: string;
+}
+
+// Long enough for a booking's checks and writes, including a whole recurring series
+const SPACE_LOCK_LEASE_MS = 30 * 1000;
+const SPACE_LOCK_WAIT_MS = 5 * 1000;
+
+export const SPACE_BUSY_MESSAGE = 'Another booking for this space is being made right now. Please try again.';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class BookingService {
+  /**
+   * Load a space of the organization with the location fields the booking rules need
+   */
+  static async loadBookableSpace(organizationId: Types.ObjectId | string, spaceId: Types.ObjectId | string): Promise<ISpace | null> {
+    return Space.findOne({
+      _id: spaceId,
+      organizationId
+    }).populate('locationId', 'operatingHours dateExceptions timezone allowSameDayBooking name defaultBookingRules');
+  }
+
+  /**
+   * Run every rule a new booking must satisfy: time window, duration, capacity,
+   * conflicts with existing bookings and advance/same-day limits.
+   * Returns the first violation, or null when the booking can be made.
+   */
+  static async checkBookingRules({ space, startTime, endTime, attendeeCount, excludeBookingIds }: BookingRuleCheck): Promise<BookingRuleViolation | null> {
+    const location = space.locationId as any; // Type assertion for populated location
+    const schedule = await SpaceScheduleService.getEffectiveSchedule(space);
+
+    const timeValidation = validateBookingTime(
+      startTime,
+      endTime,
+      location,
+      {
+        minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
+        maximumAdvanceDays: space.advanceBookingLimit || DEFAULT_TIME_CONFIG.maximumAdvanceDays,
+        allowPastBookings: false,
+        respectOperatingHours: true,
+        schedule
+      }
+    );
+
+    if (!timeValidation.isValid) {
+      const formattedError = formatTimeValidationErrors(timeValidation);
+      console.error('Time validation failed:', formattedError);
+
+      return {
+        statusCode: 400,
+        message: formattedError.message,
+        details: {
+          timeValidation: {
+            errors: formattedError.details,
+            warnings: formattedError.warnings,
+            timeUntilBooking: timeValidation.timeUntilBooking,
+            timezone: location?.timezone || 'Asia/Kolkata',
+            businessRules: {
+              minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
+              maximumAdvanceDays: space.advanceBookingLimit || DEFAULT_TIME_CONFIG.maximumAdvanceDays,
+              allowSameDayBooking: location?.allowSameDayBooking ?? space.allowSameDayBooking,
+              respectOperatingHours: true
+            }
+          }
+        }
+      };
+    }
+
+    if (timeValidation.warnings.length > 0) {
+      console.warn('Time validation warnings:', timeValidation.warnings);
+    }
+
+    // Check booking duration constraints
+    const bookingDuration = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)); // in minutes
+
+    if (bookingDuration < space.minimumBookingDuration) {
+      return {
+        statusCode: 400,
+        message: `Minimum booking duration is ${space.minimumBookingDuration} minutes`
+      };
+    }
+
+    if (bookingDuration > space.maximumBookingDuration) {
+      return {
+        statusCode: 400,
+        message: `Maximum booking duration is ${space.maximumBookingDuration} minutes`
+      };
+    }
+
+    // Check attendee count against space capacity (only if capacity is set and not null for unlimited)
+    if (space.capacity !== null && attendeeCount > space.capacity) {
+      return {
+        statusCode: 400,
+        message: `Space capacity is ${space.capacity} people, but ${attendeeCount} attendees requested`
+      };
+    }
+
+    const availabilityViolation = await this.checkAvailability({ space, startTime, endTime, attendeeCount, excludeBookingIds });
+    if (availabilityViolation) {
+      return availabilityViolation;
+    }
+
+    // Check advance booking rules
+    const now = new Date();
+    const daysUntilBooking = (startTime.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
+
+    if (daysUntilBooking > space.advanceBookingLimit) {
+      return {
+        statusCode: 400,
+        message: `Bookings can only be made up to ${space.advanceBookingLimit} days in advance`
+      };
+    }
+
+    // Check same-day booking rules, on the location's calendar
+    const isToday = formatDateInTimezone(startTime, schedule.timezone) === formatDateInTimezone(now, schedule.timezone);
+    if (isToday && !space.allowSameDayBooking) {
+      return {
+        statusCode: 400,
+        message: 'Same-day bookings are not allowed for this space'
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check the space is free for the booking. Exclusive spaces conflict with any overlapping
+   * open booking; seat-booked spaces only once the overlapping attendees fill the capacity.
+   * Bookings closer than the space's setup and teardown buffers count as overlapping.
+   */
+  static async checkAvailability({ space, startTime, endTime, attendeeCount, excludeBookingIds }: BookingRuleCheck): Promise<BookingRuleViolation | null> {
+    const buffers = await space.getEffectiveBuffers();
+    const window = this.getTurnaroundWindow({ startTime, endTime }, buffers);
+
+    const overlappingBookings = await Booking.find({
+      ...(excludeBookingIds && excludeBookingIds.length > 0 ? { _id: { $nin: excludeBookingIds } } : {}),
+      spaceId: space._id,
+      status: { $in: ['Pending', 'Confirmed'] },
+      startTime: { $lt: window.endTime },
+      endTime: { $gt: window.startTime }
+    });
+
+    if (overlappingBookings.length === 0) {
+      return null;
+    }
+
+    const conflictingBookings = overlappingBookings.map(booking => ({
+      id: booking._id,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      reference: booking.bookingReference
+    }));
+    const turnaroundMinutes = buffers.setupMinutes + buffers.teardownMinutes;
+
+    if (await space.usesSeatBooking()) {
+      const seatsRemaining = this.getSeatsRemaining(space, overlappingBookings, window.startTime, window.endTime);
+      if (attendeeCount <= seatsRemaining) {
+        return null;
+      }
+
+      return {
+        statusCode: 409,
+        message: seatsRemaining === 0
+          ? 'No seats left for the requested time slot'
+          : `Only ${seatsRemaining} of ${space.capacity} seats left for the requested time slot, but ${attendeeCount} requested`,
+        details: {
+          capacity: space.capacity,
+          seatsRemaining,
+          conflictingBookings,
+          ...(turnaroundMinutes > 0 && { buffers })
+        }
+      };
+    }
+
+    const overlapsBookedTime = overlappingBookings.some(booking => booking.startTime < endTime && booking.endTime > startTime);
+
+    return {
+      statusCode: 409,
+      message: overlapsBookedTime
+        ? 'Space is not available for the requested time slot'
+        : `Space needs ${turnaroundMinutes} minutes between bookings for setup and cleaning`,
+      details: {
+        conflictingBookings,
+        ...(turnaroundMinutes > 0 && { buffers })
+      }
+    };
+  }
+
+  /**
+   * The time a booking keeps other bookings out of: the booked time widened by the
+   * space's setup and teardown on each side, as the teardown of one booking and the
+   * setup of the next both have to fit between them.
+   */
+  static getTurnaroundWindow(booking: TimeWindow, buffers: IBookingBuffers): TimeWindow {
+    const turnaroundMs = (buffers.setupMinutes + buffers.teardownMinutes) * 60 * 1000;
+    return {
+      startTime: new Date(booking.startTime.getTime() - turnaroundMs),
+      endTime: new Date(booking.endTime.getTime() + turnaroundMs)
+    };
+  }
+
+  /**
+   * Seats still free for the whole of [startTime, endTime): the capacity minus the most
+   * attendees present at any one moment. Bookings that don't overlap each other share seats.
+   */
+  static getSeatsRemaining(space: ISpace, bookings: SeatInterval[], startTime: Date, endTime: Date): number {
+    const changes: Array<{ at: number; seats: number }> = [];
+    for (const booking of bookings) {
+      const from = Math.max(booking.startTime.getTime(), startTime.getTime());
+      const to = Math.min(booking.endTime.getTime(), endTime.getTime());
+      if (from >= to) continue;
+      changes.push({ at: from, seats: booking.attendeeCount }, { at: to, seats: -booking.attendeeCount });
+    }
+
+    // Departures before arrivals at the same instant, so back-to-back bookings share a seat
+    changes.sort((a, b) => a.at - b.at || a.seats - b.seats);
+
+    let occupied = 0;
+    let peak = 0;
+    for (const change of changes) {
+      occupied += change.seats;
+      peak = Math.max(peak, occupied);
+    }
+
+    return Math.max(0, space.capacity - peak);
+  }
+
+  /**
+   * Take the space's booking lock, waiting for the current holder if needed. Hold it from
+   * the availability check until the booking is written, then release it, so concurrent
+   * requests can't both pass the check. Returns null if the lock stays busy.
+   */
+  static async acquireSpaceLock(spaceId: Types.ObjectId): Promise<SpaceLockHandle | null> {
+    const token = crypto.randomBytes(12).toString('hex');
+    const deadline = Date.now() + SPACE_LOCK_WAIT_MS;
+
+    while (true) {
+      const now = new Date();
+      try {
+        // Takes a lapsed lease, or inserts a new lock; a held lease makes the insert a duplicate
+        await SpaceBookingLock.findOneAndUpdate(
+          { spaceId, expiresAt: { $lte: now } },
+          { $set: { token, expiresAt: new Date(now.getTime() + SPACE_LOCK_LEASE_MS) } },
+          { upsert: true }
+        );
+        return { spaceId, token };
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+      }
+
+      if (Date.now() >= deadline) {
+        console.warn(`Space ${spaceId} booking lock still busy after ${SPACE_LOCK_WAIT_MS}ms`);
+        return null;
+      }
+      await sleep(25 + Math.random() * 50);
+    }
+  }
+
+  /**
+   * Extend the lease of a held lock, checking it is still ours. Call it just before
+   * writing: checks that outlast the lease may find another request has taken the lock,
+   * and writing anyway would go around that request's checks. Returns false in that case.
+   */
+  static async renewSpaceLock(lock: SpaceLockHandle): Promise<boolean> {
+    const now = new Date();
+    const renewed = await SpaceBookingLock.findOneAndUpdate(
+      { spaceId: lock.spaceId, token: lock.token },
+      { $set: { expiresAt: new Date(now.getTime() + SPACE_LOCK_LEASE_MS) } }
+    );
+    if (!renewed) {
+      console.warn(`Space ${lock.spaceId} booking lock lapsed before the booking was written`);
+    }
+    return !!renewed;
+  }
+
+  /**
+   * Release the space's booking lock. Called from `finally` blocks, so a failure is logged
+   * rather than thrown over the request's own result; the lease lapses on its own.
+   */
+  static async releaseSpaceLock(lock: SpaceLockHandle): Promise<void> {
+    try {
+      await SpaceBookingLock.deleteOne({ spaceId: lock.spaceId, token: lock.token });
+    } catch (error) {
+      console.error(`Error releasing booking lock for space ${lock.spaceId}:`, error);
+    }
+  }
+
+  /**
+   * Generate a booking reference: BK + 8 random alphanumeric characters
+   */
+  static generateBookingReference(): string {
+    return 'BK' + Math.random().toString(36).substring(2, 10).toUpperCase().padEnd(8, '0');
+  }
+}
+
+export default BookingService;
@@ -0,0 +1,111 @@
+import { IBooking, ICancellationRefund } from '../models/Booking';
+import { ISpace } from '../models/Space';
+import { CreditUnit } from '../models/MembershipPlan';
+
+export interface CancellationPolicy {
+  hoursBeforeStart: number; // Cancel at least this long before the start for the refund below
+  refundPercentage: number;
+  description?: string;
+}
+
+export interface CancellationQuote {
+  canCancel: boolean;
+  reason?: string;
+  policy: CancellationPolicy;
+  hoursRemaining: number;
+  withinPolicy: boolean; // Cancelled early enough for the policy refund
+  amountPaid: number;
+  refundPercentage: number;
+  refundAmount: number;
+  currency: string;
+  creditsUsed: number; // Membership credits the booking was paid with
+  creditRefund: number; // Credits returned, at the same percentage as money
+  creditUnit?: CreditUnit;
+}
+
+// Spaces without a product type policy keep the original 2-hour full refund rule
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  hoursBeforeStart: 2,
+  refundPercentage: 100
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class CancellationPolicyService {
+  /**
+   * Cancellation policy of the space's effective pricing
+   */
+  static async getPolicy(space: ISpace | null): Promise<CancellationPolicy> {
+    if (!space || !space.useProductTypePricing || !space.productTypeId) {
+      return DEFAULT_CANCELLATION_POLICY;
+    }
+
+    const pricing = await space.getEffectivePricing();
+    const policy = pricing?.cancellationPolicy;
+    if (!policy || policy.hoursBeforeStart === undefined || policy.refundPercentage === undefined) {
+      return DEFAULT_CANCELLATION_POLICY;
+    }
+
+    return {
+      hoursBeforeStart: policy.hoursBeforeStart,
+      refundPercentage: policy.refundPercentage,
+      description: policy.description
+    };
+  }
+
+  /**
+   * What cancelling `booking` now would refund under `policy`. Bookings can be cancelled
+   * until they start; cancelling inside the policy window forfeits the refund. Only a
+   * paid amount is refundable; membership credits spent on the booking are returned at
+   * the same percentage.
+   */
+  static quoteCancellation(booking: IBooking, policy: CancellationPolicy, now: Date = new Date()): CancellationQuote {
+    const hoursRemaining = (booking.startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+    const withinPolicy = hoursRemaining >= policy.hoursBeforeStart;
+    const amountPaid = booking.paymentStatus === 'Paid' ? booking.totalAmount : 0;
+    const refundPercentage = withinPolicy ? policy.refundPercentage : 0;
+    const credits = booking.priceBreakdown?.credits;
+    const creditsUsed = credits?.amount || 0;
+
+    let reason: string | undefined;
+    if (booking.status === 'Cancelled') {
+      reason = 'Booking is already cancelled';
+    } else if (booking.status === 'Completed' || booking.status === 'No Show') {
+      reason = `${booking.status} bookings cannot be cancelled`;
+    } else if (hoursRemaining <= 0) {
+      reason = 'Bookings cannot be cancelled after they have started';
+    }
+
+    return {
+      canCancel: !reason,
+      reason,
+      policy,
+      hoursRemaining: Math.max(0, hoursRemaining),
+      withinPolicy,
+      amountPaid,
+      refundPercentage,
+      refundAmount: roundAmount(amountPaid * refundPercentage / 100),
+      currency: booking.currency,
+      creditsUsed,
+      creditRefund: roundAmount(creditsUsed * refundPercentage / 100),
+      creditUnit: credits?.unit
+    };
+  }
+
+  /**
+   * The refund record stored on a cancelled booking
+   */
+  static toRefundRecord(quote: CancellationQuote): ICancellationRefund {
+    return {
+      amount: quote.refundAmount,
+      percentage: quote.refundPercentage,
+      currency: quote.currency,
+      policyHoursBeforeStart: quote.policy.hoursBeforeStart,
+      policyRefundPercentage: quote.policy.refundPercentage,
+      credits: quote.creditRefund > 0 ? quote.creditRefund : undefined,
+      calculatedAt: new Date()
+    };
+  }
+}
+
+export default CancellationPolicyService;
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import QRCode from 'qrcode';
+import { Booking, IBooking, IBookingUsage } from '../models/Booking';
+import { Space } from '../models/Space';
+import { Contact } from '../models/Contact';
+import { BookingRuleViolation } from './bookingService';
+import { PricingService } from './pricingService';
+import { BookingLifecycleService } from './bookingLifecycleService';
+import twilioWhatsAppService from './twilioWhatsappService';
+
+export type CheckInResult =
+  | { booking: IBooking; violation?: undefined }
+  | { booking?: undefined; violation: BookingRuleViolation };
+
+export interface CheckInCode {
+  url: string;
+  qrSvg: string;
+}
+
+// How early before the start customers can check in
+const getCheckInEarlyMinutes = (): number => Number(process.env.CHECK_IN_EARLY_MINUTES) || 15;
+// Staying this long past the end is not billed as overtime
+const getOvertimeGraceMinutes = (): number => Number(process.env.CHECK_OUT_GRACE_MINUTES) || 10;
+// How long after the booking ends its code still works, for checking out late
+const getCodeValidHours = (): number => Number(process.env.CHECK_IN_CODE_VALID_HOURS) || 24;
+
+const SIGNATURE_LENGTH = 22; // Characters of base64url, 132 bits
+
+const getSecret = (): string => {
+  const secret = process.env.CHECK_IN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('CHECK_IN_SECRET or JWT_SECRET must be defined to sign check-in codes');
+  }
+  return secret;
+};
+
+// Signed over the space and end time too, so the code stops working if the booking moves
+// elsewhere or to another time
+const sign = (booking: IBooking): string =>
+  crypto.createHmac('sha256', getSecret())
+    .update(`check-in:${booking._id}:${booking.spaceId}:${booking.endTime.getTime()}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+
+const violation = (statusCode: number, message: string, details?: Record<string, unknown>): CheckInResult =>
+  ({ violation: { statusCode, message, details } });
+
+const formatInTimezone = (date: Date, timezone: string, options: Intl.DateTimeFormatOptions): string =>
+  new Intl.DateTimeFormat('en-IN', { timeZone: timezone, ...options }).format(date);
+
+export class CheckInService {
+  /**
+   * Token of the booking's QR code: the booking id and its signature. Nothing is
+   * stored, so codes can be shown again at any time. It expires a while after the booking ends.
+   */
+  static getToken(booking: IBooking): string {
+    return `${booking._id}.${sign(booking)}`;
+  }
+
+  static getCheckInUrl(booking: IBooking): string {
+    const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+    return `${frontendUrl}/check-in/${this.getToken(booking)}`;
+  }
+
+  static async getCheckInCode(booking: IBooking): Promise<CheckInCode> {
+    const url = this.getCheckInUrl(booking);
+    return { url, qrSvg: await QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'M' }) };
+  }
+
+  /**
+   * The QR code as a PNG, for channels that don't show SVG (e.g. WhatsApp)
+   */
+  static async getQrPng(booking: IBooking): Promise<Buffer> {
+    return QRCode.toBuffer(this.getCheckInUrl(booking), { type: 'png', errorCorrectionLevel: 'M', scale: 8 });
+  }
+
+  /**
+   * Booking of a check-in token, or null when the token is invalid or has expired
+   */
+  static async findByToken(token: string, now: Date = new Date()): Promise<IBooking | null> {
+    const [bookingId, signature] = token.split('.');
+    if (!bookingId || !signature || !Types.ObjectId.isValid(bookingId)) {
+      return null;
+    }
+
+    const booking = await Booking.findById(bookingId);
+    if (!booking) {
+      return null;
+    }
+
+    const expected = Buffer.from(sign(booking));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    if (now.getTime() > booking.endTime.getTime() + getCodeValidHours() * 60 * 60 * 1000) {
+      return null;
+    }
+
+    return booking;
+  }
+
+  /**
+   * Check in to a confirmed booking, from a little before its start until its end.
+   * A space given by the scanning device must be the booking's own.
+   */
+  static async checkIn(booking: IBooking, spaceId?: string, now: Date = new Date()): Promise<CheckInResult> {
+    if (spaceId && !booking.spaceId.equals(spaceId)) {
+      return violation(400, 'This booking is for a different space');
+    }
+    if (booking.checkedIn) {
+      return violation(409, 'This booking is already checked in', { checkInTime: booking.checkInTime });
+    }
+    if (booking.status === 'Pending') {
+      return violation(400, 'This booking has not been confirmed yet');
+    }
+    if (booking.status !== 'Confirmed') {
+      return violation(400, `This booking is ${booking.status.toLowerCase()}`);
+    }
+
+    const opensAt = new Date(booking.startTime.getTime() - getCheckInEarlyMinutes() * 60 * 1000);
+    if (now < opensAt) {
+      return violation(400, `Check-in opens ${getCheckInEarlyMinutes()} minutes before the booking starts`, { opensAt });
+    }
+    if (now >= booking.endTime) {
+      return violation(400, 'This booking has already ended');
+    }
+
+    const checkedIn = await Booking.findOneAndUpdate(
+      { _id: booking._id, status: 'Confirmed', checkedIn: { $ne: true } },
+      { $set: { checkedIn: true, checkInTime: now } },
+      { new: true }
+    );
+    if (!checkedIn) {
+      return violation(409, 'The booking has changed; please try again');
+    }
+
+    console.log(`✅ Booking ${booking.bookingReference} checked in by QR code`);
+    return { booking: checkedIn };
+  }
+
+  /**
+   * Check out of a checked-in booking, recording the time actually used. Time past the
+   * booked end beyond the grace period is priced as overtime and billed on its invoice.
+   * Spaces set to be cleaned after check-out are marked Cleaning.
+   */
+  static async checkOut(booking: IBooking, now: Date = new Date()): Promise<CheckInResult> {
+    if (!booking.checkedIn) {
+      return violation(400, 'This booking has not been checked in');
+    }
+    if (booking.checkOutTime) {
+      return violation(409, 'This booking is already checked out', { checkOutTime: booking.checkOutTime });
+    }
+    if (!['Pending', 'Confirmed', 'Completed'].includes(booking.status)) {
+      return violation(400, `This booking is ${booking.status.toLowerCase()}`);
+    }
+
+    const usage = await this.measureUsage(booking, now);
+
+    const checkedOut = await Booking.findOneAndUpdate(
+      { _id: booking._id, checkedIn: true, checkOutTime: null },
+      { $set: { checkOutTime: now, usage } },
+      { new: true }
+    );
+    if (!checkedOut) {
+      return violation(409, 'The booking has changed; please try again');
+    }
+
+    await BookingLifecycleService.markSpaceForCleaning(checkedOut, now);
+
+    console.log(`✅ Booking ${booking.bookingReference} checked out after ${usage.actualMinutes} min` +
+      (usage.overtimeMinutes > 0 ? ` (${usage.overtimeMinutes} min overtime)` : ''));
+    return { booking: checkedOut };
+  }
+
+  /**
+   * Time used by a booking checked out at the given time, with its overtime priced
+   */
+  static async measureUsage(booking: IBooking, now: Date, checkInTime: Date | undefined = booking.checkInTime): Promise<IBookingUsage> {
+    const startedAt = checkInTime || booking.startTime;
+    const actualMinutes = Math.max(0, Math.round((now.getTime() - startedAt.getTime()) / (60 * 1000)));
+
+    const minutesOver = (now.getTime() - booking.endTime.getTime()) / (60 * 1000);
+    const overtimeMinutes = minutesOver > getOvertimeGraceMinutes() ? Math.ceil(minutesOver) : 0;
+
+    let overtimeAmount = 0;
+    let currency = booking.currency;
+    const space = overtimeMinutes > 0 ? await Space.findById(booking.spaceId) : null;
+    if (space) {
+      // Priced like a booking of the extra time; credits only cover booked time
+      const quote = await PricingService.quote({
+        space,
+        startTime: booking.endTime,
+        endTime: new Date(booking.endTime.getTime() + overtimeMinutes * 60 * 1000),
+        contact: booking.contactId ? await Contact.findById(booking.contactId) : null,
+        attendeeCount: booking.attendeeCount,
+        useCredits: false
+      });
+      overtimeAmount = quote.totalAmount;
+      currency = quote.currency;
+    }
+
+    return { actualMinutes, overtimeMinutes, overtimeAmount, currency, recordedAt: now };
+  }
+
+  /**
+   * Send the customer the booking's check-in link and QR code over WhatsApp once it is
+   * confirmed. The image is linked from the API, so it is only attached when the API's
+   * public address is known. Failures are logged, since the booking is already confirmed.
+   */
+  static async sendCheckInCode(bookingId: Types.ObjectId): Promise<void> {
+    if (process.env.ENABLE_WHATSAPP !== 'true') return;
+
+    const booking = await Booking.findById(bookingId);
+    if (!booking) return;
+
+    try {
+      const contact = booking.contactId ? await Contact.findById(booking.contactId) : null;
+      const phone = contact?.phone || booking.customerPhone;
+      if (!phone) return;
+
+      const space = await Space.findById(booking.spaceId).populate('locationId', 'timezone');
+      const timezone = (space?.locationId as any)?.timezone || 'Asia/Kolkata';
+      const day = formatInTimezone(booking.startTime, timezone, { weekday: 'short', day: 'numeric', month: 'short' });
+      const time = formatInTimezone(booking.startTime, timezone, { hour: 'numeric', minute: '2-digit', hour12: true });
+
+      const apiUrl = process.env.API_PUBLIC_URL?.replace(/\/$/, '');
+      const token = this.getToken(booking);
+
+      await twilioWhatsAppService.sendMessage({
+        organizationId: booking.organizationId.toString(),
+        toNumber: phone,
+        messageBody: `✅ Your booking ${booking.bookingReference} for ${space?.name || 'your space'} on ${day} at ${time} is confirmed.\n\n` +
+          `When you arrive, scan the QR code or open this link to check in:\n${this.getCheckInUrl(booking)}`,
+        contactId: contact?._id.toString(),
+        ...(apiUrl && { mediaUrl: `${apiUrl}/api/bookings/check-in/${token}/qr.png` })
+      });
+    } catch (error) {
+      console.error(`❌ Error sending check-in code of booking ${booking.bookingReference}:`, error);
+    }
+  }
+}
+
+export default CheckInService;
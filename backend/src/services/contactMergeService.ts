@@ -0,0 +1,183 @@
+import { Types } from 'mongoose';
+import { Contact, IContact, ContactType } from '../models/Contact';
+import { Booking } from '../models/Booking';
+import { WhatsAppMessage } from '../models/WhatsAppMessage';
+import { WhatsAppConversationState } from '../models/WhatsAppConversationState';
+import { CreditTransaction } from '../models/CreditTransaction';
+import { Invoice } from '../models/Invoice';
+import { Payment } from '../models/Payment';
+import { normalizePhoneNumber, buildPhoneSuffixPattern } from '../utils/phoneNumber';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateContact {
+  contact: IContact;
+  reasons: DuplicateReason[];
+}
+
+// Higher rank wins when merging: a member never goes back to being a lead
+const TYPE_RANK: Record<ContactType, number> = { Lead: 0, Prospect: 1, Member: 2 };
+const PRIORITY_RANK: Record<IContact['priority'], number> = { low: 0, medium: 1, high: 2 };
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const union = (a: string[] = [], b: string[] = []): string[] => Array.from(new Set([...a, ...b]));
+
+export class ContactMergeService {
+  /**
+   * Find contacts of the same organization that are likely the same person:
+   * same email, same phone number in any format, or same full name.
+   */
+  static async findDuplicates(contact: IContact): Promise<DuplicateContact[]> {
+    const conditions: Record<string, unknown>[] = [
+      {
+        firstName: new RegExp(`^${escapeRegex(contact.firstName)}$`, 'i'),
+        lastName: new RegExp(`^${escapeRegex(contact.lastName)}$`, 'i')
+      }
+    ];
+
+    if (contact.email) {
+      conditions.push({ email: contact.email });
+    }
+
+    const phonePattern = contact.phone ? buildPhoneSuffixPattern(contact.phone) : null;
+    if (phonePattern) {
+      conditions.push({ phone: phonePattern });
+    }
+
+    const candidates = await Contact.find({
+      organizationId: contact.organizationId,
+      _id: { $ne: contact._id },
+      $or: conditions
+    }).sort({ createdAt: 1 });
+
+    const normalizedPhone = contact.phone ? normalizePhoneNumber(contact.phone) : null;
+    const fullName = contact.getFullName().toLowerCase();
+
+    return candidates
+      .map(candidate => {
+        const reasons: DuplicateReason[] = [];
+
+        if (contact.email && candidate.email === contact.email) {
+          reasons.push('email');
+        }
+        if (normalizedPhone && candidate.phone && normalizePhoneNumber(candidate.phone) === normalizedPhone) {
+          reasons.push('phone');
+        }
+        if (candidate.getFullName().toLowerCase() === fullName) {
+          reasons.push('name');
+        }
+
+        return { contact: candidate, reasons };
+      })
+      // The phone pattern only matches trailing digits, so drop candidates whose full number differs
+      .filter(duplicate => duplicate.reasons.length > 0);
+  }
+
+  /**
+   * Merge `source` into `target`: details missing on the target are taken from the source,
+   * lists are combined, and bookings and WhatsApp history move to the target.
+   * The source contact is deleted.
+   */
+  static async mergeContacts(target: IContact, source: IContact, userId: Types.ObjectId): Promise<IContact> {
+    if (target._id.equals(source._id)) {
+      throw new Error('Cannot merge a contact into itself');
+    }
+    if (!target.organizationId.equals(source.organizationId)) {
+      throw new Error('Contacts belong to different organizations');
+    }
+
+    const sourceSummary = [source.getFullName(), source.email, source.phone].filter(Boolean).join(', ');
+
+    // Scalar details: keep the target's, fill gaps from the source
+    const sourceEmail = source.email;
+    target.phone = target.phone || source.phone;
+    target.company = target.company || source.company;
+    target.jobTitle = target.jobTitle || source.jobTitle;
+    target.leadSource = target.leadSource || source.leadSource;
+    target.assignedTo = target.assignedTo || source.assignedTo;
+    if (!target.address && source.address) {
+      target.address = source.address;
+    }
+    const targetSubscribed = target.subscription && target.subscription.status !== 'expired';
+    if (!targetSubscribed && source.subscription && source.subscription.status !== 'expired') {
+      target.subscription = source.subscription;
+      target.membership = source.membership;
+    } else if (!target.membership?.planType && source.membership?.planType) {
+      target.membership = source.membership;
+    }
+
+    if (TYPE_RANK[source.type] > TYPE_RANK[target.type]) {
+      target.type = source.type;
+    }
+    if (PRIORITY_RANK[source.priority] > PRIORITY_RANK[target.priority]) {
+      target.priority = source.priority;
+    }
+    if (target.contextState === 'New' && source.contextState !== 'New') {
+      target.contextState = source.contextState;
+    }
+
+    // Lists: combine both contacts' history
+    target.tags = union(target.tags, source.tags);
+    target.aiContext.preferences = union(target.aiContext.preferences, source.aiContext.preferences);
+    target.aiContext.interests = union(target.aiContext.interests, source.aiContext.interests);
+    target.aiContext.painPoints = union(target.aiContext.painPoints, source.aiContext.painPoints);
+    target.aiContext.spaceRequirements = union(target.aiContext.spaceRequirements, source.aiContext.spaceRequirements);
+    target.aiContext.lastContextUpdate = new Date();
+
+    target.interactions = [...target.interactions, ...source.interactions]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    if (source.spacePreferences) {
+      const targetPreferences = target.spacePreferences || {};
+      const bookingHistory = [
+        ...(targetPreferences.bookingHistory || []),
+        ...(source.spacePreferences.bookingHistory || [])
+      ];
+      const lastBookingDates = [targetPreferences.lastBookingDate, source.spacePreferences.lastBookingDate]
+        .filter((date): date is Date => !!date);
+
+      target.spacePreferences = {
+        ...targetPreferences,
+        preferredSpaceTypes: union(targetPreferences.preferredSpaceTypes, source.spacePreferences.preferredSpaceTypes),
+        preferredAmenities: union(targetPreferences.preferredAmenities, source.spacePreferences.preferredAmenities),
+        bookingHistory,
+        totalBookings: (targetPreferences.totalBookings || 0) + (source.spacePreferences.totalBookings || 0),
+        lastBookingDate: lastBookingDates.length > 0
+          ? new Date(Math.max(...lastBookingDates.map(date => date.getTime())))
+          : undefined
+      };
+    }
+
+    target.addInteraction({
+      type: 'note',
+      subject: 'Contacts merged',
+      content: `Merged duplicate contact: ${sourceSummary}`,
+      createdBy: userId
+    });
+    target.updatedBy = userId;
+
+    // Move everything that points at the source
+    await Promise.all([
+      Booking.updateMany({ contactId: source._id }, { $set: { contactId: target._id } }),
+      WhatsAppMessage.updateMany({ contactId: source._id }, { $set: { contactId: target._id } }),
+      WhatsAppConversationState.updateMany({ contactId: source._id }, { $set: { contactId: target._id } }),
+      CreditTransaction.updateMany({ contactId: source._id }, { $set: { contactId: target._id } }),
+      Invoice.updateMany({ contactId: source._id }, { $set: { contactId: target._id } }),
+      Payment.updateMany({ contactId: source._id }, { $set: { contactId: target._id } })
+    ]);
+
+    // The source must be gone before its email can move to the target (unique per organization)
+    await Contact.deleteOne({ _id: source._id });
+
+    if (!target.email && sourceEmail) {
+      target.email = sourceEmail;
+    }
+    await target.save();
+
+    console.log(`🔀 Merged contact ${source._id} into ${target._id}`);
+    return target;
+  }
+}
+
+export default ContactMergeService;
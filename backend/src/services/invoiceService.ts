@@ -0,0 +1,482 @@
+import { Types } from 'mongoose';
+import { Invoice, IInvoice, IInvoiceLineItem, IInvoiceTax, InvoiceStatus } from '../models/Invoice';
+import { InvoiceCounter } from '../models/InvoiceCounter';
+import { Payment, IPayment, PaymentMethod } from '../models/Payment';
+import { Booking, IBooking } from '../models/Booking';
+import { Contact, IContact } from '../models/Contact';
+import { Space } from '../models/Space';
+import { Location, ILocation } from '../models/Location';
+import { getPaymentProvider, getProviderForMethod } from './paymentProviders';
+
+export interface CreateMembershipInvoiceInput {
+  organizationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  contact: IContact;
+  amount: number;
+  currency: string;
+  periodStart: Date;
+  periodEnd: Date;
+  locationId?: Types.ObjectId;
+  dueDate?: Date;
+  notes?: string;
+}
+
+export interface RecordPaymentInput {
+  invoice: IInvoice;
+  userId: Types.ObjectId;
+  amount: number;
+  method: PaymentMethod;
+  token?: string; // Online payments: token for the payment provider
+  reference?: string; // Offline payments: cheque number, transfer reference...
+  notes?: string;
+}
+
+export interface RefundInvoiceInput {
+  invoice: IInvoice;
+  userId: Types.ObjectId;
+  amount: number;
+  reason?: string;
+}
+
+export interface PaymentResult {
+  invoice: IInvoice;
+  payments: IPayment[]; // Every transaction attempted, including declined ones
+  failureReason?: string; // Set when the provider declined
+}
+
+const INVOICE_NUMBER_PREFIX = 'INV-';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class InvoiceService {
+  /**
+   * Next invoice number of an organization. Numbers are sequential and never reused,
+   * even when an invoice is voided.
+   */
+  static async nextInvoiceNumber(organizationId: Types.ObjectId): Promise<{ invoiceNumber: string; sequence: number }> {
+    const counter = await InvoiceCounter.findOneAndUpdate(
+      { organizationId },
+      { $inc: { sequence: 1 } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return {
+      invoiceNumber: `${INVOICE_NUMBER_PREFIX}${String(counter.sequence).padStart(6, '0')}`,
+      sequence: counter.sequence
+    };
+  }
+
+  /**
+   * Taxes of a location on a subtotal. Each rate applies to the subtotal on its own,
+   * as with CGST and SGST.
+   */
+  static calculateTaxes(subtotal: number, location: ILocation | null): IInvoiceTax[] {
+    return (location?.taxRates || [])
+      .filter(taxRate => taxRate.rate > 0)
+      .map(taxRate => ({
+        name: taxRate.name,
+        rate: taxRate.rate,
+        amount: roundAmount(subtotal * taxRate.rate / 100)
+      }));
+  }
+
+  /**
+   * Open invoice of a booking, if it has one
+   */
+  static async findBookingInvoice(booking: IBooking): Promise<IInvoice | null> {
+    return Invoice.findOne({ bookingId: booking._id, status: { $ne: 'Void' } });
+  }
+
+  /**
+   * Invoice a booking for its quoted price and any overtime, taxed at its space's location
+   */
+  static async createForBooking(booking: IBooking, userId: Types.ObjectId, options: { dueDate?: Date; notes?: string } = {}): Promise<IInvoice> {
+    if (booking.getBillableAmount() <= 0) {
+      throw new Error('Booking has no amount to invoice');
+    }
+
+    const space = await Space.findById(booking.spaceId);
+    const location = space ? await Location.findById(space.locationId) : null;
+    const contact = booking.contactId ? await Contact.findById(booking.contactId) : null;
+
+    const spaceName = space?.name || 'Space';
+    const lineItems: IInvoiceLineItem[] = booking.priceBreakdown && booking.priceBreakdown.lineItems.length > 0
+      ? booking.priceBreakdown.lineItems.map(item => ({
+        description: item.type === 'base' || item.type === 'tier'
+          ? `${spaceName}: ${item.description}`
+          : item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        amount: item.amount
+      }))
+      : [{
+        description: `${spaceName} booking`,
+        quantity: 1,
+        unitPrice: booking.totalAmount,
+        amount: booking.totalAmount
+      }];
+
+    // Time used past the booked end, recorded at check-out
+    if (booking.usage && booking.usage.overtimeAmount > 0) {
+      lineItems.push({
+        description: `${spaceName}: overtime (${booking.usage.overtimeMinutes} min)`,
+        quantity: 1,
+        unitPrice: booking.usage.overtimeAmount,
+        amount: booking.usage.overtimeAmount
+      });
+    }
+
+    return this.issue({
+      organizationId: booking.organizationId,
+      userId,
+      sourceType: 'booking',
+      bookingId: booking._id,
+      contact,
+      fallbackCustomer: {
+        name: booking.customerName || 'Customer',
+        email: booking.customerEmail,
+        phone: booking.customerPhone
+      },
+      location,
+      lineItems,
+      subtotal: booking.getBillableAmount(),
+      currency: booking.currency,
+      notes: options.notes || `Booking ${booking.bookingReference}`,
+      dueDate: options.dueDate || booking.startTime
+    });
+  }
+
+  /**
+   * Invoice a contact's membership for one billing period
+   */
+  static async createForMembership(input: CreateMembershipInvoiceInput): Promise<IInvoice> {
+    const { contact, amount, periodStart, periodEnd } = input;
+    const planType = contact.membership?.planType || 'Membership';
+    const location = input.locationId ? await Location.findById(input.locationId) : null;
+
+    return this.issue({
+      organizationId: input.organizationId,
+      userId: input.userId,
+      sourceType: 'membership',
+      contact,
+      location,
+      lineItems: [{
+        description: `${planType} membership, ${periodStart.toISOString().slice(0, 10)} to ${periodEnd.toISOString().slice(0, 10)}`,
+        quantity: 1,
+        unitPrice: amount,
+        amount
+      }],
+      subtotal: amount,
+      currency: input.currency,
+      notes: input.notes,
+      dueDate: input.dueDate || periodStart,
+      membership: { planType, periodStart, periodEnd }
+    });
+  }
+
+  /**
+   * Take a payment against an invoice. Partial payments are allowed up to the balance due.
+   * A declined payment is recorded and returned with the reason instead of throwing.
+   * Returns null when concurrent payments have left less than the amount due.
+   */
+  static async recordPayment({ invoice, userId, amount, method, token, reference, notes }: RecordPaymentInput): Promise<PaymentResult | null> {
+    const balanceDue = invoice.getBalanceDue();
+    if (invoice.status === 'Void') {
+      throw new Error('Cannot take a payment on a void invoice');
+    }
+    if (amount <= 0 || amount > balanceDue + 0.001) {
+      throw new Error(`Payment must be between 0.01 and the balance due of ${balanceDue}`);
+    }
+
+    // Reserve the amount before charging so concurrent payments can't together exceed the total
+    amount = roundAmount(amount);
+    const reserved = await Invoice.findOneAndUpdate(
+      {
+        _id: invoice._id,
+        status: { $ne: 'Void' },
+        $expr: { $lte: [{ $add: ['$amountPaid', amount] }, { $add: ['$total', 0.001] }] }
+      },
+      { $inc: { amountPaid: amount } }
+    );
+    if (!reserved) {
+      return null;
+    }
+
+    const provider = getProviderForMethod(method);
+    let result;
+    try {
+      result = await provider.charge({
+        amount,
+        currency: invoice.currency,
+        description: `Invoice ${invoice.invoiceNumber}`,
+        token,
+        reference
+      });
+    } catch (error) {
+      await Invoice.updateOne({ _id: invoice._id }, { $inc: { amountPaid: -amount } });
+      throw error;
+    }
+
+    const payment = await Payment.create({
+      organizationId: invoice.organizationId,
+      invoiceId: invoice._id,
+      bookingId: invoice.bookingId,
+      contactId: invoice.contactId,
+      type: 'payment',
+      amount,
+      currency: invoice.currency,
+      method,
+      status: result.success ? 'Succeeded' : 'Failed',
+      provider: provider.name,
+      providerReference: result.providerReference,
+      failureReason: result.failureReason,
+      processedAt: new Date(),
+      notes,
+      createdBy: userId
+    });
+
+    // A declined payment gives its reservation back
+    if (!result.success) {
+      await Invoice.updateOne({ _id: invoice._id }, { $inc: { amountPaid: -amount } });
+    }
+    const settled = await this.settle(invoice._id, userId);
+
+    await this.syncBookingPaymentStatus(settled, userId, !result.success);
+
+    return { invoice: settled, payments: [payment], failureReason: result.failureReason };
+  }
+
+  /**
+   * Refund part or all of what was paid on an invoice. The refund is spread over the
+   * invoice's payments, newest first, each through the provider that took it.
+   * Returns null when concurrent refunds have left less than the amount refundable.
+   */
+  static async refund({ invoice, userId, amount, reason }: RefundInvoiceInput): Promise<PaymentResult | null> {
+    const refundable = invoice.getRefundableAmount();
+    if (amount <= 0 || amount > refundable + 0.001) {
+      throw new Error(`Refund must be between 0.01 and the refundable amount of ${refundable}`);
+    }
+
+    // Reserve the whole refund up front, as payments do; whatever isn't refunded is given back
+    let remaining = roundAmount(amount);
+    const reserved = await Invoice.findOneAndUpdate(
+      {
+        _id: invoice._id,
+        $expr: { $lte: [{ $add: ['$amountRefunded', remaining] }, { $add: ['$amountPaid', 0.001] }] }
+      },
+      { $inc: { amountRefunded: remaining } }
+    );
+    if (!reserved) {
+      return null;
+    }
+
+    const refunds: IPayment[] = [];
+    let failureReason: string | undefined;
+
+    try {
+      const ledger = await Payment.find({ invoiceId: invoice._id, status: 'Succeeded' }).sort({ processedAt: -1 });
+      const refundedByPayment = new Map<string, number>();
+      for (const entry of ledger.filter(entry => entry.type === 'refund' && entry.refundedPaymentId)) {
+        const key = entry.refundedPaymentId!.toString();
+        refundedByPayment.set(key, (refundedByPayment.get(key) || 0) + entry.amount);
+      }
+
+      for (const payment of ledger.filter(entry => entry.type === 'payment')) {
+        if (remaining <= 0) break;
+
+        const available = roundAmount(payment.amount - (refundedByPayment.get(payment._id.toString()) || 0));
+        if (available <= 0) continue;
+
+        const refundAmount = Math.min(available, remaining);
+        const provider = getPaymentProvider(payment.provider);
+        const result = await provider.refund({
+          amount: refundAmount,
+          currency: payment.currency,
+          providerReference: payment.providerReference
+        });
+
+        refunds.push(await Payment.create({
+          organizationId: invoice.organizationId,
+          invoiceId: invoice._id,
+          bookingId: invoice.bookingId,
+          contactId: invoice.contactId,
+          type: 'refund',
+          amount: refundAmount,
+          currency: payment.currency,
+          method: payment.method,
+          status: result.success ? 'Succeeded' : 'Failed',
+          provider: provider.name,
+          providerReference: result.providerReference,
+          refundedPaymentId: payment._id,
+          failureReason: result.failureReason,
+          processedAt: new Date(),
+          notes: reason,
+          createdBy: userId
+        }));
+
+        if (!result.success) {
+          failureReason = result.failureReason;
+          break;
+        }
+
+        remaining = roundAmount(remaining - refundAmount);
+      }
+    } finally {
+      if (remaining > 0) {
+        await Invoice.updateOne({ _id: invoice._id }, { $inc: { amountRefunded: -remaining } });
+      }
+    }
+
+    const settled = await this.settle(invoice._id, userId);
+
+    await this.syncBookingPaymentStatus(settled, userId);
+
+    return { invoice: settled, payments: refunds, failureReason };
+  }
+
+  /**
+   * Void an invoice that has no payments left on it
+   */
+  static async voidInvoice(invoice: IInvoice, userId: Types.ObjectId, reason?: string): Promise<IInvoice> {
+    if (invoice.getRefundableAmount() > 0) {
+      throw new Error('Refund the payments on this invoice before voiding it');
+    }
+
+    invoice.status = 'Void';
+    invoice.voidReason = reason;
+    invoice.updatedBy = userId;
+    await invoice.save();
+    return invoice;
+  }
+
+  /**
+   * Payments and refunds on an invoice, oldest first
+   */
+  static async getLedger(invoice: IInvoice): Promise<IPayment[]> {
+    return Payment.find({ invoiceId: invoice._id })
+      .sort({ processedAt: 1 })
+      .populate('createdBy', 'firstName lastName');
+  }
+
+  private static async issue(params: {
+    organizationId: Types.ObjectId;
+    userId: Types.ObjectId;
+    sourceType: IInvoice['sourceType'];
+    bookingId?: Types.ObjectId;
+    contact: IContact | null;
+    fallbackCustomer?: IInvoice['customer'];
+    location: ILocation | null;
+    lineItems: IInvoiceLineItem[];
+    subtotal: number;
+    currency: string;
+    notes?: string;
+    dueDate?: Date;
+    membership?: IInvoice['membership'];
+  }): Promise<IInvoice> {
+    const customer = params.contact
+      ? {
+        name: params.contact.getFullName(),
+        email: params.contact.email,
+        phone: params.contact.phone,
+        company: params.contact.company
+      }
+      : params.fallbackCustomer || { name: 'Customer' };
+
+    const subtotal = roundAmount(params.subtotal);
+    const taxes = this.calculateTaxes(subtotal, params.location);
+    const taxTotal = roundAmount(taxes.reduce((sum, tax) => sum + tax.amount, 0));
+    const { invoiceNumber, sequence } = await this.nextInvoiceNumber(params.organizationId);
+
+    return Invoice.create({
+      organizationId: params.organizationId,
+      invoiceNumber,
+      sequence,
+      sourceType: params.sourceType,
+      bookingId: params.bookingId,
+      contactId: params.contact?._id,
+      locationId: params.location?._id,
+      membership: params.membership,
+      customer,
+      sellerTaxId: params.location?.taxId,
+      lineItems: params.lineItems,
+      subtotal,
+      taxes,
+      taxTotal,
+      total: roundAmount(subtotal + taxTotal),
+      amountPaid: 0,
+      amountRefunded: 0,
+      currency: params.currency,
+      status: 'Issued',
+      issuedAt: new Date(),
+      dueDate: params.dueDate,
+      notes: params.notes,
+      createdBy: params.userId,
+      updatedBy: params.userId
+    });
+  }
+
+  /**
+   * Round the invoice's totals and bring its status in line with them. The write only lands
+   * while the totals are unchanged, so the last payment or refund to finish sets the status.
+   */
+  private static async settle(invoiceId: Types.ObjectId, userId: Types.ObjectId): Promise<IInvoice> {
+    for (;;) {
+      const invoice = await Invoice.findById(invoiceId);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+
+      const { amountPaid, amountRefunded } = invoice;
+      invoice.amountPaid = roundAmount(amountPaid);
+      invoice.amountRefunded = roundAmount(amountRefunded);
+      invoice.status = this.getStatus(invoice);
+      invoice.updatedBy = userId;
+
+      const { matchedCount } = await Invoice.updateOne(
+        { _id: invoiceId, amountPaid, amountRefunded },
+        {
+          $set: {
+            amountPaid: invoice.amountPaid,
+            amountRefunded: invoice.amountRefunded,
+            status: invoice.status,
+            updatedBy: userId
+          }
+        }
+      );
+      if (matchedCount > 0) {
+        return invoice;
+      }
+    }
+  }
+
+  private static getStatus(invoice: IInvoice): InvoiceStatus {
+    if (invoice.status === 'Void') return 'Void';
+
+    if (invoice.amountRefunded > 0) {
+      return invoice.amountRefunded >= invoice.amountPaid ? 'Refunded' : 'Partially Refunded';
+    }
+    if (invoice.amountPaid <= 0) return 'Issued';
+    return invoice.amountPaid >= invoice.total ? 'Paid' : 'Partially Paid';
+  }
+
+  /**
+   * Keep the booking's payment status in step with its invoice
+   */
+  private static async syncBookingPaymentStatus(invoice: IInvoice, userId: Types.ObjectId, paymentFailed: boolean = false): Promise<void> {
+    if (!invoice.bookingId) return;
+
+    let paymentStatus: IBooking['paymentStatus'] = 'Pending';
+    if (invoice.status === 'Paid' || invoice.status === 'Partially Refunded') paymentStatus = 'Paid';
+    else if (invoice.status === 'Refunded') paymentStatus = 'Refunded';
+    else if (paymentFailed && invoice.amountPaid === 0) paymentStatus = 'Failed';
+
+    await Booking.updateOne({ _id: invoice.bookingId }, {
+      paymentStatus,
+      updatedBy: userId,
+      // A paid booking no longer expires while pending
+      ...(paymentStatus === 'Paid' && { $unset: { holdExpiresAt: 1 } })
+    });
+  }
+}
+
+export default InvoiceService;
@@ -0,0 +1,157 @@
+import { Types } from 'mongoose';
+import { ILocation, ILocationDateException, DateExceptionType } from '../models/Location';
+import { parseICalendar, iCalDateValueToUtc, getYearlyOccurrenceYears, ICalEvent } from '../utils/ical';
+import { formatDateInTimezone, formatTimeInTimezone } from '../utils/timeValidation';
+import { addDaysToDateString, daysBetweenDateStrings } from '../utils/recurrence';
+
+export interface SkippedCalendarEvent {
+  name: string;
+  date?: string;
+  reason: string;
+}
+
+export interface CalendarImportResult {
+  imported: number;
+  replaced: number; // Exceptions of earlier imports of the same events
+  skipped: SkippedCalendarEvent[];
+}
+
+interface ExceptionDay {
+  date: string;
+  type: DateExceptionType;
+  openTime?: string;
+  closeTime?: string;
+}
+
+// Upper bound on the exceptions a location may have
+export const MAX_DATE_EXCEPTIONS = 500;
+
+// Imported dates further ahead than this are left out
+const IMPORT_WINDOW_DAYS = 2 * 366;
+
+const isValidDate = (date: string): boolean =>
+  !isNaN(Date.parse(`${date}T00:00:00Z`)) && new Date(`${date}T00:00:00Z`).toISOString().startsWith(date);
+
+/**
+ * Days of one occurrence of an event. All-day events close the location on each of
+ * their days; timed events set that day's hours in the location's timezone.
+ */
+const getOccurrenceDays = (event: ICalEvent, startDate: string, timezone: string): ExceptionDay[] | string => {
+  if (!event.start.time) {
+    const days = event.end && !event.end.time
+      ? daysBetweenDateStrings(event.start.date, event.end.date)
+      : Math.round((event.durationMs || 0) / (24 * 60 * 60 * 1000));
+    return Array.from({ length: Math.max(1, days) }, (_, i) => ({
+      date: addDaysToDateString(startDate, i),
+      type: 'closed' as DateExceptionType
+    }));
+  }
+
+  const firstStart = iCalDateValueToUtc(event.start, timezone);
+  const lengthMs = event.end ? iCalDateValueToUtc(event.end, timezone).getTime() - firstStart.getTime() : event.durationMs || 0;
+  if (lengthMs <= 0) {
+    return 'Timed events need an end';
+  }
+
+  const start = iCalDateValueToUtc({ ...event.start, date: startDate }, timezone);
+  const end = new Date(start.getTime() + lengthMs);
+  const date = formatDateInTimezone(start, timezone);
+  const openTime = formatTimeInTimezone(start, timezone);
+  const closeTime = formatTimeInTimezone(end, timezone);
+
+  // Ending at midnight still counts as the same day
+  const endDate = formatDateInTimezone(end, timezone);
+  if (endDate !== date && !(endDate === addDaysToDateString(date, 1) && closeTime === '00:00')) {
+    return 'Timed events spanning several days are not supported';
+  }
+
+  return [{ date, type: 'modified_hours', openTime, closeTime }];
+};
+
+export class LocationCalendarService {
+  /**
+   * Add the events of an iCalendar file to the location's date exceptions, from today
+   * up to two years ahead. Events imported before (by UID) are replaced; dates that
+   * already have another exception keep it. The caller saves the location.
+   */
+  static importICalendar(location: ILocation, calendar: string, now: Date = new Date()): CalendarImportResult {
+    const timezone = location.timezone || 'Asia/Kolkata';
+    const today = formatDateInTimezone(now, timezone);
+    const lastDate = addDaysToDateString(today, IMPORT_WINDOW_DAYS);
+    const lastYear = Number(lastDate.slice(0, 4));
+
+    const events = parseICalendar(calendar).filter(event => event.status !== 'CANCELLED');
+    const result: CalendarImportResult = { imported: 0, replaced: 0, skipped: [] };
+
+    // Re-imported events replace what their earlier import added
+    const uids = new Set(events.map(event => event.uid).filter(Boolean));
+    const kept = location.dateExceptions.filter(exception => !(exception.source === 'ical' && exception.uid && uids.has(exception.uid)));
+    result.replaced = location.dateExceptions.length - kept.length;
+
+    const byDate = new Map(kept.map(exception => [exception.date, exception]));
+    const added: Partial<ILocationDateException>[] = [];
+
+    for (const event of events) {
+      const name = (event.summary || 'Closed').slice(0, 100);
+
+      const years = getYearlyOccurrenceYears(event, lastYear);
+      if (!years) {
+        result.skipped.push({ name, date: event.start.date, reason: 'Only yearly recurring events are supported' });
+        continue;
+      }
+
+      for (const year of years) {
+        const startDate = `${year}${event.start.date.slice(4)}`;
+        if (!isValidDate(startDate)) continue; // e.g. 29 February outside leap years
+
+        const days = getOccurrenceDays(event, startDate, timezone);
+        if (typeof days === 'string') {
+          result.skipped.push({ name, date: startDate, reason: days });
+          break;
+        }
+
+        for (const day of days) {
+          if (day.date < today || day.date > lastDate) continue;
+
+          const existing = byDate.get(day.date);
+          if (existing) {
+            result.skipped.push({ name, date: day.date, reason: `The date already has an exception: ${existing.name}` });
+            continue;
+          }
+
+          const exception: Partial<ILocationDateException> = {
+            ...day,
+            name,
+            ...(event.description && { notes: event.description.slice(0, 200) }),
+            source: 'ical',
+            uid: event.uid
+          };
+          byDate.set(day.date, exception as ILocationDateException);
+          added.push(exception);
+        }
+      }
+    }
+
+    location.dateExceptions = [...kept, ...added as ILocationDateException[]]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    result.imported = added.length;
+
+    return result;
+  }
+
+  /**
+   * Exceptions of the location between two dates (inclusive), by date
+   */
+  static getExceptions(location: ILocation, from?: string, to?: string): ILocationDateException[] {
+    return location.dateExceptions
+      .filter(exception => (!from || exception.date >= from) && (!to || exception.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  static findException(location: ILocation, exceptionId: string): ILocationDateException | null {
+    if (!Types.ObjectId.isValid(exceptionId)) return null;
+    return location.dateExceptions.find(exception => exception._id.equals(exceptionId)) || null;
+  }
+}
+
+export default LocationCalendarService;
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs outgoing mail to the console - default for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log('📧 ===== OUTGOING EMAIL =====');
+    console.log(`📧 From: ${message.from}`);
+    console.log(`📧 To: ${message.to}`);
+    console.log(`📧 Subject: ${message.subject}`);
+    console.log(message.text);
+    console.log('📧 ==========================');
+  }
+}
+
+/**
+ * Writes each outgoing mail to a JSON file so local tests can read the links back
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    const filePath = path.join(this.outputDir, fileName);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    console.log(`📧 Email to ${message.to} written to ${filePath}`);
+  }
+}
+
+export class MailService {
+  private transport: MailTransport | null = null;
+
+  /**
+   * Pick the transport from MAIL_TRANSPORT unless one was registered explicitly
+   */
+  private getTransport(): MailTransport {
+    if (this.transport) return this.transport;
+
+    const transportName = process.env.MAIL_TRANSPORT || 'console';
+    switch (transportName) {
+      case 'file':
+        this.transport = new FileMailTransport(
+          process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail')
+        );
+        break;
+      case 'console':
+        this.transport = new ConsoleMailTransport();
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${transportName}". Register a custom transport with mailService.setTransport().`);
+    }
+
+    console.log(`✅ Mail service using ${this.transport.name} transport`);
+    return this.transport;
+  }
+
+  /**
+   * Plug in a custom transport (e.g. SMTP or a provider API)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  private getFrontendUrl(): string {
+    return (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const from = process.env.MAIL_FROM || 'Cosynq <no-reply@cosynq.app>';
+    await this.getTransport().send({ ...message, from });
+  }
+
+  async sendPasswordResetEmail(to: string, firstName: string, token: string, expiresAt: Date): Promise<void> {
+    const resetUrl = `${this.getFrontendUrl()}/reset-password/${token}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your Cosynq password',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'We received a request to reset your Cosynq password. Use the link below to choose a new one:',
+        resetUrl,
+        '',
+        `This link expires at ${expiresAt.toUTCString()} and can only be used once.`,
+        "If you didn't request a password reset, you can safely ignore this email."
+      ].join('\n')
+    });
+  }
+
+  async sendEmailVerificationEmail(to: string, firstName: string, token: string, expiresAt: Date): Promise<void> {
+    const verifyUrl = `${this.getFrontendUrl()}/verify-email/${token}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your Cosynq email address',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        verifyUrl,
+        '',
+        `This link expires at ${expiresAt.toUTCString()} and can only be used once.`
+      ].join('\n')
+    });
+  }
+
+  async sendWaitlistOfferEmail(to: string, firstName: string, spaceName: string, slot: string, token: string, expiresAt: Date): Promise<void> {
+    const offerUrl = `${this.getFrontendUrl()}/waitlist-offer/${token}`;
+
+    await this.send({
+      to,
+      subject: `${spaceName} is available - confirm your booking`,
+      text: [
+        `Hi ${firstName},`,
+        '',
+        `Good news: ${spaceName} has become available for ${slot}, and we're holding it for you.`,
+        'Confirm or decline the booking here:',
+        offerUrl,
+        '',
+        `The hold ends at ${expiresAt.toUTCString()}, after which the slot is offered to the next person on the waitlist.`
+      ].join('\n')
+    });
+  }
+}
+
+// Export singleton instance
+export default new MailService();
@@ -0,0 +1,403 @@
+import { Types } from 'mongoose';
+import { Contact, IContact, IContactSubscription } from '../models/Contact';
+import { Organization } from '../models/Organization';
+import { MembershipPlan, IMembershipPlan, CreditUnit } from '../models/MembershipPlan';
+import { CreditTransaction, ICreditTransaction, CreditTransactionType } from '../models/CreditTransaction';
+import { IBookingCreditUsage } from '../models/Booking';
+import { IInvoice } from '../models/Invoice';
+import { InvoiceService } from './invoiceService';
+
+export interface ActiveMembership {
+  plan: IMembershipPlan;
+  subscription: IContactSubscription;
+}
+
+export interface SubscribeInput {
+  contact: IContact;
+  plan: IMembershipPlan;
+  startDate: Date;
+  autoRenew: boolean;
+  userId: Types.ObjectId;
+  invoice: boolean; // Issue the first period's invoice
+}
+
+export interface SubscribeResult {
+  contact: IContact;
+  invoice?: IInvoice;
+}
+
+// Periods a single renewal pass catches up on, for contacts not seen in a long time
+const MAX_RENEWALS = 24;
+
+const roundCredits = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Same day of the next month, clamped to the month's last day
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+export class MembershipService {
+  /**
+   * The contact's plan, if they are a member at `at`. Active subscriptions with auto-renew
+   * cover dates past the renewal date; cancelled ones run to the end of the paid period.
+   */
+  static async getMembershipAt(contact: IContact | null | undefined, at: Date): Promise<ActiveMembership | null> {
+    const subscription = contact?.subscription;
+    if (!subscription || subscription.status === 'expired' || at < subscription.startDate) {
+      return null;
+    }
+
+    const renews = subscription.status === 'active' && subscription.autoRenew;
+    if (at >= subscription.currentPeriodEnd && !renews) {
+      return null;
+    }
+
+    const plan = await MembershipPlan.findById(subscription.planId);
+    return plan ? { plan, subscription } : null;
+  }
+
+  /**
+   * Whether credits of the current period can pay for something happening at `at`.
+   * Later periods' allowances are only granted on renewal.
+   */
+  static inCurrentPeriod(subscription: IContactSubscription, at: Date): boolean {
+    return at >= subscription.currentPeriodStart && at < subscription.currentPeriodEnd;
+  }
+
+  /**
+   * Start (or switch) the contact's subscription. The current period begins at `startDate`,
+   * the allowance is granted in full and any balance left from a previous plan expires.
+   */
+  static async subscribe({ contact, plan, startDate, autoRenew, userId, invoice }: SubscribeInput): Promise<SubscribeResult> {
+    const previous = contact.subscription;
+    if (previous && previous.status !== 'expired' && previous.creditBalance > 0) {
+      await this.record(contact, previous.planId, previous.creditUnit, 'expiry', -previous.creditBalance, 0, {
+        note: 'Plan changed'
+      });
+    }
+
+    const periodEnd = addMonths(startDate, 1);
+    contact.subscription = {
+      planId: plan._id,
+      status: 'active',
+      startDate,
+      currentPeriodStart: startDate,
+      currentPeriodEnd: periodEnd,
+      autoRenew,
+      creditBalance: plan.allowance.amount,
+      creditUnit: plan.allowance.unit
+    };
+    contact.membership = {
+      planType: plan.name,
+      startDate,
+      endDate: periodEnd,
+      monthlyRate: plan.monthlyPrice
+    };
+    contact.type = 'Member';
+    contact.updatedBy = userId;
+    await contact.save();
+
+    if (plan.allowance.amount > 0) {
+      await this.record(contact, plan._id, plan.allowance.unit, 'grant', plan.allowance.amount, plan.allowance.amount, {
+        note: `${plan.name} allowance`
+      });
+    }
+
+    const firstInvoice = invoice && plan.monthlyPrice > 0
+      ? await this.invoicePeriod(contact, plan, startDate, periodEnd, userId)
+      : undefined;
+
+    return { contact, invoice: firstInvoice };
+  }
+
+  /**
+   * Stop the subscription from renewing. It stays usable until the renewal date unless
+   * cancelled `immediately`, which also expires the remaining credits.
+   */
+  static async cancel(contact: IContact, userId: Types.ObjectId, immediately: boolean): Promise<IContact> {
+    const subscription = contact.subscription;
+    if (!subscription || subscription.status === 'expired') {
+      throw new Error('Contact has no active subscription');
+    }
+
+    const now = new Date();
+    subscription.autoRenew = false;
+    subscription.status = 'cancelled';
+    subscription.cancelledAt = now;
+
+    if (immediately) {
+      if (subscription.creditBalance > 0) {
+        await this.record(contact, subscription.planId, subscription.creditUnit, 'expiry', -subscription.creditBalance, 0, {
+          note: 'Subscription cancelled'
+        });
+      }
+      subscription.status = 'expired';
+      subscription.creditBalance = 0;
+      subscription.currentPeriodEnd = now;
+      if (contact.membership) {
+        contact.membership.endDate = now;
+      }
+    }
+
+    contact.updatedBy = userId;
+    await contact.save();
+    return contact;
+  }
+
+  /**
+   * Roll the subscription over every renewal date that has passed: expire the unused
+   * balance, grant the next period's allowance and invoice it. Subscriptions that don't
+   * renew expire. Safe to call concurrently; each period is renewed once.
+   */
+  static async renewIfDue(contact: IContact, userId: Types.ObjectId, now: Date = new Date()): Promise<IContact> {
+    let current: IContact | null = contact;
+
+    for (let renewals = 0; renewals < MAX_RENEWALS; renewals++) {
+      const subscription: IContactSubscription | undefined = current?.subscription;
+      if (!current || !subscription || subscription.status === 'expired' || subscription.currentPeriodEnd > now) {
+        break;
+      }
+
+      const periodEnd = subscription.currentPeriodEnd;
+      const plan = subscription.status === 'active' && subscription.autoRenew
+        ? await MembershipPlan.findOne({ _id: subscription.planId, isActive: true })
+        : null;
+      const nextEnd = addMonths(periodEnd, 1);
+
+      const update = plan
+        ? {
+          'subscription.currentPeriodStart': periodEnd,
+          'subscription.currentPeriodEnd': nextEnd,
+          'subscription.creditBalance': plan.allowance.amount,
+          'subscription.creditUnit': plan.allowance.unit,
+          'membership.endDate': nextEnd,
+          'membership.monthlyRate': plan.monthlyPrice
+        }
+        : {
+          'subscription.status': 'expired',
+          'subscription.creditBalance': 0
+        };
+
+      // Matching on the period end makes the first caller the only one to renew it
+      const previous: IContact | null = await Contact.findOneAndUpdate(
+        { _id: current._id, 'subscription.currentPeriodEnd': periodEnd, 'subscription.status': { $ne: 'expired' } },
+        { $set: update }
+      );
+      if (!previous?.subscription) {
+        current = await Contact.findById(current._id);
+        continue;
+      }
+
+      if (previous.subscription.creditBalance > 0) {
+        await this.record(current, previous.subscription.planId, previous.subscription.creditUnit, 'expiry',
+          -previous.subscription.creditBalance, 0, { note: 'Period ended' });
+      }
+
+      if (plan) {
+        if (plan.allowance.amount > 0) {
+          await this.record(current, plan._id, plan.allowance.unit, 'grant', plan.allowance.amount, plan.allowance.amount, {
+            note: `${plan.name} allowance`
+          });
+        }
+        current = await Contact.findById(current._id);
+        if (current && plan.monthlyPrice > 0) {
+          await this.invoicePeriod(current, plan, periodEnd, nextEnd, userId);
+        }
+      } else {
+        current = await Contact.findById(current._id);
+      }
+    }
+
+    return current || contact;
+  }
+
+  /**
+   * Renew every subscription whose period has ended, so members who don't book are still
+   * billed for their periods. Invoices are issued by the organization's owner.
+   * Returns how many contacts were renewed or expired.
+   */
+  static async renewAllDue(now: Date = new Date()): Promise<number> {
+    const due = await Contact.find({
+      'subscription.status': { $in: ['active', 'cancelled'] },
+      'subscription.currentPeriodEnd': { $lte: now }
+    });
+
+    const owners = new Map<string, Types.ObjectId | null>();
+    let renewed = 0;
+    for (const contact of due) {
+      const organizationId = contact.organizationId.toString();
+      if (!owners.has(organizationId)) {
+        const organization = await Organization.findById(contact.organizationId).select('ownerId');
+        owners.set(organizationId, organization?.ownerId || null);
+      }
+      const ownerId = owners.get(organizationId);
+      if (!ownerId) continue;
+
+      try {
+        await this.renewIfDue(contact, ownerId, now);
+        renewed++;
+      } catch (error) {
+        console.error(`❌ Error renewing subscription of contact ${contact._id}:`, error);
+      }
+    }
+    return renewed;
+  }
+
+  /**
+   * The contact as renewIfDue would leave it, without renewing anything: for quotes,
+   * which shouldn't grant allowances or issue invoices. The returned contact is not saved.
+   */
+  static async projectRenewal(contact: IContact, now: Date = new Date()): Promise<IContact> {
+    const subscription = contact.subscription;
+    if (!subscription || subscription.status === 'expired' || subscription.currentPeriodEnd > now) {
+      return contact;
+    }
+
+    const plan = subscription.status === 'active' && subscription.autoRenew
+      ? await MembershipPlan.findOne({ _id: subscription.planId, isActive: true })
+      : null;
+
+    const projected = Contact.hydrate(contact.toObject());
+    const projectedSubscription = projected.subscription!;
+
+    if (!plan) {
+      projectedSubscription.status = 'expired';
+      projectedSubscription.creditBalance = 0;
+      return projected;
+    }
+
+    for (let renewals = 0; renewals < MAX_RENEWALS && projectedSubscription.currentPeriodEnd <= now; renewals++) {
+      const periodEnd = projectedSubscription.currentPeriodEnd;
+      const nextEnd = addMonths(periodEnd, 1);
+      projectedSubscription.currentPeriodStart = periodEnd;
+      projectedSubscription.currentPeriodEnd = nextEnd;
+      projectedSubscription.creditBalance = plan.allowance.amount;
+      projectedSubscription.creditUnit = plan.allowance.unit;
+      if (projected.membership) {
+        projected.membership.endDate = nextEnd;
+        projected.membership.monthlyRate = plan.monthlyPrice;
+      }
+    }
+
+    return projected;
+  }
+
+  /**
+   * Spend credits on a booking. Fails without spending anything when the balance no
+   * longer covers `usage` (it was spent since the quote) or the period has rolled over.
+   */
+  static async consumeCredits(contact: IContact, usage: IBookingCreditUsage, bookingId: Types.ObjectId): Promise<boolean> {
+    const updated = await Contact.findOneAndUpdate(
+      {
+        _id: contact._id,
+        'subscription.planId': usage.planId,
+        'subscription.currentPeriodEnd': usage.periodEnd,
+        'subscription.creditBalance': { $gte: usage.amount }
+      },
+      { $inc: { 'subscription.creditBalance': -usage.amount } },
+      { new: true }
+    );
+    if (!updated?.subscription) {
+      return false;
+    }
+
+    await this.record(updated, usage.planId, usage.unit, 'usage', -usage.amount, updated.subscription.creditBalance, {
+      bookingId
+    });
+    return true;
+  }
+
+  /**
+   * Return credits spent on a booking, e.g. on cancellation. Credits from a period that
+   * has ended are not returned, since that balance has expired.
+   */
+  static async releaseCredits(
+    contactId: Types.ObjectId,
+    usage: IBookingCreditUsage,
+    amount: number,
+    bookingId: Types.ObjectId,
+    note?: string
+  ): Promise<number> {
+    const released = roundCredits(Math.min(amount, usage.amount));
+    if (released <= 0) return 0;
+
+    const updated = await Contact.findOneAndUpdate(
+      {
+        _id: contactId,
+        'subscription.planId': usage.planId,
+        'subscription.currentPeriodEnd': usage.periodEnd,
+        'subscription.status': { $ne: 'expired' }
+      },
+      { $inc: { 'subscription.creditBalance': released } },
+      { new: true }
+    );
+    if (!updated?.subscription) {
+      return 0;
+    }
+
+    await this.record(updated, usage.planId, usage.unit, 'release', released, updated.subscription.creditBalance, {
+      bookingId,
+      note
+    });
+    return released;
+  }
+
+  /**
+   * Credit history of a contact, newest first
+   */
+  static async getLedger(contact: IContact, limit = 50): Promise<ICreditTransaction[]> {
+    return CreditTransaction.find({ contactId: contact._id })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .populate('bookingId', 'bookingReference startTime endTime');
+  }
+
+  private static async invoicePeriod(
+    contact: IContact,
+    plan: IMembershipPlan,
+    periodStart: Date,
+    periodEnd: Date,
+    userId: Types.ObjectId
+  ): Promise<IInvoice> {
+    return InvoiceService.createForMembership({
+      organizationId: contact.organizationId,
+      userId,
+      contact,
+      amount: plan.monthlyPrice,
+      currency: plan.currency,
+      periodStart,
+      periodEnd,
+      // Plans limited to one location are taxed at that location's rates
+      locationId: plan.allowedLocationIds.length === 1 ? plan.allowedLocationIds[0] : undefined
+    });
+  }
+
+  private static async record(
+    contact: IContact,
+    planId: Types.ObjectId,
+    unit: CreditUnit,
+    type: CreditTransactionType,
+    amount: number,
+    balanceAfter: number,
+    details: { bookingId?: Types.ObjectId; note?: string } = {}
+  ): Promise<ICreditTransaction> {
+    return CreditTransaction.create({
+      organizationId: contact.organizationId,
+      contactId: contact._id,
+      planId,
+      type,
+      amount: roundCredits(amount),
+      unit,
+      balanceAfter: roundCredits(balanceAfter),
+      ...details
+    });
+  }
+}
+
+export default MembershipService;
@@ -0,0 +1,103 @@
+import { Types } from 'mongoose';
+import { IUser } from '../models/User';
+import { Organization, IOrganization, IOrganizationMember, OrganizationRole } from '../models/Organization';
+
+export interface ResolvedMembership {
+  organization: IOrganization;
+  membership: IOrganizationMember;
+}
+
+export interface OrganizationMembershipSummary {
+  organizationId: Types.ObjectId;
+  name: string;
+  role: OrganizationRole;
+  isCurrent: boolean;
+}
+
+export class OrganizationService {
+  /**
+   * Build a default organization name for a user who has not completed onboarding yet
+   */
+  static getDefaultOrganizationName(user: IUser): string {
+    const companyName = user.onboardingData?.companyName?.trim();
+    if (companyName) {
+      return companyName;
+    }
+    return `${user.firstName} ${user.lastName}'s Organization`;
+  }
+
+  /**
+   * Create an organization owned by the user and make it the user's active organization
+   */
+  static async createOrganizationForUser(user: IUser, name?: string): Promise<IOrganization> {
+    const organization = new Organization({
+      name: name || this.getDefaultOrganizationName(user),
+      ownerId: user._id,
+      members: [{ userId: user._id, role: 'admin', joinedAt: new Date() }]
+    });
+    await organization.save();
+
+    user.organizationId = organization._id;
+    await user.save();
+
+    return organization;
+  }
+
+  /**
+   * Resolve the user's active organization and their membership in it
+   */
+  static async resolveMembership(user: IUser): Promise<ResolvedMembership | null> {
+    if (!user.organizationId) {
+      return null;
+    }
+
+    const organization = await Organization.findOne({
+      _id: user.organizationId,
+      isActive: true,
+      'members.userId': user._id
+    });
+    if (!organization) {
+      return null;
+    }
+
+    const membership = organization.getMembership(user._id);
+    if (!membership) {
+      return null;
+    }
+
+    return { organization, membership };
+  }
+
+  /**
+   * List the active organizations the user belongs to, marking the one they are working in
+   */
+  static async listMemberships(user: IUser): Promise<OrganizationMembershipSummary[]> {
+    const organizations = await Organization.find({ isActive: true, 'members.userId': user._id }).sort({ name: 1 });
+
+    return organizations.map(organization => ({
+      organizationId: organization._id,
+      name: organization.name,
+      role: organization.getMembership(user._id)!.role,
+      isCurrent: !!user.organizationId && user.organizationId.equals(organization._id)
+    }));
+  }
+
+  /**
+   * Make one of the user's organizations their active one.
+   * Returns null when the organization is inactive or the user is not a member of it.
+   */
+  static async switchOrganization(user: IUser, organizationId: Types.ObjectId | string): Promise<ResolvedMembership | null> {
+    const organization = await Organization.findOne({ _id: organizationId, isActive: true, 'members.userId': user._id });
+    const membership = organization?.getMembership(user._id);
+    if (!organization || !membership) {
+      return null;
+    }
+
+    user.organizationId = organization._id;
+    await user.save();
+
+    return { organization, membership };
+  }
+}
+
+export default OrganizationService;
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { PaymentMethod } from '../models/Payment';
+
+export interface ChargeRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  token?: string; // Provider-specific payment token collected by the client
+  reference?: string; // Reference of an offline payment (cheque number, transfer UTR...)
+}
+
+export interface RefundRequest {
+  amount: number;
+  currency: string;
+  providerReference?: string; // Reference of the charge being refunded
+}
+
+export interface ProviderResult {
+  success: boolean;
+  providerReference?: string;
+  failureReason?: string;
+}
+
+/**
+ * A way of moving money. Providers never throw for a declined transaction; they
+ * report it in the result so the attempt can be recorded on the ledger.
+ */
+export interface PaymentProvider {
+  name: string;
+  charge(request: ChargeRequest): Promise<ProviderResult>;
+  refund(request: RefundRequest): Promise<ProviderResult>;
+}
+
+const randomReference = (prefix: string): string => `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+
+/**
+ * Local stand-in for a card/UPI gateway. Every charge succeeds except with the
+ * `tok_decline` token; refunds succeed up to the amount charged.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  name = 'fake';
+
+  // Amount still refundable per charge reference
+  private charges = new Map<string, number>();
+
+  async charge({ amount, token }: ChargeRequest): Promise<ProviderResult> {
+    if (token === 'tok_decline') {
+      return { success: false, failureReason: 'Card declined' };
+    }
+
+    const providerReference = randomReference('fake_ch');
+    this.charges.set(providerReference, amount);
+    return { success: true, providerReference };
+  }
+
+  async refund({ amount, providerReference }: RefundRequest): Promise<ProviderResult> {
+    const refundable = providerReference ? this.charges.get(providerReference) : undefined;
+
+    // Charges from before a restart are unknown; treat them as refundable
+    if (providerReference && refundable !== undefined) {
+      if (amount > refundable + 0.001) {
+        return { success: false, failureReason: 'Refund exceeds the amount charged' };
+      }
+      this.charges.set(providerReference, refundable - amount);
+    }
+
+    return { success: true, providerReference: randomReference('fake_re') };
+  }
+}
+
+/**
+ * Cash, bank transfers and other payments collected outside the system, recorded by staff
+ */
+export class ManualPaymentProvider implements PaymentProvider {
+  name = 'manual';
+
+  async charge({ reference }: ChargeRequest): Promise<ProviderResult> {
+    return { success: true, providerReference: reference || randomReference('manual') };
+  }
+
+  async refund(): Promise<ProviderResult> {
+    return { success: true, providerReference: randomReference('manual_re') };
+  }
+}
+
+const providers = new Map<string, PaymentProvider>([
+  ['fake', new FakePaymentProvider()],
+  ['manual', new ManualPaymentProvider()]
+]);
+
+// Methods staff record by hand; the rest go through the configured gateway
+const OFFLINE_METHODS: PaymentMethod[] = ['cash', 'bank_transfer', 'other'];
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getPaymentProvider = (name: string): PaymentProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Payment provider "${name}" is not configured`);
+  }
+  return provider;
+};
+
+/**
+ * Provider for a payment method. Online methods use PAYMENT_PROVIDER (default: fake).
+ */
+export const getProviderForMethod = (method: PaymentMethod): PaymentProvider => {
+  if (OFFLINE_METHODS.includes(method)) {
+    return getPaymentProvider('manual');
+  }
+  return getPaymentProvider(process.env.PAYMENT_PROVIDER || 'fake');
+};
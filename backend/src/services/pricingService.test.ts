@@ -0,0 +1,47 @@
+import { Types } from 'mongoose';
+import { Space } from '../models/Space';
+import { PricingService } from './pricingService';
+
+// Spaces with their own hourly rate, so quotes need no product type or database
+const spaceOfType = (type: string, hourly: number) => new Space({
+  organizationId: new Types.ObjectId(),
+  name: `${type} zone`,
+  type,
+  capacity: 20,
+  rates: { hourly, currency: 'INR' },
+  useProductTypePricing: false,
+  createdBy: new Types.ObjectId(),
+  updatedBy: new Types.ObjectId()
+});
+
+const startTime = new Date('2025-06-15T04:30:00Z');
+const endTime = new Date('2025-06-15T06:30:00Z'); // Two hours
+
+describe('PricingService.quote', () => {
+  it('charges every attendee of a seat-booked space', async () => {
+    const quote = await PricingService.quote({ space: spaceOfType('Hot Desk', 200), startTime, endTime, attendeeCount: 3 });
+
+    expect(quote.totalAmount).toBe(1200);
+    expect(quote.lineItems).toEqual([expect.objectContaining({
+      type: 'base',
+      description: '2 hours at 200/hour × 3 seats',
+      quantity: 6,
+      unitPrice: 200,
+      amount: 1200
+    })]);
+  });
+
+  it('charges one seat when no attendee count is given', async () => {
+    const quote = await PricingService.quote({ space: spaceOfType('Hot Desk', 200), startTime, endTime });
+
+    expect(quote.totalAmount).toBe(400);
+    expect(quote.lineItems[0].quantity).toBe(2);
+  });
+
+  it('prices an exclusively booked space once, whatever the attendee count', async () => {
+    const quote = await PricingService.quote({ space: spaceOfType('Meeting Room', 500), startTime, endTime, attendeeCount: 6 });
+
+    expect(quote.totalAmount).toBe(1000);
+    expect(quote.lineItems[0].description).toBe('2 hours at 500/hour');
+  });
+});
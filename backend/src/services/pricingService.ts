@@ -0,0 +1,455 @@
+import { Types } from 'mongoose';
+import { ISpace } from '../models/Space';
+import { IContact } from '../models/Contact';
+import { IPriceBreakdown } from '../models/Booking';
+import { ProductType, IPricingRule, PricingType } from '../models/ProductType';
+import { CreditUnit } from '../models/MembershipPlan';
+import { MembershipService, ActiveMembership } from './membershipService';
+
+export type PriceLineItemType = 'base' | 'tier' | 'member_discount' | 'included' | 'credits' | 'add_on';
+
+export interface PriceLineItem {
+  type: PriceLineItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+}
+
+export interface BookingQuote {
+  currency: string;
+  durationMinutes: number;
+  pricingType: PricingType | 'free';
+  membershipType?: string; // Membership whose discount, access or credits were applied
+  credits?: QuotedCredits;
+  lineItems: PriceLineItem[];
+  subtotal: number; // Before discounts
+  discountAmount: number;
+  totalAmount: number;
+  availableAddOns: AvailableAddOn[];
+}
+
+export interface QuotedCredits {
+  planId: Types.ObjectId;
+  planName: string;
+  unit: CreditUnit;
+  used: number;
+  balance: number; // Available before this booking
+  periodEnd: Date;
+}
+
+export interface AvailableAddOn {
+  name: string;
+  price: number;
+  currency: string;
+  description?: string;
+}
+
+export interface RequestedAddOn {
+  name: string;
+  quantity?: number;
+}
+
+export interface QuoteInput {
+  space: ISpace;
+  startTime: Date;
+  endTime: Date;
+  contact?: IContact | null; // Used for member discounts, access and credits
+  addOns?: RequestedAddOn[];
+  attendeeCount?: number; // Seats charged for in seat-booked spaces; other spaces are priced once
+  useCredits?: boolean; // Default true; recurring bookings are charged in money
+  releasedCredits?: number; // Credits the booking being re-priced already holds
+}
+
+// Amounts are compared with this tolerance so rounding on the client doesn't reject a booking
+export const PRICE_TOLERANCE = 0.01;
+
+// Length of one billing unit, in minutes, for unit-based pricing types
+const UNIT_MINUTES: Partial<Record<PricingType, { minutes: number; label: string }>> = {
+  daily: { minutes: 60 * 24, label: 'day' },
+  weekly: { minutes: 60 * 24 * 7, label: 'week' },
+  monthly: { minutes: 60 * 24 * 30, label: 'month' }
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const CREDIT_UNIT_LABELS: Record<CreditUnit, [string, string]> = {
+  hours: ['hour', 'hours'],
+  credits: ['credit', 'credits']
+};
+
+const formatHours = (minutes: number): string => {
+  const hours = roundAmount(minutes / 60);
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+export class PricingService {
+  /**
+   * Compute the authoritative price of booking `space` from `startTime` to `endTime`.
+   * Spaces that inherit product type pricing are priced by its rule (hourly, per
+   * day/week/month, tiered or included in membership), other spaces by their own
+   * rates. The contact's member discount and add-ons (optional amenities) come from
+   * the product type. Seat-booked spaces charge the space price for every attendee.
+   * Members' hot desk access and credits are applied before money is charged.
+   * Throws when an unknown add-on is requested.
+   */
+  static async quote({
+    space,
+    startTime,
+    endTime,
+    contact,
+    addOns = [],
+    attendeeCount = 1,
+    useCredits = true,
+    releasedCredits = 0
+  }: QuoteInput): Promise<BookingQuote> {
+    const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
+    const productType = space.productTypeId
+      ? await ProductType.findById(space.productTypeId)
+      : null;
+
+    const lineItems: PriceLineItem[] = [];
+    let currency = space.rates.currency;
+    let pricingType: BookingQuote['pricingType'];
+    let membershipType: string | undefined;
+    let credits: QuotedCredits | undefined;
+    const membership = await MembershipService.getMembershipAt(contact, startTime);
+    const locationId = (space.locationId as any)?._id || space.locationId;
+
+    if (space.useProductTypePricing && productType) {
+      const pricing: IPricingRule = await space.getEffectivePricing();
+      currency = pricing.currency || currency;
+      pricingType = pricing.type;
+      lineItems.push(...this.priceByRule(pricing, durationMinutes));
+    } else {
+      // Same rate selection as the space's own booking quotes
+      const { rate, type } = space.getRateForDuration(durationMinutes);
+      pricingType = type as BookingQuote['pricingType'];
+
+      if (rate > 0 && type === 'hourly') {
+        const hours = Math.ceil(durationMinutes / 60);
+        lineItems.push({
+          type: 'base',
+          description: `${formatHours(hours * 60)} at ${space.rates.hourly}/hour`,
+          quantity: hours,
+          unitPrice: space.rates.hourly || 0,
+          amount: roundAmount(rate)
+        });
+      } else if (rate > 0) {
+        lineItems.push({
+          type: 'base',
+          description: `${type.charAt(0).toUpperCase()}${type.slice(1)} rate`,
+          quantity: 1,
+          unitPrice: rate,
+          amount: roundAmount(rate)
+        });
+      }
+    }
+
+    // Each attendee takes, and pays for, a seat of a shared space
+    const seats = attendeeCount > 1 && await space.usesSeatBooking() ? attendeeCount : 1;
+    if (seats > 1) {
+      for (const item of lineItems) {
+        item.description = `${item.description} × ${seats} seats`;
+        item.quantity = roundAmount(item.quantity * seats);
+        item.amount = roundAmount(item.amount * seats);
+      }
+    }
+
+    const spaceCharge = (): number => roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+    // Hot desks are free for members whose plan includes them at this location
+    const hotDeskIncluded = !!membership && membership.plan.hotDeskAccess &&
+      space.type === 'Hot Desk' && membership.plan.coversLocation(locationId);
+    if (hotDeskIncluded && spaceCharge() > 0) {
+      // The member's own seat; guests they bring are charged
+      const included = roundAmount(spaceCharge() / seats);
+      membershipType = membership!.plan.name;
+      lineItems.push({
+        type: 'included',
+        description: `Hot desk access included in ${membership!.plan.name}`,
+        quantity: 1,
+        unitPrice: -included,
+        amount: -included
+      });
+    }
+
+    // Member discounts are set on the product type and apply to the space charge only
+    const memberDiscount = productType && !hotDeskIncluded
+      ? this.findMemberDiscount(productType.pricing, contact, membership, startTime)
+      : null;
+    if (memberDiscount) {
+      const discountable = lineItems.reduce((sum, item) => sum + item.amount, 0);
+      const discount = roundAmount(discountable * memberDiscount.discountPercentage / 100);
+
+      if (discount > 0) {
+        membershipType = memberDiscount.membershipType;
+        lineItems.push({
+          type: 'member_discount',
+          description: memberDiscount.description ||
+            `${memberDiscount.membershipType} member discount (${memberDiscount.discountPercentage}%)`,
+          quantity: 1,
+          unitPrice: -discount,
+          amount: -discount
+        });
+      }
+    }
+
+    // Credits pay for what is left of the space charge; add-ons are always paid in money
+    if (membership && useCredits && spaceCharge() > 0) {
+      credits = this.applyCredits(lineItems, membership, space, locationId, startTime, durationMinutes * seats, currency, releasedCredits);
+      if (credits) {
+        membershipType = membership.plan.name;
+      }
+    }
+
+    const availableAddOns: AvailableAddOn[] = (productType?.amenities?.optional || []).map(addOn => ({
+      name: addOn.name,
+      price: addOn.price,
+      currency: addOn.currency,
+      description: addOn.description
+    }));
+
+    lineItems.push(...this.priceAddOns(addOns, availableAddOns, currency));
+
+    const subtotal = roundAmount(lineItems
+      .filter(item => item.amount > 0)
+      .reduce((sum, item) => sum + item.amount, 0));
+    const discountAmount = roundAmount(-lineItems
+      .filter(item => item.amount < 0)
+      .reduce((sum, item) => sum + item.amount, 0));
+
+    return {
+      currency,
+      durationMinutes,
+      pricingType,
+      membershipType,
+      credits,
+      lineItems,
+      subtotal,
+      discountAmount,
+      totalAmount: roundAmount(Math.max(0, subtotal - discountAmount)),
+      availableAddOns
+    };
+  }
+
+  /**
+   * Whether a client-supplied total matches a quote
+   */
+  static matchesQuote(totalAmount: number, quote: BookingQuote): boolean {
+    return Math.abs(totalAmount - quote.totalAmount) <= PRICE_TOLERANCE;
+  }
+
+  /**
+   * The part of a quote stored on a booking
+   */
+  static toPriceBreakdown(quote: BookingQuote): IPriceBreakdown {
+    return {
+      pricingType: quote.pricingType,
+      membershipType: quote.membershipType,
+      credits: quote.credits && {
+        planId: quote.credits.planId,
+        unit: quote.credits.unit,
+        amount: quote.credits.used,
+        periodEnd: quote.credits.periodEnd
+      },
+      lineItems: quote.lineItems,
+      subtotal: quote.subtotal,
+      discountAmount: quote.discountAmount,
+      quotedAt: new Date()
+    };
+  }
+
+  /**
+   * Add-ons recorded in a stored breakdown, so a re-quote keeps them
+   */
+  static addOnsFromBreakdown(breakdown?: IPriceBreakdown): RequestedAddOn[] {
+    return (breakdown?.lineItems || [])
+      .filter(item => item.type === 'add_on')
+      .map(item => ({ name: item.description, quantity: item.quantity }));
+  }
+
+  /**
+   * Line items for a product type pricing rule. Mirrors ProductType.calculatePrice for
+   * hourly and tiered pricing; day/week/month pricing charges each started unit.
+   */
+  private static priceByRule(pricing: IPricingRule, durationMinutes: number): PriceLineItem[] {
+    if (pricing.type === 'membership') {
+      return [{ type: 'base', description: 'Included in membership', quantity: 1, unitPrice: 0, amount: 0 }];
+    }
+
+    if (pricing.type === 'tiered' && pricing.tiers && pricing.tiers.length > 0) {
+      const items: PriceLineItem[] = [];
+      let remainingMinutes = durationMinutes;
+
+      for (const tier of pricing.tiers) {
+        if (remainingMinutes <= 0) break;
+
+        const tierMinutes = tier.duration ? Math.min(remainingMinutes, tier.duration) : remainingMinutes;
+        items.push({
+          type: 'tier',
+          description: `${tier.name} (${formatHours(tierMinutes)})`,
+          quantity: roundAmount(tierMinutes / 60),
+          unitPrice: tier.price,
+          amount: roundAmount((tierMinutes / 60) * tier.price)
+        });
+
+        if (!tier.duration) break; // Unlimited tier
+        remainingMinutes -= tier.duration;
+      }
+
+      return items;
+    }
+
+    if (!pricing.basePrice) {
+      return [];
+    }
+
+    const unit = UNIT_MINUTES[pricing.type];
+    if (unit) {
+      const units = Math.max(1, Math.ceil(durationMinutes / unit.minutes));
+      return [{
+        type: 'base',
+        description: `${units} ${unit.label}${units === 1 ? '' : 's'} at ${pricing.basePrice}/${unit.label}`,
+        quantity: units,
+        unitPrice: pricing.basePrice,
+        amount: roundAmount(units * pricing.basePrice)
+      }];
+    }
+
+    return [{
+      type: 'base',
+      description: `${formatHours(durationMinutes)} at ${pricing.basePrice}/hour`,
+      quantity: roundAmount(durationMinutes / 60),
+      unitPrice: pricing.basePrice,
+      amount: roundAmount((durationMinutes / 60) * pricing.basePrice)
+    }];
+  }
+
+  /**
+   * Spend the member's current-period credits on the space charge. Hour allowances cover
+   * booked time (every seat's, in seat-booked spaces), credit allowances cover money at the
+   * plan's credit value. Adds the
+   * covering line item and returns what was used, or undefined when nothing applies.
+   */
+  private static applyCredits(
+    lineItems: PriceLineItem[],
+    { plan, subscription }: ActiveMembership,
+    space: ISpace,
+    locationId: Types.ObjectId | undefined,
+    startTime: Date,
+    bookedMinutes: number,
+    currency: string,
+    releasedCredits: number
+  ): QuotedCredits | undefined {
+    const { allowance } = plan;
+    const balance = roundAmount(subscription.creditBalance + releasedCredits);
+    if (
+      balance <= 0 ||
+      subscription.creditUnit !== allowance.unit ||
+      !MembershipService.inCurrentPeriod(subscription, startTime) ||
+      !allowance.spaceTypes.includes(space.type) ||
+      !plan.coversLocation(locationId)
+    ) {
+      return undefined;
+    }
+
+    const charge = roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0));
+    let used: number;
+    let covered: number;
+
+    if (allowance.unit === 'hours') {
+      const hoursNeeded = roundAmount(bookedMinutes / 60);
+      used = Math.min(balance, hoursNeeded);
+      covered = used >= hoursNeeded ? charge : roundAmount(charge * used / hoursNeeded);
+    } else {
+      if (!allowance.creditValue || plan.currency.toUpperCase() !== currency.toUpperCase()) {
+        return undefined;
+      }
+      const creditsNeeded = Math.ceil(charge / allowance.creditValue * 100) / 100;
+      used = Math.min(balance, creditsNeeded);
+      covered = used >= creditsNeeded ? charge : Math.min(charge, roundAmount(used * allowance.creditValue));
+    }
+
+    if (used <= 0 || covered <= 0) {
+      return undefined;
+    }
+
+    const [singular, plural] = CREDIT_UNIT_LABELS[allowance.unit];
+    lineItems.push({
+      type: 'credits',
+      description: `${used} ${used === 1 ? singular : plural} from ${plan.name}`,
+      quantity: used,
+      unitPrice: -roundAmount(covered / used),
+      amount: -covered
+    });
+
+    return {
+      planId: plan._id,
+      planName: plan.name,
+      unit: allowance.unit,
+      used,
+      balance,
+      periodEnd: subscription.currentPeriodEnd
+    };
+  }
+
+  /**
+   * Member discount of the contact's membership, if it is active at the booking's start.
+   * Subscribed contacts match discounts set for their plan (by id, or by the plan name);
+   * others fall back to the free-text membership type.
+   */
+  private static findMemberDiscount(
+    pricing: IPricingRule,
+    contact: IContact | null | undefined,
+    activeMembership: ActiveMembership | null,
+    startTime: Date
+  ): NonNullable<IPricingRule['memberDiscounts']>[number] | null {
+    if (!pricing.memberDiscounts || pricing.memberDiscounts.length === 0) {
+      return null;
+    }
+
+    if (contact?.subscription) {
+      if (!activeMembership) return null;
+      const { plan } = activeMembership;
+      const planName = plan.name.toLowerCase();
+      return pricing.memberDiscounts.find(discount => discount.membershipPlanId?.toString() === plan._id.toString()) ||
+        pricing.memberDiscounts.find(discount => !discount.membershipPlanId && discount.membershipType.toLowerCase() === planName) ||
+        null;
+    }
+
+    const membership = contact?.membership;
+    if (!membership?.planType) {
+      return null;
+    }
+    if ((membership.startDate && membership.startDate > startTime) || (membership.endDate && membership.endDate < startTime)) {
+      return null;
+    }
+
+    const planType = membership.planType.toLowerCase();
+    return pricing.memberDiscounts.find(discount => discount.membershipType.toLowerCase() === planType) || null;
+  }
+
+  private static priceAddOns(requested: RequestedAddOn[], available: AvailableAddOn[], currency: string): PriceLineItem[] {
+    return requested.map(request => {
+      const addOn = available.find(candidate => candidate.name.toLowerCase() === request.name.trim().toLowerCase());
+      if (!addOn) {
+        throw new Error(`Add-on "${request.name}" is not available for this space`);
+      }
+      if (addOn.currency && addOn.currency.toUpperCase() !== currency.toUpperCase()) {
+        throw new Error(`Add-on "${addOn.name}" is priced in ${addOn.currency}, but this space is priced in ${currency}`);
+      }
+
+      const quantity = request.quantity || 1;
+      return {
+        type: 'add_on' as const,
+        description: addOn.name,
+        quantity,
+        unitPrice: addOn.price,
+        amount: roundAmount(quantity * addOn.price)
+      };
+    });
+  }
+}
+
+export default PricingService;
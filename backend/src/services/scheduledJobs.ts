@@ -0,0 +1,63 @@
+import { SchedulerService } from './schedulerService';
+import { BookingHoldService } from './bookingHoldService';
+import { BookingLifecycleService } from './bookingLifecycleService';
+import { StatsService } from './statsService';
+import { WaitlistService } from './waitlistService';
+import { MembershipService } from './membershipService';
+
+// Nightly jobs run at this wall-clock time, in the timezone most locations use
+const NIGHTLY_SCHEDULE = { dailyAt: '02:00', timezone: 'Asia/Kolkata' };
+
+/**
+ * Register the background jobs the server runs (see SchedulerService)
+ */
+export const registerScheduledJobs = (): void => {
+  SchedulerService.register({
+    name: 'expire-pending-holds',
+    description: 'Cancel pending bookings that were not confirmed or paid within their hold window',
+    schedule: { everyMinutes: 1 },
+    run: async () => ({ cancelled: await BookingHoldService.expireHolds() })
+  });
+
+  SchedulerService.register({
+    name: 'expire-waitlist-offers',
+    description: 'Pass waitlist offers that were not answered in time on to the next contact in line',
+    schedule: { everyMinutes: 1 },
+    run: async () => ({ expired: await WaitlistService.expireOffers() })
+  });
+
+  SchedulerService.register({
+    name: 'close-ended-bookings',
+    description: 'Mark ended bookings Completed or No Show from their check-in, and refresh location occupancy',
+    schedule: { everyMinutes: 15 },
+    run: async () => ({
+      ...(await BookingLifecycleService.closeEndedBookings()),
+      locationsRefreshed: await StatsService.recomputeAllLocationActivity()
+    })
+  });
+
+  SchedulerService.register({
+    name: 'finish-space-cleaning',
+    description: 'Make spaces marked Cleaning after a check-out Available again once their teardown time has passed',
+    schedule: { everyMinutes: 1 },
+    run: async () => ({ finished: await BookingLifecycleService.finishSpaceCleaning() })
+  });
+
+  SchedulerService.register({
+    name: 'renew-subscriptions',
+    description: 'Renew membership subscriptions whose period has ended, granting allowances and issuing invoices',
+    schedule: { everyMinutes: 60 },
+    leaseMs: 30 * 60 * 1000,
+    run: async () => ({ renewed: await MembershipService.renewAllDue() })
+  });
+
+  SchedulerService.register({
+    name: 'recompute-stats',
+    description: 'Recalculate the cached booking stats of spaces, product types and locations',
+    schedule: NIGHTLY_SCHEDULE,
+    leaseMs: 60 * 60 * 1000,
+    run: async () => ({ ...(await StatsService.recomputeAll()) })
+  });
+};
+
+export default registerScheduledJobs;
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { ScheduledJob, IScheduledJob } from '../models/ScheduledJob';
+import { JobRun, IJobRun } from '../models/JobRun';
+import { zonedDateTimeToUtc, formatDateInTimezone } from '../utils/timeValidation';
+import { addDaysToDateString } from '../utils/recurrence';
+
+export type JobSchedule =
+  | { everyMinutes: number }
+  | { dailyAt: string; timezone: string }; // "HH:MM" wall-clock time in the timezone
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  leaseMs?: number; // Longest the job may run before another instance can retry it
+  run: () => Promise<Record<string, unknown>>; // Returns a summary stored with the run
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  state: IScheduledJob | null;
+  recentRuns: IJobRun[];
+}
+
+const TICK_MS = 30 * 1000;
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+const errorMessage = (error: unknown): string =>
+  (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+
+/**
+ * First run of the schedule strictly after the given time
+ */
+export const getNextRunAt = (schedule: JobSchedule, from: Date): Date => {
+  if ('everyMinutes' in schedule) {
+    return new Date(from.getTime() + schedule.everyMinutes * 60 * 1000);
+  }
+
+  const today = formatDateInTimezone(from, schedule.timezone);
+  const todayRun = zonedDateTimeToUtc(today, schedule.dailyAt, schedule.timezone);
+  if (todayRun > from) return todayRun;
+
+  return zonedDateTimeToUtc(addDaysToDateString(today, 1), schedule.dailyAt, schedule.timezone);
+};
+
+/**
+ * In-process job runner. Every instance ticks, but a job's lease in the database lets
+ * only one of them run it at a time, and its next run time is stored so schedules
+ * carry over restarts.
+ */
+export class SchedulerService {
+  private static jobs = new Map<string, JobDefinition>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  static register(definition: JobDefinition): void {
+    this.jobs.set(definition.name, definition);
+  }
+
+  static getJob(name: string): JobDefinition | undefined {
+    return this.jobs.get(name);
+  }
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('❌ Error running scheduled jobs:', error);
+      });
+    }, TICK_MS);
+    console.log(`⏰ Scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job that is due, one after another
+   */
+  static async tick(): Promise<void> {
+    if (this.ticking) return; // The previous tick is still running a long job
+    this.ticking = true;
+    try {
+      for (const definition of this.jobs.values()) {
+        const now = new Date();
+        // New jobs are first run on their schedule, not when the server starts
+        await ScheduledJob.updateOne(
+          { name: definition.name },
+          { $setOnInsert: { nextRunAt: getNextRunAt(definition.schedule, now) } },
+          { upsert: true }
+        );
+
+        const lockToken = await this.claim(definition, { nextRunAt: { $lte: now } });
+        if (lockToken) {
+          const run = await this.startRun(definition, 'schedule');
+          await this.execute(definition, run, lockToken, true);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Start a job outside its schedule. Resolves with the run as soon as it has started,
+   * or null when the job is already running.
+   */
+  static async runNow(name: string, userId: Types.ObjectId): Promise<IJobRun | null> {
+    const definition = this.jobs.get(name);
+    if (!definition) {
+      throw new Error(`Unknown job ${name}`);
+    }
+
+    await ScheduledJob.updateOne(
+      { name },
+      { $setOnInsert: { nextRunAt: getNextRunAt(definition.schedule, new Date()) } },
+      { upsert: true }
+    );
+
+    const lockToken = await this.claim(definition, {});
+    if (!lockToken) return null;
+
+    const run = await this.startRun(definition, 'manual', userId);
+    // The schedule is left as it was
+    this.execute(definition, run, lockToken, false).catch((error) => {
+      console.error(`❌ Error finishing manual run of job ${name}:`, error);
+    });
+    return run;
+  }
+
+  static async getStatus(runLimit: number = 10): Promise<JobStatus[]> {
+    const definitions = Array.from(this.jobs.values());
+    const states = await ScheduledJob.find({ name: { $in: definitions.map(d => d.name) } });
+
+    return Promise.all(definitions.map(async (definition) => ({
+      name: definition.name,
+      description: definition.description,
+      schedule: definition.schedule,
+      state: states.find(state => state.name === definition.name) || null,
+      recentRuns: await JobRun.find({ jobName: definition.name })
+        .sort({ startedAt: -1 })
+        .limit(runLimit)
+    })));
+  }
+
+  /**
+   * Take the job's lease when it is free and matches the extra conditions
+   */
+  private static async claim(definition: JobDefinition, conditions: Record<string, unknown>): Promise<string | null> {
+    const now = new Date();
+    const lockToken = crypto.randomBytes(12).toString('hex');
+
+    const claimed = await ScheduledJob.findOneAndUpdate(
+      {
+        name: definition.name,
+        ...conditions,
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] // null also matches a missing lease
+      },
+      {
+        $set: {
+          lockToken,
+          lockedUntil: new Date(now.getTime() + (definition.leaseMs || DEFAULT_LEASE_MS)),
+          lastStartedAt: now,
+          lastStatus: 'Running'
+        }
+      },
+      { new: true }
+    );
+    return claimed ? lockToken : null;
+  }
+
+  private static async startRun(definition: JobDefinition, trigger: IJobRun['trigger'], userId?: Types.ObjectId): Promise<IJobRun> {
+    return JobRun.create({
+      jobName: definition.name,
+      trigger,
+      triggeredBy: userId,
+      status: 'Running',
+      startedAt: new Date()
+    });
+  }
+
+  private static async execute(definition: JobDefinition, run: IJobRun, lockToken: string, reschedule: boolean): Promise<void> {
+    let result: Record<string, unknown> | undefined;
+    let failure: string | undefined;
+    try {
+      result = await definition.run();
+    } catch (error) {
+      failure = errorMessage(error);
+      console.error(`❌ Job ${definition.name} failed:`, error);
+    }
+
+    const finishedAt = new Date();
+    const status = failure ? 'Failed' : 'Succeeded';
+
+    run.status = status;
+    run.finishedAt = finishedAt;
+    run.durationMs = finishedAt.getTime() - run.startedAt.getTime();
+    run.result = result;
+    run.error = failure;
+    await run.save();
+
+    // Only the holder of the lease finishes the run; a lapsed lease may have been taken over
+    await ScheduledJob.updateOne(
+      { name: definition.name, lockToken },
+      {
+        $set: {
+          lastFinishedAt: finishedAt,
+          lastStatus: status,
+          ...(failure && { lastError: failure }),
+          ...(reschedule && { nextRunAt: getNextRunAt(definition.schedule, finishedAt) })
+        },
+        $unset: { lockToken: 1, lockedUntil: 1, ...(!failure && { lastError: 1 }) }
+      }
+    );
+  }
+}
+
+export default SchedulerService;
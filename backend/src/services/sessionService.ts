@@ -0,0 +1,190 @@
+import { Types } from 'mongoose';
+import { IUser, User } from '../models/User';
+import { ISession, Session, SessionRevokedReason } from '../models/Session';
+import { generateSecureToken, hashToken } from '../utils/secureToken';
+import {
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  deriveRefreshTokenId,
+  REFRESH_TOKEN_TTL_MS
+} from '../utils/jwt';
+
+// Two tabs refreshing with the same token at once should not be treated as token theft
+const ROTATION_GRACE_PERIOD_MS = 10 * 1000;
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  session: ISession;
+}
+
+export interface RotatedSession extends SessionTokens {
+  user: IUser;
+}
+
+export class SessionService {
+  /**
+   * Sign an access/refresh token pair bound to the session's current token id
+   */
+  private static issueTokens(user: IUser, session: ISession, tokenId: string): SessionTokens {
+    const sessionId = session._id.toString();
+    return {
+      token: generateToken(user, sessionId),
+      refreshToken: generateRefreshToken(user, sessionId, tokenId),
+      session
+    };
+  }
+
+  /**
+   * Start a new session for a user who just signed in or registered
+   */
+  static async createSession(user: IUser, context: SessionContext = {}): Promise<SessionTokens> {
+    const { token: tokenId, hashedToken } = generateSecureToken();
+    const now = new Date();
+
+    const session = await Session.create({
+      userId: user._id,
+      refreshTokenHash: hashedToken,
+      userAgent: context.userAgent?.substring(0, 500),
+      ipAddress: context.ipAddress,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS)
+    });
+
+    return this.issueTokens(user, session, tokenId);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, invalidating the presented one.
+   * Presenting a token that was already rotated revokes the whole session, unless it was
+   * rotated within the grace period, which returns the pair that rotation issued.
+   */
+  static async rotateSession(refreshToken: string, context: SessionContext = {}): Promise<RotatedSession | null> {
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch (error) {
+      return null;
+    }
+
+    if (!Types.ObjectId.isValid(payload.sessionId)) {
+      return null;
+    }
+
+    const user = await User.findById(payload.userId).select('-password');
+    if (!user) {
+      return null;
+    }
+
+    const presentedHash = hashToken(payload.tokenId);
+    const tokenId = deriveRefreshTokenId(payload.tokenId);
+    const now = new Date();
+
+    const touched = {
+      lastUsedAt: now,
+      ...(context.userAgent && { userAgent: context.userAgent.substring(0, 500) }),
+      ...(context.ipAddress && { ipAddress: context.ipAddress })
+    };
+
+    const activeFilter = {
+      _id: payload.sessionId,
+      userId: user._id,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now }
+    };
+
+    // Conditional update so concurrent refreshes cannot both consume the same token
+    let session = await Session.findOneAndUpdate(
+      { ...activeFilter, refreshTokenHash: presentedHash },
+      {
+        $set: {
+          ...touched,
+          refreshTokenHash: hashToken(tokenId),
+          previousRefreshTokenHash: presentedHash,
+          rotatedAt: now,
+          expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS)
+        }
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      // The token was just rotated by another refresh: hand out the same pair again rather
+      // than rotating once more, which would leave the other tab holding a stale token
+      session = await Session.findOneAndUpdate(
+        {
+          ...activeFilter,
+          refreshTokenHash: hashToken(tokenId),
+          previousRefreshTokenHash: presentedHash,
+          rotatedAt: { $gt: new Date(now.getTime() - ROTATION_GRACE_PERIOD_MS) }
+        },
+        { $set: touched },
+        { new: true }
+      );
+    }
+
+    if (!session) {
+      // Valid signature but stale token id: someone is replaying an old refresh token
+      const revoked = await Session.updateOne(activeFilter, {
+        $set: { revokedAt: now, revokedReason: 'token_reuse' }
+      });
+      if (revoked.modifiedCount > 0) {
+        console.warn(`⚠️ Refresh token reuse detected for session ${payload.sessionId}, session revoked`);
+      }
+      return null;
+    }
+
+    return { ...this.issueTokens(user, session, tokenId), user };
+  }
+
+  /**
+   * Check that the session behind an access token has not been revoked
+   */
+  static async isSessionActive(sessionId: string, userId: Types.ObjectId | string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const session = await Session.exists({
+      _id: sessionId,
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    });
+    return !!session;
+  }
+
+  /**
+   * Revoke a single session (e.g. on logout)
+   */
+  static async revokeSession(sessionId: string, reason: SessionRevokedReason): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const result = await Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke every active session a user has, returning how many were revoked
+   */
+  static async revokeAllSessions(userId: Types.ObjectId | string, reason: SessionRevokedReason): Promise<number> {
+    const result = await Session.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+  }
+}
+
+export default SessionService;
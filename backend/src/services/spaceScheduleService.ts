@@ -0,0 +1,127 @@
+import { Types } from 'mongoose';
+import { IWorkingHours } from '../models/Space';
+import { ProductType, IProductType } from '../models/ProductType';
+import { Location, ILocation, IDayHours, DayOfWeek } from '../models/Location';
+import { BusinessHoursSource } from '../utils/timeValidation';
+
+export type ScheduleSource = 'space' | 'product_type' | 'location';
+
+export interface WeeklyHours {
+  day: DayOfWeek;
+  isOpen: boolean;
+  openTime?: string;
+  closeTime?: string;
+}
+
+/**
+ * Hours a space can be booked in. Location holidays and special dates apply on top of
+ * space and product type hours: closed dates close the space, shortened dates shorten it.
+ */
+export interface EffectiveSchedule extends BusinessHoursSource {
+  source: ScheduleSource;
+  weeklyHours: WeeklyHours[];
+}
+
+// What the schedule is resolved from: a space, or the settings of one being edited
+export interface ScheduleInput {
+  workingHours: IWorkingHours[];
+  useProductTypeHours?: boolean;
+  productTypeId?: Types.ObjectId | IProductType | string;
+  locationId?: Types.ObjectId | ILocation | string;
+}
+
+const DAYS_OF_WEEK: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEK: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const toWeeklyHours = (hours: Array<{ day: string; isOpen: boolean; openTime?: string; closeTime?: string }>): WeeklyHours[] =>
+  WEEK.map(day => {
+    const dayHours = hours.find(h => h.day === day);
+    return dayHours?.isOpen && dayHours.openTime && dayHours.closeTime
+      ? { day, isOpen: true, openTime: dayHours.openTime, closeTime: dayHours.closeTime }
+      : { day, isOpen: false };
+  });
+
+// Hours open on both: the weekly hours cut down to a location's shortened date
+const intersectHours = (hours: WeeklyHours, locationHours: IDayHours): IDayHours => {
+  const { openTime, closeTime } = locationHours;
+  if (!hours.isOpen || !hours.openTime || !hours.closeTime) {
+    return { isOpen: false, exception: locationHours.exception };
+  }
+  if (!openTime || !closeTime) {
+    return { isOpen: true, openTime: hours.openTime, closeTime: hours.closeTime, notes: locationHours.notes, exception: locationHours.exception };
+  }
+
+  // Hours past midnight aren't cut down; the location's hours for the date apply
+  if (hours.closeTime <= hours.openTime || closeTime <= openTime) {
+    return { ...locationHours };
+  }
+
+  const open = hours.openTime > openTime ? hours.openTime : openTime;
+  const close = hours.closeTime < closeTime ? hours.closeTime : closeTime;
+  return open < close
+    ? { isOpen: true, openTime: open, closeTime: close, notes: locationHours.notes, exception: locationHours.exception }
+    : { isOpen: false, notes: locationHours.notes, exception: locationHours.exception };
+};
+
+const buildSchedule = (source: ScheduleSource, weeklyHours: WeeklyHours[], location: ILocation | null): EffectiveSchedule => ({
+  source,
+  weeklyHours,
+  timezone: location?.timezone || 'Asia/Kolkata',
+  getHoursForDate(date: string): IDayHours {
+    if (source === 'location' && location) {
+      return location.getHoursForDate(date);
+    }
+
+    const day = DAYS_OF_WEEK[new Date(`${date}T00:00:00Z`).getUTCDay()];
+    const hours = weeklyHours.find(h => h.day === day) || { day, isOpen: false };
+    const locationHours = location?.getHoursForDate(date);
+
+    if (locationHours?.exception) {
+      return locationHours.isOpen ? intersectHours(hours, locationHours) : { ...locationHours };
+    }
+    return { isOpen: hours.isOpen, openTime: hours.openTime, closeTime: hours.closeTime };
+  }
+});
+
+export class SpaceScheduleService {
+  /**
+   * Effective schedule of a space. Spaces using product type hours take the product
+   * type's custom hours, or the location's hours when it uses the location default;
+   * other spaces, and spaces without a product type, use their own working hours.
+   */
+  static async getEffectiveSchedule(input: ScheduleInput): Promise<EffectiveSchedule> {
+    const productType = input.useProductTypeHours !== false && input.productTypeId
+      ? input.productTypeId instanceof ProductType
+        ? input.productTypeId
+        : await ProductType.findById(input.productTypeId).select('operatingHours locationId')
+      : null;
+
+    const locationRef = input.locationId || productType?.locationId;
+    const location = !locationRef
+      ? null
+      : locationRef instanceof Location
+        ? locationRef
+        : await Location.findById(locationRef).select('operatingHours dateExceptions timezone');
+
+    if (productType) {
+      const custom = productType.operatingHours;
+      if (custom && !custom.useLocationDefault && custom.customHours && custom.customHours.length > 0) {
+        const weeklyHours = toWeeklyHours(custom.customHours.map(h => ({
+          day: h.day,
+          isOpen: h.isAvailable,
+          openTime: h.startTime,
+          closeTime: h.endTime
+        })));
+        return buildSchedule('product_type', weeklyHours, location);
+      }
+
+      if (location) {
+        return buildSchedule('location', toWeeklyHours(location.operatingHours), location);
+      }
+    }
+
+    return buildSchedule('space', toWeeklyHours(input.workingHours || []), location);
+  }
+}
+
+export default SpaceScheduleService;
@@ -0,0 +1,206 @@
+import { Types } from 'mongoose';
+import { Booking } from '../models/Booking';
+import { Space, ISpace, SpaceType } from '../models/Space';
+import { Location, ILocation } from '../models/Location';
+import { MAX_BUFFER_MINUTES } from '../models/ProductType';
+import { BookingService } from './bookingService';
+import { PricingService } from './pricingService';
+import { SpaceScheduleService, ScheduleSource } from './spaceScheduleService';
+import {
+  generateAvailableTimeSlots,
+  validateBookingTime,
+  zonedDateTimeToUtc,
+  DEFAULT_TIME_CONFIG
+} from '../utils/timeValidation';
+import { addDaysToDateString } from '../utils/recurrence';
+
+export interface SpaceSearchCriteria {
+  date: string; // "YYYY-MM-DD", in each space's location timezone
+  startTime?: string; // "HH:MM"; with endTime, only spaces free for exactly this window match
+  endTime?: string;
+  duration: number; // Minutes; ignored when a window is given
+  attendees: number; // Seats needed, or minimum capacity for exclusively booked spaces
+  amenities: string[];
+  locationId?: string;
+  locationCode?: string;
+  type?: SpaceType;
+  limit: number;
+}
+
+export interface FreeSlot {
+  startTime: Date;
+  endTime: Date;
+  seatsRemaining?: number;
+}
+
+export interface SpaceSearchResult {
+  space: {
+    _id: Types.ObjectId;
+    name: string;
+    type: SpaceType;
+    capacity: number;
+    floor?: string;
+    amenities: string[];
+    seatBooking: boolean;
+    hoursSource: ScheduleSource;
+  };
+  location: { _id: Types.ObjectId; name: string; code: string; timezone: string } | null;
+  freeSlots: FreeSlot[];
+  quote: { totalAmount: number; currency: string; durationMinutes: number } | null; // For the first free slot
+}
+
+// Search cost grows with each space's bookings and slots, so candidates are capped
+const MAX_CANDIDATE_SPACES = 200;
+
+// "Conference_Room", "conference room" and "Conference-Room" name the same amenity
+const normalizeAmenity = (amenity: string): string => amenity.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+
+export class SpaceSearchService {
+  /**
+   * Find the organization's spaces with free time on a date that meet the criteria, each
+   * with its free slots and the price of the first one. Results are ranked by how well
+   * the capacity fits the group, then price, then the earliest free slot.
+   * Returns null when the requested location doesn't exist.
+   */
+  static async search(organizationId: Types.ObjectId | string, criteria: SpaceSearchCriteria, now: Date = new Date()): Promise<SpaceSearchResult[] | null> {
+    // Occupied and Cleaning describe the space right now, not on the searched date
+    const query: any = { organizationId, isActive: true, status: { $nin: ['Maintenance', 'Out of Service'] } };
+    if (criteria.type) query.type = criteria.type;
+
+    if (criteria.locationId || criteria.locationCode) {
+      const location = await Location.findOne({
+        organizationId,
+        ...(criteria.locationId ? { _id: criteria.locationId } : { code: criteria.locationCode!.toUpperCase() })
+      }).select('_id');
+      if (!location) return null;
+      query.locationId = location._id;
+    }
+
+    const spaces = await Space.find(query)
+      .populate('locationId', 'name code amenities operatingHours dateExceptions timezone allowSameDayBooking')
+      .limit(MAX_CANDIDATE_SPACES);
+
+    const wanted = criteria.amenities.map(normalizeAmenity);
+    const candidates: ISpace[] = [];
+    for (const space of spaces) {
+      const location = space.locationId as unknown as ILocation | undefined;
+      const amenities = [...await space.getEffectiveAmenities(), ...space.equipment, ...(location?.amenities || [])]
+        .map(normalizeAmenity);
+      if (wanted.every(amenity => amenities.includes(amenity))) {
+        candidates.push(space);
+      }
+    }
+    if (candidates.length === 0) return [];
+
+    // Bookings from the start of the date (UTC+14) to the end of the next (UTC-12) cover every
+    // timezone, with room for the longest setup and teardown on either side
+    const rangeStart = new Date(Date.parse(`${criteria.date}T00:00:00Z`) - (14 * 60 + 2 * MAX_BUFFER_MINUTES) * 60 * 1000);
+    const rangeEnd = new Date(Date.parse(`${addDaysToDateString(criteria.date, 2)}T00:00:00Z`) + (12 * 60 + 2 * MAX_BUFFER_MINUTES) * 60 * 1000);
+    const bookings = await Booking.find({
+      spaceId: { $in: candidates.map(space => space._id) },
+      status: { $in: ['Pending', 'Confirmed'] },
+      startTime: { $lt: rangeEnd },
+      endTime: { $gt: rangeStart }
+    }).select('spaceId startTime endTime attendeeCount');
+
+    const results: SpaceSearchResult[] = [];
+    for (const space of candidates) {
+      const result = await this.findFreeTime(space, bookings.filter(booking => booking.spaceId.equals(space._id)), criteria, now);
+      if (result) results.push(result);
+    }
+
+    return results
+      .sort((a, b) =>
+        (a.space.seatBooking ? 0 : a.space.capacity - criteria.attendees) - (b.space.seatBooking ? 0 : b.space.capacity - criteria.attendees) ||
+        (a.quote?.totalAmount ?? Infinity) - (b.quote?.totalAmount ?? Infinity) ||
+        a.freeSlots[0].startTime.getTime() - b.freeSlots[0].startTime.getTime() ||
+        a.space.name.localeCompare(b.space.name))
+      .slice(0, criteria.limit);
+  }
+
+  /**
+   * Free slots of one space on the searched date, or null when it has none that fit
+   */
+  private static async findFreeTime(
+    space: ISpace,
+    bookings: Array<{ startTime: Date; endTime: Date; attendeeCount: number }>,
+    criteria: SpaceSearchCriteria,
+    now: Date
+  ): Promise<SpaceSearchResult | null> {
+    const seatBooking = await space.usesSeatBooking();
+    if (!seatBooking && space.capacity < criteria.attendees) return null;
+
+    const location = space.locationId as unknown as ILocation | undefined;
+    const schedule = await SpaceScheduleService.getEffectiveSchedule(space);
+    const buffers = await space.getEffectiveBuffers();
+
+    let candidates: Array<{ startTime: Date; endTime: Date }>;
+    if (criteria.startTime && criteria.endTime) {
+      const startTime = zonedDateTimeToUtc(criteria.date, criteria.startTime, schedule.timezone);
+      const endDate = criteria.endTime <= criteria.startTime ? addDaysToDateString(criteria.date, 1) : criteria.date;
+      candidates = [{ startTime, endTime: zonedDateTimeToUtc(endDate, criteria.endTime, schedule.timezone) }];
+    } else {
+      candidates = generateAvailableTimeSlots(criteria.date, criteria.duration, schedule, [], now);
+    }
+
+    const freeSlots: FreeSlot[] = [];
+    for (const slot of candidates) {
+      const durationMinutes = Math.round((slot.endTime.getTime() - slot.startTime.getTime()) / (1000 * 60));
+      if (durationMinutes < space.minimumBookingDuration || durationMinutes > space.maximumBookingDuration) continue;
+
+      const validation = validateBookingTime(slot.startTime, slot.endTime, location, {
+        minimumAdvanceMinutes: DEFAULT_TIME_CONFIG.minimumAdvanceMinutes,
+        maximumAdvanceDays: space.advanceBookingLimit || DEFAULT_TIME_CONFIG.maximumAdvanceDays,
+        respectOperatingHours: true,
+        schedule
+      }, now);
+      if (!validation.isValid) continue;
+
+      const turnaround = BookingService.getTurnaroundWindow(slot, buffers);
+      if (seatBooking) {
+        const seatsRemaining = BookingService.getSeatsRemaining(space, bookings, turnaround.startTime, turnaround.endTime);
+        if (seatsRemaining >= criteria.attendees) {
+          freeSlots.push({ startTime: slot.startTime, endTime: slot.endTime, seatsRemaining });
+        }
+      } else if (!bookings.some(booking => booking.startTime < turnaround.endTime && booking.endTime > turnaround.startTime)) {
+        freeSlots.push({ startTime: slot.startTime, endTime: slot.endTime });
+      }
+    }
+
+    if (freeSlots.length === 0) return null;
+
+    let quote: SpaceSearchResult['quote'] = null;
+    try {
+      const price = await PricingService.quote({
+        space,
+        startTime: freeSlots[0].startTime,
+        endTime: freeSlots[0].endTime,
+        attendeeCount: criteria.attendees,
+        useCredits: false
+      });
+      quote = { totalAmount: price.totalAmount, currency: price.currency, durationMinutes: price.durationMinutes };
+    } catch (error) {
+      console.error('Error quoting space for search:', space._id, error);
+    }
+
+    return {
+      space: {
+        _id: space._id,
+        name: space.name,
+        type: space.type,
+        capacity: space.capacity,
+        floor: space.floor,
+        amenities: space.amenities,
+        seatBooking,
+        hoursSource: schedule.source
+      },
+      location: location
+        ? { _id: location._id, name: location.name, code: location.code, timezone: location.timezone }
+        : null,
+      freeSlots,
+      quote
+    };
+  }
+}
+
+export default SpaceSearchService;
@@ -0,0 +1,276 @@
+import { Types } from 'mongoose';
+import { Booking } from '../models/Booking';
+import { Space, ISpace } from '../models/Space';
+import { ProductType } from '../models/ProductType';
+import { Location, ILocation } from '../models/Location';
+import { Organization } from '../models/Organization';
+import { zonedDateTimeToUtc, formatDateInTimezone } from '../utils/timeValidation';
+import { addDaysToDateString } from '../utils/recurrence';
+
+export interface StatsResult {
+  organizations: number;
+  spaces: number;
+  productTypes: number;
+  locations: number;
+}
+
+interface RecentBooking {
+  spaceId: Types.ObjectId;
+  startTime: Date;
+  endTime: Date;
+  attendeeCount: number;
+  status: string;
+  totalAmount: number;
+}
+
+const STATS_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Bookings that held their slot; cancelled ones didn't
+const HELD_STATUSES = ['Pending', 'Confirmed', 'Completed', 'No Show'];
+// Bookings counted as revenue, as in the analytics dashboard
+const REVENUE_STATUSES = ['Confirmed', 'Completed'];
+
+const round = (value: number, decimals: number = 0): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes the location was open over the window ending now, after holidays and special
+ * dates; around the clock without a location
+ */
+const getOpenMinutes = (location: ILocation | undefined, now: Date): number => {
+  if (!location) return STATS_WINDOW_DAYS * 24 * 60;
+
+  let total = 0;
+  for (let i = 0; i < STATS_WINDOW_DAYS; i++) {
+    const hours = location.getHoursForDate(formatDateInTimezone(new Date(now.getTime() - i * DAY_MS), location.timezone));
+    if (!hours.isOpen || !hours.openTime || !hours.closeTime) continue;
+
+    const open = toMinutes(hours.openTime);
+    const close = toMinutes(hours.closeTime);
+    total += close > open ? close - open : close + 24 * 60 - open; // Past midnight
+  }
+  return total;
+};
+
+const overlapMinutes = (booking: RecentBooking, from: Date, to: Date): number => {
+  const start = Math.max(booking.startTime.getTime(), from.getTime());
+  const end = Math.min(booking.endTime.getTime(), to.getTime());
+  return Math.max(0, end - start) / (60 * 1000);
+};
+
+const formatHourRange = (hour: number): string =>
+  `${String(hour).padStart(2, '0')}:00-${String((hour + 1) % 24).padStart(2, '0')}:00`;
+
+export class StatsService {
+  /**
+   * Recompute the cached stats of every organization's spaces, product types and locations
+   */
+  static async recomputeAll(now: Date = new Date()): Promise<StatsResult> {
+    const organizationIds: Types.ObjectId[] = await Organization.distinct('_id');
+    const result: StatsResult = { organizations: 0, spaces: 0, productTypes: 0, locations: 0 };
+
+    for (const organizationId of organizationIds) {
+      try {
+        const counts = await this.recomputeOrganization(organizationId, now);
+        result.organizations++;
+        result.spaces += counts.spaces;
+        result.productTypes += counts.productTypes;
+        result.locations += counts.locations;
+      } catch (error) {
+        console.error(`❌ Error recomputing stats of organization ${organizationId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  static async recomputeOrganization(organizationId: Types.ObjectId, now: Date = new Date()): Promise<Omit<StatsResult, 'organizations'>> {
+    const windowStart = new Date(now.getTime() - STATS_WINDOW_DAYS * DAY_MS);
+
+    const [locations, spaces, productTypes] = await Promise.all([
+      Location.find({ organizationId }),
+      Space.find({ organizationId }),
+      ProductType.find({ organizationId })
+    ]);
+    const locationsById = new Map(locations.map(location => [location._id.toString(), location]));
+
+    const totals = await Booking.aggregate([
+      { $match: { organizationId, status: { $in: HELD_STATUSES } } },
+      {
+        $group: {
+          _id: '$spaceId',
+          totalBookings: { $sum: 1 },
+          totalMinutes: { $sum: { $divide: [{ $subtract: ['$endTime', '$startTime'] }, 60 * 1000] } },
+          revenue: { $sum: { $cond: [{ $in: ['$status', REVENUE_STATUSES] }, '$totalAmount', 0] } },
+          lastBookingDate: { $max: { $cond: [{ $lte: ['$startTime', now] }, '$startTime', null] } }
+        }
+      }
+    ]);
+    const totalsBySpace = new Map(totals.map(total => [total._id.toString(), total]));
+
+    const recentBookings: RecentBooking[] = await Booking.find({
+      organizationId,
+      status: { $in: HELD_STATUSES },
+      startTime: { $lt: now },
+      endTime: { $gt: windowStart }
+    }).select('spaceId startTime endTime attendeeCount status totalAmount').lean();
+
+    const bookingsBySpace = new Map<string, RecentBooking[]>();
+    for (const booking of recentBookings) {
+      const key = booking.spaceId.toString();
+      bookingsBySpace.set(key, [...(bookingsBySpace.get(key) || []), booking]);
+    }
+
+    // Spaces
+    const occupancyBySpace = new Map<string, number>();
+    const openMinutesByLocation = new Map<string, number>();
+    for (const space of spaces) {
+      const location = space.locationId ? locationsById.get(space.locationId.toString()) : undefined;
+      const locationKey = location?._id.toString() || '';
+      if (!openMinutesByLocation.has(locationKey)) {
+        openMinutesByLocation.set(locationKey, getOpenMinutes(location, now));
+      }
+      const openMinutes = openMinutesByLocation.get(locationKey)!;
+
+      // A seat-booked space is only fully occupied when all its seats are taken
+      const seatBooked = await space.usesSeatBooking();
+      const occupiedMinutes = (bookingsBySpace.get(space._id.toString()) || []).reduce((sum, booking) => {
+        const share = seatBooked ? Math.min(booking.attendeeCount, space.capacity) / space.capacity : 1;
+        return sum + overlapMinutes(booking, windowStart, now) * share;
+      }, 0);
+      const occupancyRate = openMinutes > 0 ? Math.min(100, round(occupiedMinutes / openMinutes * 100, 1)) : 0;
+      occupancyBySpace.set(space._id.toString(), occupancyRate);
+
+      const total = totalsBySpace.get(space._id.toString());
+      await Space.updateOne({ _id: space._id }, {
+        $set: {
+          'stats.totalBookings': total?.totalBookings || 0,
+          'stats.totalBookingHours': round((total?.totalMinutes || 0) / 60, 2),
+          'stats.averageBookingDuration': total ? round(total.totalMinutes / total.totalBookings) : 0,
+          'stats.occupancyRate': occupancyRate,
+          'stats.revenue': total?.revenue || 0,
+          ...(total?.lastBookingDate && { 'stats.lastBookingDate': total.lastBookingDate })
+        }
+      });
+    }
+
+    // Product types, over the spaces of each type
+    for (const productType of productTypes) {
+      const typeSpaces = spaces.filter(space => space.productTypeId?.equals(productType._id));
+      const typeBookings = typeSpaces.flatMap(space =>
+        (bookingsBySpace.get(space._id.toString()) || []).map(booking => ({ booking, space }))
+      ).filter(({ booking }) => booking.startTime >= windowStart);
+
+      const totalMinutes = typeBookings.reduce((sum, { booking }) =>
+        sum + (booking.endTime.getTime() - booking.startTime.getTime()) / (60 * 1000), 0);
+
+      // Busiest start hours in each space's local time
+      const startsByHour = new Map<number, number>();
+      for (const { booking, space } of typeBookings) {
+        const location = space.locationId ? locationsById.get(space.locationId.toString()) : undefined;
+        const hour = Number(new Intl.DateTimeFormat('en-GB', {
+          timeZone: location?.timezone || DEFAULT_TIMEZONE,
+          hourCycle: 'h23',
+          hour: '2-digit'
+        }).format(booking.startTime));
+        startsByHour.set(hour, (startsByHour.get(hour) || 0) + 1);
+      }
+      const topBookingHours = Array.from(startsByHour.entries())
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, 3)
+        .map(([hour]) => formatHourRange(hour));
+
+      const occupancyRates = typeSpaces.map(space => occupancyBySpace.get(space._id.toString()) || 0);
+
+      await ProductType.updateOne({ _id: productType._id }, {
+        $set: {
+          'stats.totalSpacesGenerated': spaces.filter(space =>
+            space.autoGenerated && space.generationSource?.productTypeId?.equals(productType._id)).length,
+          'stats.averageOccupancyRate': occupancyRates.length > 0
+            ? round(occupancyRates.reduce((sum, rate) => sum + rate, 0) / occupancyRates.length, 1)
+            : 0,
+          'stats.totalBookingsLast30Days': typeBookings.length,
+          'stats.averageBookingDuration': typeBookings.length > 0 ? round(totalMinutes / typeBookings.length) : 0,
+          'stats.topBookingHours': topBookingHours,
+          'stats.totalRevenueLast30Days': typeBookings
+            .filter(({ booking }) => REVENUE_STATUSES.includes(booking.status))
+            .reduce((sum, { booking }) => sum + booking.totalAmount, 0)
+        }
+      });
+    }
+
+    // Locations
+    for (const location of locations) {
+      await this.recomputeLocationActivity(location, spaces, now);
+    }
+
+    return { spaces: spaces.length, productTypes: productTypes.length, locations: locations.length };
+  }
+
+  /**
+   * Refresh the location's figures for today, which go stale within hours: spaces,
+   * bookings starting today (location time) and people checked in right now
+   */
+  static async recomputeLocationActivity(location: ILocation, spaces?: ISpace[], now: Date = new Date()): Promise<void> {
+    const locationSpaces = spaces
+      ? spaces.filter(space => space.locationId?.equals(location._id))
+      : await Space.find({ locationId: location._id });
+    const spaceIds = locationSpaces.map(space => space._id);
+
+    const timezone = location.timezone || DEFAULT_TIMEZONE;
+    const today = formatDateInTimezone(now, timezone);
+    const dayStart = zonedDateTimeToUtc(today, '00:00', timezone);
+    const dayEnd = zonedDateTimeToUtc(addDaysToDateString(today, 1), '00:00', timezone);
+
+    const [totalBookingsToday, occupancy] = await Promise.all([
+      Booking.countDocuments({
+        spaceId: { $in: spaceIds },
+        status: { $in: HELD_STATUSES },
+        startTime: { $gte: dayStart, $lt: dayEnd }
+      }),
+      Booking.aggregate([
+        {
+          $match: {
+            spaceId: { $in: spaceIds },
+            status: { $in: ['Pending', 'Confirmed'] },
+            checkedIn: true,
+            checkOutTime: null,
+            startTime: { $lte: now },
+            endTime: { $gt: now }
+          }
+        },
+        { $group: { _id: null, attendees: { $sum: '$attendeeCount' } } }
+      ])
+    ]);
+
+    await Location.updateOne({ _id: location._id }, {
+      $set: {
+        'stats.totalSpaces': locationSpaces.filter(space => space.isActive).length,
+        'stats.totalBookingsToday': totalBookingsToday,
+        'stats.currentOccupancy': occupancy[0]?.attendees || 0
+      }
+    });
+  }
+
+  /**
+   * Refresh every active location's figures for today
+   */
+  static async recomputeAllLocationActivity(now: Date = new Date()): Promise<number> {
+    const locations = await Location.find({ isActive: true });
+    for (const location of locations) {
+      await this.recomputeLocationActivity(location, undefined, now);
+    }
+    return locations.length;
+  }
+}
+
+export default StatsService;
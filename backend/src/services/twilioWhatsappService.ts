@@ -1,6 +1,10 @@
 import { Twilio } from "twilio";
 import { WhatsAppMessage, IWhatsAppMessage } from "../models/WhatsAppMessage";
-import { Contact } from "../models/Contact";
+import { Contact, IContact } from "../models/Contact";
+import { Organization } from "../models/Organization";
+import { WhatsAppChannel, IWhatsAppChannel } from "../models/WhatsAppChannel";
+import autoReplyService from "./autoReplyService";
+import { normalizePhoneNumber } from "../utils/phoneNumber";
 import mongoose from "mongoose";
 
 export interface SendMessageRequest {
@@ -8,6 +12,14 @@ export interface SendMessageRequest {
   toNumber: string; // Format: +1234567890
   messageBody: string;
   contactId?: string;
+  mediaUrl?: string; // Public URL of an image to attach
+}
+
+export interface MessageStatusUpdate {
+  messageSid: string;
+  status: string; // Twilio MessageStatus: queued, sent, delivered, read, failed, undelivered...
+  errorCode?: string;
+  errorMessage?: string;
 }
 
 export interface TwilioWebhookData {
@@ -19,12 +31,12 @@ export interface TwilioWebhookData {
   NumSegments?: string;
   MediaUrl0?: string;
   MediaContentType0?: string;
+  ProfileName?: string; // Sender's WhatsApp profile name
 }
 
 export class TwilioWhatsAppService {
-  private twilioClient!: Twilio;
-  private fromNumber!: string;
-  private isInitialized: boolean = false;
+  // Twilio clients are cached per channel; an entry is dropped whenever its channel changes
+  private clients = new Map<string, Twilio>();
 
   /**
    * Validate phone number format
@@ -42,39 +54,71 @@ export class TwilioWhatsAppService {
     return process.env.ENABLE_WHATSAPP === "true";
   }
 
-  /**
-   * Initialize Twilio client only when needed and feature is enabled
-   */
-  private initialize(): void {
-    if (this.isInitialized) return;
-
+  private ensureEnabled(): void {
     if (!this.isWhatsAppEnabled()) {
       throw new Error("WhatsApp service is disabled. Set ENABLE_WHATSAPP=true to enable.");
     }
+  }
 
-    if (
-      !process.env.TWILIO_ACCOUNT_SID ||
-      !process.env.TWILIO_AUTH_TOKEN ||
-      !process.env.TWILIO_WHATSAPP_NUMBER
-    ) {
-      throw new Error(
-        "Missing Twilio credentials. Required: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER"
-      );
+  /**
+   * Get (or lazily create) the Twilio client for a channel's credentials
+   */
+  private getClient(channel: IWhatsAppChannel): Twilio {
+    const channelId = channel._id.toString();
+    let client = this.clients.get(channelId);
+
+    if (!client) {
+      client = new Twilio(channel.accountSid, channel.authToken);
+      this.clients.set(channelId, client);
+      console.log(`✅ Twilio client initialized for ${channel.phoneNumber}`);
     }
 
-    this.twilioClient = new Twilio(
-      process.env.TWILIO_ACCOUNT_SID,
-      process.env.TWILIO_AUTH_TOKEN
-    );
-    this.fromNumber = process.env.TWILIO_WHATSAPP_NUMBER;
-    this.isInitialized = true;
+    return client;
+  }
 
-    console.log("✅ Twilio WhatsApp Service initialized");
+  /**
+   * Forget the cached client after a channel's credentials change
+   */
+  invalidateChannel(channelId: string): void {
+    this.clients.delete(channelId);
+  }
+
+  /**
+   * Strip the "whatsapp:" prefix Twilio adds to addresses and normalize to E.164
+   */
+  normalizeNumber(address: string): string {
+    return normalizePhoneNumber(address) || address.replace(/^whatsapp:/, "").trim();
+  }
+
+  /**
+   * Load the active channel an organization sends from, including its credentials
+   */
+  async getChannelForOrganization(organizationId: string): Promise<IWhatsAppChannel> {
+    const channel = await WhatsAppChannel.findOne({
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      isActive: true,
+    }).select("+authToken");
+
+    if (!channel) {
+      throw new Error("WhatsApp is not configured for this organization. Add a WhatsApp channel first.");
+    }
+
+    return channel;
+  }
+
+  /**
+   * Find the active channel that owns a receiving number, used to route inbound webhooks
+   */
+  async findChannelByNumber(phoneNumber: string): Promise<IWhatsAppChannel | null> {
+    return WhatsAppChannel.findOne({
+      phoneNumber: this.normalizeNumber(phoneNumber),
+      isActive: true,
+    }).select("+authToken");
   }
 
   constructor() {
-    // Don't initialize immediately - wait until service is actually used
-    console.log("📱 Twilio WhatsApp Service created (not initialized)");
+    // Clients are created per channel on first use
+    console.log("📱 Twilio WhatsApp Service created");
   }
 
   /**
@@ -110,10 +154,13 @@ export class TwilioWhatsAppService {
    */
   async sendMessage(request: SendMessageRequest): Promise<IWhatsAppMessage> {
     try {
-      // Initialize service if not already done
-      this.initialize();
+      this.ensureEnabled();
+
+      const channel = await this.getChannelForOrganization(request.organizationId);
+      const twilioClient = this.getClient(channel);
 
       console.log("=== SENDING WHATSAPP MESSAGE ===");
+      console.log("From:", channel.phoneNumber);
       console.log("To:", request.toNumber);
       console.log("Message:", request.messageBody);
 
@@ -129,18 +176,23 @@ export class TwilioWhatsAppService {
       }
 
       // Format numbers for WhatsApp (must include whatsapp: prefix)
-      const fromWhatsApp = `whatsapp:${this.fromNumber}`;
       const toWhatsApp = `whatsapp:${request.toNumber}`;
+      const sender = channel.messagingServiceSid
+        ? { messagingServiceSid: channel.messagingServiceSid }
+        : { from: `whatsapp:${channel.phoneNumber}` };
+      const statusCallback = this.getStatusCallbackUrl();
 
       // Check if we can send a free-form message or need to use template
       let twilioMessage;
       
       try {
         // First try to send as free-form message (works within 24h window)
-        twilioMessage = await this.twilioClient.messages.create({
-          from: fromWhatsApp,
+        twilioMessage = await twilioClient.messages.create({
+          ...sender,
           to: toWhatsApp,
           body: request.messageBody,
+          ...(request.mediaUrl && { mediaUrl: [request.mediaUrl] }),
+          ...(statusCallback && { statusCallback }),
         });
         console.log("✅ Free-form message sent successfully");
       } catch (error: any) {
@@ -152,10 +204,12 @@ export class TwilioWhatsAppService {
           const templateMessage = `Hello! ${request.messageBody}\n\nReply STOP to opt out.`;
           
           try {
-            twilioMessage = await this.twilioClient.messages.create({
-              from: fromWhatsApp,
+            twilioMessage = await twilioClient.messages.create({
+              ...sender,
               to: toWhatsApp,
               body: templateMessage,
+              ...(request.mediaUrl && { mediaUrl: [request.mediaUrl] }),
+              ...(statusCallback && { statusCallback }),
             });
             console.log("✅ Template-style message sent successfully");
           } catch (templateError: any) {
@@ -176,7 +230,7 @@ export class TwilioWhatsAppService {
 
       // Save message to database
       const conversationId = this.generateConversationId(
-        this.fromNumber,
+        channel.phoneNumber,
         request.toNumber
       );
 
@@ -185,15 +239,17 @@ export class TwilioWhatsAppService {
         messageId: twilioMessage.sid,
         direction: "outbound",
         status: "sent",
-        fromNumber: this.fromNumber,
+        fromNumber: channel.phoneNumber,
         toNumber: request.toNumber,
         contactId: request.contactId
           ? new mongoose.Types.ObjectId(request.contactId)
           : undefined,
         messageBody: request.messageBody,
+        ...(request.mediaUrl && { mediaUrl: request.mediaUrl, mediaType: "image" }),
         conversationId,
         twilioData: {
           accountSid: twilioMessage.accountSid,
+          messagingServiceSid: twilioMessage.messagingServiceSid || undefined,
           numSegments: parseInt(twilioMessage.numSegments || "1"),
           price: twilioMessage.price || undefined,
           priceUnit: twilioMessage.priceUnit || undefined,
@@ -217,6 +273,66 @@ export class TwilioWhatsAppService {
     }
   }
 
+  /**
+   * Public URL Twilio posts delivery status updates to, when the API's public address is known
+   */
+  private getStatusCallbackUrl(): string | undefined {
+    const baseUrl = process.env.API_PUBLIC_URL;
+    return baseUrl ? `${baseUrl.replace(/\/$/, "")}/api/whatsapp/status-callback` : undefined;
+  }
+
+  /**
+   * Apply a Twilio status callback to the outbound message it refers to.
+   * Callbacks can arrive out of order, so a status only ever moves forward
+   * (sent → delivered → read); failures are only recorded for messages not yet delivered.
+   */
+  async updateMessageStatus(update: MessageStatusUpdate): Promise<IWhatsAppMessage | null> {
+    const now = new Date();
+    const filter = { messageId: update.messageSid, direction: "outbound" };
+
+    switch (update.status) {
+      case "delivered":
+        return WhatsAppMessage.findOneAndUpdate(
+          { ...filter, status: "sent" },
+          { $set: { status: "delivered", deliveredAt: now } },
+          { new: true }
+        );
+
+      case "read": {
+        const message = await WhatsAppMessage.findOneAndUpdate(
+          { ...filter, status: { $in: ["sent", "delivered"] } },
+          { $set: { status: "read", readAt: now } },
+          { new: true }
+        );
+        // A read receipt implies delivery even if the delivered callback never arrived
+        if (message && !message.deliveredAt) {
+          message.deliveredAt = now;
+          await message.save();
+        }
+        return message;
+      }
+
+      case "failed":
+      case "undelivered":
+        return WhatsAppMessage.findOneAndUpdate(
+          { ...filter, status: "sent" },
+          {
+            $set: {
+              status: "failed",
+              failedAt: now,
+              errorCode: update.errorCode,
+              errorMessage: update.errorMessage?.substring(0, 500),
+            },
+          },
+          { new: true }
+        );
+
+      default:
+        // queued, accepted, sending, sent: the message is already stored as sent
+        return null;
+    }
+  }
+
   /**
    * Process incoming WhatsApp message from Twilio webhook
    */
@@ -225,8 +341,7 @@ export class TwilioWhatsAppService {
     organizationId: string
   ): Promise<IWhatsAppMessage> {
     try {
-      // Initialize service if not already done
-      this.initialize();
+      this.ensureEnabled();
 
       console.log("=== PROCESSING INCOMING WHATSAPP MESSAGE ===");
       console.log("From:", webhookData.From);
@@ -238,8 +353,8 @@ export class TwilioWhatsAppService {
       }
 
       // Extract phone numbers (remove whatsapp: prefix)
-      const fromNumber = webhookData.From?.replace("whatsapp:", "") || "";
-      const toNumber = webhookData.To?.replace("whatsapp:", "") || "";
+      const fromNumber = this.normalizeNumber(webhookData.From || "");
+      const toNumber = this.normalizeNumber(webhookData.To || "");
 
       // Validate extracted phone numbers
       if (!fromNumber || !toNumber) {
@@ -254,7 +369,7 @@ export class TwilioWhatsAppService {
       console.log("🔍 Looking for contact with phone:", fromNumber, "in org:", organizationId);
 
       // Try to find existing contact by phone number
-      const contact = await Contact.findOne({
+      let contact: IContact | null = await Contact.findOne({
         organizationId: new mongoose.Types.ObjectId(organizationId),
         phone: fromNumber,
       });
@@ -265,6 +380,8 @@ export class TwilioWhatsAppService {
           contact.firstName,
           contact.lastName
         );
+      } else {
+        contact = await this.createLeadContact(organizationId, fromNumber, webhookData.ProfileName);
       }
 
       // Generate conversation ID
@@ -366,11 +483,11 @@ export class TwilioWhatsAppService {
     limit: number = 50
   ): Promise<IWhatsAppMessage[]> {
     try {
-      // Initialize service if not already done
-      this.initialize();
+      this.ensureEnabled();
 
+      const channel = await this.getChannelForOrganization(organizationId);
       const conversationId = this.generateConversationId(
-        this.fromNumber,
+        channel.phoneNumber,
         phoneNumber
       );
 
@@ -389,6 +506,40 @@ export class TwilioWhatsAppService {
     }
   }
 
+  /**
+   * Create a Lead for a sender we have not seen before so the conversation is never orphaned.
+   * Duplicates of existing contacts saved with another number format can be merged later.
+   */
+  private async createLeadContact(
+    organizationId: string,
+    fromNumber: string,
+    profileName?: string
+  ): Promise<IContact> {
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new Error(`Organization ${organizationId} not found`);
+    }
+
+    const [firstName, ...rest] = (profileName || "").trim().split(/\s+/).filter(Boolean);
+
+    const contact = new Contact({
+      organizationId: organization._id,
+      type: "Lead",
+      contextState: "New",
+      firstName: (firstName || "WhatsApp").substring(0, 50),
+      lastName: (rest.join(" ") || fromNumber).substring(0, 50),
+      phone: fromNumber,
+      leadSource: "WhatsApp",
+      // Created by the system on behalf of the organization
+      createdBy: organization.ownerId,
+      updatedBy: organization.ownerId,
+    });
+    await contact.save();
+
+    console.log("👤 Created lead contact for new WhatsApp sender:", fromNumber);
+    return contact;
+  }
+
   /**
    * Generate consistent conversation ID for two phone numbers
    */
@@ -399,7 +550,30 @@ export class TwilioWhatsAppService {
   }
 
   /**
-   * Send automated response based on keywords
+   * Send an automated reply and mark it as such in the conversation
+   */
+  async sendReply(
+    organizationId: string,
+    toNumber: string,
+    messageBody: string,
+    contactId?: string
+  ): Promise<IWhatsAppMessage> {
+    const message = await this.sendMessage({
+      organizationId,
+      toNumber,
+      messageBody,
+      contactId,
+    });
+
+    // Mark as auto reply
+    message.isAutoReply = true;
+    await message.save();
+
+    return message;
+  }
+
+  /**
+   * Send the organization's templated reply for what the message asks about
    */
   async sendAutoResponse(
     organizationId: string,
@@ -408,26 +582,13 @@ export class TwilioWhatsAppService {
     contactId?: string
   ): Promise<IWhatsAppMessage | null> {
     try {
-      // Initialize service if not already done
-      this.initialize();
+      this.ensureEnabled();
 
-      const response = this.generateAutoResponse(incomingMessage);
+      const response = await autoReplyService.generateReply(organizationId, incomingMessage, contactId);
 
       if (response) {
         console.log("🤖 Sending auto-response:", response);
-
-        const message = await this.sendMessage({
-          organizationId,
-          toNumber,
-          messageBody: response,
-          contactId,
-        });
-
-        // Mark as auto reply
-        message.isAutoReply = true;
-        await message.save();
-
-        return message;
+        return this.sendReply(organizationId, toNumber, response, contactId);
       }
 
       return null;
@@ -436,57 +597,6 @@ export class TwilioWhatsAppService {
       return null;
     }
   }
-
-  /**
-   * Generate automatic response based on keywords
-   */
-  private generateAutoResponse(incomingMessage: string): string | null {
-    const message = incomingMessage.toLowerCase();
-
-    // Basic keyword responses
-    if (
-      message.includes("hello") ||
-      message.includes("hi") ||
-      message.includes("hey")
-    ) {
-      return "Hello! Welcome to our coworking space. How can I help you today? You can ask about:\n\n• Space availability\n• Pricing\n• Booking a tour\n• Amenities\n\nJust type your question!";
-    }
-
-    if (
-      message.includes("availability") ||
-      message.includes("available") ||
-      message.includes("book")
-    ) {
-      return "I'd be happy to help you check space availability! Could you please let me know:\n\n• What type of space? (hot desk, private office, meeting room)\n• When do you need it?\n• For how long?\n\nOr visit our booking page for real-time availability.";
-    }
-
-    if (
-      message.includes("price") ||
-      message.includes("cost") ||
-      message.includes("pricing")
-    ) {
-      return "Our pricing varies by space type and duration:\n\n• Hot Desks: Starting from ₹500/day\n• Private Offices: Starting from ₹2000/day\n• Meeting Rooms: Starting from ₹200/hour\n\nWould you like specific pricing for any particular space?";
-    }
-
-    if (
-      message.includes("tour") ||
-      message.includes("visit") ||
-      message.includes("see")
-    ) {
-      return "We'd love to show you around! Our team can arrange a tour at your convenience.\n\nPlease let us know:\n• Your preferred date and time\n• Contact details\n\nOr you can book directly through our website.";
-    }
-
-    if (message.includes("amenities") || message.includes("facilities")) {
-      return "Our coworking space includes:\n\n• High-speed WiFi\n• Air conditioning\n• Printing & scanning\n• Meeting rooms\n• Kitchen facilities\n• Security\n• Parking\n\nWould you like more details about any specific amenity?";
-    }
-
-    if (message.includes("help") || message.includes("support")) {
-      return "I'm here to help! You can ask me about:\n\n• Space availability and booking\n• Pricing and plans\n• Amenities and facilities\n• Tours and visits\n• Contact information\n\nWhat would you like to know?";
-    }
-
-    // Default response for unrecognized messages
-    return "Thank you for your message! Our team will get back to you shortly. For immediate assistance, you can:\n\n• Visit our website\n• Call us during business hours\n• Book a tour online\n\nIs there anything specific I can help you with right now?";
-  }
 }
 
 export default new TwilioWhatsAppService();
@@ -0,0 +1,383 @@
+import { Types } from 'mongoose';
+import { Booking, IBooking } from '../models/Booking';
+import { Contact, IContact } from '../models/Contact';
+import { ISpace } from '../models/Space';
+import { WaitlistEntry, IWaitlistEntry, WaitlistStatus } from '../models/WaitlistEntry';
+import { WhatsAppConversationState } from '../models/WhatsAppConversationState';
+import { BookingService } from './bookingService';
+import { PricingService } from './pricingService';
+import { MembershipService } from './membershipService';
+import { CheckInService } from './checkInService';
+import twilioWhatsAppService from './twilioWhatsappService';
+import mailService from './mailService';
+import { generateSecureToken, hashToken } from '../utils/secureToken';
+
+export interface JoinWaitlistInput {
+  organizationId: Types.ObjectId;
+  contact: IContact;
+  space: ISpace;
+  startTime: Date;
+  endTime: Date;
+  attendeeCount: number;
+  anySpaceOfType: boolean;
+  purpose?: string;
+  userId: Types.ObjectId;
+}
+
+// How long a freed slot is held for the first contact in line
+const getOfferHoldMinutes = (): number => Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+
+const formatInTimezone = (date: Date, timezone: string, options: Intl.DateTimeFormatOptions): string =>
+  new Intl.DateTimeFormat('en-IN', { timeZone: timezone, ...options }).format(date);
+
+const formatTime = (date: Date, timezone: string): string =>
+  formatInTimezone(date, timezone, { hour: 'numeric', minute: '2-digit', hour12: true });
+
+const formatSlot = (startTime: Date, endTime: Date, timezone: string): string => {
+  const day = formatInTimezone(startTime, timezone, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+  return `${day}, ${formatTime(startTime, timezone)} - ${formatTime(endTime, timezone)}`;
+};
+
+export class WaitlistService {
+  /**
+   * Put the contact in line for a slot of the space (or any space of its product type)
+   */
+  static async join({
+    organizationId,
+    contact,
+    space,
+    startTime,
+    endTime,
+    attendeeCount,
+    anySpaceOfType,
+    purpose,
+    userId
+  }: JoinWaitlistInput): Promise<IWaitlistEntry> {
+    const entry = new WaitlistEntry({
+      organizationId,
+      contactId: contact._id,
+      spaceId: space._id,
+      productTypeId: space.productTypeId,
+      anySpaceOfType,
+      startTime,
+      endTime,
+      attendeeCount,
+      purpose,
+      createdBy: userId,
+      updatedBy: userId
+    });
+    await entry.save();
+
+    console.log(`📝 ${contact.getFullName()} joined the waitlist for space ${space._id}`);
+    return entry;
+  }
+
+  /**
+   * Offer the slots of cancelled bookings to the waitlist. Failures are logged rather
+   * than thrown, since the cancellation itself has already been made.
+   */
+  static async offerFreedSlots(bookingIds: Types.ObjectId[]): Promise<void> {
+    for (const bookingId of bookingIds) {
+      try {
+        const booking = await Booking.findById(bookingId);
+        if (booking) {
+          await this.offerFreedSlot(booking);
+        }
+      } catch (error) {
+        console.error(`❌ Error offering freed slot of booking ${bookingId} to the waitlist:`, error);
+      }
+    }
+  }
+
+  /**
+   * Hold the freed slot of a cancelled booking for the first contact waiting for an
+   * overlapping slot of its space (or of its product type) whose request now fits.
+   */
+  static async offerFreedSlot(booking: IBooking): Promise<IWaitlistEntry | null> {
+    // A hold that was cancelled directly ends its offer
+    await WaitlistEntry.updateMany(
+      { 'offer.bookingId': booking._id, status: 'Offered' },
+      { status: 'Cancelled' }
+    );
+
+    const space = await BookingService.loadBookableSpace(booking.organizationId, booking.spaceId);
+    if (!space || !space.isActive) {
+      return null;
+    }
+
+    await this.expireWaiting(booking.organizationId);
+
+    const candidates = await WaitlistEntry.find({
+      organizationId: booking.organizationId,
+      status: 'Waiting',
+      startTime: { $lt: booking.endTime },
+      endTime: { $gt: booking.startTime },
+      $or: [
+        { spaceId: space._id },
+        ...(space.productTypeId ? [{ anySpaceOfType: true, productTypeId: space.productTypeId }] : [])
+      ]
+    }).sort({ createdAt: 1 });
+
+    for (const entry of candidates) {
+      const token = await this.hold(entry, space);
+      if (token) {
+        console.log(`⏳ Waitlist entry ${entry._id} offered ${space.name} until ${entry.offer!.expiresAt.toISOString()}`);
+        await this.notify(entry, space, token);
+        return entry;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Hold the slot for the entry with a Pending booking, when it passes the booking rules.
+   * Returns the token of the offer link, or null when the entry doesn't fit.
+   */
+  private static async hold(entry: IWaitlistEntry, space: ISpace): Promise<string | null> {
+    const contact = await Contact.findById(entry.contactId);
+    if (!contact) {
+      entry.status = 'Cancelled';
+      await entry.save();
+      return null;
+    }
+
+    const lock = await BookingService.acquireSpaceLock(space._id);
+    if (!lock) {
+      return null;
+    }
+
+    try {
+      const violation = await BookingService.checkBookingRules({
+        space,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        attendeeCount: entry.attendeeCount
+      });
+      if (violation) {
+        return null;
+      }
+
+      const member = await MembershipService.renewIfDue(contact, entry.createdBy);
+      let quote = await PricingService.quote({
+        space, startTime: entry.startTime, endTime: entry.endTime, contact: member, attendeeCount: entry.attendeeCount
+      });
+
+      const booking = new Booking({
+        organizationId: entry.organizationId,
+        spaceId: space._id,
+        contactId: contact._id,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        status: 'Pending',
+        customerName: contact.getFullName(),
+        customerEmail: contact.email,
+        customerPhone: contact.phone,
+        purpose: entry.purpose || 'Waitlist booking',
+        attendeeCount: entry.attendeeCount,
+        paymentStatus: 'Pending',
+        checkedIn: false,
+        bookingReference: BookingService.generateBookingReference(),
+        notes: 'Held for a waitlist offer',
+        createdBy: entry.createdBy,
+        updatedBy: entry.createdBy
+      });
+
+      // The slot is left to a later offer when the lock lapsed while pricing
+      if (!(await BookingService.renewSpaceLock(lock))) {
+        return null;
+      }
+
+      // Credits spent since the contact joined leave the hold charged in money
+      let priceBreakdown = PricingService.toPriceBreakdown(quote);
+      if (priceBreakdown.credits && !(await MembershipService.consumeCredits(member, priceBreakdown.credits, booking._id))) {
+        quote = await PricingService.quote({
+          space, startTime: entry.startTime, endTime: entry.endTime, contact: member, attendeeCount: entry.attendeeCount,
+          useCredits: false
+        });
+        priceBreakdown = PricingService.toPriceBreakdown(quote);
+      }
+      booking.totalAmount = quote.totalAmount;
+      booking.currency = quote.currency;
+      booking.priceBreakdown = priceBreakdown;
+
+      try {
+        await booking.save();
+      } catch (error) {
+        if (priceBreakdown.credits) {
+          await MembershipService.releaseCredits(contact._id, priceBreakdown.credits, priceBreakdown.credits.amount,
+            booking._id, 'Booking not created');
+        }
+        throw error;
+      }
+
+      const { token, hashedToken } = generateSecureToken();
+      const offeredAt = new Date();
+      entry.status = 'Offered';
+      entry.offer = {
+        bookingId: booking._id,
+        spaceId: space._id,
+        tokenHash: hashedToken,
+        offeredAt,
+        // A hold can't outlast the start of the booking
+        expiresAt: new Date(Math.min(offeredAt.getTime() + getOfferHoldMinutes() * 60 * 1000, entry.startTime.getTime()))
+      };
+      entry.offerCount += 1;
+      await entry.save();
+
+      return token;
+    } finally {
+      await BookingService.releaseSpaceLock(lock);
+    }
+  }
+
+  /**
+   * Tell the contact about the offer over WhatsApp (answered with YES/NO) and email
+   * (answered through the link). A channel that fails doesn't stop the other.
+   */
+  private static async notify(entry: IWaitlistEntry, space: ISpace, token: string): Promise<void> {
+    const contact = await Contact.findById(entry.contactId);
+    if (!contact) return;
+
+    const timezone = (space.locationId as any)?.timezone || 'Asia/Kolkata';
+    const slot = formatSlot(entry.startTime, entry.endTime, timezone);
+    const expiresAt = entry.offer!.expiresAt;
+
+    if (contact.phone && process.env.ENABLE_WHATSAPP === 'true') {
+      try {
+        const message = await twilioWhatsAppService.sendMessage({
+          organizationId: entry.organizationId.toString(),
+          toNumber: contact.phone,
+          messageBody: `🎉 Good news, ${contact.firstName}! ${space.name} is now available for ${slot} and we're holding it for you until ${formatTime(expiresAt, timezone)}.\n\nReply YES to confirm the booking or NO to pass it on.`,
+          contactId: contact._id.toString()
+        });
+
+        // The reply is handled by the booking conversation
+        await WhatsAppConversationState.findOneAndUpdate(
+          { organizationId: entry.organizationId, conversationId: message.conversationId },
+          {
+            phoneNumber: contact.phone,
+            contactId: contact._id,
+            step: 'awaiting_waitlist_reply',
+            data: { waitlistEntryId: entry._id },
+            expiresAt
+          },
+          { upsert: true }
+        );
+      } catch (error) {
+        console.error(`❌ Error sending waitlist offer over WhatsApp to ${contact.phone}:`, error);
+      }
+    }
+
+    if (contact.email) {
+      try {
+        await mailService.sendWaitlistOfferEmail(contact.email, contact.firstName, space.name, slot, token, expiresAt);
+      } catch (error) {
+        console.error(`❌ Error emailing waitlist offer to ${contact.email}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Confirm the held booking for the contact
+   */
+  static async accept(entry: IWaitlistEntry, userId: Types.ObjectId): Promise<IBooking> {
+    const booking = await Booking.findOneAndUpdate(
+      { _id: entry.offer!.bookingId, status: { $in: ['Pending', 'Confirmed'] } },
+      { status: 'Confirmed', notes: 'Booked from the waitlist', updatedBy: userId },
+      { new: true }
+    );
+    if (!booking) {
+      entry.status = 'Cancelled';
+      await entry.save();
+      throw new Error('The held booking is no longer available');
+    }
+
+    entry.status = 'Booked';
+    entry.updatedBy = userId;
+    await entry.save();
+
+    console.log(`✅ Waitlist entry ${entry._id} booked as ${booking.bookingReference}`);
+    await CheckInService.sendCheckInCode(booking._id);
+    return booking;
+  }
+
+  /**
+   * End an open entry. A held slot is cancelled, returning any credits, and offered to
+   * the next contact in line.
+   */
+  static async release(
+    entry: IWaitlistEntry,
+    status: Extract<WaitlistStatus, 'Declined' | 'Expired' | 'Cancelled'>,
+    userId: Types.ObjectId
+  ): Promise<void> {
+    const wasOffered = entry.status === 'Offered' && entry.offer;
+    entry.status = status;
+    entry.updatedBy = userId;
+    await entry.save();
+
+    if (!wasOffered) return;
+
+    const hold = await Booking.findOneAndUpdate(
+      { _id: entry.offer!.bookingId, status: 'Pending' },
+      {
+        status: 'Cancelled',
+        cancelReason: status === 'Expired' ? 'Waitlist offer expired' : 'Waitlist offer declined',
+        updatedBy: userId
+      },
+      { new: true }
+    );
+    if (!hold) return;
+
+    const creditUsage = hold.priceBreakdown?.credits;
+    if (creditUsage && hold.contactId) {
+      await MembershipService.releaseCredits(hold.contactId, creditUsage, creditUsage.amount, hold._id, 'Waitlist offer released');
+    }
+
+    await this.offerFreedSlots([hold._id]);
+  }
+
+  /**
+   * Release offers whose hold has run out, and drop waiting entries whose slot has started
+   */
+  static async expireOffers(organizationId?: Types.ObjectId): Promise<number> {
+    const expired = await WaitlistEntry.find({
+      ...(organizationId && { organizationId }),
+      status: 'Offered',
+      'offer.expiresAt': { $lte: new Date() }
+    });
+
+    for (const entry of expired) {
+      // Staff may have confirmed the hold directly
+      const hold = await Booking.findById(entry.offer!.bookingId);
+      if (hold?.status === 'Confirmed') {
+        entry.status = 'Booked';
+        await entry.save();
+        continue;
+      }
+      await this.release(entry, 'Expired', entry.updatedBy);
+    }
+
+    if (organizationId) {
+      await this.expireWaiting(organizationId);
+    }
+
+    return expired.length;
+  }
+
+  private static async expireWaiting(organizationId: Types.ObjectId): Promise<void> {
+    await WaitlistEntry.updateMany(
+      { organizationId, status: 'Waiting', startTime: { $lte: new Date() } },
+      { status: 'Expired' }
+    );
+  }
+
+  /**
+   * Entry whose offer link carries this token
+   */
+  static async findByOfferToken(token: string): Promise<IWaitlistEntry | null> {
+    return WaitlistEntry.findOne({ 'offer.tokenHash': hashToken(token) });
+  }
+}
+
+export default WaitlistService;
@@ -0,0 +1,739 @@
+import mongoose from "mongoose";
+import Joi from "joi";
+import { Space, ISpace, SpaceType } from "../models/Space";
+import { Booking } from "../models/Booking";
+import { Contact, IContact } from "../models/Contact";
+import { Organization } from "../models/Organization";
+import {
+  WhatsAppConversationState,
+  IWhatsAppConversationState,
+} from "../models/WhatsAppConversationState";
+import { BookingService, BookingRuleViolation } from "./bookingService";
+import { PricingService } from "./pricingService";
+import { MembershipService } from "./membershipService";
+import { WaitlistService } from "./waitlistService";
+import { BookingHoldService } from "./bookingHoldService";
+import { WaitlistEntry } from "../models/WaitlistEntry";
+import ContactMergeService from "./contactMergeService";
+import { zonedDateTimeToUtc, formatDateInTimezone } from "../utils/timeValidation";
+
+// Conversations left unfinished for this long start over
+const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+const BOOKING_TRIGGERS = ["book", "booking", "reserve", "reservation"];
+const CANCEL_COMMANDS = ["cancel", "stop", "restart", "start over", "quit"];
+const CONFIRM_REPLIES = ["yes", "y", "confirm", "ok", "okay", "sure"];
+const DECLINE_REPLIES = ["no", "n", "nope"];
+
+export interface IncomingFlowMessage {
+  organizationId: string;
+  conversationId: string;
+  fromNumber: string;
+  body: string;
+  contactId?: string;
+}
+
+interface SpaceMatch {
+  space: ISpace;
+  startTime: Date;
+  endTime: Date;
+  timezone: string;
+}
+
+const emailSchema = Joi.string().email().required();
+
+/**
+ * Parse a date reply ("today", "tomorrow", "2024-05-01", "01/05" or "01/05/2024")
+ * into YYYY-MM-DD, relative to today in the location's timezone
+ */
+function parseDate(text: string, timezone: string): string | null {
+  const today = formatDateInTimezone(new Date(), timezone);
+  const [todayYear, todayMonth, todayDay] = today.split("-").map(Number);
+
+  const build = (year: number, month: number, day: number): string | null => {
+    const candidate = new Date(Date.UTC(year, month - 1, day));
+    if (
+      candidate.getUTCFullYear() !== year ||
+      candidate.getUTCMonth() !== month - 1 ||
+      candidate.getUTCDate() !== day
+    ) {
+      return null; // e.g. 31/02
+    }
+    return candidate.toISOString().split("T")[0];
+  };
+
+  if (text === "today") return today;
+  if (text === "tomorrow") {
+    return new Date(Date.UTC(todayYear, todayMonth - 1, todayDay + 1)).toISOString().split("T")[0];
+  }
+
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (isoMatch) {
+    return build(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  const dayFirstMatch = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?$/);
+  if (dayFirstMatch) {
+    const day = Number(dayFirstMatch[1]);
+    const month = Number(dayFirstMatch[2]);
+    if (dayFirstMatch[3]) {
+      const year = Number(dayFirstMatch[3]);
+      return build(year < 100 ? 2000 + year : year, month, day);
+    }
+
+    // Without a year, pick the next occurrence of that day
+    const thisYear = build(todayYear, month, day);
+    if (thisYear && thisYear < today) {
+      return build(todayYear + 1, month, day);
+    }
+    return thisYear;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a time reply ("14:00", "2pm", "9.30 am") into HH:MM (24-hour)
+ */
+function parseTime(text: string): string | null {
+  const match = text.replace(/\s+/g, "").match(/^(\d{1,2})(?:[:.](\d{2}))?(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+  } else if (!match[2] && hours < 7) {
+    // "3" on its own almost always means 3pm for a workspace booking
+    hours += 12;
+  }
+
+  if (hours > 23) return null;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a duration reply ("2", "2 hours", "1.5h", "90 min") into minutes
+ */
+function parseDuration(text: string): number | null {
+  const match = text.match(/^(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours|m|min|mins|minute|minutes)?$/);
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const unit = match[2] || "h";
+  const minutes = unit.startsWith("m") ? amount : amount * 60;
+
+  if (minutes <= 0 || minutes > 24 * 60) return null;
+  return Math.round(minutes);
+}
+
+function parseSpaceType(text: string, availableTypes: SpaceType[]): SpaceType | null {
+  const index = Number(text);
+  if (Number.isInteger(index) && index >= 1 && index <= availableTypes.length) {
+    return availableTypes[index - 1];
+  }
+
+  const keywords: Record<SpaceType, string[]> = {
+    "Hot Desk": ["desk", "hot desk", "hotdesk", "coworking"],
+    "Meeting Room": ["meeting", "room", "conference", "boardroom"],
+    "Private Office": ["office", "private", "cabin"],
+  };
+
+  return availableTypes.find((type) =>
+    keywords[type].some((keyword) => text.includes(keyword))
+  ) || null;
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  const parts = [];
+  if (hours > 0) parts.push(`${hours} hour${hours === 1 ? "" : "s"}`);
+  if (remainder > 0) parts.push(`${remainder} min`);
+  return parts.join(" ");
+}
+
+function formatInTimezone(date: Date, timezone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat("en-IN", { timeZone: timezone, ...options }).format(date);
+}
+
+export class WhatsAppBookingFlowService {
+  /**
+   * Handle an inbound message as part of the booking conversation.
+   * Returns the reply to send, or null when the message is not part of a booking flow.
+   */
+  async handleMessage(message: IncomingFlowMessage): Promise<string | null> {
+    const text = message.body.trim().toLowerCase();
+    const organizationId = new mongoose.Types.ObjectId(message.organizationId);
+
+    let state = await WhatsAppConversationState.findOne({
+      organizationId,
+      conversationId: message.conversationId,
+    });
+
+    const inFlow = !!state && state.step !== "idle";
+
+    if (!inFlow) {
+      const words = text.split(/[^a-z]+/);
+      if (!BOOKING_TRIGGERS.some((trigger) => words.includes(trigger))) {
+        return null;
+      }
+
+      if (!state) {
+        state = new WhatsAppConversationState({
+          organizationId,
+          conversationId: message.conversationId,
+          phoneNumber: message.fromNumber,
+        });
+      }
+
+      console.log("🗓️ Starting WhatsApp booking flow for", message.fromNumber);
+      this.resetState(state);
+      return this.startFlow(state, message.contactId);
+    }
+
+    const activeState = state!;
+    if (message.contactId && !activeState.contactId) {
+      activeState.contactId = new mongoose.Types.ObjectId(message.contactId);
+    }
+
+    // A waitlist offer is answered with YES/NO; stopping passes it on
+    if (activeState.step === "awaiting_waitlist_reply") {
+      return this.handleWaitlistReply(activeState, text);
+    }
+
+    if (CANCEL_COMMANDS.includes(text)) {
+      this.resetState(activeState);
+      await this.saveState(activeState);
+      return "No problem, I've cancelled this booking request. Reply BOOK any time to start again.";
+    }
+
+    switch (activeState.step) {
+      case "awaiting_space_type":
+        return this.handleSpaceType(activeState, text);
+      case "awaiting_date":
+        return this.handleDate(activeState, text);
+      case "awaiting_time":
+        return this.handleTime(activeState, text);
+      case "awaiting_duration":
+        return this.handleDuration(activeState, text);
+      case "awaiting_name":
+        return this.handleName(activeState, message.body.trim());
+      case "awaiting_email":
+        return this.handleEmail(activeState, text);
+      case "awaiting_confirmation":
+        return this.handleConfirmation(activeState, text);
+      default:
+        return null;
+    }
+  }
+
+  private resetState(state: IWhatsAppConversationState): void {
+    state.step = "idle";
+    state.data = {};
+  }
+
+  private async saveState(state: IWhatsAppConversationState): Promise<void> {
+    state.expiresAt = new Date(Date.now() + CONVERSATION_TTL_MS);
+    state.markModified("data");
+    await state.save();
+  }
+
+  /**
+   * Space types the organization has bookable spaces for, in a stable order
+   */
+  private async getAvailableSpaceTypes(organizationId: mongoose.Types.ObjectId): Promise<SpaceType[]> {
+    const types: SpaceType[] = await Space.distinct("type", {
+      organizationId,
+      isActive: true,
+      status: "Available",
+    });
+    return types.sort();
+  }
+
+  /**
+   * Timezone used to interpret dates and times for a space type
+   */
+  private async getTimezone(organizationId: mongoose.Types.ObjectId, spaceType?: SpaceType): Promise<string> {
+    const space = await Space.findOne({
+      organizationId,
+      isActive: true,
+      ...(spaceType && { type: spaceType }),
+    }).populate("locationId", "timezone");
+
+    return (space?.locationId as any)?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  private async startFlow(state: IWhatsAppConversationState, contactId?: string): Promise<string> {
+    if (contactId) {
+      state.contactId = new mongoose.Types.ObjectId(contactId);
+    }
+
+    const types = await this.getAvailableSpaceTypes(state.organizationId);
+    if (types.length === 0) {
+      await this.saveState(state);
+      return "Sorry, there are no spaces available to book over WhatsApp right now. Our team will get back to you shortly.";
+    }
+
+    state.step = "awaiting_space_type";
+    await this.saveState(state);
+
+    const options = types.map((type, index) => `${index + 1}. ${type}`).join("\n");
+    return `Let's get you booked in! 🙌\n\nWhat type of space would you like?\n\n${options}\n\nReply with the number or name. Reply CANCEL at any time to stop.`;
+  }
+
+  private async handleSpaceType(state: IWhatsAppConversationState, text: string): Promise<string> {
+    const types = await this.getAvailableSpaceTypes(state.organizationId);
+    const spaceType = parseSpaceType(text, types);
+
+    if (!spaceType) {
+      const options = types.map((type, index) => `${index + 1}. ${type}`).join("\n");
+      return `Sorry, I didn't catch that. Please choose one of:\n\n${options}`;
+    }
+
+    state.data = { ...state.data, spaceType };
+    state.step = "awaiting_date";
+    await this.saveState(state);
+
+    return `Great, a ${spaceType}. 📅 Which date? Reply with TODAY, TOMORROW or a date like 25/12/2024.`;
+  }
+
+  private async handleDate(state: IWhatsAppConversationState, text: string): Promise<string> {
+    const timezone = await this.getTimezone(state.organizationId, state.data.spaceType);
+    const date = parseDate(text, timezone);
+
+    if (!date) {
+      return "Sorry, I couldn't read that date. Please reply with TODAY, TOMORROW or a date like 25/12/2024.";
+    }
+
+    if (date < formatDateInTimezone(new Date(), timezone)) {
+      return "That date has already passed. Please send a date from today onwards.";
+    }
+
+    state.data = { ...state.data, date };
+    state.step = "awaiting_time";
+    await this.saveState(state);
+
+    return "🕐 What time would you like to start? For example 10:00 or 2:30pm.";
+  }
+
+  private async handleTime(state: IWhatsAppConversationState, text: string): Promise<string> {
+    if (text === "date" || text === "change date") {
+      state.step = "awaiting_date";
+      await this.saveState(state);
+      return "Sure, which date would you like instead?";
+    }
+
+    const time = parseTime(text);
+    if (!time) {
+      return "Sorry, I couldn't read that time. Please reply with a time like 10:00 or 2:30pm.";
+    }
+
+    state.data = { ...state.data, time };
+
+    // When the customer is retrying after an unavailable slot, keep the duration they gave
+    if (state.data.durationMinutes) {
+      return this.quote(state);
+    }
+
+    state.step = "awaiting_duration";
+    await this.saveState(state);
+
+    return "⏳ For how long? For example 1 hour, 2.5 hours or 90 min.";
+  }
+
+  private async handleDuration(state: IWhatsAppConversationState, text: string): Promise<string> {
+    const durationMinutes = parseDuration(text);
+    if (!durationMinutes) {
+      return "Sorry, I couldn't read that duration. Please reply with something like 1 hour, 2.5 hours or 90 min.";
+    }
+
+    state.data = { ...state.data, durationMinutes };
+    return this.quote(state);
+  }
+
+  /**
+   * Find a space of the requested type that passes every booking rule for the requested slot
+   */
+  private async findAvailableSpace(state: IWhatsAppConversationState): Promise<{ match?: SpaceMatch; violation?: BookingRuleViolation }> {
+    const { spaceType, date, time, durationMinutes } = state.data;
+
+    const spaces = await Space.find({
+      organizationId: state.organizationId,
+      type: spaceType,
+      isActive: true,
+      status: "Available",
+    })
+      .populate("locationId", "operatingHours dateExceptions timezone allowSameDayBooking name")
+      .sort({ name: 1 });
+
+    let firstViolation: BookingRuleViolation | undefined;
+
+    for (const space of spaces) {
+      const timezone = (space.locationId as any)?.timezone || DEFAULT_TIMEZONE;
+      const startTime = zonedDateTimeToUtc(date!, time!, timezone);
+      const endTime = new Date(startTime.getTime() + durationMinutes! * 60 * 1000);
+
+      const violation = await BookingService.checkBookingRules({
+        space,
+        startTime,
+        endTime,
+        attendeeCount: 1,
+      });
+
+      if (!violation) {
+        return { match: { space, startTime, endTime, timezone } };
+      }
+
+      // Prefer explaining a rule problem over "it's taken" when both occur
+      if (!firstViolation || (firstViolation.statusCode === 409 && violation.statusCode !== 409)) {
+        firstViolation = violation;
+      }
+    }
+
+    return { violation: firstViolation };
+  }
+
+  private async quote(state: IWhatsAppConversationState): Promise<string> {
+    const { match, violation } = await this.findAvailableSpace(state);
+
+    if (!match) {
+      const reason = violation?.statusCode === 409 || !violation
+        ? `Sorry, no ${state.data.spaceType} is free at that time.`
+        : `Sorry, that doesn't work: ${violation.message}.`;
+
+      if (violation?.message.toLowerCase().includes("duration")) {
+        state.step = "awaiting_duration";
+        await this.saveState(state);
+        return `${reason}\n\nPlease reply with a different duration.`;
+      }
+
+      state.step = "awaiting_time";
+      await this.saveState(state);
+      return `${reason}\n\nPlease reply with another start time, or DATE to pick a different day.`;
+    }
+
+    const { space, startTime, endTime } = match;
+    const contact = await this.findContact(state);
+    const quote = await PricingService.quote({ space, startTime, endTime, contact });
+
+    state.data = {
+      ...state.data,
+      spaceId: space._id,
+      startTime,
+      endTime,
+      quotedAmount: quote.totalAmount,
+      currency: quote.currency,
+    };
+
+    // Leads created from an unknown number have no name or email yet
+    if (!contact || !contact.email) {
+      state.step = "awaiting_name";
+      await this.saveState(state);
+      return `Good news, ${space.name} is available for ${this.formatAmount(quote.totalAmount, quote.currency)}! 🎉\n\nWhat name should we put the booking under?`;
+    }
+
+    state.contactId = contact._id;
+    state.step = "awaiting_confirmation";
+    await this.saveState(state);
+    return this.buildSummary(state, match);
+  }
+
+  private async handleName(state: IWhatsAppConversationState, name: string): Promise<string> {
+    if (name.length < 2 || name.length > 100) {
+      return "Please reply with your full name.";
+    }
+
+    state.data = { ...state.data, customerName: name };
+    state.step = "awaiting_email";
+    await this.saveState(state);
+
+    return `Thanks ${name.split(/\s+/)[0]}! 📧 What's your email address? We'll send the booking details there.`;
+  }
+
+  private async handleEmail(state: IWhatsAppConversationState, text: string): Promise<string> {
+    const { error, value: email } = emailSchema.validate(text);
+    if (error) {
+      return "That doesn't look like a valid email address. Please try again.";
+    }
+
+    const contact = await this.findOrCreateContact(state, email);
+    state.contactId = contact._id;
+    state.step = "awaiting_confirmation";
+    await this.saveState(state);
+
+    const space = await Space.findById(state.data.spaceId).populate("locationId", "timezone name");
+    if (!space) {
+      return this.quote(state);
+    }
+
+    return this.buildSummary(state, {
+      space,
+      startTime: state.data.startTime!,
+      endTime: state.data.endTime!,
+      timezone: (space.locationId as any)?.timezone || DEFAULT_TIMEZONE,
+    });
+  }
+
+  private async handleConfirmation(state: IWhatsAppConversationState, text: string): Promise<string> {
+    if (DECLINE_REPLIES.includes(text)) {
+      this.resetState(state);
+      await this.saveState(state);
+      return "Okay, I haven't booked anything. Reply BOOK whenever you'd like to try again.";
+    }
+
+    if (!CONFIRM_REPLIES.includes(text)) {
+      return "Please reply YES to confirm the booking or NO to cancel.";
+    }
+
+    const space = await BookingService.loadBookableSpace(state.organizationId, state.data.spaceId!);
+    const contact = await this.findContact(state);
+    if (!space || !contact) {
+      this.resetState(state);
+      await this.saveState(state);
+      return "Sorry, something changed while we were chatting. Reply BOOK to start a new booking.";
+    }
+
+    const organization = await Organization.findById(state.organizationId);
+    if (!organization) {
+      throw new Error(`Organization ${state.organizationId} not found`);
+    }
+
+    // Held from the availability check until the booking is saved
+    const spaceLock = await BookingService.acquireSpaceLock(space._id);
+    if (!spaceLock) {
+      return "Sorry, someone else is booking this space right now. Please reply YES again in a moment.";
+    }
+
+    let booking;
+    try {
+      // Someone else may have taken the slot since it was quoted
+      const violation = await BookingService.checkBookingRules({
+        space,
+        startTime: state.data.startTime!,
+        endTime: state.data.endTime!,
+        attendeeCount: 1,
+      });
+      if (violation) {
+        state.step = "awaiting_time";
+        await this.saveState(state);
+        return `Sorry, that slot is no longer available (${violation.message}).\n\nPlease reply with another start time, or DATE to pick a different day.`;
+      }
+
+      // Priced again with the final contact, whose membership may carry a discount or credits
+      const member = await MembershipService.renewIfDue(contact, organization.ownerId);
+      const quote = await PricingService.quote({
+        space,
+        startTime: state.data.startTime!,
+        endTime: state.data.endTime!,
+        contact: member,
+      });
+
+      booking = new Booking({
+        organizationId: state.organizationId,
+        spaceId: space._id,
+        contactId: contact._id,
+        startTime: state.data.startTime,
+        endTime: state.data.endTime,
+        status: "Pending",
+        holdExpiresAt: BookingHoldService.getHoldExpiry(space, state.data.startTime!),
+        customerName: contact.getFullName(),
+        customerEmail: contact.email,
+        customerPhone: state.phoneNumber,
+        purpose: "WhatsApp booking",
+        attendeeCount: 1,
+        totalAmount: quote.totalAmount,
+        currency: quote.currency,
+        priceBreakdown: PricingService.toPriceBreakdown(quote),
+        paymentStatus: "Pending",
+        checkedIn: false,
+        bookingReference: BookingService.generateBookingReference(),
+        // Bookings made by customers over WhatsApp are attributed to the organization owner
+        createdBy: organization.ownerId,
+        updatedBy: organization.ownerId,
+      });
+
+      // The lock may have lapsed while pricing; another booking could have taken the slot since
+      if (!(await BookingService.renewSpaceLock(spaceLock))) {
+        return "Sorry, someone else is booking this space right now. Please reply YES again in a moment.";
+      }
+
+      const creditUsage = booking.priceBreakdown?.credits;
+      if (creditUsage && !(await MembershipService.consumeCredits(member, creditUsage, booking._id))) {
+        // Credits were spent elsewhere since the quote; confirm the new price first
+        const requote = await PricingService.quote({
+          space,
+          startTime: state.data.startTime!,
+          endTime: state.data.endTime!,
+          contact: await Contact.findById(contact._id),
+        });
+        state.data = { ...state.data, quotedAmount: requote.totalAmount, currency: requote.currency };
+        await this.saveState(state);
+        return `Your membership credit balance has changed, so this booking now costs ${this.formatAmount(requote.totalAmount, requote.currency)}.\n\nReply YES to confirm or NO to cancel.`;
+      }
+
+      try {
+        await booking.save();
+      } catch (error) {
+        if (creditUsage) {
+          await MembershipService.releaseCredits(contact._id, creditUsage, creditUsage.amount, booking._id, "Booking not created");
+        }
+        throw error;
+      }
+    } finally {
+      await BookingService.releaseSpaceLock(spaceLock);
+    }
+
+    console.log("✅ BOOKING_CREATED via WhatsApp:", booking.bookingReference);
+
+    contact.addInteraction({
+      type: "ai_conversation",
+      subject: "Booking requested via WhatsApp",
+      content: `Requested ${space.name} (${booking.bookingReference}) from ${booking.startTime.toISOString()} to ${booking.endTime.toISOString()}`,
+      metadata: { outcome: "booking_requested" },
+      createdBy: organization.ownerId,
+    });
+    await contact.save();
+
+    state.lastBookingId = booking._id;
+    this.resetState(state);
+    await this.saveState(state);
+
+    return `✅ Booking request received! Your reference is ${booking.bookingReference}.\n\nIt's pending confirmation and our team will be in touch shortly.`;
+  }
+
+  private async handleWaitlistReply(state: IWhatsAppConversationState, text: string): Promise<string> {
+    const accepts = CONFIRM_REPLIES.includes(text);
+    if (!accepts && !DECLINE_REPLIES.includes(text) && !CANCEL_COMMANDS.includes(text)) {
+      return "Please reply YES to take the slot or NO to pass it on.";
+    }
+
+    const entry = await WaitlistEntry.findOne({
+      _id: state.data.waitlistEntryId,
+      organizationId: state.organizationId,
+    });
+    this.resetState(state);
+    await this.saveState(state);
+
+    if (entry?.status === "Offered" && entry.offer!.expiresAt <= new Date()) {
+      await WaitlistService.expireOffers(state.organizationId);
+      return "Sorry, the hold on that slot has ended and it has been offered to the next person on the waitlist. Reply BOOK to look for another time.";
+    }
+    if (!entry || entry.status !== "Offered") {
+      return "That offer is no longer available. Reply BOOK to look for another time.";
+    }
+
+    const organization = await Organization.findById(state.organizationId);
+    if (!organization) {
+      throw new Error(`Organization ${state.organizationId} not found`);
+    }
+
+    // Responses from customers over WhatsApp are attributed to the organization owner
+    if (!accepts) {
+      await WaitlistService.release(entry, "Declined", organization.ownerId);
+      return "No problem, we've passed the slot on. Reply BOOK whenever you'd like to book another time.";
+    }
+
+    try {
+      const booking = await WaitlistService.accept(entry, organization.ownerId);
+      state.lastBookingId = booking._id;
+      await this.saveState(state);
+      return `✅ You're booked! Your reference is ${booking.bookingReference}.`;
+    } catch (error) {
+      console.error("❌ Error accepting waitlist offer over WhatsApp:", error);
+      return "Sorry, that slot is no longer available. Reply BOOK to look for another time.";
+    }
+  }
+
+  private async findContact(state: IWhatsAppConversationState): Promise<IContact | null> {
+    if (state.contactId) {
+      const contact = await Contact.findOne({ _id: state.contactId, organizationId: state.organizationId });
+      if (contact) return contact;
+    }
+
+    return Contact.findOne({ organizationId: state.organizationId, phone: state.phoneNumber });
+  }
+
+  /**
+   * Link the conversation to the contact with this email. The sender's WhatsApp lead
+   * is completed with the name and email, or merged into an existing contact that has the email.
+   */
+  private async findOrCreateContact(state: IWhatsAppConversationState, email: string): Promise<IContact> {
+    const organization = await Organization.findById(state.organizationId);
+    if (!organization) {
+      throw new Error(`Organization ${state.organizationId} not found`);
+    }
+
+    const [lead, existing] = await Promise.all([
+      this.findContact(state),
+      Contact.findOne({ organizationId: state.organizationId, email }),
+    ]);
+
+    if (existing) {
+      if (lead && !lead._id.equals(existing._id)) {
+        return ContactMergeService.mergeContacts(existing, lead, organization.ownerId);
+      }
+      if (!existing.phone) {
+        existing.phone = state.phoneNumber;
+        await existing.save();
+      }
+      return existing;
+    }
+
+    const [firstName, ...rest] = (state.data.customerName || "WhatsApp Customer").split(/\s+/);
+    const contact = lead || new Contact({
+      organizationId: state.organizationId,
+      type: "Lead",
+      contextState: "New",
+      phone: state.phoneNumber,
+      leadSource: "WhatsApp",
+      createdBy: organization.ownerId,
+    });
+
+    contact.firstName = firstName.substring(0, 50);
+    contact.lastName = (rest.join(" ") || "-").substring(0, 50);
+    contact.email = email;
+    contact.updatedBy = organization.ownerId;
+    await contact.save();
+
+    console.log("👤 Saved WhatsApp lead contact:", contact.getFullName());
+    return contact;
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(amount);
+    } catch (error) {
+      return `${currency} ${amount}`;
+    }
+  }
+
+  private buildSummary(state: IWhatsAppConversationState, match: SpaceMatch): string {
+    const { space, startTime, endTime, timezone } = match;
+    const locationName = (space.locationId as any)?.name;
+
+    const date = formatInTimezone(startTime, timezone, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+    const start = formatInTimezone(startTime, timezone, { hour: "numeric", minute: "2-digit" });
+    const end = formatInTimezone(endTime, timezone, { hour: "numeric", minute: "2-digit" });
+
+    return [
+      "Here's your booking:",
+      "",
+      `📍 ${space.name}${locationName ? `, ${locationName}` : ""}`,
+      `📅 ${date}`,
+      `🕐 ${start} – ${end} (${formatDuration(state.data.durationMinutes!)})`,
+      `💰 ${this.formatAmount(state.data.quotedAmount ?? 0, state.data.currency || space.rates.currency)}`,
+      "",
+      "Reply YES to confirm or NO to cancel.",
+    ].join("\n");
+  }
+}
+
+export default new WhatsAppBookingFlowService();
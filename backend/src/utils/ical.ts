@@ -0,0 +1,203 @@
+import { zonedDateTimeToUtc } from './timeValidation';
+
+/**
+ * Reading of iCalendar files (RFC 5545), enough to import holiday and event calendars:
+ * the events with their summaries, UIDs, dates and yearly recurrence.
+ */
+
+export interface ICalDateValue {
+  date: string; // "YYYY-MM-DD"
+  time?: string; // "HH:MM"; absent for all-day values
+  utc: boolean; // Time given in UTC ("Z" suffix)
+  tzid?: string; // Timezone the time is given in; floating when neither this nor utc is set
+}
+
+export interface ICalEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  status?: string; // e.g. CANCELLED
+  start: ICalDateValue;
+  end?: ICalDateValue; // Exclusive
+  durationMs?: number;
+  rrule?: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const DURATION_VALUE = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+// Long lines are folded onto following lines that start with a space or tab
+const unfold = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '');
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char)).trim();
+
+const parseDateValue = ({ value, params }: ContentLine): ICalDateValue | null => {
+  const match = value.trim().match(DATE_VALUE);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    ...(hours && params.VALUE !== 'DATE' && { time: `${hours}:${minutes}` }),
+    utc: !!utc,
+    ...(params.TZID && { tzid: params.TZID })
+  };
+};
+
+const parseDuration = (value: string): number | undefined => {
+  const match = value.trim().match(DURATION_VALUE);
+  if (!match) return undefined;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part || '0');
+  const ms = ((+weeks * 7 + +days) * 24 * 60 * 60 + +hours * 60 * 60 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+/**
+ * Events of an iCalendar file. Events without a start are left out; properties of
+ * nested components such as alarms are ignored.
+ */
+export const parseICalendar = (text: string): ICalEvent[] => {
+  const lines = unfold(text);
+  if (!lines[0] || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('Not an iCalendar file');
+  }
+
+  const events: ICalEvent[] = [];
+  let current: Partial<ICalEvent> | null = null;
+  let nesting = 0; // Components open inside the current event
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const value = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) {
+        current = { summary: '' };
+      } else if (current) {
+        nesting++;
+      }
+      continue;
+    }
+    if (line.name === 'END') {
+      if (current && nesting > 0) {
+        nesting--;
+      } else if (current && value === 'VEVENT') {
+        if (current.start) events.push(current as ICalEvent);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nesting > 0) continue;
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'STATUS':
+        current.status = value;
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(line) || undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(line) || undefined;
+        break;
+      case 'DURATION':
+        current.durationMs = parseDuration(line.value);
+        break;
+      case 'RRULE':
+        current.rrule = value;
+        break;
+    }
+  }
+
+  return events;
+};
+
+/**
+ * UTC instant of a date-time value; floating times are read in the fallback timezone
+ */
+export const iCalDateValueToUtc = (value: ICalDateValue, fallbackTimezone: string): Date => {
+  const time = value.time || '00:00';
+  if (value.utc) {
+    return new Date(`${value.date}T${time}:00Z`);
+  }
+
+  let timezone = fallbackTimezone;
+  if (value.tzid) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value.tzid });
+      timezone = value.tzid;
+    } catch {
+      // Calendars from some apps use their own timezone names; read those as floating times
+    }
+  }
+  return zonedDateTimeToUtc(value.date, time, timezone);
+};
+
+/**
+ * Years in which a yearly recurring event occurs, from its first year up to `untilYear`.
+ * Returns null for recurrence other than plain FREQ=YEARLY rules.
+ */
+export const getYearlyOccurrenceYears = (event: ICalEvent, untilYear: number): number[] | null => {
+  const firstYear = Number(event.start.date.slice(0, 4));
+  if (!event.rrule) return [firstYear];
+
+  const parts = Object.fromEntries(event.rrule.replace(/^RRULE:/, '').split(';').map(part => part.split('=')));
+  const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST'];
+  if (parts.FREQ !== 'YEARLY' || Object.keys(parts).some(key => !supported.includes(key))) {
+    return null;
+  }
+
+  const interval = Number(parts.INTERVAL || 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity;
+  const until: string | undefined = parts.UNTIL?.slice(0, 8); // "YYYYMMDD"
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const monthDay = event.start.date.slice(5).replace('-', '');
+  const years: number[] = [];
+  for (let year = firstYear; year <= untilYear && years.length < count; year += interval) {
+    if (until && `${year}${monthDay}` > until) break;
+    years.push(year);
+  }
+  return years;
+};
@@ -0,0 +1,188 @@
+import { IInvoice } from '../models/Invoice';
+
+/**
+ * Invoice PDF rendering. Writes PDF 1.4 directly with the standard Helvetica fonts,
+ * which every PDF reader provides, so no PDF library is needed. Text is limited to
+ * Latin-1; other characters are replaced.
+ */
+
+export interface InvoicePdfSeller {
+  name: string; // Organization
+  locationName?: string;
+  address?: string;
+  taxId?: string;
+}
+
+type FontKey = 'F1' | 'F2'; // Regular, bold
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Approximate Helvetica advance width, used to right-align amounts
+const estimateTextWidth = (text: string, size: number, bold: boolean): number =>
+  text.length * size * (bold ? 0.56 : 0.52);
+
+const toPdfString = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+class PdfPageWriter {
+  pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, text: string, { size = 10, bold = false, align = 'left' }: TextOptions = {}): void {
+    const font: FontKey = bold ? 'F2' : 'F1';
+    const left = align === 'right' ? x - estimateTextWidth(text, size, bold) : x;
+    this.current.push(`BT /${font} ${size} Tf ${left.toFixed(2)} ${this.y.toFixed(2)} Td (${toPdfString(text)}) Tj ET`);
+  }
+
+  rule(): void {
+    this.current.push(`0.8 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S 0 G`);
+  }
+
+  moveDown(points: number): void {
+    this.y -= points;
+    if (this.y < MARGIN + 40) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+}
+
+const buildPdf = (pageContents: string[]): Buffer => {
+  const objects: string[] = [];
+  const pageCount = pageContents.length;
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and content stream per page
+  const pageObjectIds = pageContents.map((_, index) => 5 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pageContents.forEach((content, index) => {
+    const contentId = pageObjectIds[index] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+const formatMoney = (amount: number, currency: string): string =>
+  `${amount < 0 ? '-' : ''}${currency} ${Math.abs(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const renderInvoicePdf = (invoice: IInvoice, seller: InvoicePdfSeller): Buffer => {
+  const page = new PdfPageWriter();
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = { quantity: 340, unitPrice: 430, amount: right };
+
+  // Header
+  page.text(MARGIN, seller.name, { size: 18, bold: true });
+  page.text(right, invoice.status === 'Void' ? 'INVOICE (VOID)' : 'INVOICE', { size: 18, bold: true, align: 'right' });
+  page.moveDown(20);
+  if (seller.locationName) {
+    page.text(MARGIN, seller.locationName);
+  }
+  page.text(right, invoice.invoiceNumber, { bold: true, align: 'right' });
+  page.moveDown(14);
+  if (seller.address) {
+    page.text(MARGIN, seller.address, { size: 9 });
+  }
+  page.text(right, `Issued: ${formatDate(invoice.issuedAt)}`, { align: 'right' });
+  page.moveDown(14);
+  if (seller.taxId) {
+    page.text(MARGIN, `Tax ID: ${seller.taxId}`, { size: 9 });
+  }
+  if (invoice.dueDate) {
+    page.text(right, `Due: ${formatDate(invoice.dueDate)}`, { align: 'right' });
+  }
+  page.moveDown(30);
+
+  // Customer
+  page.text(MARGIN, 'Bill to', { size: 9, bold: true });
+  page.moveDown(14);
+  for (const line of [invoice.customer.name, invoice.customer.company, invoice.customer.email, invoice.customer.phone]) {
+    if (!line) continue;
+    page.text(MARGIN, line);
+    page.moveDown(13);
+  }
+  page.moveDown(17);
+
+  // Line items
+  page.text(MARGIN, 'Description', { size: 9, bold: true });
+  page.text(columns.quantity, 'Qty', { size: 9, bold: true, align: 'right' });
+  page.text(columns.unitPrice, 'Unit price', { size: 9, bold: true, align: 'right' });
+  page.text(columns.amount, 'Amount', { size: 9, bold: true, align: 'right' });
+  page.moveDown(6);
+  page.rule();
+  page.moveDown(14);
+
+  for (const item of invoice.lineItems) {
+    const description = item.description.length > 50 ? `${item.description.slice(0, 49)}...` : item.description;
+    page.text(MARGIN, description);
+    page.text(columns.quantity, String(item.quantity), { align: 'right' });
+    page.text(columns.unitPrice, formatMoney(item.unitPrice, invoice.currency), { align: 'right' });
+    page.text(columns.amount, formatMoney(item.amount, invoice.currency), { align: 'right' });
+    page.moveDown(16);
+  }
+
+  page.rule();
+  page.moveDown(16);
+
+  // Totals
+  const totals: Array<[string, number, boolean]> = [
+    ['Subtotal', invoice.subtotal, false],
+    ...invoice.taxes.map((tax): [string, number, boolean] => [`${tax.name} (${tax.rate}%)`, tax.amount, false]),
+    ['Total', invoice.total, true],
+    ['Paid', invoice.amountPaid, false]
+  ];
+  if (invoice.amountRefunded > 0) {
+    totals.push(['Refunded', -invoice.amountRefunded, false]);
+  }
+  totals.push(['Balance due', invoice.getBalanceDue(), true]);
+
+  for (const [label, amount, bold] of totals) {
+    page.text(columns.unitPrice, label, { bold, align: 'right' });
+    page.text(columns.amount, formatMoney(amount, invoice.currency), { bold, align: 'right' });
+    page.moveDown(16);
+  }
+
+  if (invoice.notes) {
+    page.moveDown(14);
+    page.text(MARGIN, invoice.notes, { size: 9 });
+  }
+
+  return buildPdf(page.pages.map(lines => lines.join('\n')));
+};
@@ -1,63 +1,99 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { IUser } from '../models/User';
 
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId: string;
 }
 
-export const generateToken = (user: IUser): string => {
-  const payload: JWTPayload = {
-    userId: user._id.toString(),
-    email: user.email,
-    role: user.role
-  };
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  tokenId: string;
+  type: 'refresh';
+}
 
+const getSecret = (): string => {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error('JWT_SECRET is not defined in environment variables');
   }
+  return secret;
+};
 
-  return jwt.sign(payload, secret, {
-    expiresIn: '7d',
+export const generateToken = (user: IUser, sessionId: string): string => {
+  const payload: JWTPayload = {
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId
+  };
+
+  // Access tokens are short lived; clients renew them through /auth/refresh
+  return jwt.sign(payload, getSecret(), {
+    expiresIn: (process.env.JWT_ACCESS_TOKEN_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'],
     issuer: 'cosynq-api',
     audience: 'cosynq-app'
   });
 };
 
 export const verifyToken = (token: string): JWTPayload => {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined in environment variables');
-  }
-
   try {
-    const decoded = jwt.verify(token, secret, {
+    const decoded = jwt.verify(token, getSecret(), {
       issuer: 'cosynq-api',
       audience: 'cosynq-app'
-    }) as JWTPayload;
-    
+    }) as JWTPayload & { type?: string };
+
+    // Refresh tokens share the signing secret and must never authorize a request
+    if (decoded.type === 'refresh' || !decoded.sessionId) {
+      throw new Error('Not an access token');
+    }
+
     return decoded;
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
 };
 
-export const generateRefreshToken = (user: IUser): string => {
-  const payload = {
+export const generateRefreshToken = (user: IUser, sessionId: string, tokenId: string): string => {
+  const payload: RefreshTokenPayload = {
     userId: user._id.toString(),
+    sessionId,
+    tokenId,
     type: 'refresh'
   };
 
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined in environment variables');
-  }
-
-  return jwt.sign(payload, secret, {
-    expiresIn: '30d',
+  return jwt.sign(payload, getSecret(), {
+    expiresIn: Math.floor(REFRESH_TOKEN_TTL_MS / 1000),
     issuer: 'cosynq-api',
     audience: 'cosynq-app'
   });
-};
\ No newline at end of file
+};
+
+// The token id a rotation replaces `tokenId` with. Derived rather than random, so a refresh
+// repeated within the grace period can be given the pair the first one already received
+export const deriveRefreshTokenId = (tokenId: string): string => {
+  return crypto.createHmac('sha256', getSecret()).update(`refresh:${tokenId}`).digest('hex');
+};
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
+  try {
+    const decoded = jwt.verify(token, getSecret(), {
+      issuer: 'cosynq-api',
+      audience: 'cosynq-app'
+    }) as RefreshTokenPayload;
+
+    if (decoded.type !== 'refresh' || !decoded.sessionId || !decoded.tokenId) {
+      throw new Error('Not a refresh token');
+    }
+
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid or expired refresh token');
+  }
+};
@@ -0,0 +1,46 @@
+// Country calling code assumed for numbers entered without one (e.g. "098765 43210")
+const getDefaultCountryCode = (): string => process.env.DEFAULT_PHONE_COUNTRY_CODE || '91';
+
+/**
+ * Normalize a phone number to E.164 (+<country code><subscriber number>).
+ * Accepts WhatsApp addresses ("whatsapp:+91...") and common local formats with
+ * spaces, dashes, brackets, a leading 0 or a 00 international prefix.
+ * Returns null when the input cannot be a valid phone number.
+ */
+export const normalizePhoneNumber = (
+  input: string,
+  defaultCountryCode: string = getDefaultCountryCode()
+): string | null => {
+  const trimmed = input.trim().replace(/^whatsapp:/i, '');
+  let digits = trimmed.replace(/\D/g, '');
+
+  if (!digits) {
+    return null;
+  }
+
+  if (!trimmed.startsWith('+')) {
+    if (digits.startsWith('00')) {
+      digits = digits.slice(2);
+    } else if (digits.startsWith('0')) {
+      digits = defaultCountryCode + digits.replace(/^0+/, '');
+    } else if (digits.length <= 10) {
+      digits = defaultCountryCode + digits;
+    }
+  }
+
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+};
+
+/**
+ * Regex matching stored phone numbers that end in the same digits as `phone`,
+ * whatever separators they were saved with. Used to find candidates before
+ * comparing normalized numbers.
+ */
+export const buildPhoneSuffixPattern = (phone: string, suffixLength = 8): RegExp | null => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < suffixLength) {
+    return null;
+  }
+
+  return new RegExp(`${digits.slice(-suffixLength).split('').join('\\D*')}\\D*$`);
+};
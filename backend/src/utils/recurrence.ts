@@ -0,0 +1,247 @@
+import { zonedDateTimeToUtc, formatDateInTimezone, formatTimeInTimezone } from './timeValidation';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: RecurrenceWeekday[]; // Weekly only; defaults to the weekday of the first occurrence
+  count?: number;
+  until?: Date; // Inclusive: the last occurrence starts on or before this instant
+}
+
+// Upper bound on the bookings a single series may create
+export const MAX_SERIES_OCCURRENCES = 100;
+
+// RFC 5545 weeks start on Monday (WKST=MO)
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const FREQUENCY_TO_RRULE: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates ("YYYY-MM-DD") are handled as UTC midnights so DST never shifts them
+const dateStringToUtc = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const utcToDateString = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+/**
+ * Add whole days to a calendar date ("YYYY-MM-DD")
+ */
+export const addDaysToDateString = (date: string, days: number): string =>
+  utcToDateString(dateStringToUtc(date) + days * DAY_MS);
+
+/**
+ * Number of calendar days from one date ("YYYY-MM-DD") to another
+ */
+export const daysBetweenDateStrings = (from: string, to: string): number =>
+  Math.round((dateStringToUtc(to) - dateStringToUtc(from)) / DAY_MS);
+
+/**
+ * Weekday code of a calendar date ("YYYY-MM-DD")
+ */
+export const getWeekdayOfDateString = (date: string): RecurrenceWeekday => {
+  // getUTCDay() is 0 for Sunday; RECURRENCE_WEEKDAYS starts on Monday
+  return RECURRENCE_WEEKDAYS[(new Date(dateStringToUtc(date)).getUTCDay() + 6) % 7];
+};
+
+/**
+ * Move weekday codes by a number of days (e.g. TU shifted by 1 is WE)
+ */
+export const shiftWeekdays = (weekdays: RecurrenceWeekday[], days: number): RecurrenceWeekday[] =>
+  weekdays.map(weekday => {
+    const index = RECURRENCE_WEEKDAYS.indexOf(weekday);
+    return RECURRENCE_WEEKDAYS[(((index + days) % 7) + 7) % 7];
+  });
+
+const formatRRuleDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Serialize a rule as an RFC 5545 RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=1;BYDAY=TU;COUNT=10"
+ */
+export const toRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${FREQUENCY_TO_RRULE[rule.frequency]}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  }
+
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix).
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekly), COUNT and UNTIL.
+ * Throws when the rule uses anything else.
+ */
+export const parseRRule = (value: string): RecurrenceRule => {
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const partValue = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ': {
+        const frequency = (Object.keys(FREQUENCY_TO_RRULE) as RecurrenceFrequency[])
+          .find(candidate => FREQUENCY_TO_RRULE[candidate] === partValue);
+        if (!frequency) {
+          throw new Error(`Unsupported recurrence frequency: ${partValue}`);
+        }
+        rule.frequency = frequency;
+        break;
+      }
+      case 'INTERVAL':
+        rule.interval = parseInt(partValue, 10);
+        break;
+      case 'BYDAY': {
+        const weekdays = partValue.split(',');
+        if (!weekdays.every(weekday => RECURRENCE_WEEKDAYS.includes(weekday as RecurrenceWeekday))) {
+          throw new Error(`Unsupported BYDAY value: ${partValue}`);
+        }
+        rule.byWeekday = weekdays as RecurrenceWeekday[];
+        break;
+      }
+      case 'COUNT':
+        rule.count = parseInt(partValue, 10);
+        break;
+      case 'UNTIL': {
+        const match = partValue.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+        if (!match) {
+          throw new Error(`Invalid UNTIL value: ${partValue}`);
+        }
+        const [, year, month, day, hours, minutes, seconds] = match;
+        // A date-only UNTIL includes the whole day
+        rule.until = hours
+          ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+          : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+        break;
+      }
+      case 'WKST':
+        if (partValue !== 'MO') {
+          throw new Error('Only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (!rule.frequency) {
+    throw new Error('Recurrence rule must include FREQ');
+  }
+
+  return validateRecurrenceRule(rule as RecurrenceRule);
+};
+
+/**
+ * Check a rule can be expanded: positive interval, valid weekdays and an end (COUNT or UNTIL)
+ */
+export const validateRecurrenceRule = (rule: RecurrenceRule): RecurrenceRule => {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new Error('Recurrence interval must be a positive whole number');
+  }
+  if (rule.count === undefined && !rule.until) {
+    throw new Error('Recurrence must end after a number of occurrences or on a date');
+  }
+  if (rule.count !== undefined && rule.until) {
+    throw new Error('Recurrence cannot have both an occurrence count and an end date');
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new Error('Recurrence count must be a positive whole number');
+  }
+  if (rule.until && isNaN(rule.until.getTime())) {
+    throw new Error('Recurrence end date is invalid');
+  }
+  if (rule.frequency !== 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    throw new Error('Weekdays can only be chosen for weekly recurrence');
+  }
+
+  return rule;
+};
+
+/**
+ * Expand a rule into the start times of its occurrences, beginning with `firstStart`.
+ * Occurrences keep the wall-clock time of the first one in `timezone`, so a 10:00
+ * meeting stays at 10:00 across DST changes. Monthly rules skip months that don't
+ * have the day (a series on the 31st has no occurrence in April), as RRULE does.
+ * Weekly rules whose weekdays don't include the first day start on the next match.
+ * Throws when the rule would create more than `limit` occurrences.
+ */
+export const expandRecurrence = (
+  firstStart: Date,
+  rule: RecurrenceRule,
+  timezone: string,
+  limit: number = MAX_SERIES_OCCURRENCES
+): Date[] => {
+  validateRecurrenceRule(rule);
+
+  const firstDate = formatDateInTimezone(firstStart, timezone);
+  const time = formatTimeInTimezone(firstStart, timezone);
+  const occurrences: Date[] = [];
+
+  // Returns false once the series has ended
+  const add = (date: string): boolean => {
+    if (rule.count !== undefined && occurrences.length >= rule.count) return false;
+
+    const start = zonedDateTimeToUtc(date, time, timezone);
+    if (rule.until && start > rule.until) return false;
+
+    if (occurrences.length >= limit) {
+      throw new Error(`A recurring booking can have at most ${limit} occurrences`);
+    }
+    occurrences.push(start);
+    return true;
+  };
+
+  if (rule.frequency === 'daily') {
+    for (let period = 0; ; period++) {
+      if (!add(addDaysToDateString(firstDate, period * rule.interval))) break;
+    }
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+      ? RECURRENCE_WEEKDAYS.filter(weekday => rule.byWeekday!.includes(weekday))
+      : [getWeekdayOfDateString(firstDate)];
+    const weekStart = addDaysToDateString(firstDate, -RECURRENCE_WEEKDAYS.indexOf(getWeekdayOfDateString(firstDate)));
+
+    let ended = false;
+    for (let period = 0; !ended; period++) {
+      for (const weekday of weekdays) {
+        const date = addDaysToDateString(weekStart, period * rule.interval * 7 + RECURRENCE_WEEKDAYS.indexOf(weekday));
+        if (date < firstDate) continue;
+        if (!add(date)) {
+          ended = true;
+          break;
+        }
+      }
+    }
+  } else {
+    const [firstYear, firstMonth, dayOfMonth] = firstDate.split('-').map(Number);
+
+    // Months without the day are skipped but still count towards the limit, so a rule can't loop forever
+    for (let period = 0; period < limit * 12; period++) {
+      const monthIndex = firstMonth - 1 + period * rule.interval;
+      const candidate = new Date(Date.UTC(firstYear, monthIndex, dayOfMonth));
+      if (candidate.getUTCMonth() !== ((monthIndex % 12) + 12) % 12) continue;
+      if (!add(utcToDateString(candidate.getTime()))) break;
+    }
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+export interface SecureToken {
+  token: string;        // Raw token sent to the user (never stored)
+  hashedToken: string;  // SHA-256 hash persisted in the database
+}
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const generateSecureToken = (bytes: number = 32): SecureToken => {
+  const token = crypto.randomBytes(bytes).toString('hex');
+  return {
+    token,
+    hashedToken: hashToken(token)
+  };
+};
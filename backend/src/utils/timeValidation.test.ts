@@ -0,0 +1,157 @@
+import { Types } from 'mongoose';
+import { IDayHours } from '../models/Location';
+import {
+  BusinessHoursSource,
+  zonedDateTimeToUtc,
+  getZonedWindow,
+  checkBusinessHours,
+  generateAvailableTimeSlots
+} from './timeValidation';
+
+// Hours for every date, or per date with a fallback
+const hoursSource = (timezone: string, hours: IDayHours, byDate: Record<string, IDayHours> = {}): BusinessHoursSource => ({
+  timezone,
+  getHoursForDate: (date: string) => byDate[date] || hours
+});
+
+const open = (openTime: string, closeTime: string): IDayHours => ({ isOpen: true, openTime, closeTime });
+
+// Long before every date below, so no slot is dropped as past
+const LONG_AGO = new Date('2025-01-01T00:00:00Z');
+
+describe('zonedDateTimeToUtc', () => {
+  test.each([
+    // America/New_York springs forward at 02:00 on 2025-03-09; 02:30 doesn't exist
+    ['America/New_York', '2025-03-08', '09:00', '2025-03-08T14:00:00.000Z'],
+    ['America/New_York', '2025-03-09', '01:30', '2025-03-09T06:30:00.000Z'],
+    ['America/New_York', '2025-03-09', '02:30', '2025-03-09T07:30:00.000Z'],
+    ['America/New_York', '2025-03-09', '03:30', '2025-03-09T07:30:00.000Z'],
+    ['America/New_York', '2025-03-10', '09:00', '2025-03-10T13:00:00.000Z'],
+    // America/New_York falls back at 02:00 on 2025-11-02; 01:30 happens twice
+    ['America/New_York', '2025-11-02', '00:30', '2025-11-02T04:30:00.000Z'],
+    ['America/New_York', '2025-11-02', '01:30', '2025-11-02T05:30:00.000Z'],
+    ['America/New_York', '2025-11-02', '02:30', '2025-11-02T07:30:00.000Z'],
+    // Europe/London springs forward at 01:00 on 2025-03-30; 01:30 doesn't exist
+    ['Europe/London', '2025-03-30', '00:30', '2025-03-30T00:30:00.000Z'],
+    ['Europe/London', '2025-03-30', '01:30', '2025-03-30T01:30:00.000Z'],
+    ['Europe/London', '2025-03-30', '09:00', '2025-03-30T08:00:00.000Z'],
+    // Asia/Kolkata has a half-hour offset and no DST
+    ['Asia/Kolkata', '2025-06-15', '09:00', '2025-06-15T03:30:00.000Z'],
+    ['Asia/Kolkata', '2025-06-15', '00:00', '2025-06-14T18:30:00.000Z'],
+    ['Asia/Kolkata', '2025-12-31', '23:30', '2025-12-31T18:00:00.000Z']
+  ])('%s %s %s is %s', (timezone, date, time, expected) => {
+    expect(zonedDateTimeToUtc(date, time, timezone).toISOString()).toBe(expected);
+  });
+
+  it('treats the time as UTC in an unknown timezone', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(zonedDateTimeToUtc('2025-06-15', '09:00', 'Not/AZone').toISOString()).toBe('2025-06-15T09:00:00.000Z');
+    warn.mockRestore();
+  });
+});
+
+describe('getZonedWindow', () => {
+  test.each([
+    // Days with a DST change are an hour shorter or longer
+    ['America/New_York', '2025-03-09', '00:00', '06:00', '2025-03-09T05:00:00.000Z', '2025-03-09T10:00:00.000Z', 5],
+    ['America/New_York', '2025-11-02', '00:00', '06:00', '2025-11-02T04:00:00.000Z', '2025-11-02T11:00:00.000Z', 7],
+    ['Europe/London', '2025-03-30', '00:00', '12:00', '2025-03-30T00:00:00.000Z', '2025-03-30T11:00:00.000Z', 11],
+    ['Asia/Kolkata', '2025-06-15', '09:00', '18:00', '2025-06-15T03:30:00.000Z', '2025-06-15T12:30:00.000Z', 9],
+    // A closing time at or before the opening time is on the next day
+    ['Asia/Kolkata', '2025-06-15', '22:00', '06:00', '2025-06-15T16:30:00.000Z', '2025-06-16T00:30:00.000Z', 8],
+    ['America/New_York', '2025-11-01', '20:00', '04:00', '2025-11-02T00:00:00.000Z', '2025-11-02T09:00:00.000Z', 9],
+    ['Europe/London', '2025-03-29', '22:00', '06:00', '2025-03-29T22:00:00.000Z', '2025-03-30T05:00:00.000Z', 7]
+  ])('%s %s %s-%s', (timezone, date, openTime, closeTime, start, end, hours) => {
+    const window = getZonedWindow(date, openTime, closeTime, timezone);
+    expect(window.start.toISOString()).toBe(start);
+    expect(window.end.toISOString()).toBe(end);
+    expect((window.end.getTime() - window.start.getTime()) / (60 * 60 * 1000)).toBe(hours);
+  });
+});
+
+describe('checkBusinessHours', () => {
+  const newYork = hoursSource('America/New_York', open('09:00', '17:00'), {
+    '2025-11-27': { isOpen: false, notes: 'Thanksgiving', exception: { _id: new Types.ObjectId(), date: '2025-11-27', name: 'Thanksgiving', type: 'closed', source: 'manual' } }
+  });
+  const london = hoursSource('Europe/London', open('00:00', '04:00'));
+  const overnight = hoursSource('Asia/Kolkata', open('22:00', '06:00'));
+
+  test.each([
+    // Opening hours follow the wall clock on the days clocks change
+    ['New York, first EDT day', newYork, '2025-03-09T13:00:00Z', '2025-03-09T21:00:00Z', true, true],
+    ['New York, before opening', newYork, '2025-03-09T12:30:00Z', '2025-03-09T14:00:00Z', true, false],
+    ['New York, first EST day', newYork, '2025-11-02T14:00:00Z', '2025-11-02T22:00:00Z', true, true],
+    ['New York, past closing', newYork, '2025-11-02T21:00:00Z', '2025-11-02T22:30:00Z', true, false],
+    ['New York, holiday', newYork, '2025-11-27T15:00:00Z', '2025-11-27T16:00:00Z', false, false],
+    // London's hours on its short day end at 04:00 BST, 03:00 UTC
+    ['London, until closing', london, '2025-03-30T00:00:00Z', '2025-03-30T03:00:00Z', true, true],
+    ['London, past closing', london, '2025-03-30T00:00:00Z', '2025-03-30T03:30:00Z', true, false],
+    // Overnight hours, open 22:00 to 06:00
+    ['Kolkata, evening into night', overnight, '2025-06-15T17:30:00Z', '2025-06-15T19:30:00Z', true, true],
+    ['Kolkata, after midnight', overnight, '2025-06-15T19:30:00Z', '2025-06-15T21:30:00Z', true, true],
+    ['Kolkata, past morning closing', overnight, '2025-06-15T23:30:00Z', '2025-06-16T01:30:00Z', true, false],
+    ['Kolkata, midday', overnight, '2025-06-15T06:30:00Z', '2025-06-15T07:30:00Z', true, false]
+  ])('%s', (_name, source, start, end, locationOpen, isWithinHours) => {
+    const result = checkBusinessHours(new Date(start), new Date(end), source);
+    expect(result.locationOpen).toBe(locationOpen);
+    expect(result.isWithinHours).toBe(isWithinHours);
+  });
+
+  it('reports the hours of the night that started the day before', () => {
+    const result = checkBusinessHours(new Date('2025-06-15T19:30:00Z'), new Date('2025-06-15T21:30:00Z'), overnight);
+    expect(result.dayOperatingHours).toMatchObject({ isOpen: true, openTime: '22:00', closeTime: '06:00' });
+  });
+
+  it('reports the holiday that closed the location', () => {
+    const result = checkBusinessHours(new Date('2025-11-27T15:00:00Z'), new Date('2025-11-27T16:00:00Z'), newYork);
+    expect(result.dateException?.name).toBe('Thanksgiving');
+  });
+
+  it('allows any time without a location', () => {
+    const result = checkBusinessHours(new Date('2025-06-15T02:00:00Z'), new Date('2025-06-15T03:00:00Z'));
+    expect(result.isWithinHours).toBe(true);
+  });
+});
+
+describe('generateAvailableTimeSlots', () => {
+  test.each([
+    // Slots every 30 minutes cover the real length of days with a DST change
+    ['New York, short day', 'America/New_York', '2025-03-09', open('00:00', '06:00'), 60, 9, '2025-03-09T05:00:00.000Z', '2025-03-09T10:00:00.000Z'],
+    ['New York, long day', 'America/New_York', '2025-11-02', open('00:00', '06:00'), 60, 13, '2025-11-02T04:00:00.000Z', '2025-11-02T11:00:00.000Z'],
+    ['London, short day', 'Europe/London', '2025-03-30', open('00:00', '04:00'), 30, 6, '2025-03-30T00:00:00.000Z', '2025-03-30T03:00:00.000Z'],
+    ['Kolkata, day', 'Asia/Kolkata', '2025-06-15', open('09:00', '18:00'), 60, 17, '2025-06-15T03:30:00.000Z', '2025-06-15T12:30:00.000Z'],
+    ['Kolkata, overnight', 'Asia/Kolkata', '2025-06-15', open('22:00', '06:00'), 120, 13, '2025-06-15T16:30:00.000Z', '2025-06-16T00:30:00.000Z']
+  ])('%s', (_name, timezone, date, hours, duration, count, firstStart, lastEnd) => {
+    const slots = generateAvailableTimeSlots(date, duration, hoursSource(timezone, hours), [], LONG_AGO);
+    expect(slots).toHaveLength(count);
+    expect(slots[0].startTime.toISOString()).toBe(firstStart);
+    expect(slots[slots.length - 1].endTime.toISOString()).toBe(lastEnd);
+    slots.forEach(slot => expect(slot.endTime.getTime() - slot.startTime.getTime()).toBe(duration * 60 * 1000));
+  });
+
+  it('starts at the next slot on the grid after now', () => {
+    const slots = generateAvailableTimeSlots('2025-06-15', 60, hoursSource('Asia/Kolkata', open('09:00', '18:00')), [],
+      new Date('2025-06-15T05:10:00Z')); // 10:40 IST
+
+    expect(slots).toHaveLength(13);
+    expect(slots[0].startTime.toISOString()).toBe('2025-06-15T05:30:00.000Z'); // 11:00 IST
+  });
+
+  it('marks slots overlapping existing bookings unavailable', () => {
+    const booking = { startTime: new Date('2025-06-15T05:30:00Z'), endTime: new Date('2025-06-15T06:30:00Z') }; // 11:00-12:00 IST
+    const slots = generateAvailableTimeSlots('2025-06-15', 60, hoursSource('Asia/Kolkata', open('09:00', '18:00')), [booking], LONG_AGO);
+
+    const unavailable = slots.filter(slot => !slot.isAvailable).map(slot => slot.startTime.toISOString());
+    expect(unavailable).toEqual(['2025-06-15T05:00:00.000Z', '2025-06-15T05:30:00.000Z', '2025-06-15T06:00:00.000Z']);
+  });
+
+  it('has no slots on a closed day', () => {
+    expect(generateAvailableTimeSlots('2025-06-15', 60, hoursSource('Asia/Kolkata', { isOpen: false }), [], LONG_AGO)).toEqual([]);
+  });
+
+  it('uses 09:00 to 18:00 in Asia/Kolkata without a location', () => {
+    const slots = generateAvailableTimeSlots('2025-06-15', 60, undefined, [], LONG_AGO);
+    expect(slots[0].startTime.toISOString()).toBe('2025-06-15T03:30:00.000Z');
+    expect(slots[slots.length - 1].endTime.toISOString()).toBe('2025-06-15T12:30:00.000Z');
+  });
+});
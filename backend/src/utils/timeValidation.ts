@@ -1,4 +1,4 @@
-import { ILocation, DayOfWeek } from '../models/Location';
+import { ILocation, DayOfWeek, ILocationDateException, IDayHours } from '../models/Location';
 
 /**
  * Time validation utilities for booking system
@@ -10,6 +10,13 @@ export interface TimeValidationConfig {
   maximumAdvanceDays: number; // Default: 90 days
   allowPastBookings: boolean; // Default: false
   respectOperatingHours: boolean; // Default: true
+  schedule?: BusinessHoursSource; // Hours to check instead of the location's, e.g. a space's effective schedule
+}
+
+// Anything that knows the hours of a date: a location, or a space's effective schedule
+export interface BusinessHoursSource {
+  timezone: string;
+  getHoursForDate(date: string): IDayHours;
 }
 
 export interface TimeValidationResult {
@@ -32,6 +39,7 @@ export interface BusinessHoursInfo {
     closeTime?: string;
     notes?: string;
   };
+  dateException?: ILocationDateException; // Holiday or special date the hours came from
 }
 
 /**
@@ -44,6 +52,68 @@ export const DEFAULT_TIME_CONFIG: TimeValidationConfig = {
   respectOperatingHours: true
 };
 
+// Wall-clock date and time at a place, e.g. 2025-03-09 02:30 in America/New_York
+export interface ZonedDateTime {
+  date: string; // "YYYY-MM-DD"
+  time: string; // "HH:MM"
+  timezone: string;
+}
+
+// An interval between two instants, e.g. the hours a location is open on a date
+export interface ZonedWindow {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_OF_WEEK: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Formatting timezones is slow to set up, so each timezone's formatter is kept
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock fields of an instant in a timezone
+function getZonedParts(instant: Date, timezone: string) {
+  const parts = getZonedFormatter(timezone).formatToParts(instant);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Offset of a timezone from UTC (in milliseconds) at a given instant
+ */
+function getTimezoneOffsetMs(instant: Date, timezone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timezone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
 /**
  * Convert timezone string to a more readable format
  */
@@ -58,11 +128,7 @@ export function getTimezoneInfo(timezone: string): { offset: string; name: strin
     const parts = formatter.formatToParts(now);
     const timeZoneName = parts.find(part => part.type === 'timeZoneName')?.value || timezone;
     
-    // Calculate offset
-    const utcDate = new Date(now.getTime() + (now.getTimezoneOffset() * 60000));
-    const targetDate = new Date(utcDate.toLocaleString("en-US", { timeZone: timezone }));
-    const offsetMs = targetDate.getTime() - utcDate.getTime();
-    const offsetHours = offsetMs / (1000 * 60 * 60);
+    const offsetHours = getTimezoneOffsetMs(now, timezone) / (1000 * 60 * 60);
     const offsetSign = offsetHours >= 0 ? '+' : '-';
     const offsetFormatted = `${offsetSign}${Math.abs(offsetHours).toFixed(1)}h`;
     
@@ -79,45 +145,76 @@ export function getTimezoneInfo(timezone: string): { offset: string; name: strin
 }
 
 /**
- * Get current time in a specific timezone
+ * Wall-clock date and time of an instant in a timezone; UTC if the timezone is unknown
  */
-export function getCurrentTimeInTimezone(timezone: string = 'Asia/Kolkata'): Date {
+export function toZonedDateTime(instant: Date, timezone: string = 'Asia/Kolkata'): ZonedDateTime {
   try {
-    const now = new Date();
-    const timeInTimezone = new Date(now.toLocaleString("en-US", { timeZone: timezone }));
-    return timeInTimezone;
+    const { year, month, day, hour, minute } = getZonedParts(instant, timezone);
+    return { date: `${year}-${pad(month)}-${pad(day)}`, time: `${pad(hour)}:${pad(minute)}`, timezone };
   } catch (error) {
-    console.warn(`Invalid timezone: ${timezone}, falling back to UTC`);
-    return new Date();
+    console.warn(`Invalid timezone: ${timezone}, using UTC`);
+    const iso = instant.toISOString();
+    return { date: iso.substring(0, 10), time: iso.substring(11, 16), timezone: 'UTC' };
   }
 }
 
 /**
- * Convert date to specific timezone
+ * Build the UTC instant for a wall-clock date ("YYYY-MM-DD") and time ("HH:MM") in a timezone.
+ * Times skipped when clocks go forward resolve to the same distance past the change (02:30
+ * becomes 03:30); times repeated when clocks go back resolve to their first occurrence.
  */
-export function convertDateToTimezone(date: Date, timezone: string = 'Asia/Kolkata'): Date {
+export function zonedDateTimeToUtc(date: string, time: string, timezone: string = 'Asia/Kolkata'): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+
   try {
-    return new Date(date.toLocaleString("en-US", { timeZone: timezone }));
+    // Offsets a day either side cover any transition on the date itself
+    const offsetBefore = getTimezoneOffsetMs(new Date(wallClockAsUtc - DAY_MS), timezone);
+    const offsetAfter = getTimezoneOffsetMs(new Date(wallClockAsUtc + DAY_MS), timezone);
+
+    const matching = [wallClockAsUtc - offsetBefore, wallClockAsUtc - offsetAfter]
+      .filter(candidate => getTimezoneOffsetMs(new Date(candidate), timezone) === wallClockAsUtc - candidate)
+      .sort((a, b) => a - b);
+
+    return new Date(matching.length > 0 ? matching[0] : wallClockAsUtc - offsetBefore);
   } catch (error) {
-    console.warn(`Invalid timezone: ${timezone}, returning original date`);
-    return date;
+    console.warn(`Invalid timezone: ${timezone}, treating time as UTC`);
+    return new Date(wallClockAsUtc);
   }
 }
 
+/**
+ * Format an instant as a calendar date ("YYYY-MM-DD") in a timezone
+ */
+export function formatDateInTimezone(date: Date, timezone: string = 'Asia/Kolkata'): string {
+  return toZonedDateTime(date, timezone).date;
+}
+
+/**
+ * Format an instant as a wall-clock time ("HH:MM") in a timezone
+ */
+export function formatTimeInTimezone(date: Date, timezone: string = 'Asia/Kolkata'): string {
+  return toZonedDateTime(date, timezone).time;
+}
+
 /**
  * Get day of week from date in specific timezone
  */
 export function getDayOfWeekInTimezone(date: Date, timezone: string = 'Asia/Kolkata'): DayOfWeek {
-  try {
-    const dateInTimezone = convertDateToTimezone(date, timezone);
-    const dayIndex = dateInTimezone.getDay();
-    const days: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    return days[dayIndex];
-  } catch (error) {
-    const dayIndex = date.getDay();
-    const days: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    return days[dayIndex];
-  }
+  return DAYS_OF_WEEK[new Date(`${formatDateInTimezone(date, timezone)}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Instants a date's opening and closing times fall on. A closing time at or before the
+ * opening time is on the next day (e.g. 22:00 to 06:00).
+ */
+export function getZonedWindow(date: string, openTime: string, closeTime: string, timezone: string): ZonedWindow {
+  const nextDate = new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().substring(0, 10);
+  return {
+    start: zonedDateTimeToUtc(date, openTime, timezone),
+    end: zonedDateTimeToUtc(closeTime <= openTime ? nextDate : date, closeTime, timezone)
+  };
 }
 
 /**
@@ -126,7 +223,7 @@ export function getDayOfWeekInTimezone(date: Date, timezone: string = 'Asia/Kolk
 export function checkBusinessHours(
   startTime: Date,
   endTime: Date,
-  location?: ILocation
+  location?: BusinessHoursSource
 ): BusinessHoursInfo {
   if (!location) {
     return {
@@ -138,47 +235,47 @@ export function checkBusinessHours(
 
   try {
     const timezone = location.timezone || 'Asia/Kolkata';
-    const startInTimezone = convertDateToTimezone(startTime, timezone);
-    const endInTimezone = convertDateToTimezone(endTime, timezone);
+    const startDate = formatDateInTimezone(startTime, timezone);
+
+    // Hours past midnight of the day before, e.g. 01:00 at a location open 22:00 to 06:00
+    const previousDate = new Date(Date.parse(`${startDate}T00:00:00Z`) - DAY_MS).toISOString().substring(0, 10);
+    const previousHours = location.getHoursForDate(previousDate);
+    if (previousHours.isOpen && previousHours.openTime && previousHours.closeTime &&
+        previousHours.closeTime <= previousHours.openTime) {
+      const window = getZonedWindow(previousDate, previousHours.openTime, previousHours.closeTime, timezone);
+      if (startTime >= window.start && startTime < window.end) {
+        return {
+          isWithinHours: endTime <= window.end,
+          locationOpen: true,
+          dayOperatingHours: {
+            isOpen: true,
+            openTime: previousHours.openTime,
+            closeTime: previousHours.closeTime,
+            notes: previousHours.notes
+          },
+          dateException: previousHours.exception
+        };
+      }
+    }
     
-    // Get day of week for the booking start time
-    const dayOfWeek = getDayOfWeekInTimezone(startTime, timezone);
-    const operatingHours = location.getOperatingHoursForDay(dayOfWeek);
+    // Hours of the booking's start date, including holidays and special dates
+    const operatingHours = location.getHoursForDate(startDate);
     
-    if (!operatingHours || !operatingHours.isOpen) {
+    if (!operatingHours.isOpen || !operatingHours.openTime || !operatingHours.closeTime) {
       return {
         isWithinHours: false,
         locationOpen: false,
         dayOperatingHours: {
           isOpen: false,
-          notes: operatingHours?.notes || 'Location is closed on this day'
-        }
+          notes: operatingHours.notes || 'Location is closed on this day'
+        },
+        dateException: operatingHours.exception
       };
     }
 
-    // Convert operating hours to dates for comparison
-    const startHour = parseInt(operatingHours.openTime!.split(':')[0]);
-    const startMinute = parseInt(operatingHours.openTime!.split(':')[1]);
-    const endHour = parseInt(operatingHours.closeTime!.split(':')[0]);
-    const endMinute = parseInt(operatingHours.closeTime!.split(':')[1]);
-
-    const operatingStart = new Date(startInTimezone);
-    operatingStart.setHours(startHour, startMinute, 0, 0);
-    
-    const operatingEnd = new Date(startInTimezone);
-    operatingEnd.setHours(endHour, endMinute, 0, 0);
-
-    // Handle overnight operating hours (e.g., 22:00 to 06:00)
-    if (operatingEnd <= operatingStart) {
-      operatingEnd.setDate(operatingEnd.getDate() + 1);
-    }
-
-    const bookingStartTime = startInTimezone.getHours() * 60 + startInTimezone.getMinutes();
-    const bookingEndTime = endInTimezone.getHours() * 60 + endInTimezone.getMinutes();
-    const operatingStartTime = startHour * 60 + startMinute;
-    const operatingEndTime = endHour * 60 + endMinute;
-
-    const isWithinHours = bookingStartTime >= operatingStartTime && bookingEndTime <= operatingEndTime;
+    // Compared as instants, so days with a DST change keep their real length
+    const window = getZonedWindow(startDate, operatingHours.openTime, operatingHours.closeTime, timezone);
+    const isWithinHours = startTime >= window.start && endTime <= window.end;
 
     return {
       isWithinHours,
@@ -188,7 +285,8 @@ export function checkBusinessHours(
         openTime: operatingHours.openTime,
         closeTime: operatingHours.closeTime,
         notes: operatingHours.notes
-      }
+      },
+      dateException: operatingHours.exception
     };
   } catch (error) {
     console.warn('Error checking business hours:', error);
@@ -207,15 +305,15 @@ export function validateBookingTime(
   startTime: Date,
   endTime: Date,
   location?: ILocation,
-  config: Partial<TimeValidationConfig> = {}
+  config: Partial<TimeValidationConfig> = {},
+  now: Date = new Date()
 ): TimeValidationResult {
   const finalConfig = { ...DEFAULT_TIME_CONFIG, ...config };
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Get current time in location's timezone or default
-  const timezone = location?.timezone || 'Asia/Kolkata';
-  const now = getCurrentTimeInTimezone(timezone);
+  const hoursSource = finalConfig.schedule || location;
+  const timezone = hoursSource?.timezone || 'Asia/Kolkata';
   
   // Basic validation: start time before end time
   if (startTime >= endTime) {
@@ -249,18 +347,21 @@ export function validateBookingTime(
     errors.push(`Bookings can only be made up to ${finalConfig.maximumAdvanceDays} days in advance`);
   }
 
-  // 4. Check same-day booking rules
-  const isToday = startTime.toDateString() === now.toDateString();
+  // 4. Check same-day booking rules, on the location's calendar
+  const isToday = formatDateInTimezone(startTime, timezone) === formatDateInTimezone(now, timezone);
   if (isToday && location && !location.allowSameDayBooking) {
     errors.push('Same-day bookings are not allowed for this location');
   }
 
   // 5. Check business/operating hours
-  if (finalConfig.respectOperatingHours && location) {
-    const businessHours = checkBusinessHours(startTime, endTime, location);
+  if (finalConfig.respectOperatingHours && hoursSource) {
+    const businessHours = checkBusinessHours(startTime, endTime, hoursSource);
     
-    if (!businessHours.locationOpen) {
-      errors.push(`Location is closed on ${getDayOfWeekInTimezone(startTime, timezone)}s`);
+    if (!businessHours.locationOpen && businessHours.dateException) {
+      errors.push(`Location is closed on ${businessHours.dateException.date} (${businessHours.dateException.name})`);
+    } else if (!businessHours.locationOpen) {
+      const closed = finalConfig.schedule ? 'This space is closed' : 'Location is closed';
+      errors.push(`${closed} on ${getDayOfWeekInTimezone(startTime, timezone)}s`);
     } else if (!businessHours.isWithinHours) {
       const { openTime, closeTime } = businessHours.dayOperatingHours;
       errors.push(`Booking time must be within operating hours: ${openTime} - ${closeTime}`);
@@ -291,83 +392,60 @@ export function validateBookingTime(
 }
 
 /**
- * Generate available time slots for a specific date, respecting operating hours
+ * Generate available time slots for a date ("YYYY-MM-DD") in the location's timezone,
+ * respecting operating hours. Slots start every 30 minutes from opening time.
  */
 export function generateAvailableTimeSlots(
-  targetDate: Date,
+  date: string,
   duration: number, // in minutes
-  location?: ILocation,
-  existingBookings: Array<{ startTime: Date; endTime: Date }> = []
+  location?: BusinessHoursSource,
+  existingBookings: Array<{ startTime: Date; endTime: Date }> = [],
+  now: Date = new Date()
 ): Array<{ startTime: Date; endTime: Date; isAvailable: boolean }> {
   const timezone = location?.timezone || 'Asia/Kolkata';
-  const dayOfWeek = getDayOfWeekInTimezone(targetDate, timezone);
   const slots: Array<{ startTime: Date; endTime: Date; isAvailable: boolean }> = [];
+  const slotMs = 30 * 60 * 1000;
+  const durationMs = duration * 60 * 1000;
   
-  // Get operating hours for the day
-  let operatingStart: Date;
-  let operatingEnd: Date;
+  // Default operating hours: 9 AM to 6 PM
+  let openTime = '09:00';
+  let closeTime = '18:00';
   
   if (location) {
-    const operatingHours = location.getOperatingHoursForDay(dayOfWeek);
+    const operatingHours = location.getHoursForDate(date);
     
-    if (!operatingHours || !operatingHours.isOpen) {
+    if (!operatingHours.isOpen || !operatingHours.openTime || !operatingHours.closeTime) {
       return []; // No slots if location is closed
     }
     
-    const [startHour, startMinute] = operatingHours.openTime!.split(':').map(Number);
-    const [endHour, endMinute] = operatingHours.closeTime!.split(':').map(Number);
-    
-    operatingStart = new Date(targetDate);
-    operatingStart.setHours(startHour, startMinute, 0, 0);
-    
-    operatingEnd = new Date(targetDate);
-    operatingEnd.setHours(endHour, endMinute, 0, 0);
-  } else {
-    // Default operating hours: 9 AM to 6 PM
-    operatingStart = new Date(targetDate);
-    operatingStart.setHours(9, 0, 0, 0);
-    
-    operatingEnd = new Date(targetDate);
-    operatingEnd.setHours(18, 0, 0, 0);
+    openTime = operatingHours.openTime;
+    closeTime = operatingHours.closeTime;
   }
 
-  // Current time check - only show future slots for today
-  const now = getCurrentTimeInTimezone(timezone);
-  const isToday = targetDate.toDateString() === now.toDateString();
-  
-  if (isToday && operatingStart < now) {
-    // Round up to next 30-minute slot
-    const currentMinutes = now.getMinutes();
-    const nextSlotMinutes = Math.ceil(currentMinutes / 30) * 30;
-    operatingStart = new Date(now);
-    operatingStart.setMinutes(nextSlotMinutes, 0, 0);
-    
-    // If we've rolled over to the next hour
-    if (nextSlotMinutes >= 60) {
-      operatingStart.setHours(operatingStart.getHours() + 1);
-      operatingStart.setMinutes(0, 0, 0);
-    }
-  }
+  const window = getZonedWindow(date, openTime, closeTime, timezone);
 
-  // Generate 30-minute slots
-  let currentSlotStart = new Date(operatingStart);
+  // Only future slots, keeping them on the 30-minute grid from opening time
+  let currentSlotStart = window.start.getTime();
+  if (currentSlotStart < now.getTime()) {
+    currentSlotStart += Math.ceil((now.getTime() - currentSlotStart) / slotMs) * slotMs;
+  }
   
-  while (currentSlotStart.getTime() + (duration * 60 * 1000) <= operatingEnd.getTime()) {
-    const currentSlotEnd = new Date(currentSlotStart.getTime() + (duration * 60 * 1000));
+  while (currentSlotStart + durationMs <= window.end.getTime()) {
+    const slotStart = new Date(currentSlotStart);
+    const slotEnd = new Date(currentSlotStart + durationMs);
     
     // Check if this slot conflicts with any existing booking
     const hasConflict = existingBookings.some(booking => {
-      return (currentSlotStart < booking.endTime) && (currentSlotEnd > booking.startTime);
+      return (slotStart < booking.endTime) && (slotEnd > booking.startTime);
     });
     
     slots.push({
-      startTime: new Date(currentSlotStart),
-      endTime: new Date(currentSlotEnd),
+      startTime: slotStart,
+      endTime: slotEnd,
       isAvailable: !hasConflict
     });
     
-    // Move to next 30-minute slot
-    currentSlotStart = new Date(currentSlotStart.getTime() + (30 * 60 * 1000));
+    currentSlotStart += slotMs;
   }
 
   return slots;
@@ -406,7 +484,7 @@ export function canModifyBooking(
   timezone: string = 'Asia/Kolkata',
   minimumHoursBeforeModification: number = 4
 ): { canModify: boolean; reason?: string; hoursRemaining?: number } {
-  const now = getCurrentTimeInTimezone(timezone);
+  const now = new Date();
   const hoursUntilBooking = (currentStartTime.getTime() - now.getTime()) / (1000 * 60 * 60);
   
   if (hoursUntilBooking < minimumHoursBeforeModification) {
@@ -431,7 +509,7 @@ export function canCancelBooking(
   timezone: string = 'Asia/Kolkata',
   minimumHoursBeforeCancellation: number = 2
 ): { canCancel: boolean; reason?: string; hoursRemaining?: number } {
-  const now = getCurrentTimeInTimezone(timezone);
+  const now = new Date();
   const hoursUntilBooking = (currentStartTime.getTime() - now.getTime()) / (1000 * 60 * 60);
   
   if (hoursUntilBooking < minimumHoursBeforeCancellation) {
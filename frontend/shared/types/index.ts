@@ -4,6 +4,7 @@ export interface User {
   firstName: string;
   lastName: string;
   role: 'admin' | 'member' | 'guest';
+  organizationId?: string;
   isEmailVerified: boolean;
   onboardingCompleted?: boolean;
   onboardingSkipped?: boolean;
@@ -28,6 +29,47 @@ export interface AuthUser extends User {
   refreshToken?: string;
 }
 
+export type OrganizationRole = 'admin' | 'member' | 'guest';
+
+export interface OrganizationMemberUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface OrganizationMember {
+  userId: OrganizationMemberUser;
+  role: OrganizationRole;
+  joinedAt: Date;
+  invitedBy?: OrganizationMemberUser;
+}
+
+export interface Organization {
+  _id: string;
+  name: string;
+  ownerId: OrganizationMemberUser;
+  members: OrganizationMember[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationMembershipSummary {
+  organizationId: string;
+  name: string;
+  role: OrganizationRole;
+  isCurrent: boolean;
+}
+
+export interface AddOrganizationMemberData {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  password?: string;
+  role?: OrganizationRole;
+}
+
 export interface OnboardingData {
   companyName?: string;
   industry?: string;
@@ -64,6 +106,11 @@ export interface AuthResponse {
   errors?: string[];
 }
 
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
 // Profile response type
 export interface ProfileResponse {
   success: boolean;
@@ -136,6 +183,55 @@ export interface WorkingHours {
   closeTime?: string;
 }
 
+export type ScheduleSource = 'space' | 'product_type' | 'location';
+
+// Hours a space is bookable in, after inheriting from its product type and location
+export interface EffectiveSchedule {
+  source: ScheduleSource;
+  timezone: string;
+  weeklyHours: WorkingHours[];
+}
+
+// Time kept free around each booking of a space
+export interface BookingBuffers {
+  setupMinutes: number;
+  teardownMinutes: number;
+  cleanAfterCheckout: boolean; // Mark the space Cleaning for the teardown after a check-out
+}
+
+export interface SpaceSearchParams {
+  date: string; // YYYY-MM-DD
+  startTime?: string; // HH:MM, together with endTime
+  endTime?: string;
+  duration?: number; // Minutes, when no start and end time are given
+  attendees?: number;
+  amenities?: string; // Comma-separated
+  locationId?: string;
+  locationCode?: string;
+  type?: SpaceType;
+  limit?: number;
+}
+
+export interface SpaceSearchResult {
+  space: {
+    _id: string;
+    name: string;
+    type: SpaceType;
+    capacity: number;
+    floor?: string;
+    amenities: string[];
+    seatBooking: boolean;
+    hoursSource: ScheduleSource;
+  };
+  location: { _id: string; name: string; code: string; timezone: string } | null;
+  freeSlots: Array<{
+    startTime: string;
+    endTime: string;
+    seatsRemaining?: number;
+  }>;
+  quote: { totalAmount: number; currency: string; durationMinutes: number } | null; // Price of the first free slot
+}
+
 export type AmenityType = 
   | 'WiFi' 
   | 'AC' 
@@ -233,6 +329,46 @@ export interface OperatingHours {
   notes?: string;
 }
 
+export type DateExceptionType = 'closed' | 'modified_hours' | 'special_event';
+
+// Hours of one calendar date that differ from the weekly pattern, e.g. a public holiday
+export interface LocationDateException {
+  _id: string;
+  date: string; // "YYYY-MM-DD", in the location's timezone
+  type: DateExceptionType;
+  name: string;
+  openTime?: string;
+  closeTime?: string;
+  notes?: string;
+  source: 'manual' | 'ical';
+  uid?: string;
+}
+
+export interface CreateLocationDateExceptionData {
+  date: string;
+  type: DateExceptionType;
+  name: string;
+  openTime?: string;
+  closeTime?: string;
+  notes?: string;
+}
+
+// Hours that apply on a particular date, after any exception
+export interface LocationDayHours {
+  isOpen: boolean;
+  openTime?: string;
+  closeTime?: string;
+  notes?: string;
+  exception?: LocationDateException;
+}
+
+export interface LocationCalendarImportResult {
+  imported: number;
+  replaced: number;
+  skipped: { name: string; date?: string; reason: string }[];
+  dateExceptions: LocationDateException[];
+}
+
 export interface LocationContact {
   type: 'phone' | 'email' | 'whatsapp' | 'emergency';
   value: string;
@@ -256,6 +392,11 @@ export interface LocationAddress {
 }
 
 // Updated Location interface with proper structure
+export interface LocationTaxRate {
+  name: string; // e.g. "CGST"
+  rate: number; // Percentage
+}
+
 export interface Location {
   _id: string;
   organizationId: string;
@@ -265,16 +406,20 @@ export interface Location {
   address: LocationAddress;
   contacts: LocationContact[];
   operatingHours: OperatingHours[];
+  dateExceptions?: LocationDateException[];
   timezone: string;
   amenities: AmenityType[];
   totalFloors?: number;
   totalCapacity?: number;
   isActive: boolean;
   allowSameDayBooking: boolean;
+  taxId?: string;
+  taxRates?: LocationTaxRate[];
   defaultBookingRules?: {
     minimumBookingDuration: number;
     maximumBookingDuration: number;
     advanceBookingLimit: number;
+    pendingHoldMinutes?: number; // 0 holds pending bookings until staff act
     cancellationPolicy?: string;
   };
   images?: string[];
@@ -306,10 +451,13 @@ export interface CreateLocationData {
   totalCapacity?: number;
   isActive?: boolean;
   allowSameDayBooking?: boolean;
+  taxId?: string;
+  taxRates?: LocationTaxRate[];
   defaultBookingRules?: {
     minimumBookingDuration?: number;
     maximumBookingDuration?: number;
     advanceBookingLimit?: number;
+    pendingHoldMinutes?: number;
     cancellationPolicy?: string;
   };
   images?: string[];
@@ -349,6 +497,7 @@ export interface Space {
   _id: string;
   organizationId: string;
   locationId?: string;
+  productTypeId?: string;
   name: string;
   description?: string;
   type: SpaceType;
@@ -367,6 +516,9 @@ export interface Space {
   amenities: string[];
   equipment: string[];
   workingHours: WorkingHours[];
+  useProductTypeHours?: boolean; // Inherit hours from the product type (or its location)
+  bookingBuffers?: Partial<BookingBuffers>; // Unset fields inherit from the product type
+  cleaningUntil?: string;
   isActive: boolean;
   minimumBookingDuration: number;
   maximumBookingDuration: number;
@@ -398,6 +550,8 @@ export interface CreateSpaceData {
   amenities?: string[];
   equipment?: string[];
   workingHours: WorkingHours[];
+  useProductTypeHours?: boolean;
+  bookingBuffers?: { [K in keyof BookingBuffers]?: BookingBuffers[K] | null }; // null inherits from the product type
   isActive?: boolean;
   minimumBookingDuration?: number;
   maximumBookingDuration?: number;
@@ -516,6 +670,7 @@ export interface ProductType {
   isActive: boolean;
   autoGeneration: AutoGenerationConfig;
   accessLevel?: 'public' | 'members_only' | 'premium_members' | 'private' | 'by_invitation';
+  bookingBuffers?: BookingBuffers;
   displayOrder?: number;
   isHighlight?: boolean;
   createdAt: Date;
@@ -535,6 +690,7 @@ export interface CreateProductTypeData {
   isActive?: boolean;
   autoGeneration: AutoGenerationConfig;
   accessLevel?: 'public' | 'members_only' | 'premium_members' | 'private' | 'by_invitation';
+  bookingBuffers?: BookingBuffers;
   displayOrder?: number;
   isHighlight?: boolean;
 }
@@ -552,6 +708,21 @@ export interface ProductTypesResponse {
 }
 
 // Contact interfaces
+export type CreditUnit = 'hours' | 'credits';
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired';
+
+export interface ContactSubscription {
+  planId: string;
+  status: SubscriptionStatus;
+  startDate: string;
+  currentPeriodStart: string;
+  currentPeriodEnd: string; // Renewal date
+  autoRenew: boolean;
+  cancelledAt?: string;
+  creditBalance: number;
+  creditUnit: CreditUnit;
+}
+
 export interface ContactInteraction {
   _id: string;
   type: 'call' | 'email' | 'meeting' | 'note' | 'tour' | 'ai_conversation';
@@ -575,7 +746,7 @@ export interface Contact {
   contextState: ContextState;
   firstName: string;
   lastName: string;
-  email: string;
+  email?: string; // Contacts created from WhatsApp may only have a phone
   phone?: string;
   company?: string;
   jobTitle?: string;
@@ -608,6 +779,7 @@ export interface Contact {
     endDate?: Date;
     monthlyRate?: number;
   };
+  subscription?: ContactSubscription;
   priority: 'low' | 'medium' | 'high';
   createdBy: User;
   updatedBy: User;
@@ -659,6 +831,13 @@ export interface ContactsResponse {
   };
 }
 
+export type DuplicateContactReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateContact {
+  contact: Contact;
+  reasons: DuplicateContactReason[];
+}
+
 export interface ContactStats {
   totalContacts: number;
   contactsByType: Array<{ _id: ContactType; count: number }>;
@@ -685,7 +864,12 @@ export interface WhatsAppMessage {
   mediaType?: string;
   conversationId: string;
   isAutoReply?: boolean;
+  errorCode?: string; // Twilio error code when delivery failed
+  errorMessage?: string;
   sentAt: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failedAt?: Date;
   twilioData?: {
     accountSid: string;
     numSegments: number;
@@ -695,6 +879,12 @@ export interface WhatsAppMessage {
   };
 }
 
+export interface WhatsAppConversationResponse {
+  phoneNumber: string;
+  messageCount: number;
+  messages: WhatsAppMessage[];
+}
+
 export interface WhatsAppConversation {
   _id: string;
   latestMessage: WhatsAppMessage;
@@ -702,9 +892,66 @@ export interface WhatsAppConversation {
   lastActivity: string;
 }
 
+export interface WhatsAppChannel {
+  _id: string;
+  organizationId: string;
+  phoneNumber: string;
+  accountSid: string;
+  messagingServiceSid?: string;
+  displayName?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveWhatsAppChannelData {
+  phoneNumber: string;
+  accountSid: string;
+  authToken?: string; // Leave empty to keep the stored token
+  messagingServiceSid?: string;
+  displayName?: string;
+  isActive?: boolean;
+}
+
+export type WhatsAppAutoReplyIntent =
+  | 'greeting'
+  | 'availability'
+  | 'pricing'
+  | 'tour'
+  | 'amenities'
+  | 'hours'
+  | 'help'
+  | 'fallback';
+
+export interface WhatsAppAutoReplyTemplate {
+  intent: WhatsAppAutoReplyIntent;
+  body: string;
+  defaultBody: string;
+  isActive: boolean;
+  isCustomized: boolean;
+  preview: string; // Body rendered with the organization's current data
+}
+
+export interface WhatsAppAutoReplyPlaceholder {
+  key: string;
+  description: string;
+}
+
+export interface WhatsAppAutoRepliesResponse {
+  templates: WhatsAppAutoReplyTemplate[];
+  placeholders: WhatsAppAutoReplyPlaceholder[];
+}
+
+export interface SaveWhatsAppAutoReplyData {
+  body: string;
+  isActive?: boolean;
+}
+
 export interface WhatsAppStatus {
   enabled: boolean;
+  configured?: boolean;
   twilioNumber?: string;
+  channel?: WhatsAppChannel | null;
   stats: {
     totalMessages: number;
     totalConversations: number;
@@ -17,12 +17,18 @@ import { LocationsPage } from "./pages/LocationsPage";
 import OnboardingPage from "./pages/OnboardingPage";
 import ForgotPasswordPage from "./pages/ForgotPasswordPage";
 import PasswordResetPage from "./pages/PasswordResetPage";
+import VerifyEmailPage from "./pages/VerifyEmailPage";
+import WaitlistOfferPage from "./pages/WaitlistOfferPage";
+import CheckInPage from "./pages/CheckInPage";
 import SpaceConfigurationPage from "./pages/SpaceConfigurationPage";
 import LocationSpacesPage from "./pages/LocationSpacesPage";
 import LocationDetailPage from "./pages/LocationDetailPage";
 import BookingsPage from "./pages/BookingsPage";
 import { WhatsAppPage } from "./pages/WhatsAppPage";
 import { AnalyticsPage } from "./pages/Analyticspage";
+import { InvoicesPage } from "./pages/InvoicesPage";
+import { MembershipPlansPage } from "./pages/MembershipPlansPage";
+import { FindSpacePage } from "./pages/FindSpacePage";
 
 const queryClient = new QueryClient();
 
@@ -79,6 +85,10 @@ function App() {
                 }
               />
 
+              <Route path="/verify-email/:token" element={<VerifyEmailPage />} />
+              <Route path="/waitlist-offer/:token" element={<WaitlistOfferPage />} />
+              <Route path="/check-in/:token" element={<CheckInPage />} />
+
               <Route
                 path="/onboarding"
                 element={
@@ -124,6 +134,15 @@ function App() {
                 }
               />
 
+              <Route
+                path="/find-space"
+                element={
+                  <ProtectedRoute>
+                    <FindSpacePage />
+                  </ProtectedRoute>
+                }
+              />
+
               <Route
                 path="/configure-spaces"
                 element={
@@ -169,6 +188,24 @@ function App() {
                 }
               />
 
+              <Route
+                path="/invoices"
+                element={
+                  <ProtectedRoute>
+                    <InvoicesPage />
+                  </ProtectedRoute>
+                }
+              />
+
+              <Route
+                path="/membership-plans"
+                element={
+                  <ProtectedRoute>
+                    <MembershipPlansPage />
+                  </ProtectedRoute>
+                }
+              />
+
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
           </div>
@@ -52,6 +52,7 @@ interface CalendarEvent {
     totalAmount: number;
     currency: string;
     bookingReference: string;
+    buffer?: 'setup' | 'teardown'; // Set on the time kept free around a booking
   };
 }
 
@@ -86,8 +87,50 @@ export function BookingCalendar({
     return transformBookingsForCalendar(bookingsData.bookings);
   }, [bookingsData]);
 
+  // Setup and teardown time around each booking, shown behind the bookings in week and day views
+  const bufferEvents = useMemo(() => {
+    const events: CalendarEvent[] = [];
+    for (const event of calendarEvents) {
+      const buffers = event.resource.booking.buffers;
+      if (!buffers) continue;
+      if (buffers.setupMinutes > 0) {
+        events.push({
+          ...event,
+          id: `${event.id}-setup`,
+          title: `Setup (${buffers.setupMinutes} min)`,
+          start: new Date(event.start.getTime() - buffers.setupMinutes * 60 * 1000),
+          end: event.start,
+          resource: { ...event.resource, buffer: 'setup' }
+        });
+      }
+      if (buffers.teardownMinutes > 0) {
+        events.push({
+          ...event,
+          id: `${event.id}-teardown`,
+          title: `${buffers.cleanAfterCheckout ? 'Cleaning' : 'Teardown'} (${buffers.teardownMinutes} min)`,
+          start: event.end,
+          end: new Date(event.end.getTime() + buffers.teardownMinutes * 60 * 1000),
+          resource: { ...event.resource, buffer: 'teardown' }
+        });
+      }
+    }
+    return events;
+  }, [calendarEvents]);
+
   // Custom event styling based on booking status
   const eventStyleGetter = useCallback((event: CalendarEvent) => {
+    if (event.resource.buffer) {
+      return {
+        className: 'booking-buffer',
+        style: {
+          backgroundColor: '#e5e7eb',
+          border: 'none',
+          color: '#4b5563',
+          fontSize: '11px',
+        }
+      };
+    }
+
     const { status, paymentStatus } = event.resource;
     const paymentStatusTyped = paymentStatus as 'Pending' | 'Paid' | 'Refunded' | 'Failed';
     
@@ -109,6 +152,10 @@ export function BookingCalendar({
   // Custom event component for better display
   const EventComponent = ({ event }: { event: CalendarEvent }) => {
     const { customerName, spaceName, attendeeCount } = event.resource;
+
+    if (event.resource.buffer) {
+      return <div className="text-xs truncate">{event.title}</div>;
+    }
     
     return (
       <div className="booking-event">
@@ -309,6 +356,7 @@ export function BookingCalendar({
             { status: 'Cancelled', color: '#ef4444', label: 'Cancelled' },
             { status: 'Completed', color: '#6b7280', label: 'Completed' },
             { status: 'No Show', color: '#dc2626', label: 'No Show' },
+            { status: 'Buffer', color: '#e5e7eb', label: 'Setup / Cleaning' },
           ].map(({ status, color, label }) => (
             <div key={status} className="flex items-center space-x-2">
               <div 
@@ -326,6 +374,7 @@ export function BookingCalendar({
         <Calendar
           localizer={localizer}
           events={calendarEvents}
+          backgroundEvents={bufferEvents}
           startAccessor="start"
           endAccessor="end"
           style={{ height: 600 }}
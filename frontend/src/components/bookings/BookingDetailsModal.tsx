@@ -1,4 +1,4 @@
-import { Fragment } from 'react';
+import { Fragment, useState } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { 
   X, 
@@ -13,16 +13,26 @@ import {
   CheckCircle,
   Edit,
   Trash2,
-  User
+  User,
+  FileText,
+  QrCode
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
-import { BookingData, BookingStatus, PaymentStatus } from '../../services/bookingApi';
+import { BookingData, BookingStatus, PaymentStatus, BookingSeriesScope } from '../../services/bookingApi';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getBookingSeries, describeRecurrence, useCheckInCode } from '../../hooks/useBookings';
+import { useInvoices, useCreateInvoice } from '../../hooks/useInvoices';
+import { SeriesScopeSelector } from './SeriesScopeSelector';
+import { PriceLineItems } from './PriceLineItems';
+import { PendingHoldCountdown } from './PendingHoldCountdown';
+import { formatCreditAmount } from '../../services/membershipApi';
 
 interface BookingDetailsModalProps {
   booking: BookingData | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit: (booking: BookingData) => void;
+  onEdit: (booking: BookingData, scope: BookingSeriesScope) => void;
   onCancel: (booking: BookingData) => void;
   isLoading?: boolean;
 }
@@ -67,13 +77,39 @@ export function BookingDetailsModal({
   onCancel,
   isLoading = false
 }: BookingDetailsModalProps) {
+  const { can } = usePermissions();
+  const [editScope, setEditScope] = useState<BookingSeriesScope>('this');
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
+  const { data: invoicesData } = useInvoices(
+    { bookingId: booking?._id, limit: 1 },
+    { enabled: isOpen && !!booking && can('invoices:read') }
+  );
+  const createInvoice = useCreateInvoice();
+  const showCheckInCode = isOpen && booking?.status === 'Confirmed' && !booking.checkOutTime;
+  const { data: checkInCode } = useCheckInCode(showCheckInCode ? booking._id : undefined);
+
   if (!booking) return null;
 
-  const canEdit = booking.status === 'Pending' || booking.status === 'Confirmed';
-  const canCancel = booking.status === 'Pending' || booking.status === 'Confirmed';
+  const invoice = invoicesData?.invoices[0];
+  const canCreateInvoice = !invoice && booking.status !== 'Cancelled' && can('invoices:create');
+
+  const handleCreateInvoice = async () => {
+    setInvoiceError(null);
+    try {
+      await createInvoice.mutateAsync({ sourceType: 'booking', bookingId: booking._id });
+    } catch (error: any) {
+      setInvoiceError(error.response?.data?.message || 'Failed to create invoice');
+    }
+  };
+
+  const isOpenBooking = booking.status === 'Pending' || booking.status === 'Confirmed';
+  const canEdit = isOpenBooking && can('bookings:update');
+  const canCancel = isOpenBooking && can('bookings:cancel');
+  const series = getBookingSeries(booking);
 
   const handleEdit = () => {
-    onEdit(booking);
+    onEdit(booking, series ? editScope : 'this');
+    setEditScope('this');
   };
 
   const handleCancel = () => {
@@ -156,6 +192,25 @@ export function BookingDetailsModal({
                     </span>
                   </div>
 
+                  {booking.status === 'Pending' && booking.paymentStatus !== 'Paid' && booking.holdExpiresAt && (
+                    <PendingHoldCountdown expiresAt={booking.holdExpiresAt} />
+                  )}
+
+                  {/* Recurrence */}
+                  {series && (canEdit ? (
+                    <SeriesScopeSelector
+                      series={series}
+                      value={editScope}
+                      onChange={setEditScope}
+                      label="Edit"
+                      disabled={isLoading}
+                    />
+                  ) : (
+                    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 text-sm text-indigo-700">
+                      Part of a recurring booking: {describeRecurrence(series)}
+                    </div>
+                  ))}
+
                   {/* Customer Information */}
                   <div className="bg-gray-50 rounded-lg p-4">
                     <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
@@ -292,8 +347,77 @@ export function BookingDetailsModal({
                         {booking.paymentStatus}
                       </span>
                     </div>
+                    {booking.cancellationRefund && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        Refund due on cancellation: {booking.cancellationRefund.currency} {booking.cancellationRefund.amount.toLocaleString()}
+                        {' '}({booking.cancellationRefund.percentage}%)
+                        {!!booking.cancellationRefund.credits && booking.priceBreakdown?.credits &&
+                          `, ${formatCreditAmount(booking.cancellationRefund.credits, booking.priceBreakdown.credits.unit)} returned`}
+                      </p>
+                    )}
+                    {booking.priceBreakdown && booking.priceBreakdown.lineItems.length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-green-100">
+                        <PriceLineItems
+                          lineItems={booking.priceBreakdown.lineItems}
+                          currency={booking.currency}
+                          totalAmount={booking.totalAmount}
+                        />
+                      </div>
+                    )}
+                    {(invoice || canCreateInvoice) && (
+                      <div className="mt-3 pt-3 border-t border-green-100 flex items-center justify-between">
+                        {invoice ? (
+                          <Link
+                            to={`/invoices?invoice=${invoice._id}`}
+                            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            <FileText className="w-4 h-4 mr-1" />
+                            Invoice {invoice.invoiceNumber} · {invoice.status}
+                          </Link>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={handleCreateInvoice}
+                            disabled={createInvoice.isPending}
+                            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <FileText className="w-4 h-4 mr-1" />
+                            {createInvoice.isPending ? 'Creating...' : 'Create Invoice'}
+                          </button>
+                        )}
+                        {invoiceError && <span className="text-sm text-red-600">{invoiceError}</span>}
+                      </div>
+                    )}
                   </div>
 
+                  {/* Self check-in code, for the customer to scan on arrival */}
+                  {showCheckInCode && checkInCode && (
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h3 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+                        <QrCode className="w-4 h-4 mr-2" />
+                        Check-in Code
+                      </h3>
+                      <div className="flex items-center space-x-4">
+                        <img
+                          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(checkInCode.qrSvg)}`}
+                          alt="Check-in QR code"
+                          className="w-32 h-32 border border-gray-200 rounded"
+                        />
+                        <div className="text-sm text-gray-600 min-w-0">
+                          <p className="mb-2">The customer scans this code or opens the link to check in and out.</p>
+                          <a
+                            href={checkInCode.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800 break-all"
+                          >
+                            {checkInCode.url}
+                          </a>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Check-in Information */}
                   {booking.checkedIn && (
                     <div className="bg-blue-50 rounded-lg p-4">
@@ -318,6 +442,19 @@ export function BookingDetailsModal({
                             </span>
                           </div>
                         )}
+                        {booking.usage && (
+                          <div>
+                            <span className="text-sm font-medium text-gray-600">Time used:</span>
+                            <span className="text-sm text-gray-900 ml-2">
+                              {booking.usage.actualMinutes} min
+                              {booking.usage.overtimeMinutes > 0 && (
+                                <span className="text-orange-700">
+                                  {' '}({booking.usage.overtimeMinutes} min overtime, {booking.usage.currency} {booking.usage.overtimeAmount.toFixed(2)})
+                                </span>
+                              )}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -1,12 +1,26 @@
 import { useState, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { format, addDays } from 'date-fns';
-import { X, Calendar, Clock, Users, MapPin, AlertCircle, Search } from 'lucide-react';
+import { X, Calendar, Clock, Users, MapPin, AlertCircle, Search, Repeat, CheckCircle, DollarSign } from 'lucide-react';
 import { useContacts } from '../../hooks/useContacts';
 import { useSpaces } from '../../hooks/useSpaces';
-import { useCreateBooking } from '../../hooks/useBookings';
-import { CreateBookingData } from '../../services/bookingApi';
+import { useCreateBooking, useUpdateBooking, useBookingQuote, getBookingSeries } from '../../hooks/useBookings';
+import {
+  BookingData,
+  BookingSeriesScope,
+  CreateBookingData,
+  UpdateBookingData,
+  FailedOccurrence,
+  QuoteBookingData,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday
+} from '../../services/bookingApi';
 import TimeSlotSelector from './TimeSlotSelector';
+import { FailedOccurrencesList } from './FailedOccurrencesList';
+import { JoinWaitlistPanel } from './JoinWaitlistPanel';
+import { PriceLineItems } from './PriceLineItems';
+import { formatCreditAmount } from '../../services/membershipApi';
 
 interface BookingFormProps {
   locationId: string;
@@ -15,6 +29,8 @@ interface BookingFormProps {
   onSuccess: () => void;
   prefilledSpaceId?: string;
   prefilledDate?: Date;
+  booking?: BookingData | null; // Edit this booking instead of creating one
+  editScope?: BookingSeriesScope; // Occurrences of a recurring booking the edit applies to
 }
 
 interface BookingFormData {
@@ -30,21 +46,74 @@ interface BookingFormData {
   purpose?: string;
   specialRequests?: string;
   notes?: string;
+
+  // Recurrence (new bookings only)
+  repeatFrequency: '' | RecurrenceFrequency;
+  repeatInterval: number;
+  repeatEnds: 'count' | 'until';
+  repeatCount: number;
+  repeatUntil: string;
 }
 
+const WEEKDAYS: Array<{ value: RecurrenceWeekday; label: string }> = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+// Weekday code of a "yyyy-MM-dd" date
+const getWeekdayOfDate = (date: string): RecurrenceWeekday => {
+  return WEEKDAYS[(new Date(`${date}T00:00:00`).getDay() + 6) % 7].value;
+};
+
+const getReferenceId = (reference: unknown): string | undefined => {
+  if (reference && typeof reference === 'object') return (reference as { _id: string })._id;
+  return (reference as string | undefined) || undefined;
+};
+
 export function BookingForm({ 
   locationId: _locationId, // Available but not currently used for filtering
   isOpen, 
   onClose, 
   onSuccess, 
   prefilledSpaceId, 
-  prefilledDate 
+  prefilledDate,
+  booking,
+  editScope = 'this'
 }: BookingFormProps) {
+  const isEditing = !!booking;
+  const editingSeries = booking ? getBookingSeries(booking) : null;
+
   const [contactSearch, setContactSearch] = useState('');
-  const [selectedContact, setSelectedContact] = useState<any>(null);
+  const [selectedContact, setSelectedContact] = useState<any>(
+    booking?.contactId && typeof booking.contactId === 'object' ? booking.contactId : null
+  );
   const [timeSlotValid, setTimeSlotValid] = useState(false);
   const [timeSlotError, setTimeSlotError] = useState<string>('');
   const [timeSlotWarnings, setTimeSlotWarnings] = useState<string[]>([]);
+  const [repeatWeekdays, setRepeatWeekdays] = useState<RecurrenceWeekday[]>([]);
+  const [selectedAddOns, setSelectedAddOns] = useState<string[]>([]);
+  const [submitError, setSubmitError] = useState<string>('');
+  const [failedOccurrences, setFailedOccurrences] = useState<FailedOccurrence[]>([]);
+  const [seriesResult, setSeriesResult] = useState<{ booked: number; failed: FailedOccurrence[] } | null>(null);
+  const [waitlistSlot, setWaitlistSlot] = useState<{ spaceId: string; startTime: string; endTime: string } | null>(null);
+
+  // Original slot of the booking being edited, in the same format as the form
+  const originalSlot = booking ? {
+    date: format(new Date(booking.startTime), 'yyyy-MM-dd'),
+    startTime: format(new Date(booking.startTime), 'HH:mm'),
+    endTime: format(new Date(booking.endTime), 'HH:mm')
+  } : null;
 
   // Form setup
   const {
@@ -55,7 +124,25 @@ export function BookingForm({
     formState: { errors, isSubmitting },
     reset
   } = useForm<BookingFormData>({
-    defaultValues: {
+    defaultValues: booking && originalSlot ? {
+      contactId: getReferenceId(booking.contactId),
+      customerName: booking.customerName || '',
+      customerEmail: booking.customerEmail || '',
+      customerPhone: booking.customerPhone || '',
+      spaceId: getReferenceId(booking.spaceId) || '',
+      date: originalSlot.date,
+      startTime: originalSlot.startTime,
+      endTime: originalSlot.endTime,
+      attendeeCount: booking.attendeeCount,
+      purpose: booking.purpose || '',
+      specialRequests: booking.specialRequests || '',
+      notes: booking.notes || '',
+      repeatFrequency: '',
+      repeatInterval: 1,
+      repeatEnds: 'count',
+      repeatCount: 10,
+      repeatUntil: ''
+    } : {
       spaceId: prefilledSpaceId || '',
       date: prefilledDate ? format(prefilledDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
       startTime: '',
@@ -63,13 +150,28 @@ export function BookingForm({
       attendeeCount: 1,
       purpose: '',
       specialRequests: '',
-      notes: ''
+      notes: '',
+      repeatFrequency: '',
+      repeatInterval: 1,
+      repeatEnds: 'count',
+      repeatCount: 10,
+      repeatUntil: ''
     }
   });
 
   // Watch form values for real-time validation
   const watchedValues = watch(['spaceId', 'date', 'startTime', 'endTime']);
   const [spaceId, date, startTime, endTime] = watchedValues;
+  const [repeatFrequency, repeatEnds] = watch(['repeatFrequency', 'repeatEnds']);
+  const contactId = watch('contactId');
+  const attendeeCount = Number(watch('attendeeCount')) || 1;
+
+  // An edited booking keeps its own slot, which shows as taken in the availability check
+  const timeUnchanged = !!originalSlot &&
+    date === originalSlot.date &&
+    startTime === originalSlot.startTime &&
+    endTime === originalSlot.endTime;
+  const effectiveWeekdays = repeatWeekdays.length > 0 ? repeatWeekdays : [getWeekdayOfDate(date)];
 
   // Data fetching
   const { data: contactsData, isLoading: contactsLoading } = useContacts({
@@ -118,8 +220,35 @@ export function BookingForm({
     isActive: s.isActive
   })));
 
+  // Price of the slot being booked, from the server (member discounts need the contact)
+  const quoteRequest = useMemo((): QuoteBookingData | undefined => {
+    if (isEditing || !spaceId || !date || !startTime || !endTime) return undefined;
+
+    const start = new Date(`${date}T${startTime}:00`);
+    const end = new Date(`${date}T${endTime}:00`);
+    if (end <= start) return undefined;
+
+    return {
+      spaceId,
+      contactId: contactId || undefined,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      addOns: selectedAddOns.map(name => ({ name })),
+      attendeeCount,
+      recurring: !!repeatFrequency
+    };
+  }, [isEditing, spaceId, date, startTime, endTime, contactId, selectedAddOns, attendeeCount, repeatFrequency]);
+
+  const {
+    data: quote,
+    isLoading: quoteLoading,
+    isPlaceholderData: quoteOutdated,
+    error: quoteError
+  } = useBookingQuote(quoteRequest);
+
   // Mutations
   const createBookingMutation = useCreateBooking();
+  const updateBookingMutation = useUpdateBooking();
 
   // Filter contacts based on search
   const filteredContacts = useMemo(() => {
@@ -129,7 +258,8 @@ export function BookingForm({
     return contactsData.contacts.filter(contact =>
       `${contact.firstName} ${contact.lastName}`.toLowerCase().includes(contactSearch.toLowerCase()) ||
       contact.company?.toLowerCase().includes(contactSearch.toLowerCase()) ||
-      contact.email.toLowerCase().includes(contactSearch.toLowerCase())
+      contact.email?.toLowerCase().includes(contactSearch.toLowerCase()) ||
+      contact.phone?.includes(contactSearch.trim())
     );
   }, [contactsData?.contacts, contactSearch]);
 
@@ -167,11 +297,57 @@ export function BookingForm({
     setContactSearch('');
   };
 
+  // Toggle a weekday of a weekly recurrence
+  const toggleRepeatWeekday = (weekday: RecurrenceWeekday) => {
+    const next = effectiveWeekdays.includes(weekday)
+      ? effectiveWeekdays.filter(day => day !== weekday)
+      : [...effectiveWeekdays, weekday];
+    if (next.length > 0) setRepeatWeekdays(next);
+  };
+
+  const toggleAddOn = (name: string) => {
+    setSelectedAddOns(current =>
+      current.includes(name) ? current.filter(addOn => addOn !== name) : [...current, name]
+    );
+  };
+
+  const buildRecurrence = (data: BookingFormData): RecurrenceRule | undefined => {
+    if (!data.repeatFrequency) return undefined;
+
+    return {
+      frequency: data.repeatFrequency,
+      interval: Number(data.repeatInterval) || 1,
+      byWeekday: data.repeatFrequency === 'weekly' ? effectiveWeekdays : undefined,
+      ...(data.repeatEnds === 'until'
+        ? { until: new Date(`${data.repeatUntil}T23:59:59`).toISOString() }
+        : { count: Number(data.repeatCount) })
+    };
+  };
+
+  const resetForm = () => {
+    reset();
+    setSelectedContact(null);
+    setContactSearch('');
+    setTimeSlotValid(false);
+    setTimeSlotError('');
+    setTimeSlotWarnings([]);
+    setRepeatWeekdays([]);
+    setSelectedAddOns([]);
+    setSubmitError('');
+    setFailedOccurrences([]);
+    setSeriesResult(null);
+    setWaitlistSlot(null);
+  };
+
   // Handle form submission
   const onSubmit = async (data: BookingFormData) => {
+    setSubmitError('');
+    setFailedOccurrences([]);
+    setWaitlistSlot(null);
+
     try {
       // Validate time slot selection before submission
-      if (!timeSlotValid || !data.startTime || !data.endTime) {
+      if (!timeUnchanged && (!timeSlotValid || !data.startTime || !data.endTime)) {
         setTimeSlotError('Please select a valid time slot');
         return;
       }
@@ -182,6 +358,29 @@ export function BookingForm({
 
       // Prepare booking data - handle contact vs customer data properly
       const hasContact = data.contactId && data.contactId.trim() !== '';
+
+      if (booking) {
+        const updateData: UpdateBookingData = {
+          attendeeCount: data.attendeeCount,
+          purpose: data.purpose,
+          specialRequests: data.specialRequests,
+          notes: data.notes,
+          scope: editingSeries ? editScope : undefined,
+          ...(!timeUnchanged && {
+            startTime: startDateTime.toISOString(),
+            endTime: endDateTime.toISOString()
+          }),
+          ...(!hasContact && data.customerName && { customerName: data.customerName }),
+          ...(!hasContact && data.customerEmail && { customerEmail: data.customerEmail }),
+          ...(!hasContact && { customerPhone: data.customerPhone || '' })
+        };
+
+        await updateBookingMutation.mutateAsync({ id: booking._id, bookingData: updateData });
+
+        resetForm();
+        onSuccess();
+        return;
+      }
       
       const bookingData: CreateBookingData = {
         spaceId: data.spaceId,
@@ -196,30 +395,98 @@ export function BookingForm({
         purpose: data.purpose || undefined,
         specialRequests: data.specialRequests || undefined,
         notes: data.notes || undefined,
-        totalAmount: 0, // Calculate based on space rates
-        currency: 'USD'
+        // The server prices the booking; sending the quoted total guards against a stale quote
+        totalAmount: quote?.totalAmount,
+        currency: quote?.currency,
+        addOns: selectedAddOns.length > 0 ? selectedAddOns.map(name => ({ name })) : undefined,
+        recurrence: buildRecurrence(data)
       };
 
-      await createBookingMutation.mutateAsync(bookingData);
+      const result = await createBookingMutation.mutateAsync(bookingData);
+
+      // Keep the form open to show which dates of a recurring booking could not be booked
+      if (result?.failedOccurrences && result.failedOccurrences.length > 0) {
+        setSeriesResult({ booked: result.bookings?.length || 0, failed: result.failedOccurrences });
+        return;
+      }
 
       // Reset form and close
-      reset();
-      setSelectedContact(null);
-      setContactSearch('');
-      setTimeSlotValid(false);
-      setTimeSlotError('');
-      setTimeSlotWarnings([]);
+      resetForm();
       onSuccess();
-    } catch (error) {
-      console.error('Error creating booking:', error);
+    } catch (error: any) {
+      console.error(booking ? 'Error updating booking:' : 'Error creating booking:', error);
+      const responseData = error.response?.data;
+      const details = responseData?.errors;
+      setSubmitError(
+        Array.isArray(details) && details.length > 0
+          ? details.map((detail: any) => detail.message || detail).join(', ')
+          : responseData?.message || (booking ? 'Failed to update booking' : 'Failed to create booking')
+      );
+      setFailedOccurrences(responseData?.failedOccurrences || []);
+
+      // Someone else took the slot; the contact can wait for it to free up
+      if (!booking && !data.repeatFrequency && error.response?.status === 409 && responseData?.conflictingBookings) {
+        setWaitlistSlot({
+          spaceId: data.spaceId,
+          startTime: new Date(`${data.date}T${data.startTime}:00`).toISOString(),
+          endTime: new Date(`${data.date}T${data.endTime}:00`).toISOString()
+        });
+      }
     }
   };
 
+  // Finish after reviewing a partially booked series
+  const handleSeriesResultDone = () => {
+    resetForm();
+    onSuccess();
+  };
+
   // Get selected space details
   const selectedSpace = filteredSpaces.find(space => space._id === spaceId);
 
   if (!isOpen) return null;
 
+  if (seriesResult) {
+    return (
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+
+          <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Recurring Booking Created</h3>
+                  <p className="text-sm text-gray-600">
+                    Booked {seriesResult.booked} of {seriesResult.booked + seriesResult.failed.length} occurrences
+                  </p>
+                </div>
+              </div>
+
+              <FailedOccurrencesList
+                title="These dates could not be booked"
+                occurrences={seriesResult.failed}
+              />
+            </div>
+
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="button"
+                onClick={handleSeriesResultDone}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -235,8 +502,18 @@ export function BookingForm({
                     <Calendar className="h-5 w-5 text-blue-600" />
                   </div>
                   <div>
-                    <h3 className="text-lg font-medium text-gray-900">Create New Booking</h3>
-                    <p className="text-sm text-gray-600">Schedule a space reservation</p>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {isEditing ? 'Edit Booking' : 'Create New Booking'}
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {!isEditing
+                        ? 'Schedule a space reservation'
+                        : editingSeries && editScope === 'following'
+                          ? 'Changes apply to this and following occurrences'
+                          : editingSeries && editScope === 'series'
+                            ? 'Changes apply to all upcoming occurrences'
+                            : booking?.bookingReference}
+                    </p>
                   </div>
                 </div>
                 <button
@@ -267,22 +544,24 @@ export function BookingForm({
                             <p className="text-sm text-gray-600">{selectedContact.company}</p>
                             <p className="text-sm text-gray-600">{selectedContact.email}</p>
                           </div>
-                          <button
-                            type="button"
-                            onClick={() => {
-                              setSelectedContact(null);
-                              setValue('contactId', '');
-                              setValue('customerName', '');
-                              setValue('customerEmail', '');
-                              setValue('customerPhone', '');
-                            }}
-                            className="text-gray-400 hover:text-gray-600"
-                          >
-                            <X className="h-5 w-5" />
-                          </button>
+                          {!isEditing && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setSelectedContact(null);
+                                setValue('contactId', '');
+                                setValue('customerName', '');
+                                setValue('customerEmail', '');
+                                setValue('customerPhone', '');
+                              }}
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              <X className="h-5 w-5" />
+                            </button>
+                          )}
                         </div>
                       </div>
-                    ) : (
+                    ) : !isEditing && (
                       <div className="space-y-3">
                         <div className="relative">
                           <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
@@ -388,29 +667,40 @@ export function BookingForm({
                   {/* Space Selection */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Space *</label>
-                    <select
-                      {...register('spaceId', { required: 'Space selection is required' })}
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                      disabled={filteredSpaces.length === 0}
-                    >
-                      <option value="">
-                        {filteredSpaces.length === 0 
-                          ? "No spaces available for this location" 
-                          : "Select a space..."
-                        }
-                      </option>
-                      {filteredSpaces.map((space) => (
-                        <option key={space._id} value={space._id}>
-                          {space.name} - {space.type} (Capacity: {space.capacity})
+                    {isEditing ? (
+                      <div className="p-3 border border-gray-200 rounded-lg bg-gray-50 text-sm text-gray-900">
+                        {selectedSpace
+                          ? `${selectedSpace.name} - ${selectedSpace.type} (Capacity: ${selectedSpace.capacity})`
+                          : (booking?.spaceId && typeof booking.spaceId === 'object' && (booking.spaceId as any).name) || 'Unknown Space'}
+                      </div>
+                    ) : (
+                      <select
+                        {...register('spaceId', {
+                          required: 'Space selection is required',
+                          onChange: () => setSelectedAddOns([]) // Add-ons differ between spaces
+                        })}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        disabled={filteredSpaces.length === 0}
+                      >
+                        <option value="">
+                          {filteredSpaces.length === 0 
+                            ? "No spaces available for this location" 
+                            : "Select a space..."
+                          }
                         </option>
-                      ))}
-                    </select>
+                        {filteredSpaces.map((space) => (
+                          <option key={space._id} value={space._id}>
+                            {space.name} - {space.type} (Capacity: {space.capacity})
+                          </option>
+                        ))}
+                      </select>
+                    )}
                     {errors.spaceId && (
                       <p className="mt-1 text-sm text-red-600">{errors.spaceId.message}</p>
                     )}
                     
                     {/* Warning when no spaces are available */}
-                    {filteredSpaces.length === 0 && (
+                    {!isEditing && filteredSpaces.length === 0 && (
                       <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                         <div className="flex items-center space-x-2 text-yellow-600">
                           <AlertCircle className="h-4 w-4" />
@@ -479,6 +769,7 @@ export function BookingForm({
                     spaceId={spaceId}
                     date={date}
                     duration={60} // Default 1 hour duration
+                    attendeeCount={attendeeCount}
                     selectedStartTime={startTime}
                     selectedEndTime={endTime}
                     onTimeSlotSelect={handleTimeSlotSelect}
@@ -497,9 +788,173 @@ export function BookingForm({
                     </div>
                   )}
 
+                  {/* Price */}
+                  {quoteRequest && (
+                    <div className="p-3 bg-green-50 rounded-lg">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <DollarSign className="h-4 w-4 text-green-600" />
+                        <span className="text-sm font-medium text-green-900">
+                          {repeatFrequency ? 'Price per occurrence' : 'Price'}
+                        </span>
+                      </div>
+                      {quoteLoading ? (
+                        <p className="text-sm text-gray-600">Calculating price...</p>
+                      ) : quoteError ? (
+                        <p className="text-sm text-red-600">
+                          {(quoteError as any).response?.data?.errors?.[0]?.message ||
+                            (quoteError as any).response?.data?.message ||
+                            'Unable to calculate price'}
+                        </p>
+                      ) : quote && (
+                        <>
+                          <PriceLineItems
+                            lineItems={quote.lineItems}
+                            currency={quote.currency}
+                            totalAmount={quote.totalAmount}
+                          />
+                          {quote.credits && (
+                            <p className="mt-2 text-xs text-gray-600">
+                              Uses {formatCreditAmount(quote.credits.used, quote.credits.unit)} of {quote.credits.planName} membership
+                              ({formatCreditAmount(quote.credits.balance - quote.credits.used, quote.credits.unit)} left this period)
+                            </p>
+                          )}
+                          {quote.availableAddOns.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-green-100 space-y-1">
+                              <p className="text-xs font-medium text-gray-700">Add-ons</p>
+                              {quote.availableAddOns.map((addOn) => (
+                                <label key={addOn.name} className="flex items-center space-x-2 text-sm text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedAddOns.includes(addOn.name)}
+                                    onChange={() => toggleAddOn(addOn.name)}
+                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                  />
+                                  <span>{addOn.name}</span>
+                                  <span className="text-gray-500">{addOn.currency} {addOn.price.toLocaleString()}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {isEditing && !timeUnchanged && (
+                    <p className="text-xs text-gray-500">The price is recalculated for the new time when you save.</p>
+                  )}
+
+                  {/* Recurrence */}
+                  {!isEditing && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Repeat</label>
+                      <select
+                        {...register('repeatFrequency')}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value="">Does not repeat</option>
+                        <option value="daily">Daily</option>
+                        <option value="weekly">Weekly</option>
+                        <option value="monthly">Monthly</option>
+                      </select>
+
+                      {repeatFrequency && (
+                        <div className="mt-3 p-4 bg-gray-50 rounded-lg space-y-3">
+                          <div className="flex items-center space-x-2 text-sm text-gray-700">
+                            <Repeat className="h-4 w-4 text-gray-500" />
+                            <span>Every</span>
+                            <input
+                              {...register('repeatInterval', {
+                                valueAsNumber: true,
+                                min: { value: 1, message: 'Repeat interval must be at least 1' },
+                                max: { value: 12, message: 'Repeat interval can be at most 12' }
+                              })}
+                              type="number"
+                              min="1"
+                              max="12"
+                              className="w-16 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                            />
+                            <span>{REPEAT_UNITS[repeatFrequency]}</span>
+                          </div>
+
+                          {repeatFrequency === 'weekly' && (
+                            <div className="flex flex-wrap gap-2">
+                              {WEEKDAYS.map((weekday) => (
+                                <button
+                                  key={weekday.value}
+                                  type="button"
+                                  onClick={() => toggleRepeatWeekday(weekday.value)}
+                                  className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                                    effectiveWeekdays.includes(weekday.value)
+                                      ? 'bg-blue-600 text-white border-blue-600'
+                                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {weekday.label}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+
+                          <div className="space-y-2 text-sm text-gray-700">
+                            <label className="flex items-center space-x-2">
+                              <input
+                                {...register('repeatEnds')}
+                                type="radio"
+                                value="count"
+                                className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              <span>After</span>
+                              <input
+                                {...register('repeatCount', {
+                                  valueAsNumber: true,
+                                  validate: (value, values) => values.repeatEnds !== 'count' || (value >= 2 && value <= 100) ||
+                                    'Number of occurrences must be between 2 and 100'
+                                })}
+                                type="number"
+                                min="2"
+                                max="100"
+                                disabled={repeatEnds !== 'count'}
+                                className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm disabled:bg-gray-100"
+                              />
+                              <span>occurrences</span>
+                            </label>
+                            <label className="flex items-center space-x-2">
+                              <input
+                                {...register('repeatEnds')}
+                                type="radio"
+                                value="until"
+                                className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              <span>On</span>
+                              <input
+                                {...register('repeatUntil', {
+                                  validate: (value, values) => values.repeatEnds !== 'until' || (!!value && value >= values.date) ||
+                                    'End date must be on or after the booking date'
+                                })}
+                                type="date"
+                                min={date}
+                                disabled={repeatEnds !== 'until'}
+                                className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm disabled:bg-gray-100"
+                              />
+                            </label>
+                          </div>
+
+                          {(errors.repeatInterval || errors.repeatCount || errors.repeatUntil) && (
+                            <p className="text-sm text-red-600">
+                              {errors.repeatInterval?.message || errors.repeatCount?.message || errors.repeatUntil?.message}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-500">
+                            Each date is checked separately; dates that are unavailable are skipped and listed after booking.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
 
                   {/* Time Slot Validation Status */}
-                  {timeSlotError && (
+                  {timeSlotError && !timeUnchanged && (
                     <div className="p-3 bg-red-50 rounded-lg border border-red-200">
                       <div className="flex items-center space-x-2 text-red-600">
                         <AlertCircle className="h-4 w-4" />
@@ -552,14 +1007,40 @@ export function BookingForm({
               </div>
             </div>
 
+            {(submitError || failedOccurrences.length > 0) && (
+              <div className="px-4 pb-4 sm:px-6 space-y-3">
+                {submitError && (
+                  <div className="p-3 bg-red-50 rounded-lg border border-red-200 text-sm text-red-700">
+                    {submitError}
+                  </div>
+                )}
+                <FailedOccurrencesList
+                  title={isEditing ? 'These occurrences cannot be changed' : 'These dates could not be booked'}
+                  occurrences={failedOccurrences}
+                />
+                {waitlistSlot && (
+                  <JoinWaitlistPanel
+                    slot={{ ...waitlistSlot, attendeeCount, purpose: watch('purpose') || undefined }}
+                    contactId={contactId || undefined}
+                    onJoined={() => {
+                      resetForm();
+                      onClose();
+                    }}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Footer */}
             <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
               <button
                 type="submit"
-                disabled={isSubmitting || !timeSlotValid || !!timeSlotError}
+                disabled={isSubmitting || quoteOutdated || (!timeUnchanged && (!timeSlotValid || !!timeSlotError))}
                 className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isSubmitting ? 'Creating...' : 'Create Booking'}
+                {isEditing
+                  ? (isSubmitting ? 'Saving...' : 'Save Changes')
+                  : (isSubmitting ? 'Creating...' : 'Create Booking')}
               </button>
               <button
                 type="button"
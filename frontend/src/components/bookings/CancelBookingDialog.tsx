@@ -1,14 +1,19 @@
 import { Fragment, useState } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { AlertTriangle, X } from 'lucide-react';
-import { BookingData } from '../../services/bookingApi';
+import { AlertTriangle, X, RotateCcw } from 'lucide-react';
+import { BookingData, BookingSeriesScope, FailedOccurrence } from '../../services/bookingApi';
+import { getBookingSeries, useCancellationQuote } from '../../hooks/useBookings';
+import { SeriesScopeSelector } from './SeriesScopeSelector';
+import { FailedOccurrencesList } from './FailedOccurrencesList';
+import { formatCreditAmount } from '../../services/membershipApi';
 
 interface CancelBookingDialogProps {
   booking: BookingData | null;
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (booking: BookingData, reason: string) => void;
+  onConfirm: (booking: BookingData, reason: string, scope: BookingSeriesScope) => void;
   isLoading?: boolean;
+  failedOccurrences?: FailedOccurrence[]; // Occurrences of a series that could not be cancelled
 }
 
 export function CancelBookingDialog({
@@ -16,19 +21,33 @@ export function CancelBookingDialog({
   isOpen,
   onClose,
   onConfirm,
-  isLoading = false
+  isLoading = false,
+  failedOccurrences = []
 }: CancelBookingDialogProps) {
   const [cancelReason, setCancelReason] = useState('');
+  const [scope, setScope] = useState<BookingSeriesScope>('this');
+
+  const hasReport = failedOccurrences.length > 0;
+  const effectiveScope = booking && getBookingSeries(booking) ? scope : 'this';
+  const { data: preview, isLoading: previewLoading } = useCancellationQuote(
+    isOpen && !hasReport ? booking?._id : undefined,
+    effectiveScope
+  );
 
   if (!booking) return null;
 
+  const series = getBookingSeries(booking);
+  const cancellation = preview?.cancellation;
+  const cannotCancel = !!cancellation && !cancellation.canCancel;
+
   const handleConfirm = () => {
-    onConfirm(booking, cancelReason || 'Cancelled by user');
+    onConfirm(booking, cancelReason || 'Cancelled by user', series ? scope : 'this');
     setCancelReason(''); // Reset for next time
   };
 
   const handleClose = () => {
     setCancelReason('');
+    setScope('this');
     onClose();
   };
 
@@ -85,74 +104,128 @@ export function CancelBookingDialog({
 
                 {/* Content */}
                 <div className="p-6">
-                  <div className="mb-4">
-                    <p className="text-sm text-gray-900 mb-2">
-                      Are you sure you want to cancel this booking?
-                    </p>
-                    <div className="bg-gray-50 rounded-lg p-3 space-y-1">
-                      <div className="text-sm">
-                        <span className="font-medium text-gray-700">Customer:</span>
-                        <span className="ml-2 text-gray-900">
-                          {(booking.contactId && typeof booking.contactId === 'object') ? 
-                            `${(booking.contactId as any).firstName} ${(booking.contactId as any).lastName}` : 
-                            booking.customerName
-                          }
-                        </span>
-                      </div>
-                      <div className="text-sm">
-                        <span className="font-medium text-gray-700">Space:</span>
-                        <span className="ml-2 text-gray-900">
-                          {(booking.spaceId && typeof booking.spaceId === 'object' && (booking.spaceId as any).name) || 'Unknown Space'}
-                        </span>
-                      </div>
-                      <div className="text-sm">
-                        <span className="font-medium text-gray-700">Date:</span>
-                        <span className="ml-2 text-gray-900">
-                          {new Date(booking.startTime).toLocaleDateString('en-US', {
-                            weekday: 'long',
-                            year: 'numeric',
-                            month: 'long',
-                            day: 'numeric'
-                          })}
-                        </span>
+                  {hasReport ? (
+                    <FailedOccurrencesList
+                      title="These occurrences could not be cancelled"
+                      occurrences={failedOccurrences}
+                    />
+                  ) : (
+                    <>
+                      <div className="mb-4">
+                        <p className="text-sm text-gray-900 mb-2">
+                          Are you sure you want to cancel this booking?
+                        </p>
+                        <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                          <div className="text-sm">
+                            <span className="font-medium text-gray-700">Customer:</span>
+                            <span className="ml-2 text-gray-900">
+                              {(booking.contactId && typeof booking.contactId === 'object') ? 
+                                `${(booking.contactId as any).firstName} ${(booking.contactId as any).lastName}` : 
+                                booking.customerName
+                              }
+                            </span>
+                          </div>
+                          <div className="text-sm">
+                            <span className="font-medium text-gray-700">Space:</span>
+                            <span className="ml-2 text-gray-900">
+                              {(booking.spaceId && typeof booking.spaceId === 'object' && (booking.spaceId as any).name) || 'Unknown Space'}
+                            </span>
+                          </div>
+                          <div className="text-sm">
+                            <span className="font-medium text-gray-700">Date:</span>
+                            <span className="ml-2 text-gray-900">
+                              {new Date(booking.startTime).toLocaleDateString('en-US', {
+                                weekday: 'long',
+                                year: 'numeric',
+                                month: 'long',
+                                day: 'numeric'
+                              })}
+                            </span>
+                          </div>
+                          <div className="text-sm">
+                            <span className="font-medium text-gray-700">Time:</span>
+                            <span className="ml-2 text-gray-900">
+                              {new Date(booking.startTime).toLocaleTimeString('en-US', {
+                                hour: 'numeric',
+                                minute: '2-digit',
+                                hour12: true
+                              })} - {new Date(booking.endTime).toLocaleTimeString('en-US', {
+                                hour: 'numeric',
+                                minute: '2-digit',
+                                hour12: true
+                              })}
+                            </span>
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-sm">
-                        <span className="font-medium text-gray-700">Time:</span>
-                        <span className="ml-2 text-gray-900">
-                          {new Date(booking.startTime).toLocaleTimeString('en-US', {
-                            hour: 'numeric',
-                            minute: '2-digit',
-                            hour12: true
-                          })} - {new Date(booking.endTime).toLocaleTimeString('en-US', {
-                            hour: 'numeric',
-                            minute: '2-digit',
-                            hour12: true
-                          })}
-                        </span>
+
+                      {series && (
+                        <div className="mb-4">
+                          <SeriesScopeSelector
+                            series={series}
+                            value={scope}
+                            onChange={setScope}
+                            label="Cancel"
+                            disabled={isLoading}
+                          />
+                        </div>
+                      )}
+
+                      <div>
+                        <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700 mb-2">
+                          Cancellation Reason (Optional)
+                        </label>
+                        <textarea
+                          id="cancelReason"
+                          rows={3}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+                          placeholder="Enter reason for cancellation..."
+                          value={cancelReason}
+                          onChange={(e) => setCancelReason(e.target.value)}
+                          disabled={isLoading}
+                        />
                       </div>
-                    </div>
-                  </div>
 
-                  <div>
-                    <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700 mb-2">
-                      Cancellation Reason (Optional)
-                    </label>
-                    <textarea
-                      id="cancelReason"
-                      rows={3}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
-                      placeholder="Enter reason for cancellation..."
-                      value={cancelReason}
-                      onChange={(e) => setCancelReason(e.target.value)}
-                      disabled={isLoading}
-                    />
-                  </div>
+                      <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm">
+                        {previewLoading || !preview || !cancellation ? (
+                          <p className="text-gray-600">Calculating refund...</p>
+                        ) : cannotCancel ? (
+                          <p className="text-red-700">{cancellation.reason}</p>
+                        ) : (
+                          <>
+                            <div className="flex items-center font-medium text-gray-900">
+                              <RotateCcw className="h-4 w-4 mr-2 text-blue-600" />
+                              Refund: {cancellation.currency} {preview.totalRefundAmount.toLocaleString()}
+                              {preview.occurrenceCount > 1 && ` for ${preview.occurrenceCount} bookings`}
+                            </div>
+                            <p className="mt-1 text-gray-600">
+                              {cancellation.policy.description ||
+                                `Cancellations at least ${cancellation.policy.hoursBeforeStart} hours before the start are refunded ${cancellation.policy.refundPercentage}%.`}
+                            </p>
+                            {cancellation.amountPaid === 0 ? (
+                              <p className="mt-1 text-gray-600">No payment has been received, so there is nothing to refund.</p>
+                            ) : !cancellation.withinPolicy && (
+                              <p className="mt-1 text-gray-600">
+                                This booking starts in less than {cancellation.policy.hoursBeforeStart} hours, so it is not refundable.
+                              </p>
+                            )}
+                            {cancellation.creditsUsed > 0 && cancellation.creditUnit && (
+                              <p className="mt-1 text-gray-600">
+                                {formatCreditAmount(cancellation.creditRefund, cancellation.creditUnit)} of the{' '}
+                                {formatCreditAmount(cancellation.creditsUsed, cancellation.creditUnit)} membership allowance used will be returned.
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </div>
 
-                  <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
-                    <p className="text-sm text-yellow-800">
-                      <strong>Warning:</strong> This action cannot be undone. The customer will be notified of the cancellation.
-                    </p>
-                  </div>
+                      <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                        <p className="text-sm text-yellow-800">
+                          <strong>Warning:</strong> This action cannot be undone. The customer will be notified of the cancellation.
+                        </p>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 {/* Actions */}
@@ -163,16 +236,18 @@ export function CancelBookingDialog({
                     onClick={handleClose}
                     disabled={isLoading}
                   >
-                    Keep Booking
-                  </button>
-                  <button
-                    type="button"
-                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                    onClick={handleConfirm}
-                    disabled={isLoading}
-                  >
-                    {isLoading ? 'Cancelling...' : 'Cancel Booking'}
+                    {hasReport ? 'Close' : 'Keep Booking'}
                   </button>
+                  {!hasReport && (
+                    <button
+                      type="button"
+                      className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={handleConfirm}
+                      disabled={isLoading || cannotCancel}
+                    >
+                      {isLoading ? 'Cancelling...' : series && scope !== 'this' ? 'Cancel Bookings' : 'Cancel Booking'}
+                    </button>
+                  )}
                 </div>
               </Dialog.Panel>
             </Transition.Child>
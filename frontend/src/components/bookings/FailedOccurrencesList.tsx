@@ -0,0 +1,31 @@
+import { AlertCircle } from 'lucide-react';
+import { FailedOccurrence } from '../../services/bookingApi';
+import { formatBookingTimeRange } from '../../hooks/useBookings';
+
+interface FailedOccurrencesListProps {
+  title: string;
+  occurrences: FailedOccurrence[];
+}
+
+export function FailedOccurrencesList({ title, occurrences }: FailedOccurrencesListProps) {
+  if (occurrences.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+      <div className="flex items-center space-x-2 text-red-700 mb-2">
+        <AlertCircle className="h-4 w-4" />
+        <span className="text-sm font-medium">{title}</span>
+      </div>
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {occurrences.map((occurrence) => (
+          <li key={occurrence.startTime} className="text-sm text-red-700">
+            <span className="font-medium">{formatBookingTimeRange(occurrence.startTime, occurrence.endTime)}</span>
+            <span className="ml-2">{occurrence.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default FailedOccurrencesList;
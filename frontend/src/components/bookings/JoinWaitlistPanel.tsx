@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { ListPlus, CheckCircle } from 'lucide-react';
+import { useJoinWaitlist } from '../../hooks/useWaitlist';
+import { JoinWaitlistData } from '../../services/waitlistApi';
+
+interface JoinWaitlistPanelProps {
+  slot: Omit<JoinWaitlistData, 'contactId' | 'anySpaceOfType'>;
+  contactId?: string; // Only contacts can be offered a freed slot
+  onJoined: () => void;
+}
+
+// Offered when the slot was taken, to be told when it frees up
+export function JoinWaitlistPanel({ slot, contactId, onJoined }: JoinWaitlistPanelProps) {
+  const joinMutation = useJoinWaitlist();
+  const [anySpaceOfType, setAnySpaceOfType] = useState(false);
+  const [joinedMessage, setJoinedMessage] = useState<string | null>(null);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    if (!contactId) return;
+    setJoinError(null);
+    try {
+      await joinMutation.mutateAsync({ ...slot, contactId, anySpaceOfType });
+      setJoinedMessage("Added to the waitlist. If the slot frees up, it will be held for them and they'll be sent an offer by WhatsApp and email.");
+    } catch (error: any) {
+      setJoinError(
+        error.response?.data?.errors?.[0]?.message ||
+        error.response?.data?.message ||
+        'Failed to join the waitlist'
+      );
+    }
+  };
+
+  if (joinedMessage) {
+    return (
+      <div className="p-3 bg-green-50 rounded-lg border border-green-200 text-sm text-green-800">
+        <div className="flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            <p>{joinedMessage}</p>
+            <button
+              type="button"
+              onClick={onJoined}
+              className="mt-2 text-sm font-medium text-green-700 hover:text-green-900"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200 text-sm text-yellow-800">
+      <div className="flex items-start">
+        <ListPlus className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 space-y-2">
+          {contactId ? (
+            <>
+              <p>This slot is fully booked. Join the waitlist to be offered the slot if a booking is cancelled.</p>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={anySpaceOfType}
+                  onChange={(e) => setAnySpaceOfType(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Any space of the same type will do
+              </label>
+              {joinError && <p className="text-red-700">{joinError}</p>}
+              <button
+                type="button"
+                onClick={handleJoin}
+                disabled={joinMutation.isPending}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {joinMutation.isPending ? 'Joining...' : 'Join Waitlist'}
+              </button>
+            </>
+          ) : (
+            <p>This slot is fully booked. Select a contact to put them on the waitlist for it.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default JoinWaitlistPanel;
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+
+interface PendingHoldCountdownProps {
+  expiresAt: string;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Time left before an unconfirmed, unpaid booking is cancelled and its slot freed
+export function PendingHoldCountdown({ expiresAt }: PendingHoldCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = new Date(expiresAt).getTime() - now;
+
+  return (
+    <div className={`flex items-center rounded-lg p-4 text-sm border ${
+      remaining > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-red-50 border-red-200 text-red-700'
+    }`}>
+      <Timer className="w-4 h-4 mr-2 flex-shrink-0" />
+      {remaining > 0 ? (
+        <span>
+          Slot held for <span className="font-mono font-medium">{formatRemaining(remaining)}</span>.
+          The booking is cancelled automatically unless it's confirmed or paid by then.
+        </span>
+      ) : (
+        <span>The hold has expired; this booking is being cancelled and its slot released.</span>
+      )}
+    </div>
+  );
+}
+
+export default PendingHoldCountdown;
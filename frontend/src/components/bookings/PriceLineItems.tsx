@@ -0,0 +1,34 @@
+import { PriceLineItem } from '../../services/bookingApi';
+
+interface PriceLineItemsProps {
+  lineItems: PriceLineItem[];
+  currency: string;
+  totalAmount: number;
+}
+
+const formatAmount = (currency: string, amount: number) =>
+  `${amount < 0 ? '-' : ''}${currency} ${Math.abs(amount).toLocaleString()}`;
+
+export function PriceLineItems({ lineItems, currency, totalAmount }: PriceLineItemsProps) {
+  return (
+    <div className="space-y-1 text-sm">
+      {lineItems.map((item, index) => (
+        <div key={index} className="flex items-center justify-between text-gray-600">
+          <span>
+            {item.description}
+            {item.type === 'add_on' && item.quantity > 1 && ` × ${item.quantity}`}
+          </span>
+          <span className={item.amount < 0 ? 'text-green-700' : undefined}>
+            {formatAmount(currency, item.amount)}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1 border-t border-gray-200 font-medium text-gray-900">
+        <span>Total</span>
+        <span>{formatAmount(currency, totalAmount)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default PriceLineItems;
@@ -0,0 +1,50 @@
+import { Repeat } from 'lucide-react';
+import { BookingSeriesScope, BookingSeriesSummary } from '../../services/bookingApi';
+import { describeRecurrence } from '../../hooks/useBookings';
+
+interface SeriesScopeSelectorProps {
+  series: BookingSeriesSummary;
+  value: BookingSeriesScope;
+  onChange: (scope: BookingSeriesScope) => void;
+  label: string;
+  disabled?: boolean;
+}
+
+const SCOPE_OPTIONS: Array<{ value: BookingSeriesScope; label: string }> = [
+  { value: 'this', label: 'This occurrence' },
+  { value: 'following', label: 'This and following occurrences' },
+  { value: 'series', label: 'All upcoming occurrences in the series' },
+];
+
+export function SeriesScopeSelector({ series, value, onChange, label, disabled = false }: SeriesScopeSelectorProps) {
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4">
+      <div className="flex items-center text-sm font-medium text-indigo-900 mb-1">
+        <Repeat className="w-4 h-4 mr-2" />
+        Recurring booking
+      </div>
+      <p className="text-sm text-indigo-700 mb-3">{describeRecurrence(series)}</p>
+
+      <fieldset disabled={disabled}>
+        <legend className="text-sm font-medium text-gray-700 mb-2">{label}</legend>
+        <div className="space-y-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-900">
+              <input
+                type="radio"
+                name="seriesScope"
+                value={option.value}
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+                className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
+
+export default SeriesScopeSelector;
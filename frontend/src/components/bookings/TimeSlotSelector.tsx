@@ -6,6 +6,7 @@ interface TimeSlotSelectorProps {
   spaceId: string | null;
   date: string | null;
   duration?: number;
+  attendeeCount?: number; // Seats needed in seat-booked spaces
   selectedStartTime?: string;
   selectedEndTime?: string;
   onTimeSlotSelect: (startTime: string, endTime: string) => void;
@@ -17,6 +18,7 @@ export function TimeSlotSelector({
   spaceId,
   date,
   duration = 60,
+  attendeeCount = 1,
   selectedStartTime,
   selectedEndTime,
   onTimeSlotSelect,
@@ -38,14 +40,15 @@ export function TimeSlotSelector({
     nextAvailableSlot,
     timezone,
     summary
-  } = useTimeSlots(spaceId, date, duration);
+  } = useTimeSlots(spaceId, date, duration, attendeeCount);
 
   // Get time slot suggestions
   const { suggestions, hasSuggestions } = useTimeSlotSuggestions(
     spaceId, 
     date, 
     duration, 
-    selectedStartTime
+    selectedStartTime,
+    attendeeCount
   );
 
   // Update selected slot when props change
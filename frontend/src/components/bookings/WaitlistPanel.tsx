@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ListOrdered, Calendar, MapPin, Users, Clock, Check, X, Trash2 } from 'lucide-react';
+import { useWaitlist, useAcceptWaitlistOffer, useDeclineWaitlistOffer, useRemoveFromWaitlist } from '../../hooks/useWaitlist';
+import { WaitlistEntryData } from '../../services/waitlistApi';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface WaitlistPanelProps {
+  locationId: string;
+}
+
+// Open waitlist entries of the location's spaces, in the order slots are offered
+export function WaitlistPanel({ locationId }: WaitlistPanelProps) {
+  const { can } = usePermissions();
+  const { data: entries = [] } = useWaitlist({ locationId });
+  const acceptMutation = useAcceptWaitlistOffer();
+  const declineMutation = useDeclineWaitlistOffer();
+  const removeMutation = useRemoveFromWaitlist();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const isWorking = acceptMutation.isPending || declineMutation.isPending || removeMutation.isPending;
+
+  const runAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error: any) {
+      setActionError(error.response?.data?.message || fallbackMessage);
+    }
+  };
+
+  const handleRemove = (entry: WaitlistEntryData) => {
+    const name = `${entry.contactId.firstName} ${entry.contactId.lastName}`;
+    if (!window.confirm(`Remove ${name} from the waitlist?`)) return;
+    runAction(() => removeMutation.mutateAsync(entry._id), 'Failed to remove from waitlist');
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-sm border border-yellow-200">
+      <div className="px-6 py-4 border-b border-yellow-100 bg-yellow-50">
+        <div className="flex items-center space-x-3">
+          <ListOrdered className="h-5 w-5 text-yellow-600" />
+          <h3 className="text-lg font-medium text-yellow-900">
+            Waitlist ({entries.length})
+          </h3>
+        </div>
+        <p className="mt-1 text-sm text-yellow-700">
+          When a booking is cancelled, its slot is held for the first contact waiting for it and they're sent an offer to confirm.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {actionError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {actionError}
+          </div>
+        )}
+
+        {entries.map((entry) => (
+          <div key={entry._id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {entry.contactId.firstName} {entry.contactId.lastName}
+                  </p>
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    entry.status === 'Offered' ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {entry.status}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm text-gray-500">
+                  <div className="flex items-center">
+                    <Calendar className="h-4 w-4 mr-1" />
+                    {format(new Date(entry.startTime), 'MMM d, yyyy • h:mm a')} - {format(new Date(entry.endTime), 'h:mm a')}
+                  </div>
+                  <div className="flex items-center">
+                    <MapPin className="h-4 w-4 mr-1" />
+                    {entry.spaceId.name}{entry.anySpaceOfType && ' or any space of its type'}
+                  </div>
+                  <div className="flex items-center">
+                    <Users className="h-4 w-4 mr-1" />
+                    {entry.attendeeCount} attendees
+                  </div>
+                </div>
+                {entry.status === 'Offered' && entry.offer && (
+                  <div className="mt-2 flex items-center text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {entry.offer.spaceId.name} held as {entry.offer.bookingId.bookingReference} until {format(new Date(entry.offer.expiresAt), 'h:mm a')}
+                  </div>
+                )}
+              </div>
+
+              {can('waitlist:manage') && (
+                <div className="flex items-center space-x-1 ml-4">
+                  {entry.status === 'Offered' && (
+                    <>
+                      <button
+                        onClick={() => runAction(() => acceptMutation.mutateAsync(entry._id), 'Failed to accept offer')}
+                        disabled={isWorking}
+                        className="p-2 text-gray-400 hover:text-green-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+                        title="Accept offer for the contact"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => runAction(() => declineMutation.mutateAsync(entry._id), 'Failed to decline offer')}
+                        disabled={isWorking}
+                        className="p-2 text-gray-400 hover:text-yellow-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+                        title="Decline offer and pass it on"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={isWorking}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+                    title="Remove from waitlist"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default WaitlistPanel;
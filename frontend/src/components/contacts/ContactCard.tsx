@@ -87,10 +87,12 @@ export function ContactCard({ contact, onClick }: ContactCardProps) {
       </div>
 
       <div className="space-y-2 mb-3">
-        <div className="flex items-center text-sm text-gray-600">
-          <Mail className="h-4 w-4 mr-2 text-gray-400" />
-          {contact.email}
-        </div>
+        {contact.email && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Mail className="h-4 w-4 mr-2 text-gray-400" />
+            {contact.email}
+          </div>
+        )}
         {contact.phone && (
           <div className="flex items-center text-sm text-gray-600">
             <Phone className="h-4 w-4 mr-2 text-gray-400" />
@@ -4,6 +4,10 @@ import { useAddInteraction, useDeleteContact } from '../../hooks/useContacts';
 import { X, Mail, Phone, Building, MapPin, Edit, Trash2, Plus } from 'lucide-react';
 import { ContactForm } from './ContactForm';
 import { InteractionTimeline } from './InteractionTimeline';
+import { ContactDuplicates } from './ContactDuplicates';
+import { ContactInvoices } from './ContactInvoices';
+import { ContactMembership } from './ContactMembership';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface ContactDetailProps {
   contact: Contact;
@@ -37,6 +41,7 @@ export function ContactDetail({ contact, isOpen, onClose }: ContactDetailProps)
 
   const addInteractionMutation = useAddInteraction();
   const deleteContactMutation = useDeleteContact();
+  const { can } = usePermissions();
 
   const handleAddInteraction = async () => {
     if (!newInteraction.content.trim()) return;
@@ -188,20 +193,24 @@ export function ContactDetail({ contact, isOpen, onClose }: ContactDetailProps)
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => setIsEditing(true)}
-                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-                  >
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit
-                  </button>
-                  <button
-                    onClick={handleDeleteContact}
-                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200"
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete
-                  </button>
+                  {can('contacts:update') && (
+                    <button
+                      onClick={() => setIsEditing(true)}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </button>
+                  )}
+                  {can('contacts:delete') && (
+                    <button
+                      onClick={handleDeleteContact}
+                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </button>
+                  )}
                   <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
                     <X className="h-6 w-6" />
                   </button>
@@ -214,12 +223,14 @@ export function ContactDetail({ contact, isOpen, onClose }: ContactDetailProps)
                   <div>
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Contact Information</h3>
                     <div className="space-y-3">
-                      <div className="flex items-center text-sm text-gray-600">
-                        <Mail className="h-4 w-4 mr-3 text-gray-400" />
-                        <a href={`mailto:${contact.email}`} className="text-blue-600 hover:text-blue-800">
-                          {contact.email}
-                        </a>
-                      </div>
+                      {contact.email && (
+                        <div className="flex items-center text-sm text-gray-600">
+                          <Mail className="h-4 w-4 mr-3 text-gray-400" />
+                          <a href={`mailto:${contact.email}`} className="text-blue-600 hover:text-blue-800">
+                            {contact.email}
+                          </a>
+                        </div>
+                      )}
                       {contact.phone && (
                         <div className="flex items-center text-sm text-gray-600">
                           <Phone className="h-4 w-4 mr-3 text-gray-400" />
@@ -330,19 +341,27 @@ export function ContactDetail({ contact, isOpen, onClose }: ContactDetailProps)
                       </div>
                     </div>
                   )}
+
+                  {can('subscriptions:read') && <ContactMembership contact={contact} />}
+
+                  {can('invoices:read') && <ContactInvoices contact={contact} />}
+
+                  {can('contacts:merge') && <ContactDuplicates contact={contact} />}
                 </div>
 
                 {/* Interactions */}
                 <div>
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-medium text-gray-900">Interactions</h3>
-                    <button
-                      onClick={() => setShowAddInteraction(true)}
-                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
-                    >
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Note
-                    </button>
+                    {can('contacts:update') && (
+                      <button
+                        onClick={() => setShowAddInteraction(true)}
+                        className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Note
+                      </button>
+                    )}
                   </div>
 
                   {/* Add Interaction Form */}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Contact, DuplicateContactReason } from '@shared/types';
+import { useContactDuplicates, useMergeContact } from '../../hooks/useContacts';
+import { GitMerge, Mail, Phone } from 'lucide-react';
+
+interface ContactDuplicatesProps {
+  contact: Contact;
+}
+
+const REASON_LABELS: Record<DuplicateContactReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Same name',
+};
+
+export function ContactDuplicates({ contact }: ContactDuplicatesProps) {
+  const { data: duplicates, isLoading } = useContactDuplicates(contact._id);
+  const mergeContactMutation = useMergeContact();
+  const [mergeError, setMergeError] = useState<string | null>(null);
+
+  if (isLoading || !duplicates || duplicates.length === 0) return null;
+
+  const handleMerge = async (duplicate: Contact) => {
+    const confirmed = window.confirm(
+      `Merge ${duplicate.firstName} ${duplicate.lastName} into ${contact.firstName} ${contact.lastName}? ` +
+      'Their bookings, messages and history will move to this contact and the duplicate will be deleted.'
+    );
+    if (!confirmed) return;
+
+    setMergeError(null);
+    try {
+      await mergeContactMutation.mutateAsync({ id: contact._id, sourceContactId: duplicate._id });
+    } catch (error: any) {
+      setMergeError(error.response?.data?.message || 'Failed to merge contacts');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Possible Duplicates</h3>
+      {mergeError && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {mergeError}
+        </div>
+      )}
+      <div className="space-y-3">
+        {duplicates.map(({ contact: duplicate, reasons }) => (
+          <div
+            key={duplicate._id}
+            className="flex items-center justify-between p-3 border border-yellow-200 bg-yellow-50 rounded-lg"
+          >
+            <div className="text-sm">
+              <div className="font-medium text-gray-900">
+                {duplicate.firstName} {duplicate.lastName}
+                <span className="ml-2 text-xs text-gray-500">{duplicate.type}</span>
+              </div>
+              {duplicate.email && (
+                <div className="flex items-center text-gray-600">
+                  <Mail className="h-3 w-3 mr-1" />
+                  {duplicate.email}
+                </div>
+              )}
+              {duplicate.phone && (
+                <div className="flex items-center text-gray-600">
+                  <Phone className="h-3 w-3 mr-1" />
+                  {duplicate.phone}
+                </div>
+              )}
+              <div className="mt-1 text-xs text-yellow-800">
+                {reasons.map(reason => REASON_LABELS[reason]).join(' · ')}
+              </div>
+            </div>
+            <button
+              onClick={() => handleMerge(duplicate)}
+              disabled={mergeContactMutation.isPending}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge here
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
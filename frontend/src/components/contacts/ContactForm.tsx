@@ -117,7 +117,7 @@ export function ContactForm({ contact, isOpen, onClose, onSuccess }: ContactForm
       if (isEditing && contact) {
         await updateContactMutation.mutateAsync({
           id: contact._id,
-          data: submitData,
+          data: { ...submitData, email: submitData.email?.trim() || undefined },
         });
       } else {
         await createContactMutation.mutateAsync(submitData);
@@ -235,7 +235,10 @@ export function ContactForm({ contact, isOpen, onClose, onSuccess }: ContactForm
                     <label className="block text-sm font-medium text-gray-700">Email</label>
                     <input
                       type="email"
-                      {...register('email', { required: 'Email is required' })}
+                      {...register('email', {
+                        // Contacts created from WhatsApp can be saved with just their phone number
+                        required: isEditing && contact?.phone ? false : 'Email is required',
+                      })}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                     />
                     {errors.email && (
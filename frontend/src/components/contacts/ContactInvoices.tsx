@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addMonths, format } from 'date-fns';
+import { Contact } from '@shared/types';
+import { useInvoices, useCreateInvoice } from '../../hooks/useInvoices';
+import { formatMoney, getInvoiceStatusColor } from '../invoices/InvoiceDetailsModal';
+import { usePermissions } from '../../hooks/usePermissions';
+import { FileText, Plus } from 'lucide-react';
+
+interface ContactInvoicesProps {
+  contact: Contact;
+}
+
+export function ContactInvoices({ contact }: ContactInvoicesProps) {
+  const { can } = usePermissions();
+  const { data, isLoading } = useInvoices({ contactId: contact._id, limit: 5 });
+  const createInvoiceMutation = useCreateInvoice();
+  const [showForm, setShowForm] = useState(false);
+  const [periodStart, setPeriodStart] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = useState(() => format(addMonths(new Date(), 1), 'yyyy-MM-dd'));
+  const [amount, setAmount] = useState(() => contact.membership?.monthlyRate?.toString() || '');
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const canInvoiceMembership = contact.type === 'Member' && can('invoices:create');
+
+  const handleCreate = async () => {
+    setCreateError(null);
+    try {
+      await createInvoiceMutation.mutateAsync({
+        sourceType: 'membership',
+        contactId: contact._id,
+        periodStart,
+        periodEnd,
+        amount: amount ? Number(amount) : undefined
+      });
+      setShowForm(false);
+    } catch (error: any) {
+      setCreateError(error.response?.data?.message || 'Failed to create invoice');
+    }
+  };
+
+  if (isLoading) return null;
+  const invoices = data?.invoices || [];
+  if (invoices.length === 0 && !canInvoiceMembership) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Invoices</h3>
+        {canInvoiceMembership && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Invoice Membership
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Period start</label>
+              <input
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Period end</label>
+              <input
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Monthly rate"
+              />
+            </div>
+          </div>
+          {createError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {createError}
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={createInvoiceMutation.isPending}
+              className="px-3 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {createInvoiceMutation.isPending ? 'Creating...' : 'Create Invoice'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invoices.length === 0 ? (
+        <p className="text-sm text-gray-500">No invoices yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {invoices.map((invoice) => (
+            <Link
+              key={invoice._id}
+              to={`/invoices?invoice=${invoice._id}`}
+              className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50"
+            >
+              <div className="flex items-center text-sm">
+                <FileText className="h-4 w-4 mr-2 text-gray-400" />
+                <span className="font-medium text-gray-900">{invoice.invoiceNumber}</span>
+                <span className="ml-2 text-gray-500">{format(new Date(invoice.issuedAt), 'MMM d, yyyy')}</span>
+              </div>
+              <div className="flex items-center space-x-3 text-sm">
+                <span className="text-gray-900">{formatMoney(invoice.total, invoice.currency)}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getInvoiceStatusColor(invoice.status)}`}>
+                  {invoice.status}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -122,7 +122,7 @@ export function ContactList({ contacts, pagination, onPageChange }: ContactListP
                         <div className="text-sm font-medium text-gray-900">
                           {contact.firstName} {contact.lastName}
                         </div>
-                        <div className="text-sm text-gray-500">{contact.email}</div>
+                        <div className="text-sm text-gray-500">{contact.email || contact.phone}</div>
                       </div>
                     </div>
                   </td>
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Contact } from '@shared/types';
+import { useContactCredits, useMembershipPlans, useSubscribeContact, useCancelSubscription } from '../../hooks/useMemberships';
+import { formatCreditAmount, CreditTransactionType } from '../../services/membershipApi';
+import { formatMoney } from '../invoices/InvoiceDetailsModal';
+import { usePermissions } from '../../hooks/usePermissions';
+import { CreditCard, RefreshCw } from 'lucide-react';
+
+interface ContactMembershipProps {
+  contact: Contact;
+}
+
+const TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  grant: 'Allowance',
+  usage: 'Booking',
+  release: 'Returned',
+  expiry: 'Expired'
+};
+
+const getSubscriptionStatusColor = (status: string) => {
+  switch (status) {
+    case 'active':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'cancelled':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+export function ContactMembership({ contact }: ContactMembershipProps) {
+  const { can } = usePermissions();
+  const { data, isLoading } = useContactCredits(contact._id);
+  const canManage = can('subscriptions:manage');
+  const { data: plans = [] } = useMembershipPlans();
+  const subscribeMutation = useSubscribeContact();
+  const cancelMutation = useCancelSubscription();
+
+  const [showForm, setShowForm] = useState(false);
+  const [planId, setPlanId] = useState('');
+  const [startDate, setStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [autoRenew, setAutoRenew] = useState(true);
+  const [createInvoice, setCreateInvoice] = useState(true);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleSubscribe = async () => {
+    if (!planId) return;
+    setActionError(null);
+    try {
+      await subscribeMutation.mutateAsync({
+        contactId: contact._id,
+        subscribeData: { planId, startDate, autoRenew, createInvoice }
+      });
+      setShowForm(false);
+      setPlanId('');
+    } catch (error: any) {
+      setActionError(error.response?.data?.message || 'Failed to subscribe contact');
+    }
+  };
+
+  const handleCancel = async (immediately: boolean) => {
+    const message = immediately
+      ? 'End this subscription now? Remaining credits expire immediately.'
+      : 'Stop this subscription from renewing? It stays active until the renewal date.';
+    if (!window.confirm(message)) return;
+
+    setActionError(null);
+    try {
+      await cancelMutation.mutateAsync({ contactId: contact._id, immediately });
+    } catch (error: any) {
+      setActionError(error.response?.data?.message || 'Failed to cancel subscription');
+    }
+  };
+
+  if (isLoading) return null;
+  const subscription = data?.subscription;
+  const plan = data?.plan;
+  const transactions = data?.transactions || [];
+  const isCurrent = subscription && subscription.status !== 'expired';
+  if (!isCurrent && transactions.length === 0 && !canManage) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Membership</h3>
+        {canManage && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {isCurrent ? <RefreshCw className="h-4 w-4 mr-1" /> : <CreditCard className="h-4 w-4 mr-1" />}
+            {isCurrent ? 'Change Plan' : 'Subscribe'}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg space-y-3">
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">No active membership plans. Create one on the Membership Plans page.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Plan</label>
+                <select
+                  value={planId}
+                  onChange={(e) => setPlanId(e.target.value)}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a plan</option>
+                  {plans.map((option) => (
+                    <option key={option._id} value={option._id}>
+                      {option.name} ({formatMoney(option.monthlyPrice, option.currency)}/month)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start date</label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={autoRenew}
+                  onChange={(e) => setAutoRenew(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Renew every month
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={createInvoice}
+                  onChange={(e) => setCreateInvoice(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Invoice the first month
+              </label>
+            </div>
+          )}
+          {isCurrent && (
+            <p className="text-xs text-gray-500">
+              Switching plans starts a new period and the remaining balance of the current plan expires.
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubscribe}
+              disabled={!planId || subscribeMutation.isPending}
+              className="px-3 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {subscribeMutation.isPending ? 'Subscribing...' : 'Subscribe'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {actionError}
+        </div>
+      )}
+
+      {isCurrent && subscription ? (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{plan?.name || 'Unknown plan'}</p>
+              {plan && (
+                <p className="text-xs text-gray-500">{formatMoney(plan.monthlyPrice, plan.currency)} per month</p>
+              )}
+            </div>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium border capitalize ${getSubscriptionStatusColor(subscription.status)}`}>
+              {subscription.status}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <p className="text-xs text-gray-500">Credit balance</p>
+              <p className="font-medium text-gray-900">{formatCreditAmount(subscription.creditBalance, subscription.creditUnit)}</p>
+              {plan && (
+                <p className="text-xs text-gray-500">of {formatCreditAmount(plan.allowance.amount, plan.allowance.unit)} this period</p>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">{subscription.status === 'active' && subscription.autoRenew ? 'Renews on' : 'Ends on'}</p>
+              <p className="font-medium text-gray-900">{format(new Date(subscription.currentPeriodEnd), 'MMM d, yyyy')}</p>
+              <p className="text-xs text-gray-500">Member since {format(new Date(subscription.startDate), 'MMM d, yyyy')}</p>
+            </div>
+          </div>
+          {canManage && (
+            <div className="flex justify-end space-x-2 pt-2 border-t border-gray-100">
+              {subscription.status === 'active' && (
+                <button
+                  onClick={() => handleCancel(false)}
+                  disabled={cancelMutation.isPending}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Cancel at renewal
+                </button>
+              )}
+              <button
+                onClick={() => handleCancel(true)}
+                disabled={cancelMutation.isPending}
+                className="px-3 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                End now
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No active subscription.</p>
+      )}
+
+      {transactions.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Credit history</h4>
+          <div className="space-y-1 max-h-60 overflow-y-auto">
+            {transactions.map((transaction) => (
+              <div key={transaction._id} className="flex items-center justify-between text-sm py-1 border-b border-gray-100 last:border-0">
+                <div>
+                  <span className="text-gray-900">{TRANSACTION_LABELS[transaction.type]}</span>
+                  {transaction.bookingId && (
+                    <span className="ml-2 text-gray-500">{transaction.bookingId.bookingReference}</span>
+                  )}
+                  {!transaction.bookingId && transaction.note && (
+                    <span className="ml-2 text-gray-500">{transaction.note}</span>
+                  )}
+                  <span className="ml-2 text-xs text-gray-400">{format(new Date(transaction.createdAt), 'MMM d, yyyy')}</span>
+                </div>
+                <div className="text-right">
+                  <span className={transaction.amount >= 0 ? 'text-green-700' : 'text-gray-900'}>
+                    {transaction.amount >= 0 ? '+' : '-'}{formatCreditAmount(Math.abs(transaction.amount), transaction.unit)}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-400">
+                    {formatCreditAmount(transaction.balanceAfter, transaction.unit)} left
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
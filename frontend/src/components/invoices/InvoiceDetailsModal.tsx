@@ -0,0 +1,477 @@
+import { Fragment, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import {
+  X,
+  FileText,
+  Download,
+  CreditCard,
+  RotateCcw,
+  Ban,
+  AlertCircle
+} from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  InvoiceData,
+  InvoicePaymentMethod,
+  InvoiceStatus,
+  getInvoiceBalanceDue,
+  getInvoiceRefundableAmount
+} from '../../services/invoiceApi';
+import {
+  useInvoice,
+  useRecordPayment,
+  useRefundInvoice,
+  useVoidInvoice,
+  downloadInvoicePdf
+} from '../../hooks/useInvoices';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface InvoiceDetailsModalProps {
+  invoiceId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type InvoiceAction = 'payment' | 'refund' | 'void' | null;
+
+export const PAYMENT_METHOD_LABELS: Record<InvoicePaymentMethod, string> = {
+  card: 'Card',
+  upi: 'UPI',
+  bank_transfer: 'Bank transfer',
+  cash: 'Cash',
+  other: 'Other'
+};
+
+export const getInvoiceStatusColor = (status: InvoiceStatus) => {
+  switch (status) {
+    case 'Issued':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'Partially Paid':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'Paid':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'Partially Refunded':
+    case 'Refunded':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'Void':
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+export const formatMoney = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as any)?.response?.data?.message || (error as Error)?.message || fallback;
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+export function InvoiceDetailsModal({ invoiceId, isOpen, onClose }: InvoiceDetailsModalProps) {
+  const { can } = usePermissions();
+  const { data, isLoading } = useInvoice(invoiceId || undefined);
+  const recordPayment = useRecordPayment();
+  const refundInvoice = useRefundInvoice();
+  const voidInvoice = useVoidInvoice();
+
+  const [action, setAction] = useState<InvoiceAction>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<InvoicePaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const invoice: InvoiceData | undefined = data?.invoice;
+  const payments = data?.payments || [];
+
+  const resetAction = () => {
+    setAction(null);
+    setAmount('');
+    setMethod('cash');
+    setReference('');
+    setReason('');
+    setActionError(null);
+  };
+
+  const handleClose = () => {
+    resetAction();
+    onClose();
+  };
+
+  const startAction = (next: InvoiceAction) => {
+    resetAction();
+    setAction(next);
+  };
+
+  const handleSubmitAction = async () => {
+    if (!invoice) return;
+    setActionError(null);
+    const parsedAmount = amount ? Number(amount) : undefined;
+
+    try {
+      if (action === 'payment') {
+        const isOnline = method === 'card' || method === 'upi';
+        await recordPayment.mutateAsync({
+          id: invoice._id,
+          paymentData: {
+            amount: parsedAmount,
+            method,
+            token: isOnline && reference ? reference : undefined,
+            reference: !isOnline && reference ? reference : undefined
+          }
+        });
+      } else if (action === 'refund') {
+        await refundInvoice.mutateAsync({
+          id: invoice._id,
+          refundData: { amount: parsedAmount, reason: reason || undefined }
+        });
+      } else if (action === 'void') {
+        await voidInvoice.mutateAsync({ id: invoice._id, reason: reason || undefined });
+      }
+      resetAction();
+    } catch (error) {
+      setActionError(getErrorMessage(error, 'Something went wrong'));
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!invoice) return;
+    setIsDownloading(true);
+    try {
+      await downloadInvoicePdf(invoice._id, invoice.invoiceNumber);
+    } catch (error) {
+      setActionError(getErrorMessage(error, 'Failed to download the invoice'));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const balanceDue = invoice ? getInvoiceBalanceDue(invoice) : 0;
+  const refundable = invoice ? getInvoiceRefundableAmount(invoice) : 0;
+  const isVoid = invoice?.status === 'Void';
+  const isSubmitting = recordPayment.isPending || refundInvoice.isPending || voidInvoice.isPending;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-lg bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                  <div className="flex items-center space-x-3">
+                    <FileText className="h-6 w-6 text-blue-600" />
+                    <div>
+                      <Dialog.Title className="text-lg font-medium text-gray-900">
+                        {invoice ? `Invoice ${invoice.invoiceNumber}` : 'Invoice'}
+                      </Dialog.Title>
+                      {invoice && (
+                        <p className="text-sm text-gray-600">
+                          Issued {format(new Date(invoice.issuedAt), 'MMM do, yyyy')}
+                          {invoice.dueDate && ` · Due ${format(new Date(invoice.dueDate), 'MMM do, yyyy')}`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    onClick={handleClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {isLoading || !invoice ? (
+                  <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : (
+                  <div className="p-6 space-y-6">
+                    {/* Customer & Status */}
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-xs font-medium uppercase text-gray-500">Bill to</p>
+                        <p className="text-sm font-medium text-gray-900">{invoice.customer.name}</p>
+                        {invoice.customer.company && <p className="text-sm text-gray-600">{invoice.customer.company}</p>}
+                        {invoice.customer.email && <p className="text-sm text-gray-600">{invoice.customer.email}</p>}
+                        {invoice.membership && (
+                          <p className="mt-1 text-sm text-gray-600">
+                            {invoice.membership.planType} membership,{' '}
+                            {format(new Date(invoice.membership.periodStart), 'MMM d')} – {format(new Date(invoice.membership.periodEnd), 'MMM d, yyyy')}
+                          </p>
+                        )}
+                      </div>
+                      <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getInvoiceStatusColor(invoice.status)}`}>
+                        {invoice.status}
+                      </span>
+                    </div>
+
+                    {/* Line Items & Totals */}
+                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left font-medium text-gray-600">Description</th>
+                            <th className="px-4 py-2 text-right font-medium text-gray-600">Qty</th>
+                            <th className="px-4 py-2 text-right font-medium text-gray-600">Unit price</th>
+                            <th className="px-4 py-2 text-right font-medium text-gray-600">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {invoice.lineItems.map((item, index) => (
+                            <tr key={index}>
+                              <td className="px-4 py-2 text-gray-900">{item.description}</td>
+                              <td className="px-4 py-2 text-right text-gray-700">{item.quantity}</td>
+                              <td className="px-4 py-2 text-right text-gray-700">{formatMoney(item.unitPrice, invoice.currency)}</td>
+                              <td className="px-4 py-2 text-right text-gray-900">{formatMoney(item.amount, invoice.currency)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="bg-gray-50 px-4 py-3 space-y-1 text-sm">
+                        <div className="flex justify-between text-gray-700">
+                          <span>Subtotal</span>
+                          <span>{formatMoney(invoice.subtotal, invoice.currency)}</span>
+                        </div>
+                        {invoice.taxes.map((tax) => (
+                          <div key={tax.name} className="flex justify-between text-gray-700">
+                            <span>{tax.name} ({tax.rate}%)</span>
+                            <span>{formatMoney(tax.amount, invoice.currency)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between font-semibold text-gray-900">
+                          <span>Total</span>
+                          <span>{formatMoney(invoice.total, invoice.currency)}</span>
+                        </div>
+                        <div className="flex justify-between text-gray-700">
+                          <span>Paid</span>
+                          <span>{formatMoney(invoice.amountPaid, invoice.currency)}</span>
+                        </div>
+                        {invoice.amountRefunded > 0 && (
+                          <div className="flex justify-between text-gray-700">
+                            <span>Refunded</span>
+                            <span>-{formatMoney(invoice.amountRefunded, invoice.currency)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between font-semibold text-gray-900">
+                          <span>Balance due</span>
+                          <span>{formatMoney(balanceDue, invoice.currency)}</span>
+                        </div>
+                      </div>
+                    </div>
+
+                    {invoice.voidReason && (
+                      <p className="text-sm text-gray-600">Voided: {invoice.voidReason}</p>
+                    )}
+
+                    {/* Ledger */}
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-900 mb-2">Payments & Refunds</h3>
+                      {payments.length === 0 ? (
+                        <p className="text-sm text-gray-500">No payments recorded yet.</p>
+                      ) : (
+                        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                          {payments.map((payment) => (
+                            <li key={payment._id} className="flex items-center justify-between px-4 py-2 text-sm">
+                              <div>
+                                <p className="text-gray-900">
+                                  {payment.type === 'refund' ? 'Refund' : 'Payment'} · {PAYMENT_METHOD_LABELS[payment.method]}
+                                  {payment.status === 'Failed' && (
+                                    <span className="ml-2 text-red-600">Failed{payment.failureReason ? `: ${payment.failureReason}` : ''}</span>
+                                  )}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {format(new Date(payment.processedAt), 'MMM do, yyyy h:mm a')}
+                                  {payment.providerReference && ` · ${payment.providerReference}`}
+                                </p>
+                              </div>
+                              <span className={payment.status === 'Failed' ? 'text-gray-400 line-through' : payment.type === 'refund' ? 'text-blue-700' : 'text-green-700'}>
+                                {payment.type === 'refund' ? '-' : ''}{formatMoney(payment.amount, payment.currency)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    {/* Action Form */}
+                    {action && (
+                      <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+                        {action !== 'void' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Amount ({invoice.currency})
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={amount}
+                              onChange={(e) => setAmount(e.target.value)}
+                              className={inputClassName}
+                              placeholder={action === 'payment'
+                                ? `Balance due: ${balanceDue.toFixed(2)}`
+                                : `Up to ${refundable.toFixed(2)}`}
+                            />
+                          </div>
+                        )}
+                        {action === 'payment' && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                              <select
+                                value={method}
+                                onChange={(e) => setMethod(e.target.value as InvoicePaymentMethod)}
+                                className={inputClassName}
+                              >
+                                {(Object.keys(PAYMENT_METHOD_LABELS) as InvoicePaymentMethod[]).map((key) => (
+                                  <option key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                {method === 'card' || method === 'upi' ? 'Payment token' : 'Reference'}
+                              </label>
+                              <input
+                                type="text"
+                                value={reference}
+                                onChange={(e) => setReference(e.target.value)}
+                                className={inputClassName}
+                                placeholder={method === 'card' || method === 'upi' ? 'tok_...' : 'Receipt or transfer number'}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        {action !== 'payment' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                            <input
+                              type="text"
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                              className={inputClassName}
+                              placeholder="Optional"
+                            />
+                          </div>
+                        )}
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            type="button"
+                            onClick={resetAction}
+                            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            Back
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleSubmitAction}
+                            disabled={isSubmitting}
+                            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {isSubmitting
+                              ? 'Saving...'
+                              : action === 'payment'
+                              ? 'Record Payment'
+                              : action === 'refund'
+                              ? 'Issue Refund'
+                              : 'Void Invoice'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {actionError && (
+                      <div className="flex items-start space-x-2 text-sm text-red-600">
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span>{actionError}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+                  <button
+                    type="button"
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    onClick={handleClose}
+                  >
+                    Close
+                  </button>
+                  {invoice && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      onClick={handleDownload}
+                      disabled={isDownloading}
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      PDF
+                    </button>
+                  )}
+                  {invoice && !isVoid && refundable === 0 && can('invoices:void') && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      onClick={() => startAction('void')}
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Void
+                    </button>
+                  )}
+                  {invoice && refundable > 0 && can('invoices:refund') && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+                      onClick={() => startAction('refund')}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Refund
+                    </button>
+                  )}
+                  {invoice && !isVoid && balanceDue > 0 && can('invoices:recordPayment') && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                      onClick={() => startAction('payment')}
+                    >
+                      <CreditCard className="w-4 h-4 mr-2" />
+                      Record Payment
+                    </button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
+
+export default InvoiceDetailsModal;
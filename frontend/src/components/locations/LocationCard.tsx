@@ -15,6 +15,7 @@ import {
 import { Location, DayOfWeek } from '@shared/types';
 import { getAmenityDisplayName, getAmenityIcon, useDeleteLocation } from '../../hooks/useLocations';
 import { LocationForm } from './LocationForm';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface LocationCardProps {
   location: Location;
@@ -25,6 +26,7 @@ export function LocationCard({ location, onClick }: LocationCardProps) {
   const [isEditFormOpen, setIsEditFormOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const deleteLocation = useDeleteLocation();
+  const { can } = usePermissions();
 
   const handleDelete = async () => {
     if (window.confirm(`Are you sure you want to delete "${location.name}"? This action cannot be undone.`)) {
@@ -87,26 +89,30 @@ export function LocationCard({ location, onClick }: LocationCardProps) {
                     <Eye className="h-4 w-4 mr-3" />
                     View Details
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setIsEditFormOpen(true);
-                    }}
-                    className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
-                  >
-                    <Edit className="h-4 w-4 mr-3" />
-                    Edit Location
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDelete();
-                    }}
-                    className="flex items-center px-4 py-2 text-sm text-red-600 hover:bg-red-50 w-full text-left"
-                  >
-                    <Calendar className="h-4 w-4 mr-3" />
-                    Delete Location
-                  </button>
+                  {can('locations:update') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsEditFormOpen(true);
+                      }}
+                      className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                    >
+                      <Edit className="h-4 w-4 mr-3" />
+                      Edit Location
+                    </button>
+                  )}
+                  {can('locations:delete') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete();
+                      }}
+                      className="flex items-center px-4 py-2 text-sm text-red-600 hover:bg-red-50 w-full text-left"
+                    >
+                      <Calendar className="h-4 w-4 mr-3" />
+                      Delete Location
+                    </button>
+                  )}
                 </div>
               )}
             </div>
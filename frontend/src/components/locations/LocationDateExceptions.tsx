@@ -0,0 +1,286 @@
+import { useState, useRef, FormEvent, ChangeEvent } from 'react';
+import { CalendarX, Plus, Trash2, Upload } from 'lucide-react';
+import { Location, DateExceptionType } from '@shared/types';
+import {
+  useLocationDateExceptions,
+  useAddLocationDateException,
+  useDeleteLocationDateException,
+  useImportLocationCalendar
+} from '../../hooks/useLocations';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface LocationDateExceptionsProps {
+  location: Location;
+}
+
+const TYPE_LABELS: Record<DateExceptionType, string> = {
+  closed: 'Closed',
+  modified_hours: 'Modified hours',
+  special_event: 'Special event'
+};
+
+// Today's date ("YYYY-MM-DD") where the location is
+const getTodayInTimezone = (timezone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+
+const emptyForm = { date: '', type: 'closed' as DateExceptionType, name: '', openTime: '', closeTime: '', notes: '' };
+
+export function LocationDateExceptions({ location }: LocationDateExceptionsProps) {
+  const { can } = usePermissions();
+  const canManage = can('locations:update');
+  const today = getTodayInTimezone(location.timezone);
+
+  const { data, isLoading } = useLocationDateExceptions(location._id, { from: today });
+  const addException = useAddLocationDateException();
+  const deleteException = useDeleteLocationDateException();
+  const importCalendar = useImportLocationCalendar();
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const dateExceptions = data?.dateExceptions || [];
+
+  const getErrorMessage = (err: any, fallback: string) =>
+    err.response?.data?.errors?.join(', ') || err.response?.data?.message || fallback;
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const withTimes = form.type !== 'closed' && form.openTime && form.closeTime;
+    try {
+      await addException.mutateAsync({
+        id: location._id,
+        data: {
+          date: form.date,
+          type: form.type,
+          name: form.name,
+          ...(withTimes && { openTime: form.openTime, closeTime: form.closeTime }),
+          ...(form.notes && { notes: form.notes })
+        }
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to add the date'));
+    }
+  };
+
+  const handleDelete = async (exceptionId: string, name: string) => {
+    if (!confirm(`Remove "${name}" from this location's calendar?`)) {
+      return;
+    }
+    setError(null);
+    try {
+      await deleteException.mutateAsync({ id: location._id, exceptionId });
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to remove the date'));
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setImportSummary(null);
+    try {
+      const result = await importCalendar.mutateAsync({ id: location._id, calendar: await file.text() });
+      if (!result) return;
+      const parts = [`Imported ${result.imported} date${result.imported === 1 ? '' : 's'} from ${file.name}`];
+      if (result.skipped.length > 0) {
+        parts.push(`skipped ${result.skipped.length}: ${result.skipped
+          .slice(0, 3)
+          .map(item => `${item.name}${item.date ? ` (${item.date})` : ''} - ${item.reason}`)
+          .join('; ')}${result.skipped.length > 3 ? '; ...' : ''}`);
+      }
+      setImportSummary(parts.join(', '));
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to import the calendar'));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-lg font-medium text-gray-900 flex items-center">
+          <CalendarX className="h-5 w-5 mr-2 text-gray-400" />
+          Holidays & Special Dates
+        </h4>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              disabled={importCalendar.isPending}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              {importCalendar.isPending ? 'Importing...' : 'Import .ics'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(!showForm)}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-100 rounded-md hover:bg-blue-200"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add date
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+        {canManage && (
+          <p className="text-xs text-gray-500">
+            All-day events close the location; timed events set that day's hours.
+          </p>
+        )}
+        {error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">{error}</div>
+        )}
+        {importSummary && (
+          <div className="p-2 bg-green-50 border border-green-200 rounded-md text-xs text-green-800">{importSummary}</div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleAdd} className="space-y-2 p-3 bg-white border border-gray-200 rounded-md">
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                required
+                min={today}
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+              />
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as DateExceptionType })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+              >
+                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="text"
+              required
+              maxLength={100}
+              placeholder="Name, e.g. Diwali"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            {form.type !== 'closed' && (
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="time"
+                  required={form.type === 'modified_hours'}
+                  value={form.openTime}
+                  onChange={(e) => setForm({ ...form, openTime: e.target.value })}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <input
+                  type="time"
+                  required={form.type === 'modified_hours'}
+                  value={form.closeTime}
+                  onChange={(e) => setForm({ ...form, closeTime: e.target.value })}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+            )}
+            <input
+              type="text"
+              maxLength={200}
+              placeholder="Notes (optional)"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={addException.isPending}
+                className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {addException.isPending ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : dateExceptions.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming holidays or special dates</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {dateExceptions.map((exception) => (
+              <div key={exception._id} className="flex items-start justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatDate(exception.date)}
+                    {exception.date === today && <span className="ml-2 text-xs text-blue-700">Today</span>}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {exception.name}
+                    {exception.source === 'ical' && <span className="ml-1 text-xs text-gray-400">(imported)</span>}
+                  </p>
+                  {exception.notes && <p className="text-xs text-gray-500">{exception.notes}</p>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={`text-xs font-medium ${exception.type === 'closed' ? 'text-red-600' : 'text-orange-600'}`}>
+                    {exception.type === 'closed'
+                      ? TYPE_LABELS.closed
+                      : exception.openTime && exception.closeTime
+                        ? `${exception.openTime} - ${exception.closeTime}`
+                        : TYPE_LABELS[exception.type]}
+                  </span>
+                  {canManage && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(exception._id, exception.name)}
+                      disabled={deleteException.isPending}
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { Location } from '@shared/types';
 import { getAmenityDisplayName, getAmenityIcon, useLocationHours } from '../../hooks/useLocations';
+import { LocationDateExceptions } from './LocationDateExceptions';
 
 interface LocationDetailProps {
   location: Location;
@@ -83,6 +84,16 @@ export function LocationDetail({ location, isOpen, onClose }: LocationDetailProp
             <p className="text-xs text-gray-600 mt-1">
               Local time: {hoursData.currentTime} ({location.timezone})
             </p>
+            {hoursData.todayHours && (
+              <p className="text-xs text-gray-600 mt-1">
+                Today: {hoursData.todayHours.isOpen
+                  ? `${hoursData.todayHours.openTime} - ${hoursData.todayHours.closeTime}`
+                  : 'Closed'}
+                {hoursData.todayHours.exception && (
+                  <span className="text-orange-600 ml-1">({hoursData.todayHours.exception.name})</span>
+                )}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -202,6 +213,9 @@ export function LocationDetail({ location, isOpen, onClose }: LocationDetailProp
                         {renderOperatingHours()}
                       </div>
                     </div>
+
+                    {/* Holidays & Special Dates */}
+                    <LocationDateExceptions location={location} />
                   </div>
 
                   {/* Right Column */}
@@ -246,6 +260,11 @@ export function LocationDetail({ location, isOpen, onClose }: LocationDetailProp
                               <p>Min. booking: {location.defaultBookingRules.minimumBookingDuration} minutes</p>
                               <p>Max. booking: {location.defaultBookingRules.maximumBookingDuration} minutes</p>
                               <p>Advance booking: {location.defaultBookingRules.advanceBookingLimit} days</p>
+                              <p>
+                                Pending hold: {location.defaultBookingRules.pendingHoldMinutes === 0
+                                  ? 'until confirmed by staff'
+                                  : `${location.defaultBookingRules.pendingHoldMinutes ?? 30} minutes`}
+                              </p>
                               <p>Same-day booking: {location.allowSameDayBooking ? 'Allowed' : 'Not allowed'}</p>
                             </div>
                           </div>
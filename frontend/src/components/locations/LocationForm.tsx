@@ -14,6 +14,7 @@ import {
   AlertCircle,
   CheckCircle,
   ArrowRight,
+  Receipt,
 } from "lucide-react";
 import { AxiosError } from "axios";
 import {
@@ -22,6 +23,7 @@ import {
   AmenityType,
   DayOfWeek,
   LocationContact,
+  LocationTaxRate,
 } from "@shared/types";
 import {
   useCreateLocation,
@@ -134,6 +136,7 @@ export function LocationForm({
   const [contacts, setContacts] = useState<LocationContact[]>([
     { type: "phone", value: "", isPrimary: true },
   ]);
+  const [taxRates, setTaxRates] = useState<LocationTaxRate[]>([]);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState<boolean>(false);
   const [isSubmittingForm, setIsSubmittingForm] = useState<boolean>(false);
@@ -167,6 +170,7 @@ export function LocationForm({
         minimumBookingDuration: 60,
         maximumBookingDuration: 480,
         advanceBookingLimit: 30,
+        pendingHoldMinutes: 30,
       },
     },
   });
@@ -185,11 +189,13 @@ export function LocationForm({
         totalCapacity: location.totalCapacity,
         isActive: location.isActive,
         allowSameDayBooking: location.allowSameDayBooking,
+        taxId: location.taxId || "",
         defaultBookingRules: location.defaultBookingRules,
         images: location.images,
         virtualTourUrl: location.virtualTourUrl,
       });
       setSelectedAmenities(location.amenities || []);
+      setTaxRates(location.taxRates || []);
       setContacts(
         location.contacts.length > 0
           ? location.contacts
@@ -244,6 +250,26 @@ export function LocationForm({
     );
   };
 
+  const addTaxRate = () => {
+    setTaxRates((prev) => [...prev, { name: "", rate: 0 }]);
+  };
+
+  const removeTaxRate = (index: number) => {
+    setTaxRates((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const updateTaxRate = (
+    index: number,
+    field: keyof LocationTaxRate,
+    value: string | number
+  ) => {
+    setTaxRates((prev) =>
+      prev.map((taxRate, i) =>
+        i === index ? { ...taxRate, [field]: value } : taxRate
+      )
+    );
+  };
+
   const onSubmit = async (data: CreateLocationData) => {
     // Clear any previous error and start submission
     setSubmitError(null);
@@ -300,6 +326,11 @@ export function LocationForm({
         return;
       }
 
+      // Drop tax rows left without a name
+      const validTaxRates = taxRates
+        .filter((t) => t.name.trim() !== "")
+        .map((t) => ({ name: t.name.trim(), rate: Number(t.rate) || 0 }));
+
       // Prepare form data with valid contacts and selected amenities
       const formDataWithContacts: CreateLocationData = {
         ...data,
@@ -314,6 +345,8 @@ export function LocationForm({
             : undefined,
         contacts: validContacts,
         amenities: selectedAmenities,
+        taxId: data.taxId?.trim() || "",
+        taxRates: validTaxRates,
       };
 
       // *** COMPREHENSIVE _ID REMOVAL: Remove ALL MongoDB _id fields recursively ***
@@ -421,9 +454,11 @@ export function LocationForm({
         minimumBookingDuration: 60,
         maximumBookingDuration: 480,
         advanceBookingLimit: 30,
+        pendingHoldMinutes: 30,
       },
     });
     setSelectedAmenities([]);
+    setTaxRates([]);
     setContacts([{ type: "phone", value: "", isPrimary: true }]);
   };
 
@@ -962,6 +997,86 @@ export function LocationForm({
                           </div>
                         </div>
 
+                        {/* Billing & Taxes */}
+                        <div>
+                          <h4 className="text-md font-medium text-gray-900 mb-2 flex items-center">
+                            <Receipt className="h-5 w-5 mr-2 text-gray-400" />
+                            Billing & Taxes
+                          </h4>
+                          <p className="text-sm text-gray-600 mb-4">
+                            Taxes are added on top of the booking price on
+                            invoices issued for this location.
+                          </p>
+                          <div className="space-y-3">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Tax ID
+                              </label>
+                              <input
+                                {...register("taxId")}
+                                type="text"
+                                className="block w-full border border-gray-300 rounded-md px-3 py-2 placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 uppercase"
+                                placeholder="e.g., 29ABCDE1234F1Z5"
+                              />
+                            </div>
+                            {taxRates.map((taxRate, index) => (
+                              <div
+                                key={index}
+                                className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end"
+                              >
+                                <div className="md:col-span-7">
+                                  <input
+                                    type="text"
+                                    value={taxRate.name}
+                                    onChange={(e) =>
+                                      updateTaxRate(index, "name", e.target.value)
+                                    }
+                                    className="block w-full border border-gray-300 rounded-md px-3 py-2 placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    placeholder="Tax name, e.g. CGST"
+                                  />
+                                </div>
+                                <div className="md:col-span-4">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.01"
+                                    value={taxRate.rate}
+                                    onChange={(e) =>
+                                      updateTaxRate(
+                                        index,
+                                        "rate",
+                                        Number(e.target.value)
+                                      )
+                                    }
+                                    className="block w-full border border-gray-300 rounded-md px-3 py-2 placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    placeholder="Rate %"
+                                  />
+                                </div>
+                                <div className="md:col-span-1 flex items-center">
+                                  <button
+                                    type="button"
+                                    onClick={() => removeTaxRate(index)}
+                                    className="text-red-600 hover:text-red-800"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                            {taxRates.length < 5 && (
+                              <button
+                                type="button"
+                                onClick={addTaxRate}
+                                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                              >
+                                <Plus className="h-4 w-4 mr-1" />
+                                Add Tax Rate
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
                         {/* Additional Settings */}
                         <div>
                           <h4 className="text-md font-medium text-gray-900 mb-4">
@@ -1059,6 +1174,33 @@ export function LocationForm({
                               />
                             </div>
 
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Pending Booking Hold (minutes)
+                              </label>
+                              <input
+                                {...register("defaultBookingRules.pendingHoldMinutes", {
+                                  setValueAs: (value) => {
+                                    // Empty falls back to the server default
+                                    if (value === "" || value === null || value === undefined)
+                                      return undefined;
+                                    const num = Number(value);
+                                    return isNaN(num) ? undefined : Math.max(0, Math.round(num));
+                                  },
+                                })}
+                                type="number"
+                                min="0"
+                                max="10080"
+                                className="block w-full border border-gray-300 rounded-md px-3 py-2 placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="e.g., 30"
+                              />
+                              <p className="mt-1 text-xs text-gray-500">
+                                Pending bookings not confirmed or paid within this
+                                time are cancelled. Use 0 to hold them until staff
+                                act.
+                              </p>
+                            </div>
+
                             <div className="flex items-center space-x-6">
                               <label className="flex items-center">
                                 <input
@@ -13,6 +13,7 @@ import {
 import { Location } from '@shared/types';
 import { useLocations, useDeleteLocation } from '../../hooks/useLocations';
 import { LocationForm } from './LocationForm';
+import { usePermissions } from '../../hooks/usePermissions';
 import { Menu, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 
@@ -32,6 +33,7 @@ interface LocationCardProps {
 function LocationCard({ location, onEdit, onDelete, onView }: LocationCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const deleteLocation = useDeleteLocation();
+  const { can } = usePermissions();
 
   const handleDelete = async () => {
     if (!confirm(`Are you sure you want to delete "${location.name}"? This action cannot be undone.`)) {
@@ -105,33 +107,37 @@ function LocationCard({ location, onEdit, onDelete, onView }: LocationCardProps)
                       )}
                     </Menu.Item>
                   )}
-                  <Menu.Item>
-                    {({ active }) => (
-                      <button
-                        onClick={() => onEdit(location)}
-                        className={`${
-                          active ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
-                        } flex items-center px-4 py-2 text-sm w-full text-left`}
-                      >
-                        <Edit className="h-4 w-4 mr-2" />
-                        Edit Location
-                      </button>
-                    )}
-                  </Menu.Item>
-                  <Menu.Item>
-                    {({ active }) => (
-                      <button
-                        onClick={handleDelete}
-                        disabled={isDeleting}
-                        className={`${
-                          active ? 'bg-red-50 text-red-900' : 'text-red-700'
-                        } flex items-center px-4 py-2 text-sm w-full text-left disabled:opacity-50`}
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        {isDeleting ? 'Deleting...' : 'Delete Location'}
-                      </button>
-                    )}
-                  </Menu.Item>
+                  {can('locations:update') && (
+                    <Menu.Item>
+                      {({ active }) => (
+                        <button
+                          onClick={() => onEdit(location)}
+                          className={`${
+                            active ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+                          } flex items-center px-4 py-2 text-sm w-full text-left`}
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit Location
+                        </button>
+                      )}
+                    </Menu.Item>
+                  )}
+                  {can('locations:delete') && (
+                    <Menu.Item>
+                      {({ active }) => (
+                        <button
+                          onClick={handleDelete}
+                          disabled={isDeleting}
+                          className={`${
+                            active ? 'bg-red-50 text-red-900' : 'text-red-700'
+                          } flex items-center px-4 py-2 text-sm w-full text-left disabled:opacity-50`}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          {isDeleting ? 'Deleting...' : 'Delete Location'}
+                        </button>
+                      )}
+                    </Menu.Item>
+                  )}
                 </div>
               </Menu.Items>
             </Transition>
@@ -210,6 +216,7 @@ export function LocationsManagement({
   maxDisplayed 
 }: LocationsManagementProps) {
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
+  const { can } = usePermissions();
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
   
   const { data: locationsData, isLoading, error } = useLocations({
@@ -253,13 +260,15 @@ export function LocationsManagement({
               Manage your workspace locations and settings
             </p>
           </div>
-          <button
-            onClick={() => setIsCreateFormOpen(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Location
-          </button>
+          {can('locations:create') && (
+            <button
+              onClick={() => setIsCreateFormOpen(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Location
+            </button>
+          )}
         </div>
       )}
 
@@ -291,13 +300,15 @@ export function LocationsManagement({
               <p className="text-gray-500 mb-6">
                 Get started by adding your first workspace location.
               </p>
-              <button
-                onClick={() => setIsCreateFormOpen(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Your First Location
-              </button>
+              {can('locations:create') && (
+                <button
+                  onClick={() => setIsCreateFormOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Your First Location
+                </button>
+              )}
             </div>
           ) : (
             <>
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { CreditUnit, SpaceType } from '@shared/types';
+import { CreateMembershipPlanData, MembershipPlanData } from '../../services/membershipApi';
+import { useCreateMembershipPlan, useUpdateMembershipPlan } from '../../hooks/useMemberships';
+import { useLocations } from '../../hooks/useLocations';
+
+interface MembershipPlanFormProps {
+  plan?: MembershipPlanData;
+  onClose: () => void;
+}
+
+const SPACE_TYPES: SpaceType[] = ['Hot Desk', 'Meeting Room', 'Private Office'];
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+export function MembershipPlanForm({ plan, onClose }: MembershipPlanFormProps) {
+  const isEditing = !!plan;
+  const createMutation = useCreateMembershipPlan();
+  const updateMutation = useUpdateMembershipPlan();
+  const { data: locationsData } = useLocations({ limit: 100 });
+  const locations = locationsData?.locations || [];
+
+  const [name, setName] = useState(plan?.name || '');
+  const [description, setDescription] = useState(plan?.description || '');
+  const [monthlyPrice, setMonthlyPrice] = useState(plan?.monthlyPrice.toString() || '');
+  const [currency, setCurrency] = useState(plan?.currency || 'INR');
+  const [unit, setUnit] = useState<CreditUnit>(plan?.allowance.unit || 'hours');
+  const [amount, setAmount] = useState(plan?.allowance.amount.toString() || '0');
+  const [creditValue, setCreditValue] = useState(plan?.allowance.creditValue?.toString() || '');
+  const [spaceTypes, setSpaceTypes] = useState<SpaceType[]>(plan?.allowance.spaceTypes || ['Meeting Room']);
+  const [hotDeskAccess, setHotDeskAccess] = useState(plan?.hotDeskAccess || false);
+  const [allowedLocationIds, setAllowedLocationIds] = useState<string[]>(plan?.allowedLocationIds || []);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (spaceTypes.length === 0) {
+      setFormError('Select at least one space type the allowance can be used for');
+      return;
+    }
+
+    const planData: CreateMembershipPlanData = {
+      name: name.trim(),
+      description: description.trim(),
+      monthlyPrice: Number(monthlyPrice),
+      currency: currency.trim().toUpperCase(),
+      allowance: {
+        unit,
+        amount: Number(amount),
+        creditValue: unit === 'credits' ? Number(creditValue) : undefined,
+        spaceTypes
+      },
+      hotDeskAccess,
+      allowedLocationIds
+    };
+
+    try {
+      if (plan) {
+        await updateMutation.mutateAsync({ id: plan._id, planData });
+      } else {
+        await createMutation.mutateAsync(planData);
+      }
+      onClose();
+    } catch (error: any) {
+      setFormError(
+        error.response?.data?.errors?.[0]?.message ||
+        error.response?.data?.message ||
+        'Failed to save membership plan'
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow border border-gray-200 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">{isEditing ? `Edit ${plan.name}` : 'New Membership Plan'}</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g. Flex 10"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Monthly price</label>
+          <input
+            type="number"
+            required
+            min="0"
+            step="0.01"
+            value={monthlyPrice}
+            onChange={(e) => setMonthlyPrice(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+          <input
+            type="text"
+            required
+            maxLength={3}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          rows={2}
+          maxLength={500}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-1">Monthly allowance</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Granted at the start of every billing period and spent on bookings before any money is charged. Unused allowance expires at renewal.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+            <select value={unit} onChange={(e) => setUnit(e.target.value as CreditUnit)} className={inputClassName}>
+              <option value="hours">Hours of booking time</option>
+              <option value="credits">Credits</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{unit === 'hours' ? 'Hours' : 'Credits'} per month</label>
+            <input
+              type="number"
+              required
+              min="0"
+              step="0.5"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          {unit === 'credits' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Value of one credit ({currency || 'INR'})</label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={creditValue}
+                onChange={(e) => setCreditValue(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+        <div className="mt-3">
+          <p className="block text-sm font-medium text-gray-700 mb-1">Can be used for</p>
+          <div className="flex flex-wrap gap-4">
+            {SPACE_TYPES.map((spaceType) => (
+              <label key={spaceType} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={spaceTypes.includes(spaceType)}
+                  onChange={() => setSpaceTypes(toggle(spaceTypes, spaceType))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                {spaceType}
+              </label>
+            ))}
+          </div>
+        </div>
+        <label className="mt-3 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={hotDeskAccess}
+            onChange={(e) => setHotDeskAccess(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+          />
+          Hot desk bookings are included at no charge
+        </label>
+      </div>
+
+      {locations.length > 1 && (
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-1">Locations</h3>
+          <p className="text-xs text-gray-500 mb-3">Leave all unchecked to make the plan valid at every location.</p>
+          <div className="flex flex-wrap gap-4">
+            {locations.map((location) => (
+              <label key={location._id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allowedLocationIds.includes(location._id)}
+                  onChange={() => setAllowedLocationIds(toggle(allowedLocationIds, location._id))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                {location.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isEditing && (
+        <p className="text-xs text-gray-500">Price and allowance changes apply to subscribers from their next renewal.</p>
+      )}
+
+      {formError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {formError}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Plan'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default MembershipPlanForm;
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Building } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useOrganizationMemberships } from '../../hooks/useOrganizations';
+import { getErrorMessage } from '../../utils/errorHandling';
+
+// Lets users who belong to several organizations choose which one they are working in
+export function OrganizationSwitcher() {
+  const { switchOrganization } = useAuth();
+  const { data: organizations = [] } = useOrganizationMemberships();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (organizations.length < 2) {
+    return null;
+  }
+
+  const current = organizations.find(organization => organization.isCurrent);
+
+  const handleChange = async (organizationId: string) => {
+    if (organizationId === current?.organizationId) return;
+
+    setIsSwitching(true);
+    try {
+      await switchOrganization(organizationId);
+    } catch (error) {
+      console.error('Switch organization failed:', error);
+      window.alert(getErrorMessage(error));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building className="h-4 w-4 text-gray-500" />
+      <select
+        aria-label="Organization"
+        value={current?.organizationId || ''}
+        disabled={isSwitching}
+        onChange={(event) => handleChange(event.target.value)}
+        className="text-sm border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+      >
+        {organizations.map(organization => (
+          <option key={organization.organizationId} value={organization.organizationId}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
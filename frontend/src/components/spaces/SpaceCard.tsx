@@ -1,5 +1,6 @@
 import { Space } from '@shared/types';
 import { MapPin, Users, Clock, DollarSign, Settings, Eye, Edit, Trash2 } from 'lucide-react';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface SpaceCardProps {
   space: Space;
@@ -9,6 +10,8 @@ interface SpaceCardProps {
 }
 
 export function SpaceCard({ space, onView, onEdit, onDelete }: SpaceCardProps) {
+  const { can } = usePermissions();
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Available':
@@ -17,6 +20,8 @@ export function SpaceCard({ space, onView, onEdit, onDelete }: SpaceCardProps) {
         return 'bg-red-100 text-red-800';
       case 'Maintenance':
         return 'bg-yellow-100 text-yellow-800';
+      case 'Cleaning':
+        return 'bg-cyan-100 text-cyan-800';
       case 'Out of Service':
         return 'bg-gray-100 text-gray-800';
       default:
@@ -72,20 +77,24 @@ export function SpaceCard({ space, onView, onEdit, onDelete }: SpaceCardProps) {
             >
               <Eye className="h-4 w-4" />
             </button>
-            <button
-              onClick={() => onEdit(space)}
-              className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md"
-              title="Edit Space"
-            >
-              <Edit className="h-4 w-4" />
-            </button>
-            <button
-              onClick={() => onDelete(space)}
-              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md"
-              title="Delete Space"
-            >
-              <Trash2 className="h-4 w-4" />
-            </button>
+            {can('spaces:update') && (
+              <button
+                onClick={() => onEdit(space)}
+                className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md"
+                title="Edit Space"
+              >
+                <Edit className="h-4 w-4" />
+              </button>
+            )}
+            {can('spaces:delete') && (
+              <button
+                onClick={() => onDelete(space)}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md"
+                title="Delete Space"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </div>
 
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { Space, CreateSpaceData, SpaceType, SpaceStatus, WorkingHours } from '@shared/types';
-import { useCreateSpace, useUpdateSpace } from '../../hooks/useSpaces';
+import { Space, CreateSpaceData, SpaceType, SpaceStatus, WorkingHours, ScheduleSource, BookingBuffers } from '@shared/types';
+import { useCreateSpace, useUpdateSpace, useEffectiveSchedulePreview } from '../../hooks/useSpaces';
 import { X, Plus, Trash2 } from 'lucide-react';
 
 interface SpaceFormProps {
@@ -10,6 +10,12 @@ interface SpaceFormProps {
   onSuccess: () => void;
 }
 
+const SCHEDULE_SOURCE_LABELS: Record<ScheduleSource, string> = {
+  space: "This space's working hours",
+  product_type: 'Product type hours',
+  location: 'Location hours'
+};
+
 const defaultWorkingHours: WorkingHours[] = [
   { day: 'monday', isOpen: true, openTime: '09:00', closeTime: '17:00' },
   { day: 'tuesday', isOpen: true, openTime: '09:00', closeTime: '17:00' },
@@ -55,6 +61,14 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
   const createSpaceMutation = useCreateSpace();
   const updateSpaceMutation = useUpdateSpace();
 
+  // New spaces have no product type or location to inherit from, so only edits are previewed
+  const { data: effectiveSchedule } = useEffectiveSchedulePreview({
+    spaceId: space?._id,
+    workingHours: formData.workingHours,
+    useProductTypeHours: formData.useProductTypeHours
+  }, isOpen && !!space);
+  const inheritsHours = !!effectiveSchedule && effectiveSchedule.source !== 'space';
+
   useEffect(() => {
     if (space) {
       setFormData({
@@ -70,6 +84,8 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
         amenities: space.amenities,
         equipment: space.equipment,
         workingHours: space.workingHours,
+        ...(space.productTypeId && { useProductTypeHours: space.useProductTypeHours !== false }),
+        ...(space.bookingBuffers && { bookingBuffers: space.bookingBuffers }),
         isActive: space.isActive,
         minimumBookingDuration: space.minimumBookingDuration,
         maximumBookingDuration: space.maximumBookingDuration,
@@ -142,6 +158,11 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
     return Object.keys(newErrors).length === 0;
   };
 
+  // Blank buffer fields inherit the product type's
+  const bufferPlaceholder = space?.productTypeId ? 'Product type default' : '0';
+  const setBuffer = <K extends keyof BookingBuffers>(key: K, value: BookingBuffers[K] | null) =>
+    setFormData({ ...formData, bookingBuffers: { ...formData.bookingBuffers, [key]: value } });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -295,6 +316,7 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
                           <option value="Occupied">Occupied</option>
                           <option value="Maintenance">Maintenance</option>
                           <option value="Out of Service">Out of Service</option>
+                          <option value="Cleaning">Cleaning</option>
                         </select>
                       </div>
                     </div>
@@ -491,13 +513,81 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
                         </label>
                       </div>
                     </div>
+
+                    <div>
+                      <div className="grid grid-cols-3 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Setup (minutes)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="240"
+                            value={formData.bookingBuffers?.setupMinutes ?? ''}
+                            onChange={(e) => setBuffer('setupMinutes', e.target.value ? parseInt(e.target.value) : null)}
+                            className="block w-full rounded-md border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+                            placeholder={bufferPlaceholder}
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Teardown (minutes)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="240"
+                            value={formData.bookingBuffers?.teardownMinutes ?? ''}
+                            onChange={(e) => setBuffer('teardownMinutes', e.target.value ? parseInt(e.target.value) : null)}
+                            className="block w-full rounded-md border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+                            placeholder={bufferPlaceholder}
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            After check-out
+                          </label>
+                          <select
+                            value={formData.bookingBuffers?.cleanAfterCheckout == null ? '' : String(formData.bookingBuffers.cleanAfterCheckout)}
+                            onChange={(e) => setBuffer('cleanAfterCheckout', e.target.value === '' ? null : e.target.value === 'true')}
+                            className="block w-full rounded-md border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+                          >
+                            <option value="">{space?.productTypeId ? 'Product type default' : 'Stay available'}</option>
+                            <option value="true">Mark as Cleaning</option>
+                            {space?.productTypeId && <option value="false">Stay available</option>}
+                          </select>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Kept free before and after each booking; a cleaning lasts the teardown time.
+                      </p>
+                    </div>
                   </div>
                 </div>
 
                 {/* Working Hours */}
                 <div className="mt-6">
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Working Hours</h3>
-                  <div className="space-y-3">
+                  {space?.productTypeId && (
+                    <label className="flex items-center mb-3">
+                      <input
+                        type="checkbox"
+                        checked={formData.useProductTypeHours !== false}
+                        onChange={(e) => setFormData({ ...formData, useProductTypeHours: e.target.checked })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Use the product type's hours</span>
+                    </label>
+                  )}
+                  {inheritsHours && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      These hours are kept for when the space stops using the product type's hours.
+                    </p>
+                  )}
+                  <div className={`space-y-3 ${inheritsHours ? 'opacity-60' : ''}`}>
                     {formData.workingHours.map((wh, index) => (
                       <div key={wh.day} className="flex items-center space-x-4">
                         <div className="w-20">
@@ -533,6 +623,29 @@ export function SpaceForm({ space, isOpen, onClose, onSuccess }: SpaceFormProps)
                     ))}
                     {errors.workingHours && <p className="text-red-600 text-xs mt-1">{errors.workingHours}</p>}
                   </div>
+
+                  {/* Effective hours preview */}
+                  {effectiveSchedule && (
+                    <div className="mt-4 p-3 bg-blue-50 rounded-md">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-gray-900">Bookable hours</span>
+                        <span className="text-xs text-gray-600">
+                          {SCHEDULE_SOURCE_LABELS[effectiveSchedule.source]} ({effectiveSchedule.timezone})
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+                        {effectiveSchedule.weeklyHours.map((wh) => (
+                          <div key={wh.day} className="flex justify-between text-sm">
+                            <span className="capitalize text-gray-700">{wh.day}</span>
+                            <span className={wh.isOpen ? 'text-gray-900' : 'text-red-600'}>
+                              {wh.isOpen ? `${wh.openTime} - ${wh.closeTime}` : 'Closed'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">Location holidays and special dates also apply.</p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Amenities and Equipment */}
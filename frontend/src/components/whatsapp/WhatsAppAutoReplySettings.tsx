@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { MessageCircle, RotateCcw } from "lucide-react";
+import { WhatsAppAutoReplyIntent, WhatsAppAutoReplyTemplate } from "@shared/types";
+import {
+  useWhatsAppAutoReplies,
+  useSaveWhatsAppAutoReply,
+  useResetWhatsAppAutoReply,
+} from "../../hooks/useWhatsApp";
+
+interface WhatsAppAutoReplySettingsProps {
+  onClose: () => void;
+}
+
+const INTENT_LABELS: Record<WhatsAppAutoReplyIntent, { label: string; description: string }> = {
+  greeting: { label: "Greeting", description: "\"Hi\", \"Hello\"" },
+  availability: { label: "Availability", description: "\"Is anything available?\"" },
+  pricing: { label: "Pricing", description: "\"What are your prices?\"" },
+  tour: { label: "Tours", description: "\"Can I visit?\"" },
+  amenities: { label: "Amenities", description: "\"What facilities do you have?\"" },
+  hours: { label: "Opening hours", description: "\"When are you open?\"" },
+  help: { label: "Help", description: "\"Help\", \"Support\"" },
+  fallback: { label: "Everything else", description: "Messages that match nothing above" },
+};
+
+export function WhatsAppAutoReplySettings({ onClose }: WhatsAppAutoReplySettingsProps) {
+  const { data, isLoading } = useWhatsAppAutoReplies();
+  const saveAutoReply = useSaveWhatsAppAutoReply();
+  const resetAutoReply = useResetWhatsAppAutoReply();
+
+  const [selectedIntent, setSelectedIntent] = useState<WhatsAppAutoReplyIntent>("greeting");
+  const [body, setBody] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected: WhatsAppAutoReplyTemplate | undefined = data?.templates.find(
+    (template) => template.intent === selectedIntent
+  );
+
+  // Load the selected template into the editor whenever it changes on the server
+  useEffect(() => {
+    if (selected) {
+      setBody(selected.body);
+      setIsActive(selected.isActive);
+      setError(null);
+    }
+  }, [selected?.intent, selected?.body, selected?.isActive]);
+
+  const isDirty = !!selected && (body !== selected.body || isActive !== selected.isActive);
+
+  const insertPlaceholder = (key: string) => {
+    setBody(`${body}{{${key}}}`);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await saveAutoReply.mutateAsync({ intent: selectedIntent, data: { body, isActive } });
+    } catch (err: any) {
+      const details = err.response?.data?.errors;
+      const message = Array.isArray(details) && details.length > 0
+        ? details.map((detail: any) => detail.message || detail).join(", ")
+        : err.response?.data?.message || "Failed to save auto-reply";
+      setError(message);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Restore the default reply for this message type?")) return;
+
+    setError(null);
+    try {
+      await resetAutoReply.mutateAsync(selectedIntent);
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to reset auto-reply");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="flex items-center text-lg leading-6 font-medium text-gray-900 mb-1">
+              <MessageCircle className="h-5 w-5 mr-2 text-green-600" />
+              Auto-Replies
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Replies are filled in from your locations and product types, so prices, amenities and
+              hours stay up to date.
+            </p>
+
+            {isLoading || !data ? (
+              <div className="py-12 text-center text-sm text-gray-500">Loading auto-replies...</div>
+            ) : (
+              <div className="flex flex-col md:flex-row gap-6">
+                <nav className="md:w-56 flex-shrink-0 space-y-1">
+                  {data.templates.map((template) => (
+                    <button
+                      key={template.intent}
+                      type="button"
+                      onClick={() => setSelectedIntent(template.intent)}
+                      className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                        template.intent === selectedIntent
+                          ? "bg-green-50 text-green-800 font-medium"
+                          : "text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span>{INTENT_LABELS[template.intent].label}</span>
+                        {!template.isActive ? (
+                          <span className="text-xs text-gray-400">Off</span>
+                        ) : template.isCustomized ? (
+                          <span className="text-xs text-green-600">Custom</span>
+                        ) : null}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {INTENT_LABELS[template.intent].description}
+                      </div>
+                    </button>
+                  ))}
+                </nav>
+
+                <div className="flex-1 space-y-4">
+                  {error && (
+                    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Reply template</label>
+                    <textarea
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      rows={8}
+                      maxLength={1600}
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                    />
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {data.placeholders.map((placeholder) => (
+                        <button
+                          key={placeholder.key}
+                          type="button"
+                          onClick={() => insertPlaceholder(placeholder.key)}
+                          title={placeholder.description}
+                          className="inline-flex items-center px-2 py-1 rounded bg-gray-100 text-xs font-mono text-gray-700 hover:bg-gray-200"
+                        >
+                          {`{{${placeholder.key}}}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={isActive}
+                      onChange={(e) => setIsActive(e.target.checked)}
+                      className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    <span>Send this reply automatically</span>
+                  </label>
+
+                  {selected && (
+                    <div>
+                      <div className="text-sm font-medium text-gray-700 mb-1">
+                        Preview {isDirty && <span className="text-gray-400 font-normal">(save to update)</span>}
+                      </div>
+                      <div className="rounded-lg bg-green-50 border border-green-100 p-3 text-sm text-gray-800 whitespace-pre-wrap">
+                        {selected.preview}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!isDirty || saveAutoReply.isPending}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {saveAutoReply.isPending ? "Saving..." : "Save Reply"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Close
+            </button>
+            {selected?.isCustomized && (
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={resetAutoReply.isPending}
+                className="mt-3 w-full inline-flex items-center justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:mr-auto sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore Default
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState } from "react";
+import { Settings } from "lucide-react";
+import { WhatsAppChannel, SaveWhatsAppChannelData } from "@shared/types";
+import { useSaveWhatsAppChannel, useDeleteWhatsAppChannel } from "../../hooks/useWhatsApp";
+
+interface WhatsAppChannelSettingsProps {
+  channel?: WhatsAppChannel | null;
+  onClose: () => void;
+}
+
+export function WhatsAppChannelSettings({ channel, onClose }: WhatsAppChannelSettingsProps) {
+  const [formData, setFormData] = useState<SaveWhatsAppChannelData>({
+    phoneNumber: channel?.phoneNumber || "",
+    accountSid: channel?.accountSid || "",
+    authToken: "",
+    messagingServiceSid: channel?.messagingServiceSid || "",
+    displayName: channel?.displayName || "",
+    isActive: channel?.isActive ?? true,
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const saveChannel = useSaveWhatsAppChannel();
+  const deleteChannel = useDeleteWhatsAppChannel();
+
+  const handleChange = (field: keyof SaveWhatsAppChannelData, value: string | boolean) => {
+    setFormData({ ...formData, [field]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      // An empty auth token keeps the one already stored on the server
+      const { authToken, ...rest } = formData;
+      await saveChannel.mutateAsync(authToken ? formData : rest);
+      onClose();
+    } catch (err: any) {
+      const details = err.response?.data?.errors;
+      const message = Array.isArray(details) && details.length > 0
+        ? details.map((detail: any) => detail.message || detail).join(", ")
+        : err.response?.data?.message || "Failed to save WhatsApp channel";
+      setError(message);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!window.confirm("Disconnect this WhatsApp number? Incoming messages to it will be rejected.")) return;
+
+    try {
+      await deleteChannel.mutateAsync();
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to disconnect WhatsApp channel");
+    }
+  };
+
+  const inputClassName =
+    "mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-green-500 focus:border-green-500";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <form onSubmit={handleSubmit}>
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+              <h3 className="flex items-center text-lg leading-6 font-medium text-gray-900 mb-1">
+                <Settings className="h-5 w-5 mr-2 text-green-600" />
+                WhatsApp Channel
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Incoming messages are routed to your organization by this number.
+              </p>
+
+              {error && (
+                <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">WhatsApp Number</label>
+                  <input
+                    type="tel"
+                    value={formData.phoneNumber}
+                    onChange={(e) => handleChange("phoneNumber", e.target.value)}
+                    placeholder="+14155238886"
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Display Name</label>
+                  <input
+                    type="text"
+                    value={formData.displayName}
+                    onChange={(e) => handleChange("displayName", e.target.value)}
+                    placeholder="Front desk"
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Twilio Account SID</label>
+                  <input
+                    type="text"
+                    value={formData.accountSid}
+                    onChange={(e) => handleChange("accountSid", e.target.value.trim())}
+                    placeholder="ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Twilio Auth Token</label>
+                  <input
+                    type="password"
+                    value={formData.authToken}
+                    onChange={(e) => handleChange("authToken", e.target.value.trim())}
+                    placeholder={channel ? "Leave blank to keep the current token" : ""}
+                    className={inputClassName}
+                    required={!channel}
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Messaging Service SID <span className="text-gray-400">(optional)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.messagingServiceSid}
+                    onChange={(e) => handleChange("messagingServiceSid", e.target.value.trim())}
+                    placeholder="MGxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+                    className={inputClassName}
+                  />
+                </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => handleChange("isActive", e.target.checked)}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  <span>Channel active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="submit"
+                disabled={saveChannel.isPending}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {saveChannel.isPending ? "Saving..." : "Save Channel"}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+              >
+                Cancel
+              </button>
+              {channel && (
+                <button
+                  type="button"
+                  onClick={handleDisconnect}
+                  disabled={deleteChannel.isPending}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-red-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-red-700 hover:bg-red-50 sm:mt-0 sm:mr-auto sm:w-auto sm:text-sm disabled:opacity-50"
+                >
+                  Disconnect
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { X, Check, CheckCheck, AlertCircle, Bot } from "lucide-react";
+import { WhatsAppMessage } from "@shared/types";
+import { useWhatsAppConversation } from "../../hooks/useWhatsApp";
+
+interface WhatsAppConversationViewProps {
+  phoneNumber: string;
+  onClose: () => void;
+}
+
+function MessageStatusIndicator({ message }: { message: WhatsAppMessage }) {
+  switch (message.status) {
+    case "read":
+      return (
+        <span title={message.readAt ? `Read ${new Date(message.readAt).toLocaleString()}` : "Read"}>
+          <CheckCheck className="h-4 w-4 text-blue-500" />
+        </span>
+      );
+    case "delivered":
+      return (
+        <span title={message.deliveredAt ? `Delivered ${new Date(message.deliveredAt).toLocaleString()}` : "Delivered"}>
+          <CheckCheck className="h-4 w-4 text-gray-400" />
+        </span>
+      );
+    case "failed":
+      return (
+        <span title="Not delivered">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+        </span>
+      );
+    default:
+      return (
+        <span title="Sent">
+          <Check className="h-4 w-4 text-gray-400" />
+        </span>
+      );
+  }
+}
+
+export function WhatsAppConversationView({ phoneNumber, onClose }: WhatsAppConversationViewProps) {
+  const { data, isLoading, error } = useWhatsAppConversation(phoneNumber);
+  const messages = data?.data?.messages || [];
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="flex items-center justify-between px-4 py-4 sm:px-6 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">{phoneNumber}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="px-4 py-4 sm:px-6 bg-gray-50 max-h-[60vh] overflow-y-auto space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-600 text-center py-8">Failed to load conversation</p>
+            ) : messages.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No messages yet</p>
+            ) : (
+              messages.map((message) => {
+                const isOutbound = message.direction === "outbound";
+
+                return (
+                  <div key={message._id} className={`flex ${isOutbound ? "justify-end" : "justify-start"}`}>
+                    <div
+                      className={`max-w-md rounded-lg px-3 py-2 shadow-sm ${
+                        message.status === "failed"
+                          ? "bg-red-50 border border-red-200"
+                          : isOutbound
+                            ? "bg-green-100"
+                            : "bg-white"
+                      }`}
+                    >
+                      <p className="text-sm text-gray-900 whitespace-pre-wrap">{message.messageBody}</p>
+                      <div className="mt-1 flex items-center justify-end space-x-1 text-xs text-gray-500">
+                        {message.isAutoReply && (
+                          <span title="Automatic reply">
+                            <Bot className="h-3 w-3" />
+                          </span>
+                        )}
+                        <span>{new Date(message.sentAt).toLocaleString()}</span>
+                        {isOutbound && <MessageStatusIndicator message={message} />}
+                      </div>
+                      {message.status === "failed" && (
+                        <p className="mt-1 text-xs text-red-700">
+                          Not delivered{message.errorCode ? ` (error ${message.errorCode})` : ""}
+                          {message.errorMessage ? `: ${message.errorMessage}` : ""}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
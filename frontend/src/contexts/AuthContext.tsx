@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { User, LoginCredentials, RegisterCredentials } from '@shared/types';
 import { apiService } from '../services/api';
+import { onSessionExpired } from '../services/tokenRefresh';
 import { getErrorMessage } from '../utils/errorHandling';
 
 interface AuthState {
@@ -23,6 +25,8 @@ interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
   register: (credentials: RegisterCredentials) => Promise<void>;
   logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<void>;
+  switchOrganization: (organizationId: string) => Promise<void>;
   clearError: () => void;
   updateOnboardingStatus: (requiresOnboarding: boolean) => void;
 }
@@ -92,11 +96,19 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // The API clients refresh expired access tokens on their own; only sign out once the refresh token is rejected
+  useEffect(() => {
+    return onSessionExpired(() => {
+      dispatch({ type: 'AUTH_LOGOUT' });
+    });
+  }, []);
+
   const checkAuthStatus = async () => {
     const token = localStorage.getItem('cosynq_token');
     
@@ -185,6 +197,42 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const logoutAllDevices = async () => {
+    try {
+      await apiService.logoutAll();
+    } catch (error) {
+      console.error('Logout all devices error:', error);
+    } finally {
+      localStorage.removeItem('cosynq_token');
+      localStorage.removeItem('cosynq_refresh_token');
+      dispatch({ type: 'AUTH_LOGOUT' });
+    }
+  };
+
+  // The server replaces the session on a switch, so store the new tokens before reloading anything
+  const switchOrganization = async (organizationId: string) => {
+    const response = await apiService.switchOrganization(organizationId);
+    const tokens = response.data.data;
+    if (!tokens) {
+      throw new Error(response.data.message || 'Failed to switch organization');
+    }
+
+    localStorage.setItem('cosynq_token', tokens.token);
+    localStorage.setItem('cosynq_refresh_token', tokens.refreshToken);
+
+    const profile = await apiService.getProfile();
+    dispatch({
+      type: 'AUTH_SUCCESS',
+      payload: {
+        user: profile.data.data.user,
+        requiresOnboarding: profile.data.data.requiresOnboarding
+      }
+    });
+
+    // Everything cached so far belongs to the previous organization
+    await queryClient.resetQueries();
+  };
+
   const clearError = () => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
@@ -198,6 +246,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
+    logoutAllDevices,
+    switchOrganization,
     clearError,
     updateOnboardingStatus,
   };
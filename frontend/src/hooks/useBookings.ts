@@ -1,19 +1,25 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { bookingApiService } from '../services/bookingApi';
 import {
   BookingData,
   CreateBookingData,
+  QuoteBookingData,
   UpdateBookingData,
   BookingStatus,
-  PaymentStatus
+  PaymentStatus,
+  BookingSeriesScope,
+  BookingSeriesSummary,
+  RecurrenceWeekday
 } from '../services/bookingApi';
 import { format } from 'date-fns';
+import { WAITLIST_QUERY_KEY } from './useWaitlist';
 
 // Query Keys
 export const BOOKINGS_QUERY_KEY = 'bookings';
 export const BOOKING_STATS_QUERY_KEY = 'booking-stats';
 export const SPACE_AVAILABILITY_QUERY_KEY = 'space-availability';
+export const BOOKING_QUOTE_QUERY_KEY = 'booking-quote';
 
 // Bookings List Query
 export const useBookings = (params?: {
@@ -226,6 +232,50 @@ export const useSpaceAvailability = (
   });
 };
 
+// Server price quote for a prospective booking
+export const useBookingQuote = (quoteData: QuoteBookingData | undefined) => {
+  return useQuery({
+    queryKey: [BOOKING_QUOTE_QUERY_KEY, quoteData],
+    queryFn: async () => {
+      if (!quoteData) throw new Error('Quote details are required');
+      const response = await bookingApiService.quoteBooking(quoteData);
+      return response.data.data.quote;
+    },
+    enabled: !!quoteData,
+    placeholderData: keepPreviousData, // Keep showing the last price while add-ons change
+    staleTime: 1000 * 60, // 1 minute
+    retry: false, // Invalid add-ons fail the same way every time
+  });
+};
+
+// Refund due if a booking (or several occurrences of its series) were cancelled now
+export const useCancellationQuote = (bookingId: string | undefined, scope: BookingSeriesScope = 'this') => {
+  return useQuery({
+    queryKey: [BOOKINGS_QUERY_KEY, bookingId, 'cancellation', scope],
+    queryFn: async () => {
+      if (!bookingId) throw new Error('Booking ID is required');
+      const response = await bookingApiService.getCancellationQuote(bookingId, scope);
+      return response.data.data;
+    },
+    enabled: !!bookingId,
+    staleTime: 0, // The refund depends on how close the booking is
+  });
+};
+
+// Check-in link and QR code shown with a confirmed booking
+export const useCheckInCode = (bookingId: string | undefined) => {
+  return useQuery({
+    queryKey: [BOOKINGS_QUERY_KEY, bookingId, 'check-in-code'],
+    queryFn: async () => {
+      if (!bookingId) throw new Error('Booking ID is required');
+      const response = await bookingApiService.getCheckInCode(bookingId);
+      return response.data.data.checkInCode;
+    },
+    enabled: !!bookingId,
+    staleTime: Infinity, // The code only changes if the booking moves to another space
+  });
+};
+
 // Create Booking Mutation
 export const useCreateBooking = () => {
   const queryClient = useQueryClient();
@@ -233,7 +283,7 @@ export const useCreateBooking = () => {
   return useMutation({
     mutationFn: async (bookingData: CreateBookingData) => {
       const response = await bookingApiService.createBooking(bookingData);
-      return response.data.data?.booking;
+      return response.data.data;
     },
     onMutate: async (newBooking) => {
       // Cancel any outgoing refetches for bookings
@@ -314,7 +364,7 @@ export const useCreateBooking = () => {
 
       // Dispatch custom event for direct calendar refresh
       window.dispatchEvent(new CustomEvent('bookingCreated', { 
-        detail: { booking: data, variables } 
+        detail: { booking: data?.booking, variables } 
       }));
     },
     onSettled: () => {
@@ -369,6 +419,11 @@ export const useUpdateBooking = () => {
         queryClient.invalidateQueries({ queryKey: [SPACE_AVAILABILITY_QUERY_KEY] });
       }
 
+      // A cancelled slot may have been offered to the waitlist
+      if (bookingData.status === 'Cancelled') {
+        queryClient.invalidateQueries({ queryKey: [WAITLIST_QUERY_KEY] });
+      }
+
       console.log('Booking updated successfully:', data);
     },
   });
@@ -379,16 +434,18 @@ export const useDeleteBooking = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, cancelReason }: { id: string; cancelReason?: string }) => {
-      await bookingApiService.deleteBooking(id, cancelReason);
-      return id;
+    mutationFn: async ({ id, cancelReason, scope }: { id: string; cancelReason?: string; scope?: BookingSeriesScope }) => {
+      const response = await bookingApiService.deleteBooking(id, cancelReason, scope);
+      return { id, ...response.data.data };
     },
-    onSuccess: (deletedId) => {
+    onSuccess: ({ id: deletedId }) => {
       // Remove from cache and refetch lists
       queryClient.removeQueries({ queryKey: [BOOKINGS_QUERY_KEY, deletedId] });
       queryClient.invalidateQueries({ queryKey: [BOOKINGS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [BOOKING_STATS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [SPACE_AVAILABILITY_QUERY_KEY] });
+      // The freed slot may have been offered to the waitlist
+      queryClient.invalidateQueries({ queryKey: [WAITLIST_QUERY_KEY] });
 
       console.log('Booking cancelled successfully:', deletedId);
     },
@@ -431,6 +488,7 @@ export const useCancelBooking = () => {
       queryClient.invalidateQueries({ queryKey: [BOOKINGS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [BOOKING_STATS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [SPACE_AVAILABILITY_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [WAITLIST_QUERY_KEY] });
     },
   });
 };
@@ -667,6 +725,39 @@ export const isBookingActive = (booking: BookingData): boolean => {
          end > now;
 };
 
+// Populated series of a recurring booking occurrence
+export const getBookingSeries = (booking: BookingData): BookingSeriesSummary | null => {
+  return booking.seriesId && typeof booking.seriesId === 'object' ? booking.seriesId : null;
+};
+
+const WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+// Human-readable recurrence, e.g. "Every 2 weeks on Tue, Thu, 10 times"
+export const describeRecurrence = (series: Pick<BookingSeriesSummary, 'recurrence'>): string => {
+  const { frequency, interval = 1, byWeekday, count, until } = series.recurrence;
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[frequency];
+
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (frequency === 'weekly' && byWeekday && byWeekday.length > 0) {
+    description += ` on ${byWeekday.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (count) {
+    description += `, ${count} ${count === 1 ? 'time' : 'times'}`;
+  } else if (until) {
+    description += `, until ${format(new Date(until), 'MMM d, yyyy')}`;
+  }
+
+  return description;
+};
+
 // Utility function to get next available time slots
 export const getNextAvailableSlots = (
   availability: { startTime: string; endTime: string }[],
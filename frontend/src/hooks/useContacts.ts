@@ -105,6 +105,28 @@ export function useDeleteContact() {
   });
 }
 
+export function useContactDuplicates(id: string) {
+  return useQuery({
+    queryKey: [CONTACTS_QUERY_KEY, id, 'duplicates'],
+    queryFn: () => apiService.getContactDuplicates(id),
+    select: (response) => response.data.data?.duplicates || [],
+    enabled: !!id,
+  });
+}
+
+export function useMergeContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, sourceContactId }: { id: string; sourceContactId: string }) =>
+      apiService.mergeContact(id, sourceContactId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CONTACTS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CONTACT_STATS_QUERY_KEY] });
+    },
+  });
+}
+
 export function useAddInteraction() {
   const queryClient = useQueryClient();
 
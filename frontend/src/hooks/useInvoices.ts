@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { invoiceApiService } from '../services/invoiceApi';
+import {
+  CreateInvoiceData,
+  InvoiceSourceType,
+  InvoiceStatus,
+  RecordPaymentData,
+  RefundInvoiceData
+} from '../services/invoiceApi';
+import { BOOKINGS_QUERY_KEY, BOOKING_STATS_QUERY_KEY } from './useBookings';
+
+// Query Keys
+export const INVOICES_QUERY_KEY = 'invoices';
+
+// Invoices List Query
+export const useInvoices = (params?: {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: InvoiceStatus;
+  sourceType?: InvoiceSourceType;
+  bookingId?: string;
+  contactId?: string;
+}, options?: { enabled?: boolean }) => {
+  return useQuery({
+    queryKey: [INVOICES_QUERY_KEY, params],
+    queryFn: async () => {
+      const response = await invoiceApiService.getInvoices(params);
+      return response.data.data;
+    },
+    enabled: options?.enabled ?? true,
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 60, // 1 minute
+  });
+};
+
+// Single Invoice Query with its payment ledger
+export const useInvoice = (id: string | undefined) => {
+  return useQuery({
+    queryKey: [INVOICES_QUERY_KEY, 'detail', id],
+    queryFn: async () => {
+      if (!id) throw new Error('Invoice ID is required');
+      const response = await invoiceApiService.getInvoice(id);
+      return response.data.data;
+    },
+    enabled: !!id,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+};
+
+// Invoice changes also move the linked booking's payment status
+const useInvalidateInvoices = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [INVOICES_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [BOOKINGS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [BOOKING_STATS_QUERY_KEY] });
+  };
+};
+
+// Create Invoice
+export const useCreateInvoice = () => {
+  const invalidate = useInvalidateInvoices();
+
+  return useMutation({
+    mutationFn: async (invoiceData: CreateInvoiceData) => {
+      const response = await invoiceApiService.createInvoice(invoiceData);
+      return response.data.data.invoice;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Record Payment
+export const useRecordPayment = () => {
+  const invalidate = useInvalidateInvoices();
+
+  return useMutation({
+    mutationFn: async ({ id, paymentData }: { id: string; paymentData: RecordPaymentData }) => {
+      const response = await invoiceApiService.recordPayment(id, paymentData);
+      return response.data.data;
+    },
+    // A declined payment is still recorded on the ledger
+    onSettled: invalidate,
+  });
+};
+
+// Refund Invoice
+export const useRefundInvoice = () => {
+  const invalidate = useInvalidateInvoices();
+
+  return useMutation({
+    mutationFn: async ({ id, refundData }: { id: string; refundData: RefundInvoiceData }) => {
+      const response = await invoiceApiService.refundInvoice(id, refundData);
+      return response.data.data;
+    },
+    onSettled: invalidate,
+  });
+};
+
+// Void Invoice
+export const useVoidInvoice = () => {
+  const invalidate = useInvalidateInvoices();
+
+  return useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason?: string }) => {
+      const response = await invoiceApiService.voidInvoice(id, reason);
+      return response.data.data.invoice;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Download the invoice PDF through the authenticated client
+export const downloadInvoicePdf = async (id: string, invoiceNumber: string) => {
+  const blob = await invoiceApiService.downloadInvoicePdf(id);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${invoiceNumber}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
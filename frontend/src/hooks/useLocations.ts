@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiService } from '../services/api';
-import { CreateLocationData, AmenityType } from '@shared/types';
+import { CreateLocationData, CreateLocationDateExceptionData, AmenityType } from '@shared/types';
 
 // Locations Query
 export const useLocations = (params?: {
@@ -65,6 +65,65 @@ export const useLocationHours = (id: string | undefined) => {
   });
 };
 
+// Location Holidays and Special Dates Query
+export const useLocationDateExceptions = (id: string | undefined, params?: { from?: string; to?: string }) => {
+  return useQuery({
+    queryKey: ['location-date-exceptions', id, params],
+    queryFn: async () => {
+      if (!id) throw new Error('Location ID is required');
+      const response = await apiService.getLocationDateExceptions(id, params);
+      return response.data.data;
+    },
+    enabled: !!id,
+  });
+};
+
+// Refetch everything that shows a location's hours after its date exceptions change
+const invalidateLocationHours = (queryClient: ReturnType<typeof useQueryClient>, id: string) => {
+  queryClient.invalidateQueries({ queryKey: ['location-date-exceptions', id] });
+  queryClient.invalidateQueries({ queryKey: ['location-hours', id] });
+  queryClient.invalidateQueries({ queryKey: ['location', id] });
+  queryClient.invalidateQueries({ queryKey: ['locations'] });
+};
+
+// Add Location Date Exception Mutation
+export const useAddLocationDateException = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: CreateLocationDateExceptionData }) => {
+      const response = await apiService.addLocationDateException(id, data);
+      return response.data.data?.dateException;
+    },
+    onSuccess: (_, variables) => invalidateLocationHours(queryClient, variables.id),
+  });
+};
+
+// Delete Location Date Exception Mutation
+export const useDeleteLocationDateException = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, exceptionId }: { id: string; exceptionId: string }) => {
+      await apiService.deleteLocationDateException(id, exceptionId);
+    },
+    onSuccess: (_, variables) => invalidateLocationHours(queryClient, variables.id),
+  });
+};
+
+// Import Location Calendar Mutation
+export const useImportLocationCalendar = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, calendar }: { id: string; calendar: string }) => {
+      const response = await apiService.importLocationCalendar(id, calendar);
+      return response.data.data;
+    },
+    onSuccess: (_, variables) => invalidateLocationHours(queryClient, variables.id),
+  });
+};
+
 // Create Location Mutation
 export const useCreateLocation = () => {
   const queryClient = useQueryClient();
@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { membershipApiService } from '../services/membershipApi';
+import { CreateMembershipPlanData, SubscribeContactData } from '../services/membershipApi';
+import { CONTACTS_QUERY_KEY } from './useContacts';
+import { INVOICES_QUERY_KEY } from './useInvoices';
+
+// Query Keys
+export const MEMBERSHIP_PLANS_QUERY_KEY = 'membership-plans';
+export const CONTACT_CREDITS_QUERY_KEY = 'contact-credits';
+
+// Membership Plans Query
+export const useMembershipPlans = (includeInactive = false) => {
+  return useQuery({
+    queryKey: [MEMBERSHIP_PLANS_QUERY_KEY, { includeInactive }],
+    queryFn: async () => {
+      const response = await membershipApiService.getMembershipPlans(includeInactive);
+      return response.data.data?.plans || [];
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Create Membership Plan
+export const useCreateMembershipPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (planData: CreateMembershipPlanData) => {
+      const response = await membershipApiService.createMembershipPlan(planData);
+      return response.data.data.plan;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MEMBERSHIP_PLANS_QUERY_KEY] });
+    },
+  });
+};
+
+// Update Membership Plan
+export const useUpdateMembershipPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, planData }: { id: string; planData: Partial<CreateMembershipPlanData> }) => {
+      const response = await membershipApiService.updateMembershipPlan(id, planData);
+      return response.data.data.plan;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MEMBERSHIP_PLANS_QUERY_KEY] });
+    },
+  });
+};
+
+// Delete Membership Plan
+export const useDeleteMembershipPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await membershipApiService.deleteMembershipPlan(id);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MEMBERSHIP_PLANS_QUERY_KEY] });
+    },
+  });
+};
+
+// Contact subscription, credit balance and credit history
+export const useContactCredits = (contactId: string | undefined) => {
+  return useQuery({
+    queryKey: [CONTACT_CREDITS_QUERY_KEY, contactId],
+    queryFn: async () => {
+      if (!contactId) throw new Error('Contact ID is required');
+      const response = await membershipApiService.getContactCredits(contactId);
+      return response.data.data;
+    },
+    enabled: !!contactId,
+    // No stale time: bookings anywhere in the app spend and return credits
+  });
+};
+
+// Subscription changes update the contact, its credits, plan counts and possibly its invoices
+const useInvalidateSubscription = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [CONTACT_CREDITS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [CONTACTS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [MEMBERSHIP_PLANS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [INVOICES_QUERY_KEY] });
+  };
+};
+
+// Subscribe Contact
+export const useSubscribeContact = () => {
+  const invalidate = useInvalidateSubscription();
+
+  return useMutation({
+    mutationFn: async ({ contactId, subscribeData }: { contactId: string; subscribeData: SubscribeContactData }) => {
+      const response = await membershipApiService.subscribeContact(contactId, subscribeData);
+      return response.data.data;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Cancel Subscription
+export const useCancelSubscription = () => {
+  const invalidate = useInvalidateSubscription();
+
+  return useMutation({
+    mutationFn: async ({ contactId, immediately }: { contactId: string; immediately?: boolean }) => {
+      const response = await membershipApiService.cancelSubscription(contactId, immediately);
+      return response.data.data.subscription;
+    },
+    onSuccess: invalidate,
+  });
+};
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../services/api';
+
+// Query Keys
+export const ORGANIZATION_MEMBERSHIPS_QUERY_KEY = 'organization-memberships';
+
+// Organizations the signed-in user belongs to
+export const useOrganizationMemberships = () => {
+  return useQuery({
+    queryKey: [ORGANIZATION_MEMBERSHIPS_QUERY_KEY],
+    queryFn: async () => {
+      const response = await apiService.getOrganizationMemberships();
+      return response.data.data?.organizations || [];
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
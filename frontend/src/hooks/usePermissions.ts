@@ -0,0 +1,16 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { hasPermission, Permission } from '../utils/permissions';
+
+// Check the signed-in user's organization role against the permission matrix
+export function usePermissions() {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+
+  return { role, can };
+}
@@ -1,10 +1,12 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiService } from '../services/api';
-import { CreateSpaceData } from '@shared/types';
+import { CreateSpaceData, SpaceSearchParams, WorkingHours } from '@shared/types';
 
 export const SPACES_QUERY_KEY = 'spaces';
 export const SPACE_STATS_QUERY_KEY = 'space-stats';
 export const SPACE_AVAILABILITY_QUERY_KEY = 'space-availability';
+export const SPACE_SCHEDULE_QUERY_KEY = 'space-effective-schedule';
+export const SPACE_SEARCH_QUERY_KEY = 'space-search';
 
 export function useSpaces(params?: {
   page?: number;
@@ -57,6 +59,31 @@ export function useSpaceAvailability(params: {
   });
 }
 
+// Hours a space would be bookable in with the given (unsaved) settings
+export function useEffectiveSchedulePreview(params: {
+  spaceId?: string;
+  workingHours: WorkingHours[];
+  useProductTypeHours?: boolean;
+}, enabled = true) {
+  return useQuery({
+    queryKey: [SPACE_SCHEDULE_QUERY_KEY, params],
+    queryFn: () => apiService.previewEffectiveSchedule(params),
+    select: (response) => response.data.data,
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
+
+export function useSpaceSearch(params: SpaceSearchParams | null) {
+  return useQuery({
+    queryKey: [SPACE_SEARCH_QUERY_KEY, params],
+    queryFn: () => apiService.searchSpaces(params!),
+    select: (response) => response.data.data?.results,
+    enabled: !!params,
+    staleTime: 30000, // 30 seconds
+  });
+}
+
 export function useCreateSpace() {
   const queryClient = useQueryClient();
 
@@ -7,6 +7,7 @@ export interface TimeSlot {
   endTime: string;   // ISO string
   duration: number;  // in minutes
   isAvailable: boolean;
+  seatsRemaining?: number; // Seat-booked spaces (hot desks, lounges) only
   validationErrors?: string[];
   validationWarnings?: string[];
   timeUntilBooking?: {
@@ -37,7 +38,7 @@ export interface TimeSlotAvailability {
 /**
  * Hook to fetch and manage available time slots for a specific space and date
  */
-export function useTimeSlots(spaceId: string | null, date: string | null, duration: number = 60) {
+export function useTimeSlots(spaceId: string | null, date: string | null, duration: number = 60, attendeeCount: number = 1) {
   const [localError, setLocalError] = useState<string>('');
 
   // Query for fetching available time slots
@@ -48,7 +49,7 @@ export function useTimeSlots(spaceId: string | null, date: string | null, durati
     error,
     refetch
   } = useQuery({
-    queryKey: ['timeSlots', spaceId, date, duration],
+    queryKey: ['timeSlots', spaceId, date, duration, attendeeCount],
     queryFn: async () => {
       if (!spaceId || !date) {
         throw new Error('Space ID and date are required');
@@ -56,7 +57,7 @@ export function useTimeSlots(spaceId: string | null, date: string | null, durati
 
       try {
         // Make the API call using the bulletproof API configuration
-        const fullUrl = getApiUrl(`spaces/${spaceId}/availability?date=${date}&duration=${duration}`);
+        const fullUrl = getApiUrl(`spaces/${spaceId}/availability?date=${date}&duration=${duration}&attendeeCount=${attendeeCount}`);
         const response = await fetch(fullUrl, {
           headers: {
             'Authorization': `Bearer ${localStorage.getItem('cosynq_token')}`,
@@ -117,7 +118,7 @@ export function useTimeSlots(spaceId: string | null, date: string | null, durati
     // Create dropdown options for available slots only
     const timeSlotOptions = availableSlots.map(slot => ({
       value: `${formatTimeForInput(slot.startTime)}-${formatTimeForInput(slot.endTime)}`,
-      label: `${formatTimeForDisplay(slot.startTime)} - ${formatTimeForDisplay(slot.endTime)}`,
+      label: `${formatTimeForDisplay(slot.startTime)} - ${formatTimeForDisplay(slot.endTime)}${formatSeatsRemaining(slot)}`,
       startTime: formatTimeForInput(slot.startTime),
       endTime: formatTimeForInput(slot.endTime),
       slot: slot
@@ -218,6 +219,11 @@ function formatTimeForInput(isoString: string): string {
   return date.toTimeString().slice(0, 5); // HH:MM format
 }
 
+function formatSeatsRemaining(slot: TimeSlot): string {
+  if (slot.seatsRemaining === undefined) return '';
+  return ` (${slot.seatsRemaining} ${slot.seatsRemaining === 1 ? 'seat' : 'seats'} left)`;
+}
+
 function formatTimeForDisplay(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleTimeString('en-US', { 
@@ -234,9 +240,10 @@ export function useTimeSlotSuggestions(
   spaceId: string | null, 
   date: string | null, 
   duration: number = 60,
-  preferredStartTime?: string
+  preferredStartTime?: string,
+  attendeeCount: number = 1
 ) {
-  const { availableSlots, isLoading } = useTimeSlots(spaceId, date, duration);
+  const { availableSlots, isLoading } = useTimeSlots(spaceId, date, duration, attendeeCount);
 
   const suggestions = useMemo(() => {
     if (!availableSlots || availableSlots.length === 0) {
@@ -267,7 +274,7 @@ export function useTimeSlotSuggestions(
     return slots.slice(0, 5).map(slot => ({
       startTime: formatTimeForInput(slot.startTime),
       endTime: formatTimeForInput(slot.endTime),
-      label: `${formatTimeForDisplay(slot.startTime)} - ${formatTimeForDisplay(slot.endTime)}`,
+      label: `${formatTimeForDisplay(slot.startTime)} - ${formatTimeForDisplay(slot.endTime)}${formatSeatsRemaining(slot)}`,
       slot
     }));
   }, [availableSlots, preferredStartTime]);
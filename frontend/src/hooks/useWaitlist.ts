@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { waitlistApiService } from '../services/waitlistApi';
+import { JoinWaitlistData, WaitlistQueryParams } from '../services/waitlistApi';
+import { BOOKINGS_QUERY_KEY, BOOKING_STATS_QUERY_KEY, SPACE_AVAILABILITY_QUERY_KEY } from './useBookings';
+
+// Query Keys
+export const WAITLIST_QUERY_KEY = 'waitlist';
+
+// Waitlist Query
+export const useWaitlist = (params?: WaitlistQueryParams) => {
+  return useQuery({
+    queryKey: [WAITLIST_QUERY_KEY, params],
+    queryFn: async () => {
+      const response = await waitlistApiService.getWaitlist(params);
+      return response.data.data?.entries || [];
+    },
+    // Offers are made and expire in the background
+    refetchInterval: 1000 * 60,
+  });
+};
+
+// Offers hold and release bookings, so bookings are refreshed with the waitlist
+const useInvalidateWaitlist = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [WAITLIST_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [BOOKINGS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [BOOKING_STATS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [SPACE_AVAILABILITY_QUERY_KEY] });
+  };
+};
+
+// Join Waitlist
+export const useJoinWaitlist = () => {
+  const invalidate = useInvalidateWaitlist();
+
+  return useMutation({
+    mutationFn: async (joinData: JoinWaitlistData) => {
+      const response = await waitlistApiService.joinWaitlist(joinData);
+      return response.data.data;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Accept Offer on the contact's behalf
+export const useAcceptWaitlistOffer = () => {
+  const invalidate = useInvalidateWaitlist();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await waitlistApiService.acceptOffer(id);
+      return response.data.data.entry;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Decline Offer on the contact's behalf
+export const useDeclineWaitlistOffer = () => {
+  const invalidate = useInvalidateWaitlist();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await waitlistApiService.declineOffer(id);
+      return response.data.data.entry;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Remove From Waitlist
+export const useRemoveFromWaitlist = () => {
+  const invalidate = useInvalidateWaitlist();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await waitlistApiService.removeFromWaitlist(id);
+      return id;
+    },
+    onSuccess: invalidate,
+  });
+};
@@ -1,6 +1,11 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiService } from "../services/api";
-import { SendWhatsAppMessageRequest } from "@shared/types";
+import {
+  SendWhatsAppMessageRequest,
+  SaveWhatsAppChannelData,
+  SaveWhatsAppAutoReplyData,
+  WhatsAppAutoReplyIntent,
+} from "@shared/types";
 
 
 // Get WhatsApp status
@@ -49,5 +54,78 @@ export const useWhatsAppConversation = (phoneNumber: string) => {
       return response.data;
     },
     enabled: !!phoneNumber,
+    refetchInterval: 10000, // Pick up delivery and read receipts
+  });
+};
+
+// Save the organization's WhatsApp channel
+export const useSaveWhatsAppChannel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: SaveWhatsAppChannelData) => {
+      const response = await apiService.saveWhatsAppChannel(data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp"] });
+    },
+  });
+};
+
+// Disconnect the organization's WhatsApp channel
+export const useDeleteWhatsAppChannel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiService.deleteWhatsAppChannel();
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp"] });
+    },
+  });
+};
+
+// Get the organization's auto-reply templates
+export const useWhatsAppAutoReplies = (enabled = true) => {
+  return useQuery({
+    queryKey: ["whatsapp", "auto-replies"],
+    queryFn: async () => {
+      const response = await apiService.getWhatsAppAutoReplies();
+      return response.data.data!;
+    },
+    enabled,
+  });
+};
+
+// Save the auto-reply template for one intent
+export const useSaveWhatsAppAutoReply = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ intent, data }: { intent: WhatsAppAutoReplyIntent; data: SaveWhatsAppAutoReplyData }) => {
+      const response = await apiService.saveWhatsAppAutoReply(intent, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp", "auto-replies"] });
+    },
+  });
+};
+
+// Restore the default auto-reply template for one intent
+export const useResetWhatsAppAutoReply = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (intent: WhatsAppAutoReplyIntent) => {
+      const response = await apiService.resetWhatsAppAutoReply(intent);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["whatsapp", "auto-replies"] });
+    },
   });
 };
@@ -72,7 +72,10 @@ export function AnalyticsPage() {
         const apiUrl = getApiUrl(`analytics?timeRange=${timeRange}`);
         console.log('📊 API URL:', apiUrl);
         
-        const response = await fetch(apiUrl);
+        const token = localStorage.getItem('cosynq_token');
+        const response = await fetch(apiUrl, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        });
 
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -6,10 +6,12 @@ import { BookingCalendar } from '../components/bookings/BookingCalendar';
 import { BookingForm } from '../components/bookings/BookingForm';
 import { BookingDetailsModal } from '../components/bookings/BookingDetailsModal';
 import { CancelBookingDialog } from '../components/bookings/CancelBookingDialog';
+import { WaitlistPanel } from '../components/bookings/WaitlistPanel';
 import { useLocation } from '../hooks/useLocations';
 import { useBookings, useBookingStats, useDeleteBooking } from '../hooks/useBookings';
-import { BookingData } from '../services/bookingApi';
+import { BookingData, BookingSeriesScope, FailedOccurrence } from '../services/bookingApi';
 import { View, Views } from 'react-big-calendar';
+import { usePermissions } from '../hooks/usePermissions';
 
 export default function BookingsPage() {
   const { locationId } = useParams<{ locationId: string }>();
@@ -21,14 +23,19 @@ export default function BookingsPage() {
   // Booking details modal state
   const [selectedBooking, setSelectedBooking] = useState<BookingData | null>(null);
   const [isBookingDetailsOpen, setIsBookingDetailsOpen] = useState(false);
+  const [bookingToEdit, setBookingToEdit] = useState<BookingData | null>(null);
+  const [editScope, setEditScope] = useState<BookingSeriesScope>('this');
   
   
   // Cancel booking state
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
   const [bookingToCancel, setBookingToCancel] = useState<BookingData | null>(null);
+  const [cancelFailedOccurrences, setCancelFailedOccurrences] = useState<FailedOccurrence[]>([]);
   
   // Cancelled bookings panel state
   const [showCancelledPanel, setShowCancelledPanel] = useState(false);
+
+  const { can } = usePermissions();
   
   // Fetch location details
   const { data: location, isLoading: isLoadingLocation, error: locationError } = useLocation(locationId!);
@@ -60,8 +67,10 @@ export default function BookingsPage() {
 
   // Handle calendar slot clicks for creating new bookings
   const handleSlotClick = (slotInfo: { start: Date; end: Date; action: 'select' | 'click' | 'doubleClick' }) => {
+    if (!can('bookings:create')) return;
     setPrefilledDate(slotInfo.start);
     setPrefilledSpaceId(undefined); // Let user select space
+    setBookingToEdit(null);
     setIsBookingFormOpen(true);
   };
 
@@ -69,6 +78,7 @@ export default function BookingsPage() {
   const handleCreateBooking = () => {
     setPrefilledDate(undefined);
     setPrefilledSpaceId(undefined);
+    setBookingToEdit(null);
     setIsBookingFormOpen(true);
   };
 
@@ -76,14 +86,17 @@ export default function BookingsPage() {
   const handleBookingFormSuccess = () => {
     setIsBookingFormOpen(false);
     setSelectedBooking(null);
+    setBookingToEdit(null);
     setPrefilledDate(undefined);
     setPrefilledSpaceId(undefined);
     // The bookings query will automatically refresh due to React Query cache invalidation
   };
   
   // Handle edit booking
-  const handleEditBooking = (booking: BookingData) => {
+  const handleEditBooking = (booking: BookingData, scope: BookingSeriesScope) => {
     setSelectedBooking(booking);
+    setBookingToEdit(booking);
+    setEditScope(scope);
     setIsBookingDetailsOpen(false);
     setIsBookingFormOpen(true);
   };
@@ -96,12 +109,18 @@ export default function BookingsPage() {
   };
   
   // Handle confirm cancel booking
-  const handleConfirmCancelBooking = async (booking: BookingData, reason: string) => {
+  const handleConfirmCancelBooking = async (booking: BookingData, reason: string, scope: BookingSeriesScope) => {
     try {
-      await deleteBookingMutation.mutateAsync({ 
+      const result = await deleteBookingMutation.mutateAsync({ 
         id: booking._id, 
-        cancelReason: reason 
+        cancelReason: reason,
+        scope
       });
+      // Keep the dialog open to list occurrences of a series that could not be cancelled
+      if (result.failedOccurrences && result.failedOccurrences.length > 0) {
+        setCancelFailedOccurrences(result.failedOccurrences);
+        return;
+      }
       setIsCancelDialogOpen(false);
       setBookingToCancel(null);
       setSelectedBooking(null);
@@ -121,6 +140,7 @@ export default function BookingsPage() {
   const handleCloseCancelDialog = () => {
     setIsCancelDialogOpen(false);
     setBookingToCancel(null);
+    setCancelFailedOccurrences([]);
   };
 
   // Loading state
@@ -221,13 +241,15 @@ export default function BookingsPage() {
               )}
               
               {/* Create Booking Button */}
-              <button
-                onClick={handleCreateBooking}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create Booking
-              </button>
+              {can('bookings:create') && (
+                <button
+                  onClick={handleCreateBooking}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Booking
+                </button>
+              )}
 
               {/* View Toggle */}
               <div className="hidden sm:flex items-center space-x-2">
@@ -376,6 +398,9 @@ export default function BookingsPage() {
           />
         </div>
 
+        {/* Waitlist */}
+        {locationId && can('waitlist:read') && <WaitlistPanel locationId={locationId} />}
+
         {/* Cancelled Bookings Panel */}
         {showCancelledPanel && cancelledBookings.length > 0 && (
           <div className="mt-8 bg-white rounded-lg shadow-sm border border-red-200">
@@ -533,10 +558,13 @@ export default function BookingsPage() {
           onClose={() => {
             setIsBookingFormOpen(false);
             setSelectedBooking(null);
+            setBookingToEdit(null);
           }}
           onSuccess={handleBookingFormSuccess}
           prefilledSpaceId={prefilledSpaceId}
           prefilledDate={prefilledDate}
+          booking={bookingToEdit}
+          editScope={editScope}
         />
       )}
       
@@ -557,6 +585,7 @@ export default function BookingsPage() {
         onClose={handleCloseCancelDialog}
         onConfirm={handleConfirmCancelBooking}
         isLoading={deleteBookingMutation.isPending}
+        failedOccurrences={cancelFailedOccurrences}
       />
     </div>
   );
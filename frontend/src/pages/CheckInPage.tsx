@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { CheckCircle, AlertTriangle, Calendar, LogIn, LogOut } from 'lucide-react';
+import { bookingApiService, CheckInDetails } from '../services/bookingApi';
+
+const formatInTimezone = (date: string, timezone: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat('en-IN', { timeZone: timezone, ...options }).format(new Date(date));
+
+const formatTime = (date: string, timezone: string) =>
+  formatInTimezone(date, timezone, { hour: 'numeric', minute: '2-digit' });
+
+// Public page a booking's QR code links to. A device scanning codes at a space can add
+// ?space=<spaceId> so codes of other spaces are refused.
+export default function CheckInPage() {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const spaceId = searchParams.get('space') || undefined;
+
+  const [checkIn, setCheckIn] = useState<CheckInDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('Invalid or missing check-in code');
+      setIsLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const response = await bookingApiService.getCheckInByToken(token);
+        setCheckIn(response.data.data.checkIn);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'This check-in code is invalid');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [token]);
+
+  const submit = async (action: 'check-in' | 'check-out') => {
+    if (!token) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = action === 'check-in'
+        ? await bookingApiService.checkInByToken(token, spaceId)
+        : await bookingApiService.checkOutByToken(token);
+      setCheckIn(response.data.data.checkIn);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="text-gray-600">Loading your booking...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!checkIn) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full text-center">
+          <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center mb-6">
+            <AlertTriangle className="h-8 w-8 text-red-600" />
+          </div>
+          <h2 className="text-3xl font-extrabold text-gray-900 mb-2">Check-in unavailable</h2>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { timezone } = checkIn;
+  const canCheckIn = checkIn.status === 'Confirmed' && !checkIn.checkedIn;
+  const canCheckOut = checkIn.checkedIn && !checkIn.checkOutTime &&
+    ['Pending', 'Confirmed', 'Completed'].includes(checkIn.status);
+
+  let heading = `Booking ${checkIn.bookingReference}`;
+  let summary: string | null = null;
+  if (checkIn.checkOutTime) {
+    heading = 'Checked out';
+    summary = `You checked out at ${formatTime(checkIn.checkOutTime, timezone)}. Thanks for visiting!`;
+  } else if (checkIn.checkedIn && checkIn.checkInTime) {
+    heading = "You're checked in";
+    summary = `Checked in at ${formatTime(checkIn.checkInTime, timezone)}. Check out here when you leave.`;
+  } else if (checkIn.status === 'Pending') {
+    summary = 'This booking has not been confirmed yet.';
+  } else if (!canCheckIn) {
+    summary = `This booking is ${checkIn.status.toLowerCase()}.`;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          {checkIn.checkedIn && (
+            <div className="mx-auto h-16 w-16 bg-green-100 rounded-full flex items-center justify-center mb-6">
+              <CheckCircle className="h-8 w-8 text-green-600" />
+            </div>
+          )}
+          <h2 className="text-3xl font-extrabold text-gray-900 mb-2">{heading}</h2>
+          <p className="text-gray-600 mb-6">
+            {checkIn.spaceName}
+            {checkIn.locationName && ` at ${checkIn.locationName}`}
+            {checkIn.organizationName && `, ${checkIn.organizationName}`}
+          </p>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 text-left space-y-2 text-sm text-gray-700">
+            <div className="flex items-center">
+              <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+              {formatInTimezone(checkIn.startTime, timezone, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })},{' '}
+              {formatTime(checkIn.startTime, timezone)} - {formatTime(checkIn.endTime, timezone)}
+            </div>
+            {checkIn.usage && (
+              <div>
+                Time used: {checkIn.usage.actualMinutes} min
+                {checkIn.usage.overtimeMinutes > 0 && (
+                  <span className="text-orange-700">
+                    {' '}({checkIn.usage.overtimeMinutes} min overtime
+                    {checkIn.usage.overtimeAmount > 0 && `, ${checkIn.usage.currency} ${checkIn.usage.overtimeAmount.toFixed(2)}`})
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+          {summary && <p className="mt-4 text-gray-600">{summary}</p>}
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {(canCheckIn || canCheckOut) && (
+          <button
+            onClick={() => submit(canCheckIn ? 'check-in' : 'check-out')}
+            disabled={isSubmitting}
+            className="w-full flex items-center justify-center py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            {canCheckIn ? <LogIn className="h-4 w-4 mr-2" /> : <LogOut className="h-4 w-4 mr-2" />}
+            {isSubmitting ? 'Please wait...' : canCheckIn ? 'Check in' : 'Check out'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ import { ContactList } from '../components/contacts/ContactList';
 import { ContactForm } from '../components/contacts/ContactForm';
 import { ContactStats } from '../components/contacts/ContactStats';
 import { ContactFilters } from '../components/contacts/ContactFilters';
-import { Plus, Users, BarChart3, Home, MessageSquare } from 'lucide-react';
+import { Plus, Users, BarChart3, Home, MessageSquare, CreditCard } from 'lucide-react';
 import { ContactType, ContextState } from '@shared/types';
 import { Link } from 'react-router-dom';
+import { usePermissions } from '../hooks/usePermissions';
 
 export function ContactsPage() {
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
@@ -18,6 +19,7 @@ export function ContactsPage() {
     tags?: string;
   }>({});
   const [currentPage, setCurrentPage] = useState(1);
+  const { can } = usePermissions();
 
   const { data: contactsData, isLoading: isLoadingContacts, error: contactsError } = useContacts({
     page: currentPage,
@@ -85,13 +87,24 @@ export function ContactsPage() {
               <MessageSquare className="h-4 w-4 mr-2" />
               WhatsApp
             </Link>
-            <button
-              onClick={() => setIsCreateFormOpen(true)}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              <Plus className="h-5 w-5 mr-2" />
-              Add Contact
-            </button>
+            {can('membershipPlans:read') && (
+              <Link
+                to="/membership-plans"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <CreditCard className="h-4 w-4 mr-2" />
+                Plans
+              </Link>
+            )}
+            {can('contacts:create') && (
+              <button
+                onClick={() => setIsCreateFormOpen(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Contact
+              </button>
+            )}
           </div>
         </div>
 
@@ -129,15 +142,17 @@ export function ContactsPage() {
               <p className="mt-1 text-sm text-gray-500">
                 Get started by creating your first contact.
               </p>
-              <div className="mt-6">
-                <button
-                  onClick={() => setIsCreateFormOpen(true)}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
-                >
-                  <Plus className="h-5 w-5 mr-2" />
-                  Add Contact
-                </button>
-              </div>
+              {can('contacts:create') && (
+                <div className="mt-6">
+                  <button
+                    onClick={() => setIsCreateFormOpen(true)}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <Plus className="h-5 w-5 mr-2" />
+                    Add Contact
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -13,9 +13,11 @@ import {
   Bell,
   Search,
   Calendar,
-  MessageSquare
+  MessageSquare,
+  FileText
 } from 'lucide-react';
 import { SetupWizard } from '../components/setup/SetupWizard';
+import { OrganizationSwitcher } from '../components/navigation/OrganizationSwitcher';
 import { IncompleteSetupBanner } from '../components/onboarding/IncompleteSetupBanner';
 import { DashboardLocationCard } from '../components/dashboard/LocationCard';
 import { SetupProgressCard } from '../components/dashboard/SetupProgressCard';
@@ -24,10 +26,12 @@ import { useLocationStats, useLocations } from '../hooks/useLocations';
 import { useSpaceStats } from '../hooks/useSpaces';
 import { useBookingStats } from '../hooks/useBookings';
 import { useOnboardingStatus } from '../hooks/useOnboardingStatus';
+import { usePermissions } from '../hooks/usePermissions';
 import { Location } from '@shared/types';
 
 const DashboardPage: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutAllDevices } = useAuth();
+  const { can } = usePermissions();
   const location = useLocation();
   const [isSetupWizardOpen, setIsSetupWizardOpen] = useState(false);
   const [setupWizardStep, setSetupWizardStep] = useState<'company' | 'locations'>('company');
@@ -63,6 +67,15 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  const handleLogoutAllDevices = async () => {
+    if (!window.confirm('Sign out of Cosynq on every device, including this one?')) return;
+    try {
+      await logoutAllDevices();
+    } catch (error) {
+      console.error('Logout from all devices failed:', error);
+    }
+  };
+
   const handleSetupComplete = () => {
     // Onboarding completion is now handled by the onboarding system
     setIsSetupWizardOpen(false);
@@ -118,6 +131,8 @@ const DashboardPage: React.FC = () => {
                 <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
               </button>
               
+              <OrganizationSwitcher />
+
               {/* User Menu */}
               <div className="flex items-center space-x-3">
                 <div className="hidden sm:block text-right">
@@ -135,6 +150,12 @@ const DashboardPage: React.FC = () => {
                 >
                   Logout
                 </button>
+                <button
+                  onClick={handleLogoutAllDevices}
+                  className="text-sm text-gray-500 hover:text-gray-900 transition-colors"
+                >
+                  Sign out all devices
+                </button>
               </div>
             </div>
           </div>
@@ -238,13 +259,15 @@ const DashboardPage: React.FC = () => {
                     <h2 className="text-xl font-bold text-gray-900">Your Locations</h2>
                     <p className="text-sm text-gray-600">Manage and monitor your workspace locations</p>
                   </div>
-                  <Link
-                    to="/locations"
-                    className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors"
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Location
-                  </Link>
+                  {can('locations:create') && (
+                    <Link
+                      to="/locations"
+                      className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Location
+                    </Link>
+                  )}
                 </div>
 
                 {/* Location Cards Grid */}
@@ -288,13 +311,15 @@ const DashboardPage: React.FC = () => {
                       <MapPin className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                       <h3 className="text-lg font-medium text-gray-900 mb-2">No locations yet</h3>
                       <p className="text-gray-600 mb-6">Add your first workspace location to get started</p>
-                      <Link
-                        to="/locations"
-                        className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-sm transition-colors"
-                      >
-                        <Plus className="h-5 w-5 mr-2" />
-                        Add Your First Location
-                      </Link>
+                      {can('locations:create') && (
+                        <Link
+                          to="/locations"
+                          className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-sm transition-colors"
+                        >
+                          <Plus className="h-5 w-5 mr-2" />
+                          Add Your First Location
+                        </Link>
+                      )}
                     </div>
                   )}
                 </div>
@@ -331,6 +356,22 @@ const DashboardPage: React.FC = () => {
                       <ArrowRight className="h-5 w-5 text-blue-600 group-hover:translate-x-1 transition-transform" />
                     </Link>
 
+                    <Link
+                      to="/find-space"
+                      className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-purple-50 to-violet-50 hover:from-purple-100 hover:to-violet-100 rounded-lg border border-purple-200 transition-colors group"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 bg-purple-600 rounded-lg flex items-center justify-center">
+                          <Calendar className="h-4 w-4 text-white" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-purple-900">Find a Space</p>
+                          <p className="text-sm text-purple-700">Free rooms & desks by time</p>
+                        </div>
+                      </div>
+                      <ArrowRight className="h-5 w-5 text-purple-600 group-hover:translate-x-1 transition-transform" />
+                    </Link>
+
                     <Link
                       to="/contacts"
                       className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-green-50 to-emerald-50 hover:from-green-100 hover:to-emerald-100 rounded-lg border border-green-200 transition-colors group"
@@ -363,6 +404,24 @@ const DashboardPage: React.FC = () => {
                       <ArrowRight className="h-5 w-5 text-orange-600 group-hover:translate-x-1 transition-transform" />
                     </Link>
 
+                    {can('invoices:read') && (
+                      <Link
+                        to="/invoices"
+                        className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-slate-50 to-gray-50 hover:from-slate-100 hover:to-gray-100 rounded-lg border border-gray-200 transition-colors group"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <div className="w-8 h-8 bg-slate-600 rounded-lg flex items-center justify-center">
+                            <FileText className="h-4 w-4 text-white" />
+                          </div>
+                          <div>
+                            <p className="font-medium text-slate-900">Invoices</p>
+                            <p className="text-sm text-slate-700">Payments & refunds</p>
+                          </div>
+                        </div>
+                        <ArrowRight className="h-5 w-5 text-slate-600 group-hover:translate-x-1 transition-transform" />
+                      </Link>
+                    )}
+
                     <Link
                       to="/whatsapp"
                       className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-green-50 to-emerald-50 hover:from-green-100 hover:to-emerald-100 rounded-lg border border-green-200 transition-colors group"
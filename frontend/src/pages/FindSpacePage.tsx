@@ -0,0 +1,281 @@
+import { useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, Home, Users, MapPin, Clock } from 'lucide-react';
+import { SpaceSearchParams, SpaceSearchResult, SpaceType } from '@shared/types';
+import { useSpaceSearch } from '../hooks/useSpaces';
+import { useLocations } from '../hooks/useLocations';
+import { formatMoney } from '../components/invoices/InvoiceDetailsModal';
+
+const SPACE_TYPES: SpaceType[] = ['Hot Desk', 'Meeting Room', 'Private Office'];
+
+// Slots listed per space before "+N more"
+const VISIBLE_SLOTS = 6;
+
+const getToday = () => new Date().toLocaleDateString('en-CA');
+
+const formatSlotTime = (time: string, timezone?: string) =>
+  new Date(time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone });
+
+const emptyForm = {
+  date: getToday(),
+  startTime: '',
+  endTime: '',
+  duration: 60,
+  attendees: 1,
+  amenities: '',
+  locationId: '',
+  type: '' as SpaceType | ''
+};
+
+export function FindSpacePage() {
+  const [form, setForm] = useState(emptyForm);
+  const [params, setParams] = useState<SpaceSearchParams | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: locationsData } = useLocations({ limit: 100, isActive: true });
+  const { data: results, isFetching, error } = useSpaceSearch(params);
+
+  const locations = locationsData?.locations || [];
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    if (!!form.startTime !== !!form.endTime) {
+      setFormError('Enter both a start and an end time, or neither to see every free slot');
+      return;
+    }
+    setFormError(null);
+    setParams({
+      date: form.date,
+      ...(form.startTime ? { startTime: form.startTime, endTime: form.endTime } : { duration: form.duration }),
+      attendees: form.attendees,
+      amenities: form.amenities,
+      locationId: form.locationId || undefined,
+      type: form.type || undefined
+    });
+  };
+
+  const errorMessage = (error as any)?.response?.data?.errors?.join(', ') ||
+    (error as any)?.response?.data?.message ||
+    error?.message;
+
+  const renderResult = (result: SpaceSearchResult) => (
+    <div key={result.space._id} className="bg-white rounded-lg shadow p-5">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{result.space.name}</h3>
+          <p className="text-sm text-gray-600">
+            {result.space.type}
+            {result.space.floor && ` · Floor ${result.space.floor}`}
+          </p>
+          {result.location && (
+            <p className="text-sm text-gray-500 flex items-center mt-1">
+              <MapPin className="h-3 w-3 mr-1" />
+              {result.location.name} ({result.location.code})
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          {result.quote ? (
+            <>
+              <p className="text-lg font-semibold text-gray-900">{formatMoney(result.quote.totalAmount, result.quote.currency)}</p>
+              <p className="text-xs text-gray-500">for {result.quote.durationMinutes} min</p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Price on request</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center text-sm text-gray-600 mt-3">
+        <Users className="h-4 w-4 mr-1" />
+        {result.space.seatBooking
+          ? `${result.freeSlots[0].seatsRemaining ?? result.space.capacity} of ${result.space.capacity} seats free`
+          : `Up to ${result.space.capacity} people`}
+      </div>
+
+      {result.space.amenities.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {result.space.amenities.map(amenity => (
+            <span key={amenity} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">{amenity}</span>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <p className="text-xs font-medium text-gray-500 uppercase mb-2 flex items-center">
+          <Clock className="h-3 w-3 mr-1" />
+          Free {result.location && `(${result.location.timezone})`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {result.freeSlots.slice(0, VISIBLE_SLOTS).map(slot => (
+            <span key={slot.startTime} className="px-2 py-1 text-xs font-medium bg-green-50 text-green-800 border border-green-200 rounded">
+              {formatSlotTime(slot.startTime, result.location?.timezone)} - {formatSlotTime(slot.endTime, result.location?.timezone)}
+            </span>
+          ))}
+          {result.freeSlots.length > VISIBLE_SLOTS && (
+            <span className="px-2 py-1 text-xs text-gray-500">+{result.freeSlots.length - VISIBLE_SLOTS} more</span>
+          )}
+        </div>
+      </div>
+
+      {result.location && (
+        <div className="mt-4 flex justify-end">
+          <Link
+            to={`/locations/${result.location._id}/bookings`}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Book
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-3">
+            <Search className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Find a Space</h1>
+              <p className="text-gray-600">Free spaces for your group, best fit first</p>
+            </div>
+          </div>
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Home className="h-4 w-4 mr-2" />
+            Dashboard
+          </Link>
+        </div>
+
+        {/* Search form */}
+        <form onSubmit={handleSearch} className="bg-white rounded-lg shadow p-5 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                required
+                min={getToday()}
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+              <select
+                value={form.duration}
+                disabled={!!form.startTime}
+                onChange={(e) => setForm({ ...form, duration: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+              >
+                {[30, 60, 90, 120, 180, 240, 480].map(minutes => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60 ? `${minutes} min` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">People</label>
+              <input
+                type="number"
+                min={1}
+                required
+                value={form.attendees}
+                onChange={(e) => setForm({ ...form, attendees: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+              <select
+                value={form.locationId}
+                onChange={(e) => setForm({ ...form, locationId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">All locations</option>
+                {locations.map(location => (
+                  <option key={location._id} value={location._id}>{location.name} ({location.code})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as SpaceType | '' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Any type</option>
+                {SPACE_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amenities</label>
+              <input
+                type="text"
+                placeholder="e.g. Projector, Whiteboard"
+                value={form.amenities}
+                onChange={(e) => setForm({ ...form, amenities: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-red-600">{formError}</p>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </button>
+          </div>
+        </form>
+
+        {/* Results */}
+        {!params ? (
+          <p className="text-center text-gray-500 py-12">Choose a date and group size to see free spaces</p>
+        ) : isFetching ? (
+          <p className="text-center text-gray-500 py-12">Searching...</p>
+        ) : errorMessage ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{errorMessage}</div>
+        ) : !results || results.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No spaces are free for this search. Try another time or fewer amenities.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {results.map(renderResult)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { FileText, Home, Users, Search } from 'lucide-react';
+import { useInvoices } from '../hooks/useInvoices';
+import { InvoiceSourceType, InvoiceStatus, getInvoiceBalanceDue } from '../services/invoiceApi';
+import {
+  InvoiceDetailsModal,
+  formatMoney,
+  getInvoiceStatusColor
+} from '../components/invoices/InvoiceDetailsModal';
+import { usePermissions } from '../hooks/usePermissions';
+
+const INVOICE_STATUSES: InvoiceStatus[] = ['Issued', 'Partially Paid', 'Paid', 'Partially Refunded', 'Refunded', 'Void'];
+
+export function InvoicesPage() {
+  const { can } = usePermissions();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<{
+    search?: string;
+    status?: InvoiceStatus;
+    sourceType?: InvoiceSourceType;
+  }>({});
+  const [tempSearch, setTempSearch] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // The open invoice lives in the URL so other pages can link to it
+  const selectedInvoiceId = searchParams.get('invoice');
+
+  const { data, isLoading, error } = useInvoices(
+    { page: currentPage, limit: 20, ...filters },
+    { enabled: can('invoices:read') }
+  );
+
+  const handleFilterChange = (newFilters: typeof filters) => {
+    setFilters(newFilters);
+    setCurrentPage(1); // Reset to first page when filters change
+  };
+
+  const openInvoice = (id: string) => setSearchParams({ invoice: id });
+  const closeInvoice = () => setSearchParams({});
+
+  if (!can('invoices:read')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-500 text-lg font-medium mb-2">
+            Error loading invoices
+          </div>
+          <div className="text-gray-600">
+            {error.message || 'Something went wrong'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-3">
+            <FileText className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+              <p className="text-gray-600">Invoices, payments and refunds for bookings and memberships</p>
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            <Link
+              to="/dashboard"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Home className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+            <Link
+              to="/contacts"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Contacts
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 bg-white p-4 rounded-lg shadow border border-gray-200">
+          <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleFilterChange({ ...filters, search: tempSearch || undefined });
+              }}
+              className="flex-1 max-w-md"
+            >
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={tempSearch}
+                  onChange={(e) => setTempSearch(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder="Search by invoice number or customer..."
+                />
+              </div>
+            </form>
+            <select
+              value={filters.status || ''}
+              onChange={(e) => handleFilterChange({ ...filters, status: (e.target.value || undefined) as InvoiceStatus | undefined })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All statuses</option>
+              {INVOICE_STATUSES.map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <select
+              value={filters.sourceType || ''}
+              onChange={(e) => handleFilterChange({ ...filters, sourceType: (e.target.value || undefined) as InvoiceSourceType | undefined })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Bookings & memberships</option>
+              <option value="booking">Bookings</option>
+              <option value="membership">Memberships</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Main Content */}
+        <div className="bg-white rounded-lg shadow">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : data && data.invoices.length > 0 ? (
+            <>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance due</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.invoices.map((invoice) => (
+                    <tr
+                      key={invoice._id}
+                      onClick={() => openInvoice(invoice._id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{invoice.invoiceNumber}</div>
+                        <div className="text-xs text-gray-500 capitalize">{invoice.sourceType}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{invoice.customer.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {format(new Date(invoice.issuedAt), 'MMM d, yyyy')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatMoney(invoice.total, invoice.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatMoney(getInvoiceBalanceDue(invoice), invoice.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium border ${getInvoiceStatusColor(invoice.status)}`}>
+                          {invoice.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* Pagination */}
+              {data.pagination.totalPages > 1 && (
+                <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200">
+                  <p className="text-sm text-gray-700">
+                    Page <span className="font-medium">{data.pagination.currentPage}</span> of{' '}
+                    <span className="font-medium">{data.pagination.totalPages}</span>
+                  </p>
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => setCurrentPage(currentPage - 1)}
+                      disabled={!data.pagination.hasPrevPage}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setCurrentPage(currentPage + 1)}
+                      disabled={!data.pagination.hasNextPage}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12">
+              <FileText className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No invoices</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Invoices are created from a booking or a member's contact page.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <InvoiceDetailsModal
+        invoiceId={selectedInvoiceId}
+        isOpen={!!selectedInvoiceId}
+        onClose={closeInvoice}
+      />
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
 import { useLocation as useLocationById } from '../hooks/useLocations';
 import { useProductTypes, useCreateProductType, useGenerateSpaces } from '../hooks/useProductTypes';
 import { ProductTypeCategory, CreateProductTypeData } from '@shared/types';
+import { usePermissions } from '../hooks/usePermissions';
 
 interface SpaceProduct {
   id: string;
@@ -163,6 +164,10 @@ export default function LocationSpacesPage() {
   const generateSpaces = useGenerateSpaces();
   
   const isSaving = createProductType.isPending || generateSpaces.isPending;
+
+  // Saving a configuration creates product types and generates their spaces
+  const { can } = usePermissions();
+  const canConfigureSpaces = can('productTypes:create') && can('productTypes:generateSpaces');
   
   // Check if location has existing product types configured
   const hasConfiguredSpaces = existingProductTypes?.productTypes && existingProductTypes.productTypes.length > 0;
@@ -465,13 +470,15 @@ export default function LocationSpacesPage() {
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
-          <button
-            onClick={() => setShowConfiguration(true)}
-            className="inline-flex items-center px-6 py-3 border border-blue-600 text-blue-600 font-medium rounded-lg hover:bg-blue-50 transition-colors"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add More Space Types
-          </button>
+          {canConfigureSpaces && (
+            <button
+              onClick={() => setShowConfiguration(true)}
+              className="inline-flex items-center px-6 py-3 border border-blue-600 text-blue-600 font-medium rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add More Space Types
+            </button>
+          )}
           
           <button
             onClick={() => navigate('/dashboard')}
@@ -552,27 +559,29 @@ export default function LocationSpacesPage() {
               </div>
             </div>
             
-            <button
-              onClick={handleSave}
-              disabled={!hasUnsavedChanges || isSaving}
-              className={`inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white transition-all ${
-                hasUnsavedChanges && !isSaving
-                  ? 'bg-blue-600 hover:bg-blue-700 hover:scale-105 shadow-lg'
-                  : 'bg-gray-400 cursor-not-allowed'
-              }`}
-            >
-              {isSaving ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <Save className="h-4 w-4 mr-2" />
-                  Save Configuration
-                </>
-              )}
-            </button>
+            {canConfigureSpaces && (
+              <button
+                onClick={handleSave}
+                disabled={!hasUnsavedChanges || isSaving}
+                className={`inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white transition-all ${
+                  hasUnsavedChanges && !isSaving
+                    ? 'bg-blue-600 hover:bg-blue-700 hover:scale-105 shadow-lg'
+                    : 'bg-gray-400 cursor-not-allowed'
+                }`}
+              >
+                {isSaving ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Configuration
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -4,6 +4,7 @@ import { LocationList } from '../components/locations/LocationList';
 import { LocationForm } from '../components/locations/LocationForm';
 import { LocationStats } from '../components/locations/LocationStats';
 import { LocationFilters } from '../components/locations/LocationFilters';
+import { usePermissions } from '../hooks/usePermissions';
 import { Plus, MapPin, AlertTriangle } from 'lucide-react';
 
 export function LocationsPage() {
@@ -18,6 +19,7 @@ export function LocationsPage() {
     maxCapacity?: number;
   }>({});
   const [currentPage, setCurrentPage] = useState(1);
+  const { can } = usePermissions();
 
   const { data: locationsData, isLoading: isLoadingLocations, error: locationsError } = useLocations({
     page: currentPage,
@@ -72,13 +74,15 @@ export function LocationsPage() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <button
-                onClick={() => setIsCreateFormOpen(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Location
-              </button>
+              {can('locations:create') && (
+                <button
+                  onClick={() => setIsCreateFormOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Location
+                </button>
+              )}
             </div>
           </div>
         </div>
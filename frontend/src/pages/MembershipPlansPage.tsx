@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { CreditCard, Home, Users, Plus, Edit, Trash2 } from 'lucide-react';
+import { useMembershipPlans, useUpdateMembershipPlan, useDeleteMembershipPlan } from '../hooks/useMemberships';
+import { MembershipPlanData, formatCreditAmount } from '../services/membershipApi';
+import { MembershipPlanForm } from '../components/memberships/MembershipPlanForm';
+import { formatMoney } from '../components/invoices/InvoiceDetailsModal';
+import { usePermissions } from '../hooks/usePermissions';
+
+export function MembershipPlansPage() {
+  const { can } = usePermissions();
+  const { data: plans = [], isLoading, error } = useMembershipPlans(true);
+  const updateMutation = useUpdateMembershipPlan();
+  const deleteMutation = useDeleteMembershipPlan();
+  const [editingPlan, setEditingPlan] = useState<MembershipPlanData | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const closeForm = () => {
+    setEditingPlan(null);
+    setIsCreating(false);
+  };
+
+  const toggleActive = async (plan: MembershipPlanData) => {
+    setActionError(null);
+    try {
+      await updateMutation.mutateAsync({ id: plan._id, planData: { isActive: !plan.isActive } });
+    } catch (error: any) {
+      setActionError(error.response?.data?.message || 'Failed to update membership plan');
+    }
+  };
+
+  const handleDelete = async (plan: MembershipPlanData) => {
+    if (!window.confirm(`Delete the ${plan.name} plan?`)) return;
+    setActionError(null);
+    try {
+      await deleteMutation.mutateAsync(plan._id);
+    } catch (error: any) {
+      setActionError(error.response?.data?.message || 'Failed to delete membership plan');
+    }
+  };
+
+  if (!can('membershipPlans:read')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-500 text-lg font-medium mb-2">
+            Error loading membership plans
+          </div>
+          <div className="text-gray-600">
+            {error.message || 'Something went wrong'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-3">
+            <CreditCard className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Membership Plans</h1>
+              <p className="text-gray-600">Monthly plans with booking allowances for your members</p>
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            <Link
+              to="/dashboard"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Home className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+            <Link
+              to="/contacts"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Contacts
+            </Link>
+            {can('membershipPlans:create') && (
+              <button
+                onClick={() => {
+                  setEditingPlan(null);
+                  setIsCreating(true);
+                }}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Plan
+              </button>
+            )}
+          </div>
+        </div>
+
+        {(isCreating || editingPlan) && (
+          <div className="mb-6">
+            <MembershipPlanForm key={editingPlan?._id || 'new'} plan={editingPlan || undefined} onClose={closeForm} />
+          </div>
+        )}
+
+        {actionError && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {actionError}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow border border-gray-200">
+            <CreditCard className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No membership plans</h3>
+            <p className="mt-1 text-sm text-gray-500">Create a plan to subscribe members and give them monthly booking credits.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {plans.map((plan) => (
+              <div
+                key={plan._id}
+                className={`bg-white p-6 rounded-lg shadow border border-gray-200 ${plan.isActive ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{plan.name}</h3>
+                    <p className="text-sm text-gray-600">{formatMoney(plan.monthlyPrice, plan.currency)} per month</p>
+                  </div>
+                  {!plan.isActive && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-gray-100 text-gray-800 border-gray-200">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                {plan.description && <p className="mt-2 text-sm text-gray-500">{plan.description}</p>}
+                <ul className="mt-4 space-y-1 text-sm text-gray-700">
+                  <li>
+                    {formatCreditAmount(plan.allowance.amount, plan.allowance.unit)} per month for {plan.allowance.spaceTypes.join(', ')}
+                    {plan.allowance.unit === 'credits' && plan.allowance.creditValue !== undefined &&
+                      ` (1 credit = ${formatMoney(plan.allowance.creditValue, plan.currency)})`}
+                  </li>
+                  {plan.hotDeskAccess && <li>Hot desks included</li>}
+                  <li>
+                    {plan.allowedLocationIds.length === 0
+                      ? 'All locations'
+                      : `${plan.allowedLocationIds.length} ${plan.allowedLocationIds.length === 1 ? 'location' : 'locations'}`}
+                  </li>
+                  <li className="text-gray-500">{plan.subscriberCount || 0} subscribers</li>
+                </ul>
+                <div className="mt-4 pt-4 border-t border-gray-100 flex items-center justify-end space-x-2">
+                  {can('membershipPlans:update') && (
+                    <>
+                      <button
+                        onClick={() => toggleActive(plan)}
+                        disabled={updateMutation.isPending}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {plan.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setIsCreating(false);
+                          setEditingPlan(plan);
+                        }}
+                        className="p-1.5 text-gray-500 hover:text-blue-600"
+                        title="Edit plan"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                  {can('membershipPlans:delete') && (
+                    <button
+                      onClick={() => handleDelete(plan)}
+                      disabled={deleteMutation.isPending}
+                      className="p-1.5 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                      title="Delete plan"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
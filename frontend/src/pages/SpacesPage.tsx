@@ -5,6 +5,7 @@ import { SpaceCard } from '../components/spaces/SpaceCard';
 import { SpaceForm } from '../components/spaces/SpaceForm';
 import { Plus, Search, Filter, Grid, List, Trash2, AlertTriangle, BarChart3, Home, MessageSquare } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { usePermissions } from '../hooks/usePermissions';
 
 export function SpacesPage() {
   const [currentPage, setCurrentPage] = useState(1);
@@ -16,6 +17,7 @@ export function SpacesPage() {
   const [selectedSpace, setSelectedSpace] = useState<Space | undefined>();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
+  const { can } = usePermissions();
 
   const { data, isLoading, error } = useSpaces({
     page: currentPage,
@@ -163,21 +165,25 @@ export function SpacesPage() {
               <MessageSquare className="h-4 w-4 mr-2" />
               WhatsApp
             </Link>
-            <button
-              onClick={() => cleanupOrphanedSpaces.mutate()}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-yellow-600 hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500"
-              disabled={cleanupOrphanedSpaces.isPending}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              {cleanupOrphanedSpaces.isPending ? 'Cleaning...' : 'Cleanup Data'}
-            </button>
-            <button
-              onClick={handleCreateSpace}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Space
-            </button>
+            {can('spaces:delete') && (
+              <button
+                onClick={() => cleanupOrphanedSpaces.mutate()}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-yellow-600 hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500"
+                disabled={cleanupOrphanedSpaces.isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {cleanupOrphanedSpaces.isPending ? 'Cleaning...' : 'Cleanup Data'}
+              </button>
+            )}
+            {can('spaces:create') && (
+              <button
+                onClick={handleCreateSpace}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Space
+              </button>
+            )}
           </div>
         </div>
 
@@ -313,6 +319,7 @@ export function SpacesPage() {
                     <option value="Occupied">Occupied</option>
                     <option value="Maintenance">Maintenance</option>
                     <option value="Out of Service">Out of Service</option>
+                    <option value="Cleaning">Cleaning</option>
                   </select>
                 </div>
 
@@ -406,7 +413,7 @@ export function SpacesPage() {
                 'Get started by creating your first space.'
               }
             </p>
-            {!search && !typeFilter && !statusFilter && (
+            {!search && !typeFilter && !statusFilter && can('spaces:create') && (
               <button
                 onClick={handleCreateSpace}
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, AlertTriangle } from 'lucide-react';
+import { apiService } from '../services/api';
+
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [isVerifying, setIsVerifying] = useState(true);
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens are single use, so guard against a second request in StrictMode
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('Invalid or missing verification token');
+      setIsVerifying(false);
+      return;
+    }
+
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await apiService.verifyEmail(token);
+
+        if (response.data.success) {
+          setVerifiedEmail(response.data.data?.email || '');
+        } else {
+          setError(response.data.message || 'This verification link is invalid or has expired');
+        }
+      } catch (err: any) {
+        const message = err.response?.data?.message || 'This verification link is invalid or has expired';
+        setError(message);
+      } finally {
+        setIsVerifying(false);
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (isVerifying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="text-gray-600">Verifying your email...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          {error ? (
+            <>
+              <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center mb-6">
+                <AlertTriangle className="h-8 w-8 text-red-600" />
+              </div>
+              <h2 className="text-3xl font-extrabold text-gray-900 mb-2">
+                Verification Failed
+              </h2>
+              <p className="text-gray-600 mb-8">{error}</p>
+            </>
+          ) : (
+            <>
+              <div className="mx-auto h-16 w-16 bg-green-100 rounded-full flex items-center justify-center mb-6">
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              </div>
+              <h2 className="text-3xl font-extrabold text-gray-900 mb-2">
+                Email verified!
+              </h2>
+              <p className="text-gray-600 mb-8">
+                {verifiedEmail ? `${verifiedEmail} has been confirmed.` : 'Your email address has been confirmed.'}
+              </p>
+            </>
+          )}
+        </div>
+
+        <Link
+          to="/login"
+          className="w-full flex justify-center items-center py-2 px-4 text-sm font-medium text-primary-600 hover:text-primary-500 focus:outline-none focus:underline"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Continue to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
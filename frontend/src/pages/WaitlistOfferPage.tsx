@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { CheckCircle, AlertTriangle, Calendar, Clock } from 'lucide-react';
+import { waitlistApiService, WaitlistOfferData } from '../services/waitlistApi';
+
+const formatInTimezone = (date: string, timezone: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat('en-IN', { timeZone: timezone, ...options }).format(new Date(date));
+
+// Public page the waitlist offer email links to
+export default function WaitlistOfferPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [offer, setOffer] = useState<WaitlistOfferData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('Invalid or missing offer link');
+      setIsLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const response = await waitlistApiService.getOfferByToken(token);
+        setOffer(response.data.data.offer);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'This offer link is invalid');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [token]);
+
+  const respond = async (accept: boolean) => {
+    if (!token) return;
+    setIsResponding(true);
+    setError(null);
+    try {
+      if (accept) {
+        const response = await waitlistApiService.acceptOfferByToken(token);
+        setResult(`Your booking is confirmed. Your reference is ${response.data.data.bookingReference}.`);
+      } else {
+        await waitlistApiService.declineOfferByToken(token);
+        setResult("No problem, we've passed the slot on to the next person on the waitlist.");
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="text-gray-600">Loading your offer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = offer?.status === 'Offered' && !result;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          {result ? (
+            <>
+              <div className="mx-auto h-16 w-16 bg-green-100 rounded-full flex items-center justify-center mb-6">
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              </div>
+              <h2 className="text-3xl font-extrabold text-gray-900 mb-2">Thank you</h2>
+              <p className="text-gray-600">{result}</p>
+            </>
+          ) : !offer || !isOpen ? (
+            <>
+              <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center mb-6">
+                <AlertTriangle className="h-8 w-8 text-red-600" />
+              </div>
+              <h2 className="text-3xl font-extrabold text-gray-900 mb-2">Offer unavailable</h2>
+              <p className="text-gray-600">
+                {error || (offer?.status === 'Booked'
+                  ? 'You have already accepted this offer.'
+                  : 'This offer has ended and the slot has been passed on.')}
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-3xl font-extrabold text-gray-900 mb-2">A slot has opened up</h2>
+              <p className="text-gray-600 mb-6">
+                {offer.organizationName ? `${offer.organizationName} is` : "We're"} holding {offer.spaceName}
+                {offer.locationName && ` at ${offer.locationName}`} for you.
+              </p>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 text-left space-y-2 text-sm text-gray-700">
+                <div className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+                  {formatInTimezone(offer.startTime, offer.timezone, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })},{' '}
+                  {formatInTimezone(offer.startTime, offer.timezone, { hour: 'numeric', minute: '2-digit' })} -{' '}
+                  {formatInTimezone(offer.endTime, offer.timezone, { hour: 'numeric', minute: '2-digit' })}
+                </div>
+                <div className="flex items-center">
+                  <Clock className="h-4 w-4 mr-2 text-gray-400" />
+                  Held until {formatInTimezone(offer.expiresAt, offer.timezone, { hour: 'numeric', minute: '2-digit' })}
+                </div>
+              </div>
+              {error && (
+                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {isOpen && (
+          <div className="flex space-x-3">
+            <button
+              onClick={() => respond(false)}
+              disabled={isResponding}
+              className="flex-1 py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              No thanks
+            </button>
+            <button
+              onClick={() => respond(true)}
+              disabled={isResponding}
+              className="flex-1 py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isResponding ? 'Please wait...' : 'Confirm booking'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import React, { useState } from "react";
 import { Link } from "react-router-dom";
-import { MessageSquare, Send, Phone, Users, Clock, Home, BarChart3 } from "lucide-react";
+import { MessageSquare, Send, Phone, Users, Clock, Home, BarChart3, Settings, AlertTriangle, MessageCircle } from "lucide-react";
 import {
   useWhatsAppStatus,
   useSendWhatsAppMessage,
   useWhatsAppConversations,
 } from "../hooks/useWhatsApp";
 import { WhatsAppConversation } from "@shared/types";
+import { usePermissions } from "../hooks/usePermissions";
+import { WhatsAppChannelSettings } from "../components/whatsapp/WhatsAppChannelSettings";
+import { WhatsAppAutoReplySettings } from "../components/whatsapp/WhatsAppAutoReplySettings";
+import { WhatsAppConversationView } from "../components/whatsapp/WhatsAppConversationView";
 
 export function WhatsAppPage() {
   const [newMessage, setNewMessage] = useState({
@@ -14,6 +18,10 @@ export function WhatsAppPage() {
     messageBody: "",
   });
   const [showSendForm, setShowSendForm] = useState(false);
+  const [showChannelSettings, setShowChannelSettings] = useState(false);
+  const [showAutoReplySettings, setShowAutoReplySettings] = useState(false);
+  const [selectedPhoneNumber, setSelectedPhoneNumber] = useState<string | null>(null);
+  const { can } = usePermissions();
 
   const { data: status, isLoading: statusLoading } = useWhatsAppStatus();
   const { data: conversations, isLoading: conversationsLoading } =
@@ -91,16 +99,52 @@ export function WhatsAppPage() {
               <BarChart3 className="h-4 w-4 mr-2" />
               Analytics
             </Link>
-            <button
-              onClick={() => setShowSendForm(true)}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700"
-            >
-              <Send className="h-5 w-5 mr-2" />
-              Send Message
-            </button>
+            {can("whatsapp:configure") && (
+              <button
+                onClick={() => setShowChannelSettings(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              >
+                <Settings className="h-4 w-4 mr-2" />
+                Channel Settings
+              </button>
+            )}
+            {can("whatsapp:configure") && (
+              <button
+                onClick={() => setShowAutoReplySettings(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Auto-Replies
+              </button>
+            )}
+            {can("whatsapp:send") && status.data.configured && (
+              <button
+                onClick={() => setShowSendForm(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700"
+              >
+                <Send className="h-5 w-5 mr-2" />
+                Send Message
+              </button>
+            )}
           </div>
         </div>
 
+        {!status.data.configured && (
+          <div className="mb-8 rounded-lg border border-yellow-200 bg-yellow-50 p-4 flex items-start">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-800">
+                No WhatsApp number connected
+              </h3>
+              <p className="mt-1 text-sm text-yellow-700">
+                {can("whatsapp:configure")
+                  ? "Connect your Twilio WhatsApp number in Channel Settings to start sending and receiving messages."
+                  : "Ask an organization admin to connect a Twilio WhatsApp number."}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Status Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-white overflow-hidden shadow rounded-lg">
@@ -115,7 +159,7 @@ export function WhatsAppPage() {
                       WhatsApp Number
                     </dt>
                     <dd className="text-lg font-medium text-gray-900">
-                      {status.data.twilioNumber}
+                      {status.data.twilioNumber || "Not connected"}
                     </dd>
                   </dl>
                 </div>
@@ -177,40 +221,51 @@ export function WhatsAppPage() {
               </div>
             ) : conversations?.data?.conversations?.length > 0 ? (
               <div className="space-y-4">
-                {conversations.data.conversations.map((conversation: WhatsAppConversation) => (
-                  <div
-                    key={conversation._id}
-                    className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className="bg-green-100 rounded-full p-2">
-                          <Phone className="h-5 w-5 text-green-600" />
+                {conversations.data.conversations.map((conversation: WhatsAppConversation) => {
+                  const { latestMessage } = conversation;
+                  const phoneNumber = latestMessage.direction === "outbound"
+                    ? latestMessage.toNumber
+                    : latestMessage.fromNumber;
+
+                  return (
+                    <div
+                      key={conversation._id}
+                      onClick={() => setSelectedPhoneNumber(phoneNumber)}
+                      className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 cursor-pointer"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <div className="bg-green-100 rounded-full p-2">
+                            <Phone className="h-5 w-5 text-green-600" />
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {phoneNumber}
+                            </p>
+                            <p className="text-sm text-gray-500 truncate max-w-md">
+                              {latestMessage.messageBody}
+                            </p>
+                            {latestMessage.direction === "outbound" && latestMessage.status === "failed" && (
+                              <p className="text-xs text-red-600 flex items-center mt-1">
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Last message not delivered
+                              </p>
+                            )}
+                          </div>
                         </div>
-                        <div>
-                          <p className="text-sm font-medium text-gray-900">
-                            {conversation.latestMessage.fromNumber ===
-                            status.data.twilioNumber
-                              ? conversation.latestMessage.toNumber
-                              : conversation.latestMessage.fromNumber}
+                        <div className="text-right">
+                          <p className="text-xs text-gray-500 flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {new Date(conversation.lastActivity).toLocaleString()}
                           </p>
-                          <p className="text-sm text-gray-500 truncate max-w-md">
-                            {conversation.latestMessage.messageBody}
+                          <p className="text-xs text-gray-400 mt-1">
+                            {conversation.messageCount} messages
                           </p>
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="text-xs text-gray-500 flex items-center">
-                          <Clock className="h-3 w-3 mr-1" />
-                          {new Date(conversation.lastActivity).toLocaleString()}
-                        </p>
-                        <p className="text-xs text-gray-400 mt-1">
-                          {conversation.messageCount} messages
-                        </p>
-                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : (
               <div className="text-center py-8">
@@ -226,6 +281,24 @@ export function WhatsAppPage() {
           </div>
         </div>
 
+        {showChannelSettings && (
+          <WhatsAppChannelSettings
+            channel={status.data.channel}
+            onClose={() => setShowChannelSettings(false)}
+          />
+        )}
+
+        {selectedPhoneNumber && (
+          <WhatsAppConversationView
+            phoneNumber={selectedPhoneNumber}
+            onClose={() => setSelectedPhoneNumber(null)}
+          />
+        )}
+
+        {showAutoReplySettings && (
+          <WhatsAppAutoReplySettings onClose={() => setShowAutoReplySettings(false)} />
+        )}
+
         {/* Send Message Modal */}
         {showSendForm && (
           <div className="fixed inset-0 z-50 overflow-y-auto">
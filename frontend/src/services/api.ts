@@ -8,6 +8,7 @@ import {
   CreateContactData,
   ContactsResponse,
   ContactStats,
+  DuplicateContact,
   ContextState,
   ApiResponse,
   Space,
@@ -15,18 +16,38 @@ import {
   SpacesResponse,
   SpaceStats,
   SpaceAvailability,
+  EffectiveSchedule,
+  SpaceSearchParams,
+  SpaceSearchResult,
+  WorkingHours,
   Location,
   CreateLocationData,
   LocationsResponse,
   LocationStats,
+  LocationDateException,
+  CreateLocationDateExceptionData,
+  LocationDayHours,
+  LocationCalendarImportResult,
   ProfileResponse,
-  OperatingHours,
   OnboardingData,
   ProductType,
   CreateProductTypeData,
-  ProductTypesResponse
+  ProductTypesResponse,
+  Organization,
+  OrganizationRole,
+  OrganizationMembershipSummary,
+  AddOrganizationMemberData,
+  AuthTokens,
+  WhatsAppChannel,
+  SaveWhatsAppChannelData,
+  WhatsAppConversationResponse,
+  WhatsAppAutoReplyIntent,
+  WhatsAppAutoReplyTemplate,
+  WhatsAppAutoRepliesResponse,
+  SaveWhatsAppAutoReplyData
 } from '@shared/types';
 import { getApiBaseUrl, logApiConfig } from '../utils/apiConfig';
+import { refreshAccessToken, isAuthEndpoint, clearStoredTokens } from './tokenRefresh';
 
 // Force logging on import
 logApiConfig();
@@ -114,25 +135,16 @@ class ApiService {
           }
         }
         
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Silently rotate the session and replay the request once
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
           originalRequest._retry = true;
           
           try {
-            const refreshToken = localStorage.getItem('cosynq_refresh_token');
-            if (refreshToken) {
-              const response = await this.refreshToken(refreshToken);
-              if (response.data.data) {
-                const { token } = response.data.data;
-                
-                localStorage.setItem('cosynq_token', token);
-                originalRequest.headers.Authorization = `Bearer ${token}`;
-                
-                return this.api(originalRequest);
-              }
-            }
+            const token = await refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
           } catch (refreshError) {
-            this.clearTokens();
-            window.location.href = '/login';
+            console.error('🔒 Session expired, signing out:', refreshError);
           }
         }
         
@@ -142,8 +154,7 @@ class ApiService {
   }
 
   private clearTokens(): void {
-    localStorage.removeItem('cosynq_token');
-    localStorage.removeItem('cosynq_refresh_token');
+    clearStoredTokens();
   }
 
   async register(credentials: RegisterCredentials): Promise<AxiosResponse<AuthResponse>> {
@@ -164,10 +175,16 @@ class ApiService {
     return this.api.get('/auth/profile');
   }
 
-  async refreshToken(refreshToken: string): Promise<AxiosResponse<AuthResponse>> {
+  async refreshToken(refreshToken: string): Promise<AxiosResponse<ApiResponse<AuthTokens>>> {
     return this.api.post('/auth/refresh', { refreshToken });
   }
 
+  async logoutAll(): Promise<AxiosResponse<ApiResponse<{ sessionsRevoked: number }>>> {
+    const response = await this.api.post('/auth/logout-all');
+    this.clearTokens();
+    return response;
+  }
+
   async requestPasswordReset(email: string): Promise<AxiosResponse<ApiResponse<{
     message: string;
     resetTokenSent: boolean;
@@ -194,6 +211,17 @@ class ApiService {
     return this.api.get(`/auth/validate-reset-token/${token}`);
   }
 
+  async verifyEmail(token: string): Promise<AxiosResponse<ApiResponse<{
+    email: string;
+    isEmailVerified: boolean;
+  }>>> {
+    return this.api.post('/auth/verify-email', { token });
+  }
+
+  async resendVerificationEmail(): Promise<AxiosResponse<ApiResponse<{}>>> {
+    return this.api.post('/auth/resend-verification');
+  }
+
   async checkHealth(): Promise<AxiosResponse> {
     return this.api.get('/health');
   }
@@ -253,6 +281,14 @@ class ApiService {
     return this.api.delete(`/contacts/${id}`);
   }
 
+  async getContactDuplicates(id: string): Promise<AxiosResponse<ApiResponse<{ duplicates: DuplicateContact[] }>>> {
+    return this.api.get(`/contacts/${id}/duplicates`);
+  }
+
+  async mergeContact(id: string, sourceContactId: string): Promise<AxiosResponse<ApiResponse<{ contact: Contact }>>> {
+    return this.api.post(`/contacts/${id}/merge`, { sourceContactId });
+  }
+
   async addInteraction(contactId: string, interaction: {
     type: 'call' | 'email' | 'meeting' | 'note' | 'tour' | 'ai_conversation';
     subject?: string;
@@ -339,6 +375,24 @@ class ApiService {
     return this.api.get(`/spaces/availability?${queryParams.toString()}`);
   }
 
+  async searchSpaces(params: SpaceSearchParams): Promise<AxiosResponse<ApiResponse<{ criteria: SpaceSearchParams; results: SpaceSearchResult[] }>>> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, value.toString());
+      }
+    });
+    return this.api.get(`/spaces/search?${queryParams.toString()}`);
+  }
+
+  async previewEffectiveSchedule(data: {
+    spaceId?: string;
+    workingHours: WorkingHours[];
+    useProductTypeHours?: boolean;
+  }): Promise<AxiosResponse<ApiResponse<EffectiveSchedule>>> {
+    return this.api.post('/spaces/effective-schedule', data);
+  }
+
   // Location Management Methods
   async getLocations(params?: {
     page?: number;
@@ -391,12 +445,39 @@ class ApiService {
     isOpen: boolean;
     currentTime: string;
     currentDay: string;
-    todayHours: OperatingHours | null;
+    todayHours: LocationDayHours;
     timezone: string;
   }>>> {
     return this.api.get(`/locations/${id}/hours`);
   }
 
+  async getLocationDateExceptions(id: string, params?: { from?: string; to?: string }): Promise<AxiosResponse<ApiResponse<{
+    dateExceptions: LocationDateException[];
+    todayHours: LocationDayHours;
+  }>>> {
+    const queryParams = new URLSearchParams();
+    if (params?.from) queryParams.append('from', params.from);
+    if (params?.to) queryParams.append('to', params.to);
+    const queryString = queryParams.toString();
+    return this.api.get(`/locations/${id}/date-exceptions${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async addLocationDateException(id: string, data: CreateLocationDateExceptionData): Promise<AxiosResponse<ApiResponse<{ dateException: LocationDateException }>>> {
+    return this.api.post(`/locations/${id}/date-exceptions`, data);
+  }
+
+  async updateLocationDateException(id: string, exceptionId: string, data: Partial<CreateLocationDateExceptionData>): Promise<AxiosResponse<ApiResponse<{ dateException: LocationDateException }>>> {
+    return this.api.put(`/locations/${id}/date-exceptions/${exceptionId}`, data);
+  }
+
+  async deleteLocationDateException(id: string, exceptionId: string): Promise<AxiosResponse<ApiResponse<{}>>> {
+    return this.api.delete(`/locations/${id}/date-exceptions/${exceptionId}`);
+  }
+
+  async importLocationCalendar(id: string, calendar: string): Promise<AxiosResponse<ApiResponse<LocationCalendarImportResult>>> {
+    return this.api.post(`/locations/${id}/date-exceptions/import`, { calendar });
+  }
+
   // Onboarding Management Methods
   async getOnboardingStatus(): Promise<AxiosResponse<ApiResponse<{
     onboardingCompleted: boolean;
@@ -442,6 +523,41 @@ class ApiService {
     return this.api.post('/onboarding/reset', { resetData });
   }
 
+  // Organization Management Methods
+  async getOrganization(): Promise<AxiosResponse<ApiResponse<{
+    organization: Organization;
+    membership: { userId: string; role: OrganizationRole; joinedAt: string };
+  }>>> {
+    return this.api.get('/organization');
+  }
+
+  async updateOrganization(data: { name: string }): Promise<AxiosResponse<ApiResponse<{ organization: Organization }>>> {
+    return this.api.put('/organization', data);
+  }
+
+  async getOrganizationMemberships(): Promise<AxiosResponse<ApiResponse<{ organizations: OrganizationMembershipSummary[] }>>> {
+    return this.api.get('/organization/memberships');
+  }
+
+  async switchOrganization(organizationId: string): Promise<AxiosResponse<ApiResponse<AuthTokens & {
+    organization: Organization;
+    membership: { userId: string; role: OrganizationRole; joinedAt: string };
+  }>>> {
+    return this.api.post('/organization/switch', { organizationId });
+  }
+
+  async addOrganizationMember(data: AddOrganizationMemberData): Promise<AxiosResponse<ApiResponse<{ organization: Organization }>>> {
+    return this.api.post('/organization/members', data);
+  }
+
+  async updateOrganizationMember(userId: string, role: OrganizationRole): Promise<AxiosResponse<ApiResponse<{ organization: Organization }>>> {
+    return this.api.put(`/organization/members/${userId}`, { role });
+  }
+
+  async removeOrganizationMember(userId: string): Promise<AxiosResponse<ApiResponse<{}>>> {
+    return this.api.delete(`/organization/members/${userId}`);
+  }
+
   // ProductType Management Methods
   async getProductTypes(params?: {
     page?: number;
@@ -507,8 +623,32 @@ class ApiService {
     return this.api.get('/whatsapp/conversations');
   }
 
-  async getWhatsAppConversation(phoneNumber: string): Promise<AxiosResponse> {
-    return this.api.get(`/whatsapp/conversation/${phoneNumber}`);
+  async getWhatsAppConversation(phoneNumber: string): Promise<AxiosResponse<ApiResponse<WhatsAppConversationResponse>>> {
+    return this.api.get(`/whatsapp/conversation/${encodeURIComponent(phoneNumber)}`);
+  }
+
+  async getWhatsAppChannel(): Promise<AxiosResponse<ApiResponse<{ channel: WhatsAppChannel | null }>>> {
+    return this.api.get('/whatsapp/channel');
+  }
+
+  async saveWhatsAppChannel(data: SaveWhatsAppChannelData): Promise<AxiosResponse<ApiResponse<{ channel: WhatsAppChannel }>>> {
+    return this.api.put('/whatsapp/channel', data);
+  }
+
+  async deleteWhatsAppChannel(): Promise<AxiosResponse<ApiResponse<{}>>> {
+    return this.api.delete('/whatsapp/channel');
+  }
+
+  async getWhatsAppAutoReplies(): Promise<AxiosResponse<ApiResponse<WhatsAppAutoRepliesResponse>>> {
+    return this.api.get('/whatsapp/auto-replies');
+  }
+
+  async saveWhatsAppAutoReply(intent: WhatsAppAutoReplyIntent, data: SaveWhatsAppAutoReplyData): Promise<AxiosResponse<ApiResponse<{ template: WhatsAppAutoReplyTemplate }>>> {
+    return this.api.put(`/whatsapp/auto-replies/${intent}`, data);
+  }
+
+  async resetWhatsAppAutoReply(intent: WhatsAppAutoReplyIntent): Promise<AxiosResponse<ApiResponse<{ template: WhatsAppAutoReplyTemplate }>>> {
+    return this.api.delete(`/whatsapp/auto-replies/${intent}`);
   }
 }
 
@@ -1,19 +1,190 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { CreditUnit, BookingBuffers } from '@shared/types';
 
 // TypeScript Interfaces for Booking Data
 export type BookingStatus = 'Pending' | 'Confirmed' | 'Cancelled' | 'Completed' | 'No Show';
 export type PaymentStatus = 'Pending' | 'Paid' | 'Refunded' | 'Failed';
 
+// Recurring bookings (RFC 5545 RRULE compatible)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+export type BookingSeriesScope = 'this' | 'following' | 'series';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: RecurrenceWeekday[];
+  // Exactly one of count or until
+  count?: number;
+  until?: string;
+}
+
+export interface BookingSeriesSummary {
+  _id: string;
+  recurrence: RecurrenceRule;
+  rrule: string;
+  status: 'Active' | 'Cancelled';
+}
+
+export interface FailedOccurrence {
+  bookingId?: string;
+  startTime: string;
+  endTime: string;
+  statusCode: number;
+  message: string;
+}
+
+export type PriceLineItemType = 'base' | 'tier' | 'member_discount' | 'included' | 'credits' | 'add_on';
+
+export interface PriceLineItem {
+  type: PriceLineItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+}
+
+export interface BookingCreditUsage {
+  planId: string;
+  unit: CreditUnit;
+  amount: number;
+  periodEnd: string; // Period the credits were drawn from
+}
+
+export interface PriceBreakdown {
+  pricingType: string;
+  membershipType?: string;
+  credits?: BookingCreditUsage;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discountAmount: number;
+  quotedAt: string;
+}
+
+export interface BookingAddOn {
+  name: string;
+  quantity?: number;
+}
+
+export interface AvailableAddOn {
+  name: string;
+  price: number;
+  currency: string;
+  description?: string;
+}
+
+export interface QuotedCredits {
+  planId: string;
+  planName: string;
+  unit: CreditUnit;
+  used: number;
+  balance: number; // Available before this booking
+  periodEnd: string;
+}
+
+export interface BookingQuote {
+  currency: string;
+  durationMinutes: number;
+  pricingType: string;
+  membershipType?: string;
+  credits?: QuotedCredits;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discountAmount: number;
+  totalAmount: number;
+  availableAddOns: AvailableAddOn[];
+}
+
+export interface QuoteBookingData {
+  spaceId: string;
+  contactId?: string;
+  startTime: string;
+  endTime: string;
+  addOns?: BookingAddOn[];
+  attendeeCount?: number; // Seat-booked spaces charge every attendee
+  recurring?: boolean; // Recurring bookings are not paid with membership credits
+}
+
+export interface CancellationPolicy {
+  hoursBeforeStart: number;
+  refundPercentage: number;
+  description?: string;
+}
+
+export interface CancellationQuote {
+  canCancel: boolean;
+  reason?: string;
+  policy: CancellationPolicy;
+  hoursRemaining: number;
+  withinPolicy: boolean;
+  amountPaid: number;
+  refundPercentage: number;
+  refundAmount: number;
+  currency: string;
+  creditsUsed: number; // Membership credits the booking was paid with
+  creditRefund: number; // Credits returned, at the same percentage as money
+  creditUnit?: CreditUnit;
+}
+
+export interface CancellationPreview {
+  cancellation: CancellationQuote; // This booking
+  occurrenceCount: number; // Bookings the cancellation applies to
+  totalRefundAmount: number;
+}
+
+export interface CancellationRefund {
+  amount: number;
+  percentage: number;
+  currency: string;
+  policyHoursBeforeStart: number;
+  policyRefundPercentage: number;
+  credits?: number; // Membership credits returned
+  calculatedAt: string;
+}
+
+// Time actually used, recorded at check-out
+export interface BookingUsage {
+  actualMinutes: number;
+  overtimeMinutes: number;
+  overtimeAmount: number; // Billed on the booking's invoice
+  currency: string;
+  recordedAt: string;
+}
+
+export interface CheckInCode {
+  url: string;
+  qrSvg: string;
+}
+
+// Booking as shown to the customer after scanning its check-in code
+export interface CheckInDetails {
+  bookingReference: string;
+  status: BookingStatus;
+  organizationName?: string;
+  spaceName?: string;
+  locationName?: string;
+  timezone: string;
+  startTime: string;
+  endTime: string;
+  attendeeCount: number;
+  checkedIn: boolean;
+  checkInTime?: string;
+  checkOutTime?: string;
+  usage?: BookingUsage;
+}
+
 export interface BookingData {
   _id: string;
   organizationId: string;
   spaceId: string;
   contactId?: string;
+  seriesId?: string | BookingSeriesSummary; // Populated in lists and details
   
   // Booking Details
   startTime: string;
   endTime: string;
   status: BookingStatus;
+  holdExpiresAt?: string; // Pending bookings are cancelled automatically once this passes
   
   // Customer Information (for non-contact bookings)
   customerName?: string;
@@ -29,22 +200,28 @@ export interface BookingData {
   totalAmount: number;
   currency: string;
   paymentStatus: PaymentStatus;
+  priceBreakdown?: PriceBreakdown;
   
   // Check-in/Check-out
   checkedIn: boolean;
   checkInTime?: string;
   checkOutTime?: string;
+  usage?: BookingUsage;
   
   // Metadata
   bookingReference: string;
   notes?: string;
   cancelReason?: string;
+  cancellationRefund?: CancellationRefund;
   
   createdBy: string;
   updatedBy: string;
   createdAt: string;
   updatedAt: string;
   
+  // Setup and teardown the space keeps free around the booking (lists only)
+  buffers?: BookingBuffers;
+
   // Populated references
   space?: {
     _id: string;
@@ -78,12 +255,24 @@ export interface CreateBookingData {
   attendeeCount: number;
   specialRequests?: string;
   
-  // Pricing
-  totalAmount: number;
+  // Pricing: the server computes the total; a provided total must match its quote
+  totalAmount?: number;
   currency?: string;
+  addOns?: BookingAddOn[];
   
   // Notes
   notes?: string;
+
+  // Repeat the booking; an RRULE string is accepted too
+  recurrence?: RecurrenceRule | string;
+}
+
+export interface CreateBookingResponse {
+  booking: BookingData;
+  // Recurring bookings only
+  series?: BookingSeriesSummary;
+  bookings?: BookingData[];
+  failedOccurrences?: FailedOccurrence[];
 }
 
 export interface UpdateBookingData {
@@ -110,6 +299,9 @@ export interface UpdateBookingData {
   checkedIn?: boolean;
   checkInTime?: string;
   checkOutTime?: string;
+
+  // Recurring bookings: which occurrences the update applies to
+  scope?: BookingSeriesScope;
 }
 
 export interface BookingStats {
@@ -148,12 +340,14 @@ export interface AvailabilityResponse {
   availableSlots: Array<{
     startTime: string;
     endTime: string;
+    seatsRemaining?: number; // Seat-booked spaces only
   }>;
   conflictingBookings: Array<{
     bookingId: string;
     startTime: string;
     endTime: string;
     status: BookingStatus;
+    attendeeCount: number;
   }>;
 }
 
@@ -168,6 +362,7 @@ export interface ApiResponse<T> {
 }
 
 import { getApiBaseUrl } from '../utils/apiConfig';
+import { refreshAccessToken, isAuthEndpoint } from './tokenRefresh';
 
 const API_BASE_URL = getApiBaseUrl();
 
@@ -216,26 +411,16 @@ class BookingApiService {
           }
         }
         
-        // Handle authentication errors
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle authentication errors by rotating the session and replaying once
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
           originalRequest._retry = true;
           
           try {
-            const refreshToken = localStorage.getItem('cosynq_refresh_token');
-            if (refreshToken) {
-              const response = await this.refreshToken(refreshToken);
-              if (response.data.data) {
-                const { token } = response.data.data;
-                
-                localStorage.setItem('cosynq_token', token);
-                originalRequest.headers.Authorization = `Bearer ${token}`;
-                
-                return this.api(originalRequest);
-              }
-            }
+            const token = await refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
           } catch (refreshError) {
-            this.clearTokens();
-            window.location.href = '/login';
+            console.error('Session expired:', refreshError);
           }
         }
         
@@ -244,15 +429,6 @@ class BookingApiService {
     );
   }
 
-  private clearTokens(): void {
-    localStorage.removeItem('cosynq_token');
-    localStorage.removeItem('cosynq_refresh_token');
-  }
-
-  private async refreshToken(refreshToken: string): Promise<AxiosResponse<ApiResponse<{ token: string }>>> {
-    return this.api.post('/auth/refresh', { refreshToken });
-  }
-
   // Booking CRUD Operations
   async getBookings(params?: {
     page?: number;
@@ -284,35 +460,73 @@ class BookingApiService {
     return this.api.get(`/bookings/${id}`);
   }
 
-  async createBooking(bookingData: CreateBookingData): Promise<AxiosResponse<ApiResponse<{ booking: BookingData }>>> {
+  async createBooking(bookingData: CreateBookingData): Promise<AxiosResponse<ApiResponse<CreateBookingResponse>>> {
     console.log('Creating booking with data:', JSON.stringify(bookingData, null, 2));
     return this.api.post('/bookings', bookingData);
   }
 
+  async quoteBooking(quoteData: QuoteBookingData): Promise<AxiosResponse<ApiResponse<{ quote: BookingQuote }>>> {
+    return this.api.post('/bookings/quote', quoteData);
+  }
+
   async updateBooking(id: string, bookingData: UpdateBookingData): Promise<AxiosResponse<ApiResponse<{ booking: BookingData }>>> {
     console.log('Updating booking:', id, 'with data:', JSON.stringify(bookingData, null, 2));
     return this.api.put(`/bookings/${id}`, bookingData);
   }
 
-  async deleteBooking(id: string, cancelReason?: string): Promise<AxiosResponse<ApiResponse<{}>>> {
-    const data = cancelReason ? { cancelReason } : {};
+  async deleteBooking(id: string, cancelReason?: string, scope?: BookingSeriesScope): Promise<AxiosResponse<ApiResponse<{
+    booking: BookingData;
+    cancellation?: CancellationQuote;
+    cancelledCount?: number;
+    refundAmount?: number;
+    failedOccurrences?: FailedOccurrence[];
+  }>>> {
+    const data = {
+      ...(cancelReason ? { cancelReason } : {}),
+      ...(scope ? { scope } : {})
+    };
     return this.api.delete(`/bookings/${id}`, { data });
   }
 
+  async getCancellationQuote(id: string, scope?: BookingSeriesScope): Promise<AxiosResponse<ApiResponse<CancellationPreview>>> {
+    return this.api.get(`/bookings/${id}/cancellation${scope ? `?scope=${scope}` : ''}`);
+  }
+
   async getBookingStats(): Promise<AxiosResponse<ApiResponse<BookingStats>>> {
     return this.api.get('/bookings/stats');
   }
 
+  async getCheckInCode(id: string): Promise<AxiosResponse<ApiResponse<{ checkInCode: CheckInCode }>>> {
+    return this.api.get(`/bookings/${id}/check-in-code`);
+  }
+
+  // Public check-in endpoints, authorized by the booking's QR code token
+  async getCheckInByToken(token: string): Promise<AxiosResponse<ApiResponse<{ checkIn: CheckInDetails }>>> {
+    return this.api.get(`/bookings/check-in/${token}`);
+  }
+
+  async checkInByToken(token: string, spaceId?: string): Promise<AxiosResponse<ApiResponse<{ checkIn: CheckInDetails }>>> {
+    return this.api.post(`/bookings/check-in/${token}/check-in`, spaceId ? { spaceId } : {});
+  }
+
+  async checkOutByToken(token: string): Promise<AxiosResponse<ApiResponse<{ checkIn: CheckInDetails }>>> {
+    return this.api.post(`/bookings/check-in/${token}/check-out`);
+  }
+
   // Space Availability Operations
   async checkAvailability(spaceId: string, params: {
     date: string;
     duration?: number;
+    attendeeCount?: number;
   }): Promise<AxiosResponse<ApiResponse<AvailabilityResponse>>> {
     const queryParams = new URLSearchParams();
     queryParams.append('date', params.date);
     if (params.duration) {
       queryParams.append('duration', params.duration.toString());
     }
+    if (params.attendeeCount) {
+      queryParams.append('attendeeCount', params.attendeeCount.toString());
+    }
     
     return this.api.get(`/spaces/${spaceId}/availability?${queryParams.toString()}`);
   }
@@ -0,0 +1,240 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { ApiResponse } from './bookingApi';
+
+// Invoice Types
+export type InvoiceStatus = 'Issued' | 'Partially Paid' | 'Paid' | 'Partially Refunded' | 'Refunded' | 'Void';
+export type InvoiceSourceType = 'booking' | 'membership';
+export type InvoicePaymentMethod = 'card' | 'upi' | 'bank_transfer' | 'cash' | 'other';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+}
+
+export interface InvoiceTax {
+  name: string;
+  rate: number; // Percentage
+  amount: number;
+}
+
+export interface InvoiceData {
+  _id: string;
+  invoiceNumber: string;
+  sourceType: InvoiceSourceType;
+  bookingId?: string;
+  contactId?: string;
+  locationId?: string;
+  membership?: {
+    planType: string;
+    periodStart: string;
+    periodEnd: string;
+  };
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    company?: string;
+  };
+  sellerTaxId?: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  taxes: InvoiceTax[];
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  amountRefunded: number;
+  currency: string;
+  status: InvoiceStatus;
+  issuedAt: string;
+  dueDate?: string;
+  notes?: string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvoicePayment {
+  _id: string;
+  invoiceId: string;
+  type: 'payment' | 'refund';
+  amount: number;
+  currency: string;
+  method: InvoicePaymentMethod;
+  status: 'Succeeded' | 'Failed';
+  provider: string;
+  providerReference?: string;
+  refundedPaymentId?: string;
+  failureReason?: string;
+  processedAt: string;
+  notes?: string;
+}
+
+export type CreateInvoiceData =
+  | {
+      sourceType: 'booking';
+      bookingId: string;
+      dueDate?: string;
+      notes?: string;
+    }
+  | {
+      sourceType: 'membership';
+      contactId: string;
+      periodStart: string;
+      periodEnd: string;
+      amount?: number; // Defaults to the contact's monthly rate
+      currency?: string;
+      locationId?: string;
+      dueDate?: string;
+      notes?: string;
+    };
+
+export interface RecordPaymentData {
+  amount?: number; // Defaults to the balance due
+  method: InvoicePaymentMethod;
+  token?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface RefundInvoiceData {
+  amount?: number; // Defaults to the booking's cancellation refund, else everything paid
+  reason?: string;
+}
+
+export interface InvoicesResponse {
+  invoices: InvoiceData[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    itemsPerPage: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export const getInvoiceBalanceDue = (invoice: InvoiceData): number =>
+  invoice.status === 'Void' ? 0 : Math.max(0, Math.round((invoice.total - invoice.amountPaid) * 100) / 100);
+
+export const getInvoiceRefundableAmount = (invoice: InvoiceData): number =>
+  Math.max(0, Math.round((invoice.amountPaid - invoice.amountRefunded) * 100) / 100);
+
+import { getApiBaseUrl } from '../utils/apiConfig';
+import { refreshAccessToken, isAuthEndpoint } from './tokenRefresh';
+
+const API_BASE_URL = getApiBaseUrl();
+
+class InvoiceApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: API_BASE_URL,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      withCredentials: true,
+    });
+
+    // Request interceptor to add authentication token
+    this.api.interceptors.request.use(
+      (config) => {
+        const token = localStorage.getItem('cosynq_token');
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Response interceptor for error handling
+    this.api.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const originalRequest = error.config;
+        
+        // Handle onboarding required responses
+        if (error.response?.status === 403 && error.response?.data?.code === 'ONBOARDING_REQUIRED') {
+          const onboardingData = error.response.data.data;
+          localStorage.setItem('cosynq_onboarding_required', 'true');
+          if (onboardingData) {
+            localStorage.setItem('cosynq_onboarding_data', JSON.stringify(onboardingData));
+          }
+          
+          const currentPath = window.location.pathname;
+          if (!currentPath.includes('/onboarding') && !currentPath.includes('/setup')) {
+            window.location.href = '/onboarding';
+            return Promise.reject(error);
+          }
+        }
+        
+        // Handle authentication errors by rotating the session and replaying once
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
+          originalRequest._retry = true;
+          
+          try {
+            const token = await refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
+          } catch (refreshError) {
+            console.error('Session expired:', refreshError);
+          }
+        }
+        
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  async getInvoices(params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    status?: InvoiceStatus;
+    sourceType?: InvoiceSourceType;
+    bookingId?: string;
+    contactId?: string;
+  }): Promise<AxiosResponse<ApiResponse<InvoicesResponse>>> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.api.get(`/invoices${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getInvoice(id: string): Promise<AxiosResponse<ApiResponse<{ invoice: InvoiceData; payments: InvoicePayment[] }>>> {
+    return this.api.get(`/invoices/${id}`);
+  }
+
+  async createInvoice(invoiceData: CreateInvoiceData): Promise<AxiosResponse<ApiResponse<{ invoice: InvoiceData }>>> {
+    return this.api.post('/invoices', invoiceData);
+  }
+
+  async recordPayment(id: string, paymentData: RecordPaymentData): Promise<AxiosResponse<ApiResponse<{ invoice: InvoiceData; payment: InvoicePayment }>>> {
+    return this.api.post(`/invoices/${id}/payments`, paymentData);
+  }
+
+  async refundInvoice(id: string, refundData: RefundInvoiceData): Promise<AxiosResponse<ApiResponse<{ invoice: InvoiceData; refunds: InvoicePayment[] }>>> {
+    return this.api.post(`/invoices/${id}/refunds`, refundData);
+  }
+
+  async voidInvoice(id: string, reason?: string): Promise<AxiosResponse<ApiResponse<{ invoice: InvoiceData }>>> {
+    return this.api.post(`/invoices/${id}/void`, { reason });
+  }
+
+  async downloadInvoicePdf(id: string): Promise<Blob> {
+    const response = await this.api.get(`/invoices/${id}/pdf`, { responseType: 'blob' });
+    return response.data;
+  }
+}
+
+export const invoiceApiService = new InvoiceApiService();
+export default invoiceApiService;
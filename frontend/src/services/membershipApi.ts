@@ -0,0 +1,186 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { ApiResponse } from './bookingApi';
+import { InvoiceData } from './invoiceApi';
+import { ContactSubscription, CreditUnit, SpaceType } from '@shared/types';
+
+// Membership Types
+export type CreditTransactionType = 'grant' | 'usage' | 'release' | 'expiry';
+
+export interface MembershipAllowance {
+  unit: CreditUnit; // Hours of booking time, or credits worth `creditValue` each
+  amount: number; // Granted every billing period; unused balance expires at renewal
+  creditValue?: number;
+  spaceTypes: SpaceType[];
+}
+
+export interface MembershipPlanData {
+  _id: string;
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  currency: string;
+  allowance: MembershipAllowance;
+  hotDeskAccess: boolean;
+  allowedLocationIds: string[]; // Empty means every location
+  isActive: boolean;
+  subscriberCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMembershipPlanData {
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  currency?: string;
+  allowance: {
+    unit: CreditUnit;
+    amount: number;
+    creditValue?: number;
+    spaceTypes?: SpaceType[];
+  };
+  hotDeskAccess?: boolean;
+  allowedLocationIds?: string[];
+  isActive?: boolean;
+}
+
+export interface CreditTransactionData {
+  _id: string;
+  contactId: string;
+  planId: string;
+  bookingId?: {
+    _id: string;
+    bookingReference: string;
+    startTime: string;
+    endTime: string;
+  };
+  type: CreditTransactionType;
+  amount: number; // Positive for grants and releases
+  unit: CreditUnit;
+  balanceAfter: number;
+  note?: string;
+  createdAt: string;
+}
+
+export interface ContactCreditsResponse {
+  subscription: ContactSubscription | null;
+  plan: MembershipPlanData | null;
+  transactions: CreditTransactionData[];
+}
+
+export interface SubscribeContactData {
+  planId: string;
+  startDate?: string;
+  autoRenew?: boolean;
+  createInvoice?: boolean;
+}
+
+export const formatCreditAmount = (amount: number, unit: CreditUnit): string => {
+  const value = Math.round(amount * 100) / 100;
+  if (unit === 'hours') return `${value} ${value === 1 ? 'hour' : 'hours'}`;
+  return `${value} ${value === 1 ? 'credit' : 'credits'}`;
+};
+
+import { getApiBaseUrl } from '../utils/apiConfig';
+import { refreshAccessToken, isAuthEndpoint } from './tokenRefresh';
+
+const API_BASE_URL = getApiBaseUrl();
+
+class MembershipApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: API_BASE_URL,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      withCredentials: true,
+    });
+
+    // Request interceptor to add authentication token
+    this.api.interceptors.request.use(
+      (config) => {
+        const token = localStorage.getItem('cosynq_token');
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Response interceptor for error handling
+    this.api.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const originalRequest = error.config;
+        
+        // Handle onboarding required responses
+        if (error.response?.status === 403 && error.response?.data?.code === 'ONBOARDING_REQUIRED') {
+          const onboardingData = error.response.data.data;
+          localStorage.setItem('cosynq_onboarding_required', 'true');
+          if (onboardingData) {
+            localStorage.setItem('cosynq_onboarding_data', JSON.stringify(onboardingData));
+          }
+          
+          const currentPath = window.location.pathname;
+          if (!currentPath.includes('/onboarding') && !currentPath.includes('/setup')) {
+            window.location.href = '/onboarding';
+            return Promise.reject(error);
+          }
+        }
+        
+        // Handle authentication errors by rotating the session and replaying once
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
+          originalRequest._retry = true;
+          
+          try {
+            const token = await refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
+          } catch (refreshError) {
+            console.error('Session expired:', refreshError);
+          }
+        }
+        
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  async getMembershipPlans(includeInactive = false): Promise<AxiosResponse<ApiResponse<{ plans: MembershipPlanData[] }>>> {
+    return this.api.get(`/membership-plans${includeInactive ? '?includeInactive=true' : ''}`);
+  }
+
+  async createMembershipPlan(planData: CreateMembershipPlanData): Promise<AxiosResponse<ApiResponse<{ plan: MembershipPlanData }>>> {
+    return this.api.post('/membership-plans', planData);
+  }
+
+  async updateMembershipPlan(id: string, planData: Partial<CreateMembershipPlanData>): Promise<AxiosResponse<ApiResponse<{ plan: MembershipPlanData }>>> {
+    return this.api.put(`/membership-plans/${id}`, planData);
+  }
+
+  async deleteMembershipPlan(id: string): Promise<AxiosResponse<ApiResponse<void>>> {
+    return this.api.delete(`/membership-plans/${id}`);
+  }
+
+  async getContactCredits(contactId: string): Promise<AxiosResponse<ApiResponse<ContactCreditsResponse>>> {
+    return this.api.get(`/contacts/${contactId}/credits`);
+  }
+
+  async subscribeContact(contactId: string, subscribeData: SubscribeContactData): Promise<AxiosResponse<ApiResponse<{
+    subscription: ContactSubscription;
+    plan: MembershipPlanData;
+    invoice?: InvoiceData;
+  }>>> {
+    return this.api.post(`/contacts/${contactId}/subscription`, subscribeData);
+  }
+
+  async cancelSubscription(contactId: string, immediately = false): Promise<AxiosResponse<ApiResponse<{ subscription: ContactSubscription }>>> {
+    return this.api.delete(`/contacts/${contactId}/subscription`, { data: { immediately } });
+  }
+}
+
+export const membershipApiService = new MembershipApiService();
+export default membershipApiService;
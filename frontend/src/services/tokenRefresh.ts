@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { ApiResponse, AuthTokens } from '@shared/types';
+import { getApiBaseUrl } from '../utils/apiConfig';
+
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Shared by every API client so concurrent 401s trigger a single rotation
+let refreshPromise: Promise<string> | null = null;
+
+export const clearStoredTokens = (): void => {
+  localStorage.removeItem('cosynq_token');
+  localStorage.removeItem('cosynq_refresh_token');
+};
+
+/**
+ * Subscribe to the session ending because the refresh token was rejected
+ */
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Requests that must never trigger a refresh-and-retry cycle
+ */
+export const isAuthEndpoint = (url?: string): boolean => {
+  if (!url) return false;
+  return ['/auth/login', '/auth/register', '/auth/refresh'].some(path => url.includes(path));
+};
+
+const requestNewTokens = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('cosynq_refresh_token');
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Plain axios so the refresh call bypasses the clients' own interceptors
+  const response = await axios.post<ApiResponse<AuthTokens>>(
+    `${getApiBaseUrl()}/auth/refresh`,
+    { refreshToken },
+    { withCredentials: true }
+  );
+
+  const tokens = response.data.data;
+  if (!tokens) {
+    throw new Error('Refresh response did not include tokens');
+  }
+
+  // The server rotates refresh tokens, so the old one is now unusable
+  localStorage.setItem('cosynq_token', tokens.token);
+  localStorage.setItem('cosynq_refresh_token', tokens.refreshToken);
+  return tokens.token;
+};
+
+/**
+ * Exchange the stored refresh token for a new token pair and return the new access token.
+ * When the refresh fails the stored tokens are cleared and session-expired listeners are notified.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens()
+      .catch((error) => {
+        clearStoredTokens();
+        sessionExpiredListeners.forEach(listener => listener());
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
@@ -0,0 +1,182 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { ApiResponse } from './bookingApi';
+
+// Waitlist Types
+export type WaitlistStatus = 'Waiting' | 'Offered' | 'Booked' | 'Declined' | 'Expired' | 'Cancelled';
+
+export interface WaitlistEntryData {
+  _id: string;
+  contactId: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    email?: string;
+    phone?: string;
+  };
+  spaceId: {
+    _id: string;
+    name: string;
+    type: string;
+    capacity: number;
+  };
+  anySpaceOfType: boolean; // Any space of the same product type will do
+  startTime: string;
+  endTime: string;
+  attendeeCount: number;
+  purpose?: string;
+  status: WaitlistStatus;
+  offer?: {
+    bookingId: {
+      _id: string;
+      bookingReference: string;
+      status: string;
+      totalAmount: number;
+      currency: string;
+    };
+    spaceId: {
+      _id: string;
+      name: string;
+      type: string;
+    };
+    offeredAt: string;
+    expiresAt: string;
+  };
+  offerCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JoinWaitlistData {
+  contactId: string;
+  spaceId: string;
+  startTime: string;
+  endTime: string;
+  attendeeCount?: number;
+  anySpaceOfType?: boolean;
+  purpose?: string;
+}
+
+export interface WaitlistQueryParams {
+  status?: WaitlistStatus | 'open';
+  spaceId?: string;
+  locationId?: string;
+  contactId?: string;
+}
+
+// Offer as shown to the customer through the emailed link
+export interface WaitlistOfferData {
+  status: WaitlistStatus;
+  organizationName?: string;
+  spaceName?: string;
+  locationName?: string;
+  timezone: string;
+  startTime: string;
+  endTime: string;
+  attendeeCount: number;
+  expiresAt: string;
+}
+
+import { getApiBaseUrl } from '../utils/apiConfig';
+import { refreshAccessToken, isAuthEndpoint } from './tokenRefresh';
+
+const API_BASE_URL = getApiBaseUrl();
+
+class WaitlistApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: API_BASE_URL,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      withCredentials: true,
+    });
+
+    // Request interceptor to add authentication token
+    this.api.interceptors.request.use(
+      (config) => {
+        const token = localStorage.getItem('cosynq_token');
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Response interceptor for error handling
+    this.api.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const originalRequest = error.config;
+        
+        // Handle onboarding required responses
+        if (error.response?.status === 403 && error.response?.data?.code === 'ONBOARDING_REQUIRED') {
+          const onboardingData = error.response.data.data;
+          localStorage.setItem('cosynq_onboarding_required', 'true');
+          if (onboardingData) {
+            localStorage.setItem('cosynq_onboarding_data', JSON.stringify(onboardingData));
+          }
+          
+          const currentPath = window.location.pathname;
+          if (!currentPath.includes('/onboarding') && !currentPath.includes('/setup')) {
+            window.location.href = '/onboarding';
+            return Promise.reject(error);
+          }
+        }
+        
+        // Handle authentication errors by rotating the session and replaying once
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
+          originalRequest._retry = true;
+          
+          try {
+            const token = await refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
+          } catch (refreshError) {
+            console.error('Session expired:', refreshError);
+          }
+        }
+        
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  async getWaitlist(params?: WaitlistQueryParams): Promise<AxiosResponse<ApiResponse<{ entries: WaitlistEntryData[] }>>> {
+    return this.api.get('/waitlist', { params });
+  }
+
+  async joinWaitlist(joinData: JoinWaitlistData): Promise<AxiosResponse<ApiResponse<{ entry: WaitlistEntryData; position: number }>>> {
+    return this.api.post('/waitlist', joinData);
+  }
+
+  async acceptOffer(id: string): Promise<AxiosResponse<ApiResponse<{ entry: WaitlistEntryData }>>> {
+    return this.api.post(`/waitlist/${id}/accept`);
+  }
+
+  async declineOffer(id: string): Promise<AxiosResponse<ApiResponse<{ entry: WaitlistEntryData }>>> {
+    return this.api.post(`/waitlist/${id}/decline`);
+  }
+
+  async removeFromWaitlist(id: string): Promise<AxiosResponse<ApiResponse<void>>> {
+    return this.api.delete(`/waitlist/${id}`);
+  }
+
+  // Public offer link endpoints, authorized by the emailed token
+  async getOfferByToken(token: string): Promise<AxiosResponse<ApiResponse<{ offer: WaitlistOfferData }>>> {
+    return this.api.get(`/waitlist/offers/${token}`);
+  }
+
+  async acceptOfferByToken(token: string): Promise<AxiosResponse<ApiResponse<{ bookingReference: string }>>> {
+    return this.api.post(`/waitlist/offers/${token}/accept`);
+  }
+
+  async declineOfferByToken(token: string): Promise<AxiosResponse<ApiResponse<void>>> {
+    return this.api.post(`/waitlist/offers/${token}/decline`);
+  }
+}
+
+export const waitlistApiService = new WaitlistApiService();
+export default waitlistApiService;
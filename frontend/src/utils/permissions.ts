@@ -0,0 +1,57 @@
+// Role permission matrix - mirrors backend/src/config/permissions.ts
+import { OrganizationRole } from '@shared/types';
+
+const ALL_ROLES: OrganizationRole[] = ['admin', 'member', 'guest'];
+const STAFF_ROLES: OrganizationRole[] = ['admin', 'member'];
+const ADMIN_ONLY: OrganizationRole[] = ['admin'];
+
+export const PERMISSIONS = {
+  'locations:read': ALL_ROLES,
+  'locations:create': STAFF_ROLES,
+  'locations:update': STAFF_ROLES,
+  'locations:delete': ADMIN_ONLY,
+  'spaces:read': ALL_ROLES,
+  'spaces:create': STAFF_ROLES,
+  'spaces:update': STAFF_ROLES,
+  'spaces:delete': ADMIN_ONLY,
+  'productTypes:read': ALL_ROLES,
+  'productTypes:create': STAFF_ROLES,
+  'productTypes:update': STAFF_ROLES,
+  'productTypes:delete': ADMIN_ONLY,
+  'productTypes:generateSpaces': ADMIN_ONLY,
+  'bookings:read': ALL_ROLES,
+  'bookings:create': STAFF_ROLES,
+  'bookings:update': STAFF_ROLES,
+  'bookings:cancel': STAFF_ROLES,
+  'waitlist:read': ALL_ROLES,
+  'waitlist:manage': STAFF_ROLES,
+  'invoices:read': STAFF_ROLES,
+  'invoices:create': STAFF_ROLES,
+  'invoices:recordPayment': STAFF_ROLES,
+  'invoices:refund': ADMIN_ONLY,
+  'invoices:void': ADMIN_ONLY,
+  'membershipPlans:read': ALL_ROLES,
+  'membershipPlans:create': STAFF_ROLES,
+  'membershipPlans:update': STAFF_ROLES,
+  'membershipPlans:delete': ADMIN_ONLY,
+  'subscriptions:read': ALL_ROLES,
+  'subscriptions:manage': STAFF_ROLES,
+  'contacts:read': ALL_ROLES,
+  'contacts:create': STAFF_ROLES,
+  'contacts:update': STAFF_ROLES,
+  'contacts:delete': ADMIN_ONLY,
+  'contacts:merge': ADMIN_ONLY,
+  'whatsapp:read': ALL_ROLES,
+  'whatsapp:send': STAFF_ROLES,
+  'whatsapp:configure': ADMIN_ONLY,
+  'analytics:read': ALL_ROLES,
+  'organization:read': ALL_ROLES,
+  'organization:manage': ADMIN_ONLY,
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: OrganizationRole | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return (PERMISSIONS[permission] as readonly OrganizationRole[]).includes(role);
+}